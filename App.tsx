@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Animated, Easing, StyleSheet, Text, View } from 'react-native';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import { MD3DarkTheme, MD3LightTheme, Provider as PaperProvider } from 'react-native-paper';
@@ -15,9 +15,20 @@ import { PayableBills } from './features/payables/components/PayableBills';
 import { Forecast } from './features/forecast/components/Forecast';
 import { Employees } from './features/employees/components/Employees';
 import { Reports } from './features/reports/components/Reports';
+import { Users } from './features/users/components/Users';
 import { UserProfile } from './features/profile/components/UserProfile';
+import { Diagnostics } from './features/diagnostics/components/Diagnostics';
 import { Login } from './features/auth/components/Login';
+import { SessionExpiryBanner } from './features/auth/components/SessionExpiryBanner';
+import { useOfflineSync } from './features/offline/hooks/useOfflineSync';
+import { useCrossTabQuerySync } from './features/sync/hooks/useCrossTabSync';
+import { usePermissions } from './features/auth/hooks/usePermissions';
+import { AppLockScreen } from './features/appLock/components/AppLockScreen';
+import { useAppLock } from './features/appLock/hooks/useAppLock';
+import { useAppLockTriggers } from './features/appLock/hooks/useAppLockTriggers';
 import { useResponsive } from './hooks/useResponsive';
+import { ErpService } from './services/erpService';
+import { resolveViewableModule } from './utils/access';
 
 function LoadingScreen() {
   const { colors } = useTheme();
@@ -116,20 +127,35 @@ function LoadingScreen() {
 function AppContent() {
   const [activeModule, setActiveModule] = useState('dashboard');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const { isAuthenticated, loading } = useAuth();
+  const { client, enterpriseId, isAuthenticated, loading } = useAuth();
   const { width, isTablet, isCompact } = useResponsive();
+  const erpService = useMemo(() => new ErpService(client), [client]);
+  const { permissions } = usePermissions();
+  const visibleModule = resolveViewableModule(permissions, activeModule);
+  const { ready: lockReady, locked } = useAppLock();
+  const { recordActivity } = useAppLockTriggers({ isAuthenticated, loading });
   const { colors } = useTheme();
   const useSideLayout = width >= 1024;
   const layoutDirection = useSideLayout ? 'row' : 'column';
 
+  useOfflineSync({ erpService, isAuthenticated: isAuthenticated && !loading });
+  useCrossTabQuerySync();
+
   useEffect(() => {
     if (isCompact && sidebarCollapsed) {
       setSidebarCollapsed(false);
     }
   }, [isCompact, sidebarCollapsed]);
 
+  // The sidebar already hides these; this covers modules opened before permissions were loaded.
+  useEffect(() => {
+    if (visibleModule !== activeModule) {
+      setActiveModule(visibleModule);
+    }
+  }, [activeModule, visibleModule]);
+
   const renderModule = () => {
-    switch (activeModule) {
+    switch (visibleModule) {
       case 'dashboard':
         return <Dashboard />;
       case 'products':
@@ -148,8 +174,12 @@ function AppContent() {
         return <Employees />;
       case 'reports':
         return <Reports />;
+      case 'users':
+        return <Users />;
       case 'profile':
         return <UserProfile />;
+      case 'diagnostics':
+        return __DEV__ ? <Diagnostics /> : <Dashboard />;
       default:
         return <Dashboard />;
     }
@@ -157,8 +187,8 @@ function AppContent() {
 
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.appBg }]} edges={['top', 'bottom']}>
-      <View style={[styles.container, { backgroundColor: colors.appBg }]}>
-        {loading ? (
+      <View style={[styles.container, { backgroundColor: colors.appBg }]} onTouchStart={recordActivity}>
+        {loading || !lockReady ? (
           <LoadingScreen />
         ) : !isAuthenticated ? (
           <Login />
@@ -187,10 +217,14 @@ function AppContent() {
                 isCompact && !useSideLayout && styles.mainContentCompact,
               ]}
             >
-              {renderModule()}
+              {/* Remounting on enterprise change drops per-screen state and reconnects live updates. */}
+              <React.Fragment key={enterpriseId ?? 'none'}>{renderModule()}</React.Fragment>
             </View>
           </View>
         )}
+        {isAuthenticated && !loading && !locked && <SessionExpiryBanner />}
+        {/* Overlaid rather than swapped in, so open forms keep their state while locked. */}
+        {isAuthenticated && !loading && locked && <AppLockScreen />}
       </View>
     </SafeAreaView>
   );
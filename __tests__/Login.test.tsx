@@ -6,6 +6,10 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useResponsive } from '../hooks/useResponsive';
 import { mockColors } from './test-utils';
 
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
 jest.mock('../contexts/AuthContext', () => ({
   useAuth: jest.fn(),
 }));
@@ -0,0 +1,66 @@
+import {
+  hasPermission,
+  readPermissionGrants,
+  resolveAccessRole,
+  resolvePermissions,
+  resolveViewableModule,
+} from '../utils/access';
+
+describe('Permission matrix', () => {
+  it('falls back to role defaults when no explicit grants exist', () => {
+    expect(resolveAccessRole(1)).toBe('manager');
+    expect(resolveAccessRole('Senior Supervisor')).toBe('supervisor');
+    expect(resolveAccessRole(null)).toBe('employee');
+
+    const supervisor = resolvePermissions('supervisor', null);
+    expect(hasPermission(supervisor, 'orders', 'delete')).toBe(true);
+    expect(hasPermission(supervisor, 'payables', 'approve')).toBe(false);
+
+    const employee = resolvePermissions('3', null);
+    expect(hasPermission(employee, 'orders', 'view')).toBe(true);
+    expect(hasPermission(employee, 'orders', 'create')).toBe(true);
+    expect(hasPermission(employee, 'customers', 'edit')).toBe(false);
+    expect(hasPermission(resolvePermissions('admin', null), 'diagnostics', 'delete')).toBe(true);
+  });
+
+  it('reads grants from claims, endpoint lists and module maps', () => {
+    expect(readPermissionGrants({ permissions: 'Orders:Read, orders.update, Product:*' })).toEqual([
+      'orders.edit',
+      'orders.view',
+      'products.*',
+    ]);
+    expect(
+      readPermissionGrants(
+        [{ module: 'payables', actions: ['view', 'pay'] }],
+        { permissions: { customers: ['view', 'manage'] } },
+        { token: 'jwt' },
+      ),
+    ).toEqual(['customers.*', 'customers.view', 'payables.approve', 'payables.view']);
+    expect(readPermissionGrants({ token: 'jwt', user: { name: 'Misato' } })).toBeNull();
+  });
+
+  it('ignores grant-shaped objects outside the permissions field', () => {
+    expect(readPermissionGrants({ customers: ['view', 'manage'] })).toBeNull();
+    expect(readPermissionGrants({ user: { orders: ['view'], permissions: ['orders.delete'] } })).toBeNull();
+    expect(readPermissionGrants({ Permissions: ['orders.delete'], data: { permissions: ['orders.delete'] } })).toBeNull();
+  });
+
+  it('lets explicit grants override the role and honours wildcards', () => {
+    const permissions = resolvePermissions('admin', ['orders.view', '*.export']);
+    expect(hasPermission(permissions, 'orders', 'view')).toBe(true);
+    expect(hasPermission(permissions, 'orders', 'delete')).toBe(false);
+    expect(hasPermission(permissions, 'reports', 'export')).toBe(true);
+    expect(hasPermission(permissions, 'dashboard', 'view')).toBe(false);
+  });
+
+  it('always allows the profile and lands on the first viewable module', () => {
+    const permissions = resolvePermissions('employee', ['orders.view', 'reports.export']);
+    expect(hasPermission(permissions, 'profile', 'view')).toBe(true);
+    expect(resolveViewableModule(permissions, 'dashboard')).toBe('orders');
+    expect(resolveViewableModule(permissions, 'profile')).toBe('profile');
+
+    const exportOnly = resolvePermissions('employee', ['reports.export']);
+    expect(resolveViewableModule(exportOnly, 'dashboard')).toBe('profile');
+    expect(resolveViewableModule(resolvePermissions('manager', null), 'dashboard')).toBe('dashboard');
+  });
+});
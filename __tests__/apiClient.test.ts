@@ -0,0 +1,160 @@
+import { ApiClient } from '../services/apiClient';
+import { AuthService } from '../services/authService';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('ApiClient token refresh', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const createClient = () => {
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    client.setToken('expired-token');
+    return client;
+  };
+
+  it('refreshes once on 401 and replays the request with the new token', async () => {
+    const client = createClient();
+    const refresh = jest.fn(async () => {
+      client.setToken('fresh-token');
+      return 'fresh-token';
+    });
+    client.setTokenRefreshHandler(refresh);
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401, {}))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 1 }));
+
+    const response = await client.request<{ id: number }>({ path: '/Order/GetOrder/1' });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(response.ok).toBe(true);
+    expect(response.data).toEqual({ id: 1 });
+    const replayHeaders = fetchMock.mock.calls[1][1].headers as Record<string, string>;
+    expect(replayHeaders.Authorization).toBe('Bearer fresh-token');
+  });
+
+  it('shares a single refresh between concurrent 401 responses', async () => {
+    const client = createClient();
+    const refresh = jest.fn(async () => {
+      client.setToken('fresh-token');
+      return 'fresh-token';
+    });
+    client.setTokenRefreshHandler(refresh);
+
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      return headers.Authorization === 'Bearer fresh-token'
+        ? jsonResponse(200, [])
+        : jsonResponse(401, {});
+    });
+
+    const [first, second] = await Promise.all([
+      client.request({ path: '/Customer/GetCustomer/1' }),
+      client.request({ path: '/Customer/GetCustomer/2' }),
+    ]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(first.ok).toBe(true);
+    expect(second.ok).toBe(true);
+  });
+
+  it('returns the original 401 when the refresh fails', async () => {
+    const client = createClient();
+    const refresh = jest.fn(async () => null);
+    client.setTokenRefreshHandler(refresh);
+
+    fetchMock.mockResolvedValue(jsonResponse(401, {}));
+
+    const response = await client.request({ path: '/Product/GetProductsByFilter/false/1/25' });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(401);
+  });
+
+  it('does not refresh when a password change rejects the current password', async () => {
+    const client = createClient();
+    const refresh = jest.fn(async () => 'fresh-token');
+    client.setTokenRefreshHandler(refresh);
+
+    fetchMock.mockResolvedValue(jsonResponse(401, {}));
+
+    const response = await new AuthService(client).changePassword({ currentPassword: 'wrong', newPassword: 'N3w-pass!' });
+
+    expect(refresh).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('ApiClient interceptors', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('runs request and response hooks for JSON and binary requests', async () => {
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    const seen: string[] = [];
+    client.use({
+      onRequest: (context) => {
+        context.headers['X-Trace-Id'] = 'trace-1';
+      },
+      onResponse: (response, context) => {
+        seen.push(`${context.responseType}:${response.status}`);
+      },
+    });
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, []))
+      .mockResolvedValueOnce(new Response('pdf', { status: 200 }));
+
+    await client.request({ path: '/Order/GetOrder/1' });
+    await client.requestBinary({ path: '/Bills/Pdf/1' });
+
+    expect(seen).toEqual(['json:200', 'binary:200']);
+    fetchMock.mock.calls.forEach(([, init]) => {
+      expect((init.headers as Record<string, string>)['X-Trace-Id']).toBe('trace-1');
+    });
+  });
+
+  it('lets an error hook recover by replaying the request', async () => {
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    const removeRetry = client.use({
+      onError: (_error, _response, context) => (context.attempt === 0 ? context.replay() : undefined),
+    });
+
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 7 }));
+
+    const response = await client.request<{ id: number }>({ path: '/Order/GetOrder/7' });
+    expect(response.data).toEqual({ id: 7 });
+
+    removeRetry();
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    const failed = await client.request({ path: '/Order/GetOrder/7' });
+    expect(failed.error).toBe('Failed to sync (status 0)');
+  });
+});
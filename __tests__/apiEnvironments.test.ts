@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ApiEnvironmentStore,
+  DEFAULT_API_ENVIRONMENT_ID,
+  createApiServices,
+  rememberedDeviceStorageKey,
+  resolveOrdersHubUrl,
+  sessionStorageKey,
+  twoFactorChallengeStorageKey,
+} from '../services/apiEnvironments';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('API environments', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(async () => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('persists profiles and the active one across store instances', async () => {
+    const store = new ApiEnvironmentStore();
+    const staging = await store.save({
+      name: ' Staging ',
+      baseUrl: 'https://staging.erp.test/api/v1/',
+      authPath: '/Auth/Login',
+      ordersHubUrl: '',
+      timeoutMs: 5000,
+    });
+    await store.setActive(staging.id);
+
+    const restored = new ApiEnvironmentStore();
+    await restored.load();
+    const snapshot = restored.getSnapshot();
+
+    expect(snapshot.environments.map((entry) => entry.id)).toEqual([DEFAULT_API_ENVIRONMENT_ID, staging.id]);
+    expect(snapshot.active).toMatchObject({
+      name: 'Staging',
+      baseUrl: 'https://staging.erp.test/api/v1',
+      authPath: '/Auth/Login',
+      timeoutMs: 5000,
+    });
+    expect(resolveOrdersHubUrl(snapshot.active)).toBe('https://staging.erp.test/orderHub');
+    await expect(restored.save({ ...snapshot.environments[0] })).rejects.toThrow();
+  });
+
+  it('keeps sessions apart and drops a removed environment session', async () => {
+    const store = new ApiEnvironmentStore();
+    const qa = await store.save({ name: 'QA', baseUrl: 'https://qa.erp.test/api/v1', authPath: '/User/LogInto', timeoutMs: 15000 });
+    await store.setActive(qa.id);
+
+    expect(sessionStorageKey(DEFAULT_API_ENVIRONMENT_ID)).toBe('authToken');
+    expect(sessionStorageKey(qa.id)).not.toBe('authToken');
+    await AsyncStorage.setItem('authToken', 'default-session');
+    await AsyncStorage.setItem(sessionStorageKey(qa.id), 'qa-session');
+
+    await store.remove(qa.id);
+
+    expect(store.getSnapshot().active.id).toBe(DEFAULT_API_ENVIRONMENT_ID);
+    expect(await AsyncStorage.getItem(sessionStorageKey(qa.id))).toBeNull();
+    expect(await AsyncStorage.getItem('authToken')).toBe('default-session');
+  });
+
+  it('drops every custom environment session on reset', async () => {
+    const store = new ApiEnvironmentStore();
+    const qa = await store.save({ name: 'QA', baseUrl: 'https://qa.erp.test/api/v1', authPath: '/User/LogInto', timeoutMs: 15000 });
+    const staging = await store.save({
+      name: 'Staging',
+      baseUrl: 'https://staging.erp.test/api/v1',
+      authPath: '/User/LogInto',
+      timeoutMs: 15000,
+    });
+    await store.setActive(staging.id);
+    await AsyncStorage.setItem('authToken', 'default-session');
+    await AsyncStorage.setItem(sessionStorageKey(qa.id), 'qa-session');
+    await AsyncStorage.setItem(twoFactorChallengeStorageKey(qa.id), 'qa-challenge');
+    await AsyncStorage.setItem(rememberedDeviceStorageKey(staging.id), 'staging-device');
+
+    await store.reset();
+
+    expect(store.getSnapshot().environments.map((entry) => entry.id)).toEqual([DEFAULT_API_ENVIRONMENT_ID]);
+    expect(await AsyncStorage.getItem(sessionStorageKey(qa.id))).toBeNull();
+    expect(await AsyncStorage.getItem(twoFactorChallengeStorageKey(qa.id))).toBeNull();
+    expect(await AsyncStorage.getItem(rememberedDeviceStorageKey(staging.id))).toBeNull();
+    expect(await AsyncStorage.getItem('authToken')).toBe('default-session');
+  });
+
+  it('builds a client and auth service bound to the environment', async () => {
+    const { client, authService } = createApiServices({
+      id: 'env-qa',
+      name: 'QA',
+      baseUrl: 'https://qa.erp.test/api/v1',
+      authPath: '/Auth/SignIn',
+      timeoutMs: 15000,
+    });
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ token: 'abc' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+
+    await authService.login({ username: 'misato', password: 'secret' });
+
+    expect(client.getBaseUrl()).toBe('https://qa.erp.test/api/v1');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://qa.erp.test/api/v1/Auth/SignIn');
+  });
+
+  it('uses the environment profile for account and two-factor paths', async () => {
+    const { authService } = createApiServices({
+      id: 'env-qa',
+      name: 'QA',
+      baseUrl: 'https://qa.erp.test/api/v1',
+      authPath: '/Auth/SignIn',
+      enterprisesPath: '/Auth/Tenants',
+      forgotPasswordPath: '/Auth/Forgot',
+      twoFactorPath: '/Auth/Mfa',
+      timeoutMs: 15000,
+    });
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(JSON.stringify({}), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        }),
+    );
+
+    await authService.fetchEnterprises();
+    await authService.requestPasswordReset('misato@nerv.test');
+    await authService.fetchTwoFactorStatus();
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://qa.erp.test/api/v1/Auth/Tenants',
+      'https://qa.erp.test/api/v1/Auth/Forgot',
+      'https://qa.erp.test/api/v1/Auth/Mfa',
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { ApiClient } from '../services/apiClient';
+import { buildApiError } from '../services/apiError';
+import { describeApiError } from '../utils/apiErrors';
+import { mapCustomerServerErrors } from '../utils/customers/validation';
+
+const translate = (key: string, vars?: Record<string, string | number>) =>
+  Object.entries(vars ?? {}).reduce((acc, [name, value]) => acc.replace(`{${name}}`, String(value)), key);
+
+describe('ApiError', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const createClient = () => new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+
+  it('parses ProblemDetails validation errors and the request id', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          title: 'One or more validation errors occurred.',
+          errors: { 'Customer.PhoneNumber': ['Phone is invalid'], Email: ['Email already in use'] },
+        }),
+        { status: 400, headers: { 'content-type': 'application/problem+json', 'x-request-id': 'req-42' } },
+      ),
+    );
+
+    const response = await createClient().request({ path: '/Customer/AddCustomer', method: 'POST', body: {} });
+
+    expect(response.apiError).toMatchObject({
+      kind: 'validation',
+      status: 400,
+      requestId: 'req-42',
+      fieldErrors: { phonenumber: ['Phone is invalid'], email: ['Email already in use'] },
+    });
+    expect(mapCustomerServerErrors(response.apiError)).toEqual({
+      phone: 'Phone is invalid',
+      email: 'Email already in use',
+    });
+  });
+
+  it('classifies network failures and timeouts', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    const offline = await createClient().request({ path: '/Order/GetOrder/1' });
+    expect(offline.apiError?.kind).toBe('network');
+    expect(offline.error).toBe('Failed to sync (status 0)');
+
+    const abortError = new Error('aborted');
+    abortError.name = 'AbortError';
+    fetchMock.mockRejectedValueOnce(abortError);
+    const timedOut = await createClient().request({ path: '/Order/GetOrder/1' });
+    expect(timedOut.apiError?.kind).toBe('timeout');
+  });
+
+  it('describes errors through the translator and falls back to the raw message', () => {
+    const conflict = buildApiError({ status: 409, data: { traceId: 'trace-9' } });
+    expect(describeApiError(translate, { apiError: conflict }, 'Unable to update order')).toBe(
+      'Unable to update order: This record was changed elsewhere. Reload and try again. (request trace-9)',
+    );
+    const missing = buildApiError({ status: 404, data: { title: 'Order not found' } });
+    expect(missing.kind).toBe('notFound');
+    expect(describeApiError(translate, { apiError: missing }, 'Unable to update order')).toBe(
+      'Unable to update order: This record no longer exists. Reload and try again.',
+    );
+    expect(describeApiError(translate, { error: 'Boom' }, 'Unable to update order')).toBe('Boom');
+    expect(describeApiError(translate, null, 'Unable to update order')).toBe('Unable to update order');
+  });
+});
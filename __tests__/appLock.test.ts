@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createHash } from 'crypto';
+import { APP_LOCK_MAX_ATTEMPTS, AppLockStore, hashPin } from '../services/appLock';
+import { secureStorage } from '../services/secureStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('expo-secure-store', () => {
+  const keychain = new Map<string, string>();
+  return {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 6,
+    getItemAsync: async (key: string) => keychain.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      keychain.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      keychain.delete(key);
+    },
+  };
+});
+
+jest.mock('expo-crypto', () => {
+  const { createHash: hash, randomBytes } = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { HEX: 'hex' },
+    digestStringAsync: async (_algorithm: string, data: string) => hash('sha256').update(data, 'utf8').digest('hex'),
+    getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+    getRandomBytesAsync: async (count: number) => new Uint8Array(randomBytes(count)),
+  };
+});
+
+const sha256 = (value: string) => createHash('sha256').update(value, 'utf8').digest('hex');
+
+describe('App lock', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('hashes with SHA-256 and keeps the config encrypted at rest', async () => {
+    let expected = sha256('salt:2468');
+    for (let round = 1; round < 2000; round += 1) {
+      expected = sha256(`${expected}salt`);
+    }
+    expect(await hashPin('2468', 'salt')).toBe(expected);
+
+    const store = new AppLockStore();
+    await store.setPin('2468');
+    const raw = await AsyncStorage.getItem('appLock:config');
+    expect(raw?.startsWith('enc:v1:')).toBe(true);
+    const stored = await secureStorage.getItem('appLock:config');
+    expect(stored).not.toContain('2468');
+    const { salt, pinHash } = JSON.parse(stored ?? '{}');
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(pinHash).toBe(await hashPin('2468', salt));
+    await expect(store.setPin('12a4')).rejects.toThrow('PIN must have 4 to 6 digits.');
+  });
+
+  it('starts locked on cold start and unlocks with the right PIN', async () => {
+    await new AppLockStore().setPin('135790');
+
+    const store = new AppLockStore();
+    await store.load();
+    expect(store.getSnapshot()).toMatchObject({ enabled: true, locked: true, pinLength: 6 });
+
+    expect(await store.unlock('000000')).toBe('invalid');
+    expect(store.getSnapshot().remainingAttempts).toBe(APP_LOCK_MAX_ATTEMPTS - 1);
+    expect(await store.unlock('135790')).toBe('unlocked');
+    expect(store.getSnapshot()).toMatchObject({ locked: false, remainingAttempts: APP_LOCK_MAX_ATTEMPTS });
+  });
+
+  it('locks out after repeated failures and only a sign-in releases it', async () => {
+    const store = new AppLockStore();
+    await store.setPin('1111');
+    store.lock();
+
+    const results = [];
+    for (let attempt = 0; attempt < APP_LOCK_MAX_ATTEMPTS; attempt += 1) {
+      results.push(await store.unlock('9999'));
+    }
+    expect(results.slice(0, -1).every((result) => result === 'invalid')).toBe(true);
+    expect(results[results.length - 1]).toBe('lockedOut');
+    expect(store.getSnapshot().locked).toBe(true);
+
+    await store.release();
+    expect(store.getSnapshot()).toMatchObject({ locked: false, remainingAttempts: APP_LOCK_MAX_ATTEMPTS });
+  });
+});
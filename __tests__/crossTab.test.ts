@@ -0,0 +1,74 @@
+import { ApiClient } from '../services/apiClient';
+import { CrossTabBridge, CrossTabMessage, CrossTabTransport } from '../services/crossTab';
+import { ErpService } from '../services/erpService';
+import { QueryCache } from '../services/queryCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Every tab posts to and hears from the same hub, including its own messages, like a storage-event fallback.
+const createHub = () => {
+  const receivers = new Set<Parameters<CrossTabTransport['listen']>[0]>();
+  return (): CrossTabTransport => ({
+    post: (envelope) => receivers.forEach((receive) => receive(envelope)),
+    listen: (receive) => {
+      receivers.add(receive);
+      return () => {
+        receivers.delete(receive);
+      };
+    },
+  });
+};
+
+describe('Cross-tab bridge', () => {
+  it('delivers messages to the other tabs only and detaches when nobody listens', () => {
+    const hub = createHub();
+    const first = new CrossTabBridge(hub());
+    const second = new CrossTabBridge(hub());
+    const heardByFirst: CrossTabMessage[] = [];
+    const heardBySecond: CrossTabMessage[] = [];
+
+    const stopFirst = first.subscribe((message) => heardByFirst.push(message));
+    const stopSecond = second.subscribe((message) => heardBySecond.push(message));
+
+    first.publish({ type: 'session', environmentId: 'default', signedIn: false });
+    expect(heardByFirst).toEqual([]);
+    expect(heardBySecond).toEqual([{ type: 'session', environmentId: 'default', signedIn: false }]);
+
+    stopSecond();
+    first.publish({ type: 'theme', userKey: 'rei', theme: 'light' });
+    expect(heardBySecond).toHaveLength(1);
+    stopFirst();
+  });
+
+  it('is a no-op without a transport', () => {
+    const bridge = new CrossTabBridge(null);
+    const listener = jest.fn();
+    const stop = bridge.subscribe(listener);
+    bridge.publish({ type: 'mutation', scopes: ['orders'] });
+    expect(listener).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('announces the cache scopes a successful mutation touched', async () => {
+    const hub = createHub();
+    const otherTab = new CrossTabBridge(hub());
+    const heard: CrossTabMessage[] = [];
+    const stop = otherTab.subscribe((message) => heard.push(message));
+
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    const service = new ErpService(client, null, new QueryCache(), undefined, undefined, new CrossTabBridge(hub()));
+    const request = jest
+      .spyOn(client, 'request')
+      .mockResolvedValueOnce({ ok: true, status: 200, data: null, headers: {} })
+      .mockResolvedValueOnce({ ok: false, status: 409, data: null, error: 'Conflict', headers: {} });
+
+    await service.deleteProduct(7);
+    await service.deleteProduct(8);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(heard).toEqual([{ type: 'mutation', scopes: ['products'] }]);
+    stop();
+  });
+});
@@ -0,0 +1,99 @@
+import { ApiClient } from '../services/apiClient';
+import { EndpointCapabilityStore } from '../services/endpointCapabilities';
+import { ErpService } from '../services/erpService';
+import { QueryCache } from '../services/queryCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const emptyResponse = (status: number) => new Response(null, { status });
+
+describe('Endpoint capability discovery', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const createService = (store: EndpointCapabilityStore) =>
+    new ErpService(
+      new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' }),
+      null,
+      new QueryCache(),
+      store,
+    );
+
+  it('probes deleteOrder once and reuses the working variant', async () => {
+    const store = new EndpointCapabilityStore();
+    const service = createService(store);
+
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) =>
+      init.method === 'POST' && String(init.body).includes('orderId')
+        ? emptyResponse(200)
+        : emptyResponse(405),
+    );
+
+    const first = await service.deleteOrder(7);
+    expect(first.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(store.get('http://erp.test/api/v1').deleteOrder?.variant).toBe('POST /Order/DeleteOrder { orderId }');
+
+    fetchMock.mockClear();
+    const second = await createService(store).deleteOrder(8);
+    expect(second.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores remembered variants per base URL', async () => {
+    const store = new EndpointCapabilityStore();
+    await store.remember('http://erp.test/api/v1', 'updateOrder', 'POST /Order/UpdateOrder');
+
+    const restored = new EndpointCapabilityStore();
+    const service = createService(restored);
+    fetchMock.mockResolvedValue(emptyResponse(200));
+
+    await service.updateOrder({ id: 1, status: 0, updatedAt: new Date().toISOString() });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].method).toBe('POST');
+  });
+
+  it('keeps the remembered variant when the record itself is missing', async () => {
+    const store = new EndpointCapabilityStore();
+    await store.remember('http://erp.test/api/v1', 'deleteOrder', 'DELETE /Order/DeleteOrder/{id}');
+    const service = createService(store);
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ title: 'Not Found', status: 404, detail: 'Order 10 not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/problem+json' },
+      }),
+    );
+
+    const response = await service.deleteOrder(10);
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    fetchMock.mockResolvedValue(emptyResponse(500));
+    await createService(new EndpointCapabilityStore()).deleteOrder(11);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops probing when the server answers with a real error', async () => {
+    const service = createService(new EndpointCapabilityStore());
+    fetchMock.mockResolvedValue(emptyResponse(409));
+
+    const response = await service.deleteOrder(9);
+
+    expect(response.status).toBe(409);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
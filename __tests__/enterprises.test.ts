@@ -0,0 +1,60 @@
+import { ApiClient } from '../services/apiClient';
+import { AuthService } from '../services/authService';
+import { areEnterprisesEqual, mergeEnterprises } from '../utils/enterprises';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+describe('Enterprise switching', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('merges enterprises from the session, token claims and endpoint without losing names', () => {
+    const merged = mergeEnterprises(
+      '3',
+      [{ id: 1, fantasyName: 'NERV HQ' }],
+      { enterprises: '["1","2"]' },
+      { data: [{ EnterpriseId: '2', Name: 'Marduk' }, { id: '' }] },
+    );
+
+    expect(merged).toEqual([
+      { id: '1', name: 'NERV HQ' },
+      { id: '2', name: 'Marduk' },
+      { id: '3', name: null },
+    ]);
+    expect(areEnterprisesEqual(merged, mergeEnterprises('3', merged))).toBe(true);
+    expect(mergeEnterprises(null, 'abc, def')).toEqual([
+      { id: 'abc', name: null },
+      { id: 'def', name: null },
+    ]);
+  });
+
+  it('requests the enterprise list and a token for the selected enterprise', async () => {
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    client.setToken('jwt');
+    const service = new AuthService(client);
+    fetchMock
+      .mockImplementationOnce(async () => jsonResponse([{ id: '1', name: 'NERV HQ' }]))
+      .mockImplementationOnce(async () => jsonResponse({ token: 'scoped', expiresIn: 3600 }));
+
+    const list = await service.fetchEnterprises();
+    const switched = await service.switchEnterprise('2');
+
+    expect(list.data).toEqual([{ id: '1', name: 'NERV HQ' }]);
+    expect(switched.data).toMatchObject({ token: 'scoped' });
+    const [listUrl] = fetchMock.mock.calls[0];
+    const [switchUrl, switchInit] = fetchMock.mock.calls[1];
+    expect(listUrl).toBe('http://erp.test/api/v1/User/GetEnterprises');
+    expect(switchUrl).toBe('http://erp.test/api/v1/User/SwitchEnterprise');
+    expect(switchInit).toMatchObject({ method: 'POST', body: JSON.stringify({ enterpriseId: '2' }) });
+  });
+});
@@ -0,0 +1,107 @@
+import { ApiClient, ApiResponse } from '../services/apiClient';
+import { ErpService } from '../services/erpService';
+import { QueryCache } from '../services/queryCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+type Row = { id: number };
+
+const page = (data: Row[] | null, status = 200): ApiResponse<Row[]> => ({
+  data,
+  status,
+  ok: status >= 200 && status < 300,
+  error: status >= 200 && status < 300 ? undefined : `Failed to sync (status ${status})`,
+  headers: {},
+});
+
+const rows = (from: number, count: number) => Array.from({ length: count }, (_, index) => ({ id: from + index }));
+
+describe('ErpService.fetchAll', () => {
+  const createService = () =>
+    new ErpService(new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' }), null, new QueryCache());
+
+  it('walks pages until an empty one and reports progress', async () => {
+    const service = createService();
+    const fetchPage = jest.fn(async (pageNumber: number) =>
+      page(pageNumber <= 3 ? rows((pageNumber - 1) * 2, 2) : []),
+    );
+    const progress: number[] = [];
+
+    const result = await service.fetchAll<Row>(fetchPage, {
+      pageSize: 2,
+      concurrency: 2,
+      onProgress: ({ rowsLoaded }) => progress.push(rowsLoaded),
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.data.map((row) => row.id)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(progress).toEqual([2, 4, 6, 6]);
+    expect(fetchPage).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops when a backend ignores paging and repeats the same rows', async () => {
+    const service = createService();
+    const fetchPage = jest.fn(async () => page(rows(1, 3)));
+
+    const result = await service.fetchAll<Row>(fetchPage, { maxPages: 10 });
+
+    expect(result.data).toHaveLength(3);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the rows loaded so far when a page fails or the walk is aborted', async () => {
+    const service = createService();
+    const failing = jest.fn(async (pageNumber: number) => (pageNumber === 1 ? page(rows(1, 2)) : page(null, 500)));
+
+    const failed = await service.fetchAll<Row>(failing);
+    expect(failed.ok).toBe(false);
+    expect(failed.partial).toBe(true);
+    expect(failed.data).toHaveLength(2);
+
+    const controller = new AbortController();
+    const aborting = jest.fn(async (pageNumber: number) => {
+      if (pageNumber === 2) {
+        controller.abort();
+      }
+      return page(rows(pageNumber * 10, 2));
+    });
+
+    const aborted = await service.fetchAll<Row>(aborting, { signal: controller.signal });
+    expect(aborted.aborted).toBe(true);
+    expect(aborted.ok).toBe(false);
+    expect(aborted.data).toHaveLength(2);
+  });
+
+  it('reports a walk cut short by maxPages as partial and hands the signal to each page', async () => {
+    const service = createService();
+    const controller = new AbortController();
+    const fetchPage = jest.fn(async (pageNumber: number) => page(rows(pageNumber * 10, 2)));
+
+    const capped = await service.fetchAll<Row>(fetchPage, { pageSize: 2, maxPages: 2, signal: controller.signal });
+
+    expect(capped.ok).toBe(true);
+    expect(capped.partial).toBe(true);
+    expect(capped.truncated).toBe(true);
+    expect(capped.data).toHaveLength(4);
+    expect(fetchPage).toHaveBeenCalledWith(1, 2, controller.signal);
+    expect(fetchPage).toHaveBeenCalledWith(3, 2, controller.signal);
+
+    const endsAtCap = jest.fn(async (pageNumber: number) => page(pageNumber <= 2 ? rows(pageNumber * 10, 2) : []));
+    const complete = await service.fetchAll<Row>(endsAtCap, { pageSize: 2, maxPages: 2 });
+    expect(complete.partial).toBe(false);
+    expect(complete.truncated).toBe(false);
+  });
+
+  it('detects truncation when the backend serves smaller pages than asked for', async () => {
+    const service = createService();
+    const fetchPage = jest.fn(async (pageNumber: number) => page(rows(pageNumber * 10, 3)));
+
+    const result = await service.fetchAll<Row>(fetchPage, { pageSize: 5, maxPages: 2 });
+
+    expect(result.data).toHaveLength(6);
+    expect(result.truncated).toBe(true);
+    expect(result.partial).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { FormDraftStore, formDraftStorageKey, resolveFormDraftOwner } from '../services/formDrafts';
+import { formatSessionCountdown, isSessionExpiring } from '../utils/security/session';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+describe('Form drafts', () => {
+  it('hands a draft back only to the user who wrote it, until it is discarded', async () => {
+    const storage = createMemoryStorage();
+    const store = new FormDraftStore(storage);
+    const owner = resolveFormDraftOwner({ id: null, email: 'rei@nerv.jp', name: 'Rei' });
+    expect(owner).toBe('rei@nerv.jp');
+
+    await store.save('default', 'payableBill', 'rei@nerv.jp', { description: 'Power bill', amountInput: '120' });
+    expect(storage.items.has(formDraftStorageKey('default', 'payableBill'))).toBe(true);
+
+    await expect(store.load('default', 'payableBill', 'rei@nerv.jp')).resolves.toEqual({
+      description: 'Power bill',
+      amountInput: '120',
+    });
+    await expect(store.load('default', 'payableBill', 'asuka@nerv.jp')).resolves.toBeNull();
+    await expect(store.load('staging', 'payableBill', 'rei@nerv.jp')).resolves.toBeNull();
+
+    await store.discard('default', 'payableBill');
+    await expect(store.load('default', 'payableBill', 'rei@nerv.jp')).resolves.toBeNull();
+  });
+
+  it('drops drafts older than a week', async () => {
+    const storage = createMemoryStorage();
+    const store = new FormDraftStore(storage);
+    const savedAt = Date.UTC(2026, 0, 1);
+
+    await store.save('default', 'order', 'rei', { items: [] }, savedAt);
+    await expect(store.load('default', 'order', 'rei', savedAt + 24 * 60 * 60 * 1000)).resolves.toEqual({ items: [] });
+    await expect(store.load('default', 'order', 'rei', savedAt + 8 * 24 * 60 * 60 * 1000)).resolves.toBeNull();
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('warns only in the last minutes of a session', () => {
+    const now = Date.UTC(2026, 0, 1, 12);
+    expect(isSessionExpiring(null, now)).toBe(false);
+    expect(isSessionExpiring(now + 10 * 60 * 1000, now)).toBe(false);
+    expect(isSessionExpiring(now + 4 * 60 * 1000, now)).toBe(true);
+    expect(isSessionExpiring(now - 1000, now)).toBe(false);
+    expect(formatSessionCountdown(245_000)).toBe('4:05');
+    expect(formatSessionCountdown(400)).toBe('0:01');
+    expect(formatSessionCountdown(-10)).toBe('0:00');
+  });
+});
@@ -0,0 +1,86 @@
+import { ApiClient } from '../services/apiClient';
+import { EndpointCapabilityStore } from '../services/endpointCapabilities';
+import { ErpService } from '../services/erpService';
+import { PRODUCT_SCHEMA, SchemaDriftReport } from '../services/normalizerSchemas';
+import { QueryCache } from '../services/queryCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('Normalizer schemas', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('reads casing variants and aliases and records what was used', () => {
+    const report = new SchemaDriftReport();
+
+    const values = report.read(PRODUCT_SCHEMA, {
+      Id: 7,
+      Name: ' Widget ',
+      pictureAdress: 'http://cdn.test/widget.png',
+      DefaultValue: '12,5',
+      legacyFlag: true,
+    });
+    jest.runAllTimers();
+
+    expect(values).toMatchObject({ id: 7, name: 'Widget', pictureAddress: 'http://cdn.test/widget.png', defaultValue: 12.5 });
+    const entry = report.getSnapshot().product;
+    expect(entry?.samples).toBe(1);
+    expect(entry?.aliasHits.pictureAddress).toEqual({ pictureAdress: 1 });
+    expect(entry?.aliasHits.name).toEqual({ Name: 1 });
+    expect(entry?.unknown).toEqual({ legacyFlag: 1 });
+    expect(entry?.missing).toEqual({});
+  });
+
+  it('drives ErpService normalization and reports missing required fields', async () => {
+    const report = new SchemaDriftReport();
+    const service = new ErpService(
+      new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' }),
+      null,
+      new QueryCache(),
+      new EndpointCapabilityStore(),
+      report,
+    );
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify([
+          {
+            OrderId: '12',
+            CustomerID: 'c-1',
+            PaymentDate: '2024-05-01',
+            OrderStatus: 2,
+            orderedProducts: [{ ProductId: 3, qty: 2, UnitPrice: 5 }],
+          },
+        ]),
+        { status: 200, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+
+    const response = await service.fetchOrders();
+    jest.runAllTimers();
+
+    expect(response.data?.[0]).toMatchObject({
+      id: 12,
+      customer: 'Unknown customer',
+      customerId: 'c-1',
+      paymentDate: '2024-05-01',
+      status: 'Paid',
+      items: 2,
+      total: 0,
+    });
+    expect(response.data?.[0].orderedProduct?.[0]).toMatchObject({ productId: 3, quantity: 2, value: 5 });
+    const order = report.getSnapshot().order;
+    expect(order?.missing).toEqual({ customer: 1, totalValue: 1 });
+    expect(order?.aliasHits.paymentDate).toEqual({ PaymentDate: 1 });
+  });
+});
@@ -0,0 +1,39 @@
+import { parseOAuthScopes, resolveOAuthProviders } from '../utils/security/oauthProviders';
+
+describe('OAuth providers', () => {
+  it('offers nothing until a provider is configured', () => {
+    expect(resolveOAuthProviders({})).toEqual([]);
+    // Generic OIDC needs both the issuer and the client id.
+    expect(resolveOAuthProviders({ oidcClientId: 'erp-web' })).toEqual([]);
+  });
+
+  it('resolves Microsoft and generic OIDC with their defaults', () => {
+    const [microsoft, oidc] = resolveOAuthProviders({
+      microsoftClientId: ' ms-client ',
+      oidcIssuer: 'https://sso.nerv.jp/realms/erp/',
+      oidcClientId: 'erp-web',
+      oidcLabel: 'NERV SSO',
+      oidcCodeAuthPath: '/User/LoginWithKeycloakCode',
+    });
+
+    expect(microsoft).toMatchObject({
+      id: 'microsoft',
+      clientId: 'ms-client',
+      issuer: 'https://login.microsoftonline.com/common/v2.0',
+      scopes: ['openid', 'profile', 'email', 'offline_access'],
+      exchangePath: '/User/LoginWithMicrosoftCode',
+    });
+    expect(oidc).toMatchObject({
+      id: 'oidc',
+      label: 'NERV SSO',
+      issuer: 'https://sso.nerv.jp/realms/erp',
+      scopes: ['openid', 'profile', 'email'],
+      exchangePath: '/User/LoginWithKeycloakCode',
+    });
+  });
+
+  it('reads scopes separated by spaces or commas', () => {
+    expect(parseOAuthScopes('openid, User.Read  openid', [])).toEqual(['openid', 'User.Read']);
+    expect(parseOAuthScopes('  ', ['openid'])).toEqual(['openid']);
+  });
+});
@@ -0,0 +1,141 @@
+import { ApiResponse } from '../services/apiClient';
+import { buildApiError } from '../services/apiError';
+import { OfflineMutationQueue, canQueueMutation } from '../services/offlineQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const result = (status: number): ApiResponse<unknown> => ({
+  data: null,
+  ok: status >= 200 && status < 300,
+  status,
+  headers: {},
+});
+
+const scope = { environmentId: 'default', userId: 'user-1' };
+
+describe('OfflineMutationQueue', () => {
+  it('replays mutations in order and stops at the first unreachable request', async () => {
+    const queue = new OfflineMutationQueue('test:offline:order');
+    queue.setScope(scope);
+    await queue.enqueue('createOrder', { customer: 'Misato' });
+    await queue.enqueue('updateOrder', { id: 1 });
+    await queue.enqueue('deleteOrder', 2);
+
+    const seen: string[] = [];
+    const outcome = await queue.replay(async (entry) => {
+      seen.push(entry.kind);
+      return result(entry.kind === 'updateOrder' ? 0 : 200);
+    });
+
+    expect(seen).toEqual(['createOrder', 'updateOrder']);
+    expect(outcome).toEqual({ synced: 1, remaining: 2, stoppedOffline: true });
+    expect(queue.getSnapshot().entries.map((entry) => entry.status)).toEqual(['pending', 'pending']);
+    expect(queue.getSnapshot().syncedVersion.order).toBe(1);
+  });
+
+  it('keeps conflicts and permanent failures for manual resolution', async () => {
+    const queue = new OfflineMutationQueue('test:offline:customer');
+    queue.setScope(scope);
+    await queue.enqueue('updateCustomer', { id: 1 });
+    await queue.enqueue('createCustomer', { name: 'Rei' });
+
+    await queue.replay(async (entry) => result(entry.kind === 'updateCustomer' ? 409 : 400));
+
+    const [conflict, failed] = queue.getSnapshot().entries;
+    expect(conflict.status).toBe('conflict');
+    expect(failed.status).toBe('failed');
+
+    await queue.retry(conflict.id);
+    await queue.discard(failed.id);
+    await queue.replay(async () => result(200));
+
+    expect(queue.getSnapshot().entries).toEqual([]);
+  });
+
+  it('holds later edits to a record behind its conflict until it is resolved', async () => {
+    const queue = new OfflineMutationQueue('test:offline:record');
+    queue.setScope(scope);
+    await queue.enqueue('updateOrder', { id: 7, status: 'Paid' });
+    await queue.enqueue('updateOrder', { id: 8 });
+    await queue.enqueue('updateOrder', { id: 7, status: 'Shipped' });
+    await queue.enqueue('deleteOrder', 7);
+
+    const seen: unknown[] = [];
+    const outcome = await queue.replay(async (entry) => {
+      seen.push(entry.payload);
+      return result((entry.payload as { id?: number }).id === 7 ? 409 : 200);
+    });
+
+    expect(seen).toEqual([{ id: 7, status: 'Paid' }, { id: 8 }]);
+    expect(outcome).toEqual({ synced: 1, remaining: 3, stoppedOffline: false });
+    expect(queue.getSnapshot().entries.map((entry) => entry.status)).toEqual(['conflict', 'pending', 'pending']);
+
+    // Still held on the next run while the conflict is unresolved.
+    await queue.replay(async (entry) => {
+      seen.push(entry.payload);
+      return result(200);
+    });
+    expect(seen).toHaveLength(2);
+
+    const [conflict] = queue.getSnapshot().entries;
+    await queue.discard(conflict.id);
+    await queue.replay(async (entry) => {
+      seen.push(entry.payload);
+      return result(200);
+    });
+    expect(seen.slice(2)).toEqual([{ id: 7, status: 'Shipped' }, 7]);
+    expect(queue.getSnapshot().entries).toEqual([]);
+  });
+
+  it('never replays a create that timed out', async () => {
+    const timedOut: ApiResponse<unknown> = {
+      ...result(0),
+      apiError: buildApiError({ status: 0, timedOut: true }),
+    };
+    expect(canQueueMutation('createOrder', timedOut)).toBe(false);
+    expect(canQueueMutation('updateOrder', timedOut)).toBe(true);
+    expect(canQueueMutation('createOrder', result(0))).toBe(true);
+
+    const queue = new OfflineMutationQueue('test:offline:timeout');
+    queue.setScope(scope);
+    await queue.enqueue('createCustomer', { name: 'Asuka' });
+    const outcome = await queue.replay(async () => timedOut);
+
+    expect(outcome.stoppedOffline).toBe(false);
+    expect(queue.getSnapshot().entries[0].status).toBe('failed');
+  });
+
+  it('keeps each user and environment to their own entries', async () => {
+    const queue = new OfflineMutationQueue('test:offline:scoped');
+    queue.setScope(scope);
+    await queue.enqueue('updateOrder', { id: 1 });
+
+    queue.setScope({ environmentId: 'default', userId: 'user-2' });
+    await queue.load();
+    expect(queue.getSnapshot().entries).toEqual([]);
+
+    queue.setScope(null);
+    expect(await queue.enqueue('updateOrder', { id: 2 })).toBeNull();
+    const outcome = await queue.replay(async () => result(200));
+    expect(outcome.synced).toBe(0);
+
+    queue.setScope(scope);
+    await queue.load();
+    expect(queue.getSnapshot().entries).toHaveLength(1);
+  });
+
+  it('restores persisted entries on load', async () => {
+    const first = new OfflineMutationQueue('test:offline:bills');
+    first.setScope(scope);
+    await first.enqueue('createPayableBill', { description: 'Power grid' });
+
+    const restored = new OfflineMutationQueue('test:offline:bills');
+    restored.setScope(scope);
+    await restored.load();
+
+    expect(restored.getSnapshot().entries).toHaveLength(1);
+    expect(restored.getSnapshot().entries[0].entity).toBe('payableBill');
+  });
+});
@@ -0,0 +1,27 @@
+import { Order } from '../services/erpService';
+import { groupOrdersByStatus, resolveDropColumnIndex } from '../utils/orders/board';
+import { ORDER_STATUSES, OrderStatus } from '../utils/orders/statusMachine';
+
+describe('Order board', () => {
+  it('groups orders into one column per status', () => {
+    const orders = [
+      { id: 1, status: 'Pending' },
+      { id: 2, status: 'Shipped' },
+      { id: 3, status: 'Pending' },
+    ] as Order[];
+
+    const columns = groupOrdersByStatus(orders, ORDER_STATUSES, (order) => order.status as OrderStatus);
+
+    expect(Object.keys(columns)).toEqual([...ORDER_STATUSES]);
+    expect(columns.Pending.map((order) => order.id)).toEqual([1, 3]);
+    expect(columns.Shipped.map((order) => order.id)).toEqual([2]);
+    expect(columns.Finished).toEqual([]);
+  });
+
+  it('resolves the drop column from the drag distance', () => {
+    expect(resolveDropColumnIndex(1, 300, 272, 6)).toBe(2);
+    expect(resolveDropColumnIndex(1, 100, 272, 6)).toBe(1);
+    expect(resolveDropColumnIndex(1, -900, 272, 6)).toBe(0);
+    expect(resolveDropColumnIndex(4, 2000, 272, 6)).toBe(5);
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  OrderBulkItem,
+  buildCsv,
+  createOrderBulkItems,
+  getCommonNextStatuses,
+  runOrderBulkTasks,
+} from '../utils/orders/bulk';
+
+describe('Order bulk actions', () => {
+  it('offers only the statuses every selected order may move to', () => {
+    expect(getCommonNextStatuses(['Pending', 'Processing'])).toEqual(['Paid']);
+    expect(getCommonNextStatuses(['Pending', 'Paid'])).toEqual([]);
+    expect(getCommonNextStatuses([])).toEqual([]);
+  });
+
+  it('reports each order and retries only the failures', async () => {
+    let attempts = 0;
+    const task = async (id: string | number) => {
+      attempts += 1;
+      return id === 2 && attempts < 3 ? 'Server error' : null;
+    };
+    const updates: OrderBulkItem[][] = [];
+
+    const firstRun = await runOrderBulkTasks(createOrderBulkItems([1, 2]), task, (items) => updates.push(items));
+    expect(firstRun).toEqual([
+      { id: 1, state: 'success', error: null },
+      { id: 2, state: 'failed', error: 'Server error' },
+    ]);
+    expect(updates.some((items) => items[0].state === 'running')).toBe(true);
+
+    const retry = await runOrderBulkTasks(firstRun, task, () => undefined);
+    expect(attempts).toBe(3);
+    expect(retry.map((item) => item.state)).toEqual(['success', 'success']);
+  });
+
+  it('escapes values when exporting rows', () => {
+    expect(buildCsv(['id', 'customer'], [[7, 'Acme, "North"'], [8, null]])).toBe(
+      'id,customer\n7,"Acme, ""North"""\n8,',
+    );
+  });
+});
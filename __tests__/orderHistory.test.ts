@@ -0,0 +1,67 @@
+import { ApiClient } from '../services/apiClient';
+import { ErpService } from '../services/erpService';
+import { OrderHistoryLog, orderHistoryStorageKey } from '../services/orderHistory';
+import { QueryCache } from '../services/queryCache';
+import { SchemaDriftReport } from '../services/normalizerSchemas';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+describe('Order history', () => {
+  it('normalizes history entries from the endpoint', async () => {
+    const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+    const service = new ErpService(client, null, new QueryCache(), undefined, new SchemaDriftReport(), null);
+    const request = jest.spyOn(client, 'request').mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: {},
+      data: [
+        { eventId: 1, eventType: 'StatusChanged', previousStatus: 1, newStatus: 2, changedBy: 'Misato', timestamp: '2026-10-01T10:00:00Z' },
+        { eventType: 'ItemsChanged', origin: 'SignalR hub', totalItems: 4, totalValue: 80, createdAt: '2026-10-02T10:00:00Z' },
+        { type: 'Payment', source: 'System job', paidAt: '2026-10-03', date: '2026-10-03T09:00:00Z', reason: 'Bank file' },
+      ],
+    });
+
+    const response = await service.fetchOrderHistory(42);
+
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ path: '/Order/GetOrderHistory/42', method: 'GET' }));
+    expect(
+      (response.data ?? []).map((entry) => [entry.orderId, entry.kind, entry.source, entry.fromStatus, entry.toStatus, entry.user]),
+    ).toEqual([
+      ['42', 'status', 'manual', 'Processing', 'Paid', 'Misato'],
+      ['42', 'items', 'signalr', null, null, null],
+      ['42', 'payment', 'automation', null, null, null],
+    ]);
+    expect(response.data?.[2].note).toBe('Bank file');
+  });
+
+  it('keeps a per-environment local log, newest first', async () => {
+    const storage = createMemoryStorage();
+    const log = new OrderHistoryLog(storage);
+
+    await Promise.all([
+      log.record('default', 42, { kind: 'status', source: 'manual', toStatus: 'Paid' }, new Date('2026-10-01T10:00:00Z')),
+      log.record('default', 7, { kind: 'status', source: 'signalr', toStatus: 'Shipped' }, new Date('2026-10-01T11:00:00Z')),
+      log.record('default', 42, { kind: 'payment', source: 'manual' }, new Date('2026-10-01T12:00:00Z')),
+    ]);
+
+    expect((await log.list('default', 42)).map((entry) => entry.kind)).toEqual(['payment', 'status']);
+    expect(await log.list('staging', 42)).toEqual([]);
+    expect(JSON.parse(storage.items.get(orderHistoryStorageKey('default')) ?? '[]')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,52 @@
+import { Product } from '../services/erpService';
+import {
+  addProductToLineItems,
+  buildOrderLineItems,
+  buildOrderStockLimits,
+  summarizeLineItems,
+  toSelectedOrderItems,
+} from '../utils/orders/lineItems';
+
+const bolt: Product = { id: 1, name: 'Bolt', category: 'Parts', status: 'Active', price: 2, stock: 3, unitOfMeasure: 'UN' };
+const cable: Product = { id: 2, name: 'Cable', category: 'Parts', status: 'Active', price: 1.5, stock: 10, unitOfMeasure: 'M' };
+
+describe('Order line items', () => {
+  it('adds products once and recomputes items and total', () => {
+    let items = addProductToLineItems([], bolt);
+    items = addProductToLineItems(items, bolt);
+    items = addProductToLineItems(items, cable);
+
+    expect(items.map((item) => [item.product.id, item.quantity])).toEqual([
+      [1, '2'],
+      [2, '1'],
+    ]);
+    expect(summarizeLineItems(items)).toEqual({ items: 3, total: 5.5, hasDecimalItems: true });
+  });
+
+  it('lets an order keep what it already reserved on top of the remaining stock', () => {
+    const original = [{ productId: 1, quantity: 2, value: 2 }];
+    const items = toSelectedOrderItems(original, [bolt, cable]);
+    const limits = buildOrderStockLimits(original, items, [bolt, cable]);
+
+    expect(limits).toEqual({ '1': 5, '2': 10 });
+    expect(buildOrderLineItems([{ ...items[0], quantity: '5' }], limits)).toMatchObject({
+      ok: true,
+      totalItems: 5,
+      totalValue: 10,
+    });
+    expect(buildOrderLineItems([{ ...items[0], quantity: '6' }], limits)).toEqual({
+      ok: false,
+      issue: { kind: 'stock', name: 'Bolt', available: 5 },
+    });
+  });
+
+  it('reports the first invalid line and keeps placeholders for products outside the catalog', () => {
+    const items = toSelectedOrderItems([{ productId: 9, quantity: 1, value: 4 }], []);
+
+    expect(items[0].product.name).toBe('Product #9');
+    expect(buildOrderLineItems([{ ...items[0], value: '' }])).toMatchObject({
+      ok: false,
+      issue: { kind: 'value', name: 'Product #9' },
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  checkOrderStatusChange,
+  getNextOrderStatuses,
+  resolveOrderStatusEffects,
+} from '../utils/orders/statusMachine';
+
+describe('Order status machine', () => {
+  it('only offers the declared next statuses', () => {
+    expect(getNextOrderStatuses('Pending')).toEqual(['Processing', 'Paid']);
+    expect(getNextOrderStatuses('Finished')).toEqual([]);
+    expect(checkOrderStatusChange('Pending', 'Finished', {})).toEqual({
+      ok: false,
+      error: 'This status change is not allowed.',
+    });
+  });
+
+  it('guards Paid and Shipped on their data and applies the payment side effect', () => {
+    expect(checkOrderStatusChange('Processing', 'Paid', {})).toEqual({
+      ok: false,
+      error: 'Payment date is required to mark an order as Paid.',
+    });
+    expect(checkOrderStatusChange('Paid', 'Shipped', { trackingCode: '  ' })).toEqual({
+      ok: false,
+      error: 'Tracking code is required to mark an order as Shipped.',
+    });
+    expect(checkOrderStatusChange('Processing', 'Paid', { paymentDate: '2026-10-01T12:00:00.000Z' })).toEqual({
+      ok: true,
+      override: false,
+    });
+    expect(resolveOrderStatusEffects('Paid', { paymentDate: '2026-10-01T12:00:00.000Z' })).toEqual({
+      payday: '2026-10-01T12:00:00.000Z',
+      paymentDate: '2026-10-01T12:00:00.000Z',
+      PaymentDate: '2026-10-01T12:00:00.000Z',
+    });
+    expect(resolveOrderStatusEffects('Pending', {})).toEqual({ payday: null, paymentDate: null, PaymentDate: null });
+  });
+
+  it('lets an override skip the map with a reason but not the guards', () => {
+    expect(checkOrderStatusChange('Pending', 'Finished', {}, 'ok')).toEqual({
+      ok: false,
+      error: 'Describe why this status change is needed.',
+    });
+    expect(checkOrderStatusChange('Pending', 'Finished', {}, 'Imported from legacy ERP')).toEqual({
+      ok: true,
+      override: true,
+    });
+    expect(checkOrderStatusChange('Finished', 'Shipped', {}, 'Carrier returned the parcel')).toEqual({
+      ok: false,
+      error: 'Tracking code is required to mark an order as Shipped.',
+    });
+  });
+});
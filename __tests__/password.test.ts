@@ -0,0 +1,22 @@
+import { evaluatePasswordStrength, validateNewPassword } from '../utils/security/password';
+
+describe('password strength', () => {
+  it('scores length and character variety', () => {
+    expect(evaluatePasswordStrength('Ab1!').score).toBe(0);
+    expect(evaluatePasswordStrength('Password').score).toBe(0);
+    expect(evaluatePasswordStrength('abcdefgh').label).toBe('Weak');
+    expect(evaluatePasswordStrength('Abcdefg1').label).toBe('Fair');
+    expect(evaluatePasswordStrength('Abcdef1!').label).toBe('Good');
+    expect(evaluatePasswordStrength('Abcdefgh1!xy').label).toBe('Strong');
+    expect(evaluatePasswordStrength('correct horse battery').score).toBe(3);
+  });
+
+  it('validates a new password against its confirmation and the current one', () => {
+    expect(validateNewPassword('abcdefgh', 'abcdefgh')).toBe('Choose a stronger password.');
+    expect(validateNewPassword('Abcdefg1', 'Abcdefg2')).toBe('Passwords do not match.');
+    expect(validateNewPassword('Abcdefg1', 'Abcdefg1', 'Abcdefg1')).toBe(
+      'The new password must be different from the current one.',
+    );
+    expect(validateNewPassword('Abcdefg1', 'Abcdefg1', 'old-secret')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { QueryCache, buildQueryKey, scopeQueryKey } from '../services/queryCache';
+
+describe('QueryCache', () => {
+  it('builds the same key for equivalent filters', () => {
+    expect(buildQueryKey('orders', 'page', { pageSize: 25, pageNumber: 1 }, { enterpriseId: undefined })).toBe(
+      buildQueryKey('orders', 'page', { pageNumber: 1, pageSize: 25 }, {}),
+    );
+  });
+
+  it('shares in-flight requests and serves fresh data from cache', async () => {
+    const cache = new QueryCache(60_000);
+    const key = buildQueryKey('customers', 'all', {});
+    const fetcher = jest.fn(async () => ({ ok: true, data: ['Asuka'] }));
+
+    await Promise.all([cache.fetch(key, fetcher), cache.fetch(key, fetcher)]);
+    const cached = await cache.fetch(key, fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cached.data).toEqual(['Asuka']);
+  });
+
+  it('keeps stale rows visible while an invalidated entry revalidates', async () => {
+    const cache = new QueryCache(60_000);
+    const key = buildQueryKey('orders', 'all', {});
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, data: [1] })
+      .mockResolvedValueOnce({ ok: false, data: null, error: 'Failed to sync (status 0)' });
+
+    await cache.fetch(key, fetcher);
+    const seen: Array<{ invalidated: boolean; data: unknown }> = [];
+    cache.subscribe(key, () => {
+      const state = cache.getState(key);
+      seen.push({ invalidated: Boolean(state?.invalidated), data: state?.data });
+    });
+
+    cache.invalidate('orders');
+    expect(cache.isFresh(key)).toBe(false);
+
+    const revalidated = await cache.fetch(key, fetcher);
+    expect(seen[0]).toEqual({ invalidated: true, data: [1] });
+    expect(revalidated.data).toEqual([1]);
+    expect(revalidated.error).toBe('Failed to sync (status 0)');
+  });
+
+  it('keeps the partial flag of page walks that stopped early', async () => {
+    const cache = new QueryCache(60_000);
+    const key = buildQueryKey('customers', 'all', {});
+
+    const capped = await cache.fetch(key, async () => ({ ok: true, data: ['Rei'], partial: true }));
+    expect(capped.partial).toBe(true);
+
+    const complete = await cache.fetch(key, async () => ({ ok: true, data: ['Rei', 'Shinji'] }), { force: true });
+    expect(complete.partial).toBe(false);
+  });
+
+  it('leaves entries patched in place out of an invalidation', async () => {
+    const cache = new QueryCache(60_000);
+    const board = buildQueryKey('orders', 'all', { isActive: true });
+    const page = buildQueryKey('orders', 'page', { pageNumber: 1, pageSize: 25 }, {});
+    await cache.fetch(board, async () => ({ ok: true, data: [{ id: 1, status: 'Pending' }] }));
+    await cache.fetch(page, async () => ({ ok: true, data: [] }));
+
+    cache.setData<Array<{ id: number; status: string }>>(board, (rows) =>
+      (rows ?? []).map((row) => ({ ...row, status: 'Processing' })),
+    );
+    cache.invalidate('orders', [board]);
+
+    expect(cache.isFresh(board)).toBe(true);
+    expect(cache.getState(board)?.data).toEqual([{ id: 1, status: 'Processing' }]);
+    expect(cache.isFresh(page)).toBe(false);
+  });
+
+  it('keeps each environment and user in its own entry', async () => {
+    const cache = new QueryCache(60_000);
+    const key = buildQueryKey('orders', 'all', {});
+    const qa = scopeQueryKey(key, { environmentId: 'env-qa', userId: 'misato' });
+    const prod = scopeQueryKey(key, { environmentId: 'default', userId: 'misato' });
+    await cache.fetch(qa, async () => ({ ok: true, data: ['qa-order'] }));
+
+    expect(prod).not.toBe(qa);
+    expect(cache.getState(prod)).toBeNull();
+    expect(scopeQueryKey(key, { environmentId: 'env-qa', userId: 'ritsuko' })).not.toBe(qa);
+
+    cache.invalidate('orders');
+    expect(cache.isFresh(qa)).toBe(false);
+  });
+});
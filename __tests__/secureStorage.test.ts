@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { webcrypto } from 'crypto';
+import * as SecureStore from 'expo-secure-store';
+import { SecureStorage, SecureStorageBackend, createAesGcmCipher } from '../services/secureStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('expo-secure-store', () => {
+  const keychain = new Map<string, string>();
+  return {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 6,
+    __keychain: keychain,
+    getItemAsync: async (key: string) => keychain.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      keychain.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      keychain.delete(key);
+    },
+  };
+});
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = require('crypto');
+  return {
+    getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+    getRandomBytesAsync: async (count: number) => new Uint8Array(randomBytes(count)),
+  };
+});
+
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+
+if (!(globalThis as any).crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+
+const createCipher = () => {
+  const key = webcrypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  return createAesGcmCipher(() => key as Promise<CryptoKey>);
+};
+
+describe('SecureStorage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('encrypts values at rest and reads them back', async () => {
+    const storage = new SecureStorage({ cipher: createCipher() });
+    await storage.setItem('authToken', JSON.stringify({ token: 'eva-01' }));
+
+    const raw = await AsyncStorage.getItem('authToken');
+    expect(raw?.startsWith('enc:v1:')).toBe(true);
+    expect(raw).not.toContain('eva-01');
+    expect(await storage.getItem('authToken')).toBe('{"token":"eva-01"}');
+  });
+
+  it('migrates plain legacy sessions and drops values it can no longer decrypt', async () => {
+    await AsyncStorage.setItem('authToken', '{"token":"legacy"}');
+    const storage = new SecureStorage({ cipher: createCipher() });
+
+    expect(await storage.getItem('authToken')).toBe('{"token":"legacy"}');
+    expect((await AsyncStorage.getItem('authToken'))?.startsWith('enc:v1:')).toBe(true);
+
+    const otherDevice = new SecureStorage({ cipher: createCipher() });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(await otherDevice.getItem('authToken')).toBeNull();
+    expect(await AsyncStorage.getItem('authToken')).toBeNull();
+    warn.mockRestore();
+  });
+
+  it('moves legacy values into a secure backend and clears every known key', async () => {
+    const vault = new Map<string, string>();
+    const backend: SecureStorageBackend = {
+      getItem: async (key) => vault.get(key) ?? null,
+      setItem: async (key, value) => {
+        vault.set(key, value);
+      },
+      removeItem: async (key) => {
+        vault.delete(key);
+      },
+    };
+    await AsyncStorage.setItem('authToken:staging', 'legacy');
+    const storage = new SecureStorage({ cipher: null, backend });
+
+    expect(await storage.getItem('authToken:staging')).toBe('legacy');
+    expect(vault.get('authToken:staging')).toBe('legacy');
+    expect(await AsyncStorage.getItem('authToken:staging')).toBeNull();
+
+    await storage.setItem('offlineMutations', '[]');
+    await storage.clear(['authToken:other']);
+    expect(vault.size).toBe(0);
+  });
+
+  it('clears backend entries written by an earlier run', async () => {
+    const vault = new Map<string, string>();
+    const backend: SecureStorageBackend = {
+      getItem: async (key) => vault.get(key) ?? null,
+      setItem: async (key, value) => {
+        vault.set(key, value);
+      },
+      removeItem: async (key) => {
+        vault.delete(key);
+      },
+    };
+    const firstRun = new SecureStorage({ cipher: null, backend });
+    await firstRun.setItem('authToken:qa', 'session');
+    await firstRun.setItem('appLock:config', '{}');
+    await firstRun.removeItem('appLock:config');
+
+    const restarted = new SecureStorage({ cipher: null, backend });
+    await restarted.clear();
+    expect(vault.size).toBe(0);
+    expect(await AsyncStorage.getItem('secureStorage:keys')).toBeNull();
+  });
+
+  it('encrypts on native with a key kept in the device keychain', async () => {
+    const keychain = (SecureStore as any).__keychain as Map<string, string>;
+    const storage = new SecureStorage();
+    expect(storage.getMode()).toBe('encrypted');
+
+    await storage.setItem('authToken', JSON.stringify({ token: 'unit-02' }));
+    const raw = await AsyncStorage.getItem('authToken');
+    expect(raw?.startsWith('enc:v1:')).toBe(true);
+    expect(raw).not.toContain('unit-02');
+    expect(keychain.size).toBe(1);
+
+    const restarted = new SecureStorage();
+    expect(await restarted.getItem('authToken')).toBe('{"token":"unit-02"}');
+
+    await restarted.clear();
+    expect(keychain.size).toBe(0);
+    expect(await AsyncStorage.getItem('authToken')).toBeNull();
+  });
+});
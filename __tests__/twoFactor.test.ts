@@ -0,0 +1,51 @@
+import {
+  isChallengeActive,
+  readRecoveryCodes,
+  readTwoFactorChallenge,
+  readTwoFactorSetup,
+  readTwoFactorStatus,
+} from '../utils/security/twoFactor';
+
+describe('two-factor helpers', () => {
+  it('reads a login challenge and ignores token responses', () => {
+    const challenge = readTwoFactorChallenge(
+      { requiresTwoFactor: true, challengeToken: 'ch-1', methods: ['Authenticator', 'Email'], maskedEmail: 'm***@nerv.jp', expiresIn: 120 },
+      1_000,
+    );
+
+    expect(challenge).toEqual({
+      challengeToken: 'ch-1',
+      method: 'totp',
+      methods: ['totp', 'email'],
+      destination: 'm***@nerv.jp',
+      expiresAt: 121_000,
+    });
+    expect(isChallengeActive(challenge, 120_999)).toBe(true);
+    expect(isChallengeActive(challenge, 121_000)).toBe(false);
+    expect(readTwoFactorChallenge({ token: 'jwt' })).toBeNull();
+    expect(readTwoFactorChallenge({ requiresTwoFactor: true })).toBeNull();
+  });
+
+  it('reads setup, recovery codes and status payloads', () => {
+    expect(readTwoFactorSetup({ authenticatorUri: 'otpauth://totp/NERV:misato?secret=JBSWY3DPEHPK3PXP&issuer=NERV' }, 'totp')).toEqual({
+      method: 'totp',
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/NERV:misato?secret=JBSWY3DPEHPK3PXP&issuer=NERV',
+      qrCodeImage: null,
+    });
+    expect(readRecoveryCodes({ recoveryCodes: ['AB12-CD34', ' ', 'EF56-GH78'] })).toEqual(['AB12-CD34', 'EF56-GH78']);
+
+    const status = readTwoFactorStatus({
+      isEnabled: true,
+      provider: 'email',
+      remainingRecoveryCodes: 8,
+      devices: [{ deviceId: 7, deviceName: 'Pixel', isCurrent: true }, { name: 'no id' }],
+    });
+    expect(status).toEqual({
+      enabled: true,
+      method: 'email',
+      recoveryCodesLeft: 8,
+      devices: [{ id: '7', name: 'Pixel', lastUsedAt: null, current: true }],
+    });
+  });
+});
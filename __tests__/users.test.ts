@@ -0,0 +1,77 @@
+import { ApiClient } from '../services/apiClient';
+import { ErpService } from '../services/erpService';
+import { QueryCache } from '../services/queryCache';
+import { SchemaDriftReport } from '../services/normalizerSchemas';
+import { hasPermission, resolvePermissions } from '../utils/access';
+import { buildUserFilter, filterUsersByStatus, getUserInviteErrors } from '../utils/users/presentation';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const createService = () => {
+  const client = new ApiClient({ baseUrl: 'http://erp.test/api/v1', authPath: '/User/LogInto' });
+  const service = new ErpService(client, null, new QueryCache(), undefined, new SchemaDriftReport(), null);
+  return { client, service };
+};
+
+describe('User administration', () => {
+  it('keeps user management with admins by default', () => {
+    expect(hasPermission(resolvePermissions('admin', null), 'users', 'edit')).toBe(true);
+    expect(hasPermission(resolvePermissions('manager', null), 'users', 'view')).toBe(false);
+    expect(hasPermission(resolvePermissions('manager', null), 'orders', 'delete')).toBe(true);
+    expect(hasPermission(resolvePermissions('manager', ['users.view']), 'users', 'view')).toBe(true);
+  });
+
+  it('pages users through the filter endpoint and normalizes roles and status', async () => {
+    const { client, service } = createService();
+    const request = jest.spyOn(client, 'request').mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: {},
+      data: [
+        { userId: 7, fullName: 'Misato Katsuragi', email: 'misato@nerv.jp', accessLevel: 1, isActive: true },
+        { id: 8, email: 'shinji@nerv.jp', role: 'Employee', invitationPending: true },
+        { id: 9, email: 'gendo@nerv.jp', role: 0, status: 'Inactive' },
+      ],
+    });
+
+    const response = await service.fetchUsers(2, 10, false, buildUserFilter('misato@', 'manager', 'ent-1'));
+
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: '/User/GetUsersByFilter/false/2/10',
+        method: 'POST',
+        body: { email: 'misato@', role: 1, enterpriseId: 'ent-1' },
+      }),
+    );
+    const users = response.data ?? [];
+    expect(users.map((user) => [user.id, user.role, user.status])).toEqual([
+      [7, 'manager', 'Active'],
+      [8, 'employee', 'Invited'],
+      [9, 'admin', 'Inactive'],
+    ]);
+    expect(filterUsersByStatus(users, 'invited').map((user) => user.id)).toEqual([8]);
+  });
+
+  it('sends role changes as access level indexes and validates invites', async () => {
+    const { client, service } = createService();
+    const request = jest
+      .spyOn(client, 'request')
+      .mockResolvedValue({ ok: true, status: 200, data: null, headers: {} });
+
+    await service.updateUserRole('u-1', 'supervisor');
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/User/UpdateUserRole', body: { userId: 'u-1', role: 2 } }),
+    );
+
+    expect(getUserInviteErrors({ email: '', name: '', role: 'employee' }).email).toBe('Email is required');
+    expect(getUserInviteErrors({ email: 'rei@nerv', name: '', role: 'employee' }).email).toBe(
+      'Enter a valid email address',
+    );
+    expect(getUserInviteErrors({ email: 'rei@nerv.jp', name: 'Rei', role: 'employee' })).toEqual({
+      email: null,
+      name: null,
+    });
+  });
+});
@@ -13,6 +13,7 @@ import { formatCurrency } from '../utils/currency';
 import { useBillsOrders } from '../hooks/bills/useBillsOrders';
 import { filterOrdersBySearch, getOrderStatusColor, openPdfInBrowser } from '../utils/bills/helpers';
 import { formatUsDateTime } from '../utils/datetime';
+import { describeApiError } from '../utils/apiErrors';
 
 type BillMode = 'view' | 'generate';
 
@@ -32,6 +33,7 @@ export function Bills() {
     pageNumber,
     setPageNumber,
     hasMore,
+    refresh,
     goPrevPage,
     goNextPage,
   } = useBillsOrders({
@@ -90,7 +92,7 @@ export function Bills() {
           detailsMode === 'generate'
             ? t('Bill generation unavailable for this order.')
             : t('No bill found for this order.');
-        setDetailsError(response.error ?? fallback);
+        setDetailsError(describeApiError(t, response, fallback));
       }
 
       setDetailsLoading(false);
@@ -149,7 +151,7 @@ export function Bills() {
         setPdfDataUri(`data:application/pdf;base64,${response.data}`);
         openPdfInBrowser(response.data);
       } else {
-        setPdfError(response.error ?? t('Unable to load the bill PDF.'));
+        setPdfError(describeApiError(t, response, t('Unable to load the bill PDF.')));
       }
     } catch (error) {
       setPdfError(t('Unable to load the bill PDF.'));
@@ -195,7 +197,10 @@ export function Bills() {
             />
             <Button
               mode="outlined"
-              onPress={() => setPageNumber(1)}
+              onPress={() => {
+                setPageNumber(1);
+                refresh();
+              }}
               textColor={colors.textSecondary}
               icon={({ size }) => <Feather name="refresh-cw" size={size} color={colors.textSecondary} />}
               style={[styles.refreshButton, isCompact && styles.refreshButtonCompact, { borderColor: colors.cardBorder }]}
@@ -1,17 +1,24 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ScrollView, StyleSheet, Text, View } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { Button, Card, Chip, Searchbar } from './ui/Paper';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useI18n } from '../contexts/I18nContext';
-import { Customer as CustomerModel, ErpService } from '../services/erpService';
+import { Customer as CustomerModel, ErpService, FetchAllProgress } from '../services/erpService';
 import { useResponsive } from '../hooks/useResponsive';
 import { useCustomers } from '../hooks/customers/useCustomers';
 import { useOrderSummary } from '../hooks/customers/useOrderSummary';
 import { useCepLookup } from '../hooks/customers/useCepLookup';
 import { useCustomerForm } from '../hooks/customers/useCustomerForm';
+import { useFormDraft } from '../hooks/drafts/useFormDraft';
+import { useOfflineMutations } from '../hooks/offline/useOfflineMutations';
+import { useCrossTabMutations } from '../hooks/sync/useCrossTabSync';
+import { useCachedQuery } from '../hooks/query/useCachedQuery';
+import { allCustomersQuery } from '../hooks/query/erpQueries';
+import { describeApiError } from '../utils/apiErrors';
 import { buildAddress } from '../utils/customers/address';
+import { mapCustomerServerErrors } from '../utils/customers/validation';
 import {
   CustomerFilterOption,
   OrderSummaryMap,
@@ -19,23 +26,28 @@ import {
   getCustomerStats,
   mapCustomersToCardData,
 } from '../utils/customers/presentation';
-import { hasManagementAccess } from '../utils/access';
+import { usePermissions } from '../hooks/auth/usePermissions';
 import { NervLoader } from './NervLoader';
 import { ConfirmModal } from './customers/ConfirmModal';
 import { CustomerCard } from './customers/CustomerCard';
 import { CustomerFormModal } from './customers/CustomerFormModal';
+import { PendingSyncPanel } from './offline/PendingSyncPanel';
+import { DraftRestoredNotice } from './shared/DraftRestoredNotice';
+import { CustomerFormDraft } from './customers/types';
+import { resolveFormDraftOwner } from '../services/formDrafts';
 
 const filterOptions = ['all', 'active', 'inactive'] as const;
 
 export function Customers() {
-  const CUSTOMER_STATS_PAGE_SIZE = 100;
-  const CUSTOMER_STATS_MAX_PAGES = 50;
   const { colors } = useTheme();
   const { t } = useI18n();
-  const { client, isAuthenticated, loading: authLoading, enterpriseId, currency, user } = useAuth();
+  const { client, isAuthenticated, loading: authLoading, enterpriseId, currency, environment, user } = useAuth();
   const { isCompact, isTablet, contentPadding } = useResponsive();
-  const canManageCustomers = hasManagementAccess(user?.role);
-  const managementDeniedMessage = t('Only Admin, Manager, and Supervisor can edit or delete customers.');
+  const { can } = usePermissions();
+  const canCreateCustomers = can('customers', 'create');
+  const canEditCustomers = can('customers', 'edit');
+  const canDeleteCustomers = can('customers', 'delete');
+  const permissionDeniedMessage = t('You do not have permission for this action.');
 
   const erpService = useMemo(() => new ErpService(client), [client]);
 
@@ -50,6 +62,7 @@ export function Customers() {
     pageNumber,
     setPageNumber,
     hasMore,
+    refresh: refreshCustomers,
   } = useCustomers({
     erpService,
     isAuthenticated,
@@ -57,7 +70,7 @@ export function Customers() {
     pageSize: 25,
   });
 
-  const { orderSummary, orderSummaryError } = useOrderSummary({
+  const { orderSummary, orderSummaryError, orderSummaryPartial } = useOrderSummary({
     erpService,
     isAuthenticated,
     authLoading,
@@ -68,8 +81,26 @@ export function Customers() {
   const [deactivatingId, setDeactivatingId] = useState<CustomerModel['id'] | null>(null);
   const [confirmCustomer, setConfirmCustomer] = useState<CustomerModel | null>(null);
   const [confirmName, setConfirmName] = useState('');
-  const [globalCustomerStats, setGlobalCustomerStats] = useState(() => getCustomerStats([]));
-  const [customerStatsRefreshKey, setCustomerStatsRefreshKey] = useState(0);
+  const [statsProgress, setStatsProgress] = useState<FetchAllProgress | null>(null);
+  const { data: allCustomers, loading: statsLoading, partial: statsPartial } = useCachedQuery({
+    ...allCustomersQuery(erpService, { enterpriseId: enterpriseId ?? undefined }, setStatsProgress),
+    enabled: isAuthenticated && !authLoading,
+  });
+
+  const offlineCustomers = useOfflineMutations({ entity: 'customer', erpService });
+  const offlineSyncedVersion = offlineCustomers.syncedVersion;
+  const handledOfflineSyncRef = useRef(offlineSyncedVersion);
+
+  useEffect(() => {
+    // Reload once queued customer changes have reached the server.
+    if (handledOfflineSyncRef.current === offlineSyncedVersion) {
+      return;
+    }
+    handledOfflineSyncRef.current = offlineSyncedVersion;
+    refreshCustomers();
+  }, [offlineSyncedVersion, refreshCustomers]);
+
+  useCrossTabMutations({ scope: 'customers', onChange: refreshCustomers });
 
   const {
     formState,
@@ -77,13 +108,35 @@ export function Customers() {
     formSubmitDisabled,
     openCreate: openCreateForm,
     openEdit: openEditForm,
-    closeForm,
+    restoreDraft,
+    closeForm: resetForm,
     setField: setFormField,
     setAttempted: setFormAttempted,
     setSubmitting: setFormSubmitting,
+    setServerErrors: setFormServerErrors,
     applyCepResult,
   } = useCustomerForm();
 
+  const customerDraftValues = useMemo<CustomerFormDraft>(
+    () => ({ mode: formState.mode, values: formState.values, customer: formState.customer }),
+    [formState.customer, formState.mode, formState.values],
+  );
+  const customerDraft = useFormDraft<CustomerFormDraft>({
+    scope: 'customer',
+    environmentId: environment.id,
+    owner: resolveFormDraftOwner(user),
+    enabled: isAuthenticated && !authLoading && (canCreateCustomers || canEditCustomers),
+    open: formState.visible,
+    values: customerDraftValues,
+    onRestore: restoreDraft,
+  });
+  const { discardDraft: discardCustomerDraft } = customerDraft;
+
+  const closeForm = useCallback(() => {
+    resetForm();
+    discardCustomerDraft();
+  }, [discardCustomerDraft, resetForm]);
+
   useCepLookup({
     postalCode: formState.values.postalCode,
     enabled: formState.visible,
@@ -100,95 +153,19 @@ export function Customers() {
     }
   }, [hasMore, setPageNumber]);
 
-  useEffect(() => {
-    let active = true;
-
-    const run = async () => {
-      if (!active) {
-        return;
-      }
-
-      if (!isAuthenticated || authLoading) {
-        setGlobalCustomerStats(getCustomerStats([]));
-        return;
-      }
-
-      const originalSetter = setGlobalCustomerStats;
-      const guardedSetter = (value: ReturnType<typeof getCustomerStats>) => {
-        if (active) {
-          originalSetter(value);
-        }
-      };
-
-      let page = 1;
-      const allCustomers: CustomerModel[] = [];
-      const seenIds = new Set<string>();
-
-      while (active && page <= CUSTOMER_STATS_MAX_PAGES) {
-        const response = await erpService.fetchCustomers(page, CUSTOMER_STATS_PAGE_SIZE, true, {
-          enterpriseId: enterpriseId ?? undefined,
-        });
-
-        if (!response.ok) {
-          break;
-        }
-
-        const rows = response.data ?? [];
-        if (rows.length === 0) {
-          break;
-        }
-
-        let addedRows = 0;
-        rows.forEach((customer, index) => {
-          const rawId = customer.id;
-          const key =
-            rawId !== undefined && rawId !== null && String(rawId).trim() !== ''
-              ? String(rawId)
-              : `page:${page}:idx:${index}`;
-
-          if (seenIds.has(key)) {
-            return;
-          }
-
-          seenIds.add(key);
-          allCustomers.push(customer);
-          addedRows += 1;
-        });
-
-        if (addedRows === 0) {
-          break;
-        }
-
-        page += 1;
-      }
-
-      guardedSetter(getCustomerStats(allCustomers));
-    };
-
-    run();
-
-    return () => {
-      active = false;
-    };
-  }, [
-    erpService,
-    isAuthenticated,
-    authLoading,
-    enterpriseId,
-    customerStatsRefreshKey,
-    CUSTOMER_STATS_MAX_PAGES,
-    CUSTOMER_STATS_PAGE_SIZE,
-  ]);
-
   const openCreate = useCallback(() => {
     if (!isAuthenticated || authLoading) {
       setErrorMessage(t('Authenticate to manage customers.'));
       return;
     }
+    if (!canCreateCustomers) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
 
     setErrorMessage(null);
     openCreateForm();
-  }, [isAuthenticated, authLoading, setErrorMessage, openCreateForm]);
+  }, [isAuthenticated, authLoading, setErrorMessage, openCreateForm, canCreateCustomers, permissionDeniedMessage]);
 
   const openEdit = useCallback(
     (customer: CustomerModel) => {
@@ -196,15 +173,15 @@ export function Customers() {
         setErrorMessage(t('Authenticate to manage customers.'));
         return;
       }
-      if (!canManageCustomers) {
-        setErrorMessage(managementDeniedMessage);
+      if (!canEditCustomers) {
+        setErrorMessage(permissionDeniedMessage);
         return;
       }
 
       setErrorMessage(null);
       openEditForm(customer);
     },
-    [isAuthenticated, authLoading, setErrorMessage, openEditForm, canManageCustomers, managementDeniedMessage],
+    [isAuthenticated, authLoading, setErrorMessage, openEditForm, canEditCustomers, permissionDeniedMessage],
   );
 
   const handleFormSubmit = useCallback(async () => {
@@ -225,6 +202,7 @@ export function Customers() {
     }
 
     setFormSubmitting(true);
+    setFormServerErrors({});
     setErrorMessage(null);
 
     try {
@@ -254,6 +232,10 @@ export function Customers() {
         };
 
         const response = await erpService.createCustomer(createPayload);
+        if (response.queued) {
+          closeForm();
+          return;
+        }
         if (response.ok) {
           const fallbackCustomer: CustomerModel = {
             ...createPayload,
@@ -261,17 +243,17 @@ export function Customers() {
           };
           const nextCustomer = response.data ?? fallbackCustomer;
           setCustomers((prev) => [nextCustomer, ...prev]);
-          setCustomerStatsRefreshKey((prev) => prev + 1);
           closeForm();
           return;
         }
 
-        setErrorMessage(response.error ?? t('Unable to create customer'));
+        setFormServerErrors(mapCustomerServerErrors(response.apiError));
+        setErrorMessage(describeApiError(t, response, t('Unable to create customer')));
         return;
       }
 
-      if (!canManageCustomers) {
-        setErrorMessage(managementDeniedMessage);
+      if (!canEditCustomers) {
+        setErrorMessage(permissionDeniedMessage);
         return;
       }
 
@@ -288,17 +270,21 @@ export function Customers() {
       };
 
       const response = await erpService.updateCustomer(updatePayload);
+      if (response.queued) {
+        closeForm();
+        return;
+      }
       if (response.ok) {
         const nextCustomer = response.data ?? updatePayload;
         setCustomers((prev) =>
           prev.map((item) => (item.id === formState.customer?.id ? { ...item, ...nextCustomer } : item)),
         );
-        setCustomerStatsRefreshKey((prev) => prev + 1);
         closeForm();
         return;
       }
 
-      setErrorMessage(response.error ?? t('Unable to update customer'));
+      setFormServerErrors(mapCustomerServerErrors(response.apiError));
+      setErrorMessage(describeApiError(t, response, t('Unable to update customer')));
     } catch (error) {
       const message = error instanceof Error && error.message
         ? error.message
@@ -319,8 +305,9 @@ export function Customers() {
     closeForm,
     setFormAttempted,
     setFormSubmitting,
-    canManageCustomers,
-    managementDeniedMessage,
+    setFormServerErrors,
+    canEditCustomers,
+    permissionDeniedMessage,
   ]);
 
   const requestDeactivate = useCallback(
@@ -329,8 +316,8 @@ export function Customers() {
         setErrorMessage(t('Authenticate to manage customers.'));
         return;
       }
-      if (!canManageCustomers) {
-        setErrorMessage(managementDeniedMessage);
+      if (!canDeleteCustomers) {
+        setErrorMessage(permissionDeniedMessage);
         return;
       }
       if (customer.id === undefined || customer.id === null) {
@@ -341,7 +328,7 @@ export function Customers() {
       setConfirmCustomer(customer);
       setConfirmName(displayName);
     },
-    [isAuthenticated, authLoading, setErrorMessage, canManageCustomers, managementDeniedMessage],
+    [isAuthenticated, authLoading, setErrorMessage, canDeleteCustomers, permissionDeniedMessage],
   );
 
   const closeConfirm = useCallback(() => {
@@ -350,8 +337,8 @@ export function Customers() {
   }, []);
 
   const confirmDeactivate = useCallback(async () => {
-    if (!canManageCustomers) {
-      setErrorMessage(managementDeniedMessage);
+    if (!canDeleteCustomers) {
+      setErrorMessage(permissionDeniedMessage);
       closeConfirm();
       return;
     }
@@ -367,7 +354,7 @@ export function Customers() {
 
     try {
       const response = await erpService.deactivateCustomer(confirmCustomer.id);
-      if (response.ok) {
+      if (response.ok || response.queued) {
         setCustomers((prev) =>
           prev.map((item) =>
             item.id === confirmCustomer.id
@@ -375,10 +362,9 @@ export function Customers() {
               : item,
           ),
         );
-        setCustomerStatsRefreshKey((prev) => prev + 1);
         closeConfirm();
       } else {
-        setErrorMessage(response.error ?? t('Unable to deactivate customer'));
+        setErrorMessage(describeApiError(t, response, t('Unable to deactivate customer')));
         closeConfirm();
       }
     } catch (error) {
@@ -390,7 +376,7 @@ export function Customers() {
     } finally {
       setDeactivatingId(null);
     }
-  }, [confirmCustomer, setErrorMessage, closeConfirm, erpService, setCustomers, canManageCustomers, managementDeniedMessage]);
+  }, [confirmCustomer, setErrorMessage, closeConfirm, erpService, setCustomers, canDeleteCustomers, permissionDeniedMessage]);
 
   const filteredCustomers = useMemo(
     () => filterCustomers(customers, searchTerm, filterStatus),
@@ -402,7 +388,7 @@ export function Customers() {
     [filteredCustomers, orderSummary],
   );
 
-  const customerStats = globalCustomerStats;
+  const customerStats = useMemo(() => getCustomerStats(allCustomers ?? []), [allCustomers]);
 
   const displayErrorMessage = errorMessage ?? orderSummaryError;
 
@@ -489,6 +475,19 @@ export function Customers() {
             </Card>
           </View>
 
+          {statsLoading && (
+            <Text style={[styles.statsProgress, { color: colors.textMuted }]}>
+              {t('Counting customers... {count} loaded', { count: statsProgress?.rowsLoaded ?? 0 })}
+            </Text>
+          )}
+          {!statsLoading && statsPartial && (
+            <Text style={[styles.statsProgress, { color: colors.accentOrange }]}>
+              {t('Counts cover the first {count} customers only; the rest could not be loaded.', {
+                count: allCustomers?.length ?? 0,
+              })}
+            </Text>
+          )}
+
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterContainer}>
             {filterOptions.map((status) => {
               const isSelected = filterStatus === status;
@@ -537,14 +536,14 @@ export function Customers() {
             <Button
               mode="contained"
               onPress={openCreate}
-              disabled={!isAuthenticated || authLoading}
+              disabled={!isAuthenticated || authLoading || !canCreateCustomers}
               icon={({ size }) => <Feather name="plus" size={size} color={colors.neonGreen} />}
               buttonColor={colors.primaryPurple}
               textColor={colors.appBg}
               style={[
                 styles.addButton,
                 isCompact && styles.addButtonCompact,
-                (!isAuthenticated || authLoading) && styles.buttonDisabled,
+                (!isAuthenticated || authLoading || !canCreateCustomers) && styles.buttonDisabled,
               ]}
               contentStyle={[styles.addButtonContent, isCompact && styles.addButtonContentCompact]}
               labelStyle={styles.addButtonLabel}
@@ -610,6 +609,31 @@ export function Customers() {
             </View>
           )}
 
+          {orderSummaryPartial && (
+            <View
+              style={[
+                styles.banner,
+                { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange },
+              ]}
+            >
+              <Text style={[styles.bannerText, { color: colors.accentOrange }]}>
+                {t('Not every order could be loaded, so order counts and totals may be incomplete.')}
+              </Text>
+            </View>
+          )}
+
+          <PendingSyncPanel
+            entries={offlineCustomers.entries}
+            replaying={offlineCustomers.replaying}
+            describe={(entry) => {
+              const payload = entry.payload as CustomerModel | string | number | null;
+              return payload && typeof payload === 'object' ? payload.name ?? payload.email ?? null : null;
+            }}
+            onSyncNow={offlineCustomers.syncNow}
+            onRetry={offlineCustomers.retry}
+            onDiscard={offlineCustomers.discard}
+          />
+
           {!loading && customerCards.length === 0 && (
             <View
               style={[
@@ -633,7 +657,8 @@ export function Customers() {
                 colors={colors}
                 currency={currency}
                 isCompact={isCompact}
-                canManage={canManageCustomers}
+                canEdit={canEditCustomers}
+                canDelete={canDeleteCustomers}
                 isDeactivating={cardData.customer.id === deactivatingId}
                 onEdit={openEdit}
                 onDeactivate={requestDeactivate}
@@ -648,12 +673,18 @@ export function Customers() {
         mode={formState.mode}
         values={formState.values}
         errors={formErrors}
+        serverErrors={formState.serverErrors}
         attempted={formState.attempted}
         submitting={formState.submitting}
         submitDisabled={formSubmitDisabled}
         isCompact={isCompact}
         isTablet={isTablet}
         colors={colors}
+        notice={
+          customerDraft.restored ? (
+            <DraftRestoredNotice onDismiss={customerDraft.dismissRestored} onDiscard={closeForm} />
+          ) : null
+        }
         onClose={closeForm}
         onSubmit={handleFormSubmit}
         onFieldChange={setFormField}
@@ -746,6 +777,11 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     flexWrap: 'wrap',
   },
+  statsProgress: {
+    fontSize: 11,
+    marginTop: -14,
+    marginBottom: 16,
+  },
   statsContainerCompact: {
     flexDirection: 'column',
     alignItems: 'stretch',
@@ -39,7 +39,7 @@ export function Dashboard() {
   const [activeProductPoint, setActiveProductPoint] = useState<{ x: string; y: number } | null>(null);
   const [activeOrderPoint, setActiveOrderPoint] = useState<{ x: string; y: number } | null>(null);
 
-  const { products, orders, customers, loading, errorMessage } = useDashboardData({
+  const { products, orders, customers, loading, partial, progress, errorMessage } = useDashboardData({
     erpService,
     isAuthenticated,
     authLoading,
@@ -132,6 +132,7 @@ export function Dashboard() {
         fullScreen
         label={t('Synchronizing EVA-01')}
         subtitle={t('LCL circulation nominal - Loading dashboard...')}
+        progressText={t('{products} products | {orders} orders | {customers} customers loaded', progress)}
       />
     );
   }
@@ -162,6 +163,14 @@ export function Dashboard() {
           </View>
         )}
 
+        {partial && (
+          <View style={[styles.banner, { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange }]}>
+            <Text style={[styles.bannerText, { color: colors.accentOrange }]}>
+              {t('Not every record could be loaded, so these totals may be incomplete.')}
+            </Text>
+          </View>
+        )}
+
         {/* Stats Grid */}
         <View style={[styles.statsGrid, { gap: cardGap }, isCompact && styles.statsGridCompact]}>
           {stats.map((stat, index) => (
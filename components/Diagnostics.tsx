@@ -0,0 +1,76 @@
+import React from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Text } from './ui/Paper';
+import { useTheme } from '../contexts/ThemeContext';
+import { useI18n } from '../contexts/I18nContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { SchemaDriftCard } from './diagnostics/SchemaDriftCard';
+import { EndpointCapabilitiesCard } from './diagnostics/EndpointCapabilitiesCard';
+import { NetworkLogCard } from './diagnostics/NetworkLogCard';
+
+export function Diagnostics() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { isCompact, contentPadding } = useResponsive();
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={[styles.content, { padding: contentPadding }]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.neonGreen }, isCompact && styles.titleCompact]}>
+            {t('DEVELOPER DIAGNOSTICS')}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }, isCompact && styles.subtitleCompact]}>
+            {t('Backend contract checks for this session')}
+          </Text>
+          <View style={[styles.headerLine, { backgroundColor: colors.primaryPurple }]} />
+        </View>
+
+        <SchemaDriftCard />
+        <EndpointCapabilitiesCard />
+        <NetworkLogCard />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 20,
+    paddingBottom: 34,
+    paddingHorizontal: 20,
+  },
+  header: {
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: '800',
+    letterSpacing: 0.4,
+    marginBottom: 6,
+    lineHeight: 36,
+  },
+  titleCompact: {
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: 0.2,
+    lineHeight: 30,
+  },
+  subtitle: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 10,
+  },
+  subtitleCompact: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  headerLine: {
+    height: 6,
+    width: 132,
+    borderRadius: 999,
+  },
+});
@@ -37,6 +37,7 @@ import {
   parseNumericInput,
   sanitizeScenarios,
 } from '../utils/forecast/helpers';
+import { describeApiError } from '../utils/apiErrors';
 
 interface ScenarioFormState {
   scenarioName: string;
@@ -101,7 +102,7 @@ export function Forecast() {
       setForecast(response.data);
       setProjectionPage(1);
     } else {
-      setForecastError(response.error ?? t('Unable to load cash flow forecast.'));
+      setForecastError(describeApiError(t, response, t('Unable to load cash flow forecast.')));
       setForecast(null);
       setProjectionPage(1);
     }
@@ -276,7 +277,7 @@ export function Forecast() {
       setSimulationResults(response.data);
       setScenariosVisible(false);
     } else {
-      setSimulationError(response.error ?? t('Unable to run simulation.'));
+      setSimulationError(describeApiError(t, response, t('Unable to run simulation.')));
       setSimulationResults([]);
     }
 
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -16,6 +16,11 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useResponsive } from '../hooks/useResponsive';
 import { useLoginController } from '../hooks/auth/useLoginController';
+import { EnvironmentSwitcher } from './environments/EnvironmentSwitcher';
+import { ForgotPasswordModal } from './auth/ForgotPasswordModal';
+import { TwoFactorChallengeStep } from './auth/TwoFactorChallengeStep';
+import { OAuthProviderButton } from './auth/OAuthProviderButton';
+import { OAUTH_PROVIDERS } from '../constants/authProviders';
 import { useI18n } from '../contexts/I18nContext';
 
 WebBrowser.maybeCompleteAuthSession();
@@ -72,8 +77,9 @@ const hexToRgb = (hex: string) => {
 export function Login() {
   const { colors } = useTheme();
   const { t } = useI18n();
-  const { login, loginWithGoogle, loginWithGoogleCode } = useAuth();
+  const { login, loginWithGoogle, loginWithGoogleCode, loginWithOAuthCode, twoFactorChallenge } = useAuth();
   const { isCompact } = useResponsive();
+  const [forgotPasswordVisible, setForgotPasswordVisible] = useState(false);
 
   const {
     username,
@@ -83,15 +89,20 @@ export function Login() {
     submitting,
     error,
     submittingMode,
+    oauthProviderId,
     showPassword,
     setShowPassword,
     isLoginDisabled,
     handleLogin,
     startGoogleLogin,
+    beginOAuthLogin,
+    finishOAuthLogin,
+    handleOAuthCode,
   } = useLoginController({
     login,
     loginWithGoogle,
     loginWithGoogleCode,
+    loginWithOAuthCode,
   });
   const glassBorder = `${colors.cardBorder}cc`;
   const glassBg = `${colors.cardBgFrom}f2`;
@@ -313,151 +324,180 @@ export function Login() {
                 <Divider style={[styles.cardDivider, { backgroundColor: colors.cardBorder }]} />
 
               <View style={styles.formContainer}>
-                <Text style={[styles.formTitle, { color: colors.textPrimary }, isCompact && styles.formTitleCompact]}>
-                  {t('Login')}
-                </Text>
-                <Text style={[styles.formSubtitle, { color: colors.textSecondary }]}>
-                  {t('Authenticate to synchronize live data with System.')}
-                </Text>
-
-                {error && (
-                  <View
-                    testID="login-error"
-                    style={[styles.errorBanner, { backgroundColor: `${colors.accentOrange}1a`, borderColor: colors.accentOrange }]}
-                  >
-                    <Text style={[styles.errorText, { color: colors.accentOrange }]}>{error}</Text>
-                  </View>
-                )}
+                {twoFactorChallenge ? (
+                  <TwoFactorChallengeStep challenge={twoFactorChallenge} />
+                ) : (
+                  <>
+                    <Text style={[styles.formTitle, { color: colors.textPrimary }, isCompact && styles.formTitleCompact]}>
+                      {t('Login')}
+                    </Text>
+                    <Text style={[styles.formSubtitle, { color: colors.textSecondary }]}>
+                      {t('Authenticate to synchronize live data with System.')}
+                    </Text>
 
-                {/* Username Input */}
-                <View style={styles.inputGroup}>
-                  <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>{t('Username')}</Text>
-                  <PaperTextInput
-                    testID="login-username"
-                    mode="outlined"
-                    placeholder={t('Commander')}
-                    placeholderTextColor={colors.textMuted}
-                    value={username}
-                    onChangeText={setUsername}
-                    autoCapitalize="none"
-                    outlineColor={colors.cardBorder}
-                    activeOutlineColor={colors.primaryPurple}
-                    textColor={colors.textPrimary}
-                    style={[
-                      styles.paperInput,
-                      { backgroundColor: inputBg },
-                      isCompact && styles.paperInputCompact,
-                    ]}
-                    left={
-                      <PaperTextInput.Icon
-                        icon={() => <Feather name="user" size={18} color={colors.primaryPurple} />}
-                      />
-                    }
-                  />
-                </View>
+                    {error && (
+                      <View
+                        testID="login-error"
+                        style={[styles.errorBanner, { backgroundColor: `${colors.accentOrange}1a`, borderColor: colors.accentOrange }]}
+                      >
+                        <Text style={[styles.errorText, { color: colors.accentOrange }]}>{error}</Text>
+                      </View>
+                    )}
 
-                {/* Password Input */}
-                <View style={styles.inputGroup}>
-                  <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>{t('Password')}</Text>
-                  <PaperTextInput
-                    testID="login-password"
-                    mode="outlined"
-                    placeholder="********"
-                    placeholderTextColor={colors.textMuted}
-                    value={password}
-                    onChangeText={setPassword}
-                    secureTextEntry={!showPassword}
-                    autoCapitalize="none"
-                    outlineColor={colors.cardBorder}
-                    activeOutlineColor={colors.primaryPurple}
-                    textColor={colors.textPrimary}
-                    style={[
-                      styles.paperInput,
-                      { backgroundColor: inputBg },
-                      isCompact && styles.paperInputCompact,
-                    ]}
-                    left={
-                      <PaperTextInput.Icon
-                        icon={() => <Feather name="lock" size={18} color={colors.primaryPurple} />}
-                      />
-                    }
-                    right={
-                      <PaperTextInput.Icon
-                        onPress={() => setShowPassword((prev) => !prev)}
-                        icon={() => (
-                          <Feather
-                            name={showPassword ? 'eye' : 'eye-off'}
-                            size={18}
-                            color={colors.textMuted}
+                    {/* Username Input */}
+                    <View style={styles.inputGroup}>
+                      <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>{t('Username')}</Text>
+                      <PaperTextInput
+                        testID="login-username"
+                        mode="outlined"
+                        placeholder={t('Commander')}
+                        placeholderTextColor={colors.textMuted}
+                        value={username}
+                        onChangeText={setUsername}
+                        autoCapitalize="none"
+                        outlineColor={colors.cardBorder}
+                        activeOutlineColor={colors.primaryPurple}
+                        textColor={colors.textPrimary}
+                        style={[
+                          styles.paperInput,
+                          { backgroundColor: inputBg },
+                          isCompact && styles.paperInputCompact,
+                        ]}
+                        left={
+                          <PaperTextInput.Icon
+                            icon={() => <Feather name="user" size={18} color={colors.primaryPurple} />}
                           />
-                        )}
+                        }
                       />
-                    }
-                  />
-                </View>
-
-                {/* Login Button */}
-                <Button
-                  mode="contained"
-                  onPress={handleLogin}
-                  disabled={isLoginDisabled}
-                  loading={submitting && submittingMode === 'password'}
-                  testID="login-submit"
-                  buttonColor={colors.primaryPurple}
-                  textColor={colors.appBg}
-                  style={[styles.loginButton, isCompact && styles.loginButtonCompact]}
-                  contentStyle={[styles.loginButtonContent, isCompact && styles.loginButtonContentCompact]}
-                  icon={({ size }) => <Feather name="log-in" size={size} color={colors.appBg} />}
-                >
-                  {submitting && submittingMode === 'password' ? t('Authorizing...') : t('Enter')}
-                </Button>
-
-                {/* Divider */}
-                <View style={styles.dividerContainer}>
-                  <Divider style={[styles.dividerLine, { backgroundColor: colors.cardBorder }]} />
-                  <Text style={[styles.dividerText, { color: colors.textMuted }]}>{t('OR')}</Text>
-                  <Divider style={[styles.dividerLine, { backgroundColor: colors.cardBorder }]} />
-                </View>
+                    </View>
 
-                {/* Google Link Button */}
-                <Surface
-                  style={[
-                    styles.googleButton,
-                    { borderColor: colors.neonGreen, backgroundColor: googleBg },
-                    submitting && styles.buttonDisabled,
-                  ]}
-                  elevation={0}
-                >
-                  <TouchableRipple
-                    onPress={startGoogleLogin}
-                    disabled={submitting}
-                    testID="login-google"
-                    style={styles.googleRipple}
-                  >
-                    <View style={[styles.googleContent, isCompact && styles.googleContentCompact]}>
-                      <View
+                    {/* Password Input */}
+                    <View style={styles.inputGroup}>
+                      <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>{t('Password')}</Text>
+                      <PaperTextInput
+                        testID="login-password"
+                        mode="outlined"
+                        placeholder="********"
+                        placeholderTextColor={colors.textMuted}
+                        value={password}
+                        onChangeText={setPassword}
+                        secureTextEntry={!showPassword}
+                        autoCapitalize="none"
+                        outlineColor={colors.cardBorder}
+                        activeOutlineColor={colors.primaryPurple}
+                        textColor={colors.textPrimary}
                         style={[
-                          styles.googleIconBox,
-                          {
-                            backgroundColor: colors.cardBgFrom,
-                            borderColor: `${colors.cardBorder}aa`,
-                          },
+                          styles.paperInput,
+                          { backgroundColor: inputBg },
+                          isCompact && styles.paperInputCompact,
                         ]}
+                        left={
+                          <PaperTextInput.Icon
+                            icon={() => <Feather name="lock" size={18} color={colors.primaryPurple} />}
+                          />
+                        }
+                        right={
+                          <PaperTextInput.Icon
+                            onPress={() => setShowPassword((prev) => !prev)}
+                            icon={() => (
+                              <Feather
+                                name={showPassword ? 'eye' : 'eye-off'}
+                                size={18}
+                                color={colors.textMuted}
+                              />
+                            )}
+                          />
+                        }
+                      />
+                      <TouchableRipple
+                        onPress={() => setForgotPasswordVisible(true)}
+                        disabled={submitting}
+                        testID="login-forgot-password"
+                        style={styles.forgotPasswordLink}
                       >
-                        <AntDesign name="google" size={18} color="#4285F4" />
-                      </View>
-                      <View style={styles.googleTextContainer}>
-                        <Text style={[styles.googleTitle, { color: colors.neonGreen }]}>
-                          {submitting && submittingMode === 'google' ? t('Linking...') : t('Initiate Google Link')}
+                        <Text style={[styles.forgotPasswordText, { color: colors.primaryPurple }]}>
+                          {t('Forgot password?')}
                         </Text>
-                        <Text style={[styles.googleSubtitle, { color: colors.textMuted }]}>
-                          {t('ROUTE THROUGH NERV SSO')}
-                        </Text>
-                      </View>
-                      <Feather name="chevron-right" size={20} color={colors.neonGreen} />
+                      </TouchableRipple>
+                    </View>
+
+                    {/* Login Button */}
+                    <Button
+                      mode="contained"
+                      onPress={handleLogin}
+                      disabled={isLoginDisabled}
+                      loading={submitting && submittingMode === 'password'}
+                      testID="login-submit"
+                      buttonColor={colors.primaryPurple}
+                      textColor={colors.appBg}
+                      style={[styles.loginButton, isCompact && styles.loginButtonCompact]}
+                      contentStyle={[styles.loginButtonContent, isCompact && styles.loginButtonContentCompact]}
+                      icon={({ size }) => <Feather name="log-in" size={size} color={colors.appBg} />}
+                    >
+                      {submitting && submittingMode === 'password' ? t('Authorizing...') : t('Enter')}
+                    </Button>
+
+                    {/* Divider */}
+                    <View style={styles.dividerContainer}>
+                      <Divider style={[styles.dividerLine, { backgroundColor: colors.cardBorder }]} />
+                      <Text style={[styles.dividerText, { color: colors.textMuted }]}>{t('OR')}</Text>
+                      <Divider style={[styles.dividerLine, { backgroundColor: colors.cardBorder }]} />
                     </View>
-                  </TouchableRipple>
-                </Surface>
+
+                    {/* Google Link Button */}
+                    <Surface
+                      style={[
+                        styles.googleButton,
+                        { borderColor: colors.neonGreen, backgroundColor: googleBg },
+                        submitting && styles.buttonDisabled,
+                      ]}
+                      elevation={0}
+                    >
+                      <TouchableRipple
+                        onPress={startGoogleLogin}
+                        disabled={submitting}
+                        testID="login-google"
+                        style={styles.googleRipple}
+                      >
+                        <View style={[styles.googleContent, isCompact && styles.googleContentCompact]}>
+                          <View
+                            style={[
+                              styles.googleIconBox,
+                              {
+                                backgroundColor: colors.cardBgFrom,
+                                borderColor: `${colors.cardBorder}aa`,
+                              },
+                            ]}
+                          >
+                            <AntDesign name="google" size={18} color="#4285F4" />
+                          </View>
+                          <View style={styles.googleTextContainer}>
+                            <Text style={[styles.googleTitle, { color: colors.neonGreen }]}>
+                              {submitting && submittingMode === 'google' ? t('Linking...') : t('Initiate Google Link')}
+                            </Text>
+                            <Text style={[styles.googleSubtitle, { color: colors.textMuted }]}>
+                              {t('ROUTE THROUGH NERV SSO')}
+                            </Text>
+                          </View>
+                          <Feather name="chevron-right" size={20} color={colors.neonGreen} />
+                        </View>
+                      </TouchableRipple>
+                    </Surface>
+
+                    {OAUTH_PROVIDERS.map((provider) => (
+                      <OAuthProviderButton
+                        key={provider.id}
+                        provider={provider}
+                        submitting={submitting}
+                        active={submitting && submittingMode === 'oauth' && oauthProviderId === provider.id}
+                        compact={isCompact}
+                        onBegin={beginOAuthLogin}
+                        onCode={handleOAuthCode}
+                        onFinish={finishOAuthLogin}
+                      />
+                    ))}
+                  </>
+                )}
               </View>
               </View>
             </BlurView>
@@ -468,7 +508,9 @@ export function Login() {
             <View style={[styles.statusIndicator, { backgroundColor: colors.neonGreen }]} />
             <Text style={[styles.footerText, { color: colors.textMuted }]}>{t('System Status: Online')}</Text>
           </View>
+          <EnvironmentSwitcher style={styles.environmentSwitcher} />
         </ScrollView>
+        <ForgotPasswordModal visible={forgotPasswordVisible} onClose={() => setForgotPasswordVisible(false)} />
       </KeyboardAvoidingView>
     </View>
   );
@@ -637,6 +679,16 @@ const styles = StyleSheet.create({
   paperInputCompact: {
     minHeight: 50,
   },
+  forgotPasswordLink: {
+    alignSelf: 'flex-end',
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  forgotPasswordText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   loginButton: {
     borderRadius: 18,
     ...Platform.select({
@@ -725,6 +777,12 @@ const styles = StyleSheet.create({
     gap: 8,
     marginTop: 24,
   },
+  environmentSwitcher: {
+    alignSelf: 'center',
+    width: '100%',
+    maxWidth: 360,
+    marginTop: 12,
+  },
   statusIndicator: {
     width: 8,
     height: 8,
@@ -25,6 +25,7 @@ export type SkeletonVariant =
 type NervLoaderProps = {
   label?: string;
   subtitle?: string;
+  progressText?: string | null;
   size?: number;
   fullScreen?: boolean;
   inline?: boolean;
@@ -337,6 +338,7 @@ function PanelSkeleton(props: CommonSkeletonProps) {
 export function NervLoader({
   label,
   subtitle,
+  progressText,
   size = 200,
   fullScreen = false,
   inline = false,
@@ -497,6 +499,11 @@ export function NervLoader({
             {resolvedSubtitle}
           </Text>
         )}
+        {!!progressText && (
+          <Text style={[styles.loadingProgress, inline && styles.inlineSubtitle, { color: colors.neonGreen }]}>
+            {progressText}
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -725,6 +732,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     letterSpacing: 0.2,
   },
+  loadingProgress: {
+    fontSize: 11,
+    fontWeight: '600',
+    textAlign: 'center',
+    letterSpacing: 0.4,
+    marginTop: 4,
+  },
   inlineSubtitle: {
     fontSize: 11,
     textAlign: 'left',
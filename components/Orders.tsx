@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Modal,
   Platform,
+  Pressable,
   ScrollView,
   StyleSheet,
   Text,
@@ -12,14 +13,13 @@ import { HubConnectionBuilder, LogLevel } from '@microsoft/signalr';
 import {
   Button,
   Chip,
-  HelperText,
   IconButton,
   Searchbar,
+  Switch,
   TextInput as PaperTextInput,
   TouchableRipple,
 } from './ui/Paper';
 import { DatePickerModal } from 'react-native-paper-dates';
-import { API_CONFIG } from '../constants/api';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useI18n } from '../contexts/I18nContext';
@@ -27,6 +27,8 @@ import { formatCurrency } from '../utils/currency';
 import {
   Customer as CustomerModel,
   ErpService,
+  FetchAllProgress,
+  ORDER_STATUS_LABELS,
   Order as OrderModel,
   OrderCreatePayload,
   OrderUpdatePayload,
@@ -35,33 +37,77 @@ import {
 } from '../services/erpService';
 import { NervLoader } from './NervLoader';
 import { useResponsive } from '../hooks/useResponsive';
+import { useOfflineMutations } from '../hooks/offline/useOfflineMutations';
+import { useCrossTabMutations } from '../hooks/sync/useCrossTabSync';
+import { allCustomersQuery, allOrdersQuery, productsPageQuery } from '../hooks/query/erpQueries';
+import { useCachedQuery } from '../hooks/query/useCachedQuery';
+import { useQueryScope } from '../hooks/query/useQueryScope';
+import { queryCache, scopeQueryKey } from '../services/queryCache';
+import { resolveOrdersHubUrl } from '../services/apiEnvironments';
+import { trackHubConnection } from '../services/networkLog';
+import { PendingSyncPanel } from './offline/PendingSyncPanel';
+import { DraftRestoredNotice } from './shared/DraftRestoredNotice';
+import { OrderLineItemsEditor } from './orders/OrderLineItemsEditor';
+import { OrderHistoryPanel } from './orders/OrderHistoryPanel';
+import { OrderBulkProgress } from './orders/OrderBulkProgress';
+import { OrderBoard } from './orders/OrderBoard';
+import { useFormDraft } from '../hooks/drafts/useFormDraft';
+import { resolveFormDraftOwner } from '../services/formDrafts';
+import { OrderHistoryRecord, orderHistoryLog } from '../services/orderHistory';
+import { useOrderHistory } from '../hooks/orders/useOrderHistory';
 import {
   formatDateLabel,
-  getQuantityError,
-  getValueError,
   looksLikeId,
   matchesSearchWithinEnterprise,
   parseOrderDateValue,
-  parseNumber,
   resolveCustomerLabel,
   resolveOrderCustomerId,
   resolveOrderItems,
-  resolveProductValue,
-  sanitizeNumericInput,
-  sanitizeQuantityInput,
+  resolveOrderTotal,
   toIdKey,
-  unitAllowsDecimal,
 } from '../utils/orders/helpers';
+import {
+  OrderLineItemsIssue,
+  SelectedOrderItem,
+  addProductToLineItems,
+  buildOrderLineItems,
+  buildOrderStockLimits,
+  hasLineItemErrors,
+  removeLineItemFromList,
+  toSelectedOrderItems,
+  updateLineItemField,
+} from '../utils/orders/lineItems';
+import {
+  ORDER_INITIAL_STATUSES,
+  ORDER_STATUSES,
+  OrderStatus,
+  OrderStatusContext,
+  canTransitionOrderStatus,
+  checkOrderStatusChange,
+  getOrderStatusRequirements,
+  resolveOrderStatusEffects,
+} from '../utils/orders/statusMachine';
+import {
+  OrderBulkAction,
+  OrderBulkItem,
+  OrderBulkTask,
+  buildCsv,
+  createOrderBulkItems,
+  getCommonNextStatuses,
+  runOrderBulkTasks,
+  summarizeOrderBulkItems,
+} from '../utils/orders/bulk';
+import { buildExportFilename, exportCsv } from '../utils/diagnostics/export';
 import { parseDateValue } from '../utils/datetime';
-import { hasManagementAccess } from '../utils/access';
+import { usePermissions } from '../hooks/auth/usePermissions';
+import { describeApiError } from '../utils/apiErrors';
 
-const orderStatusOptions = ['Pending', 'Processing', 'Paid', 'Shipped', 'Delivered', 'Finished'] as const;
-type OrderStatusOption = (typeof orderStatusOptions)[number];
+const orderStatusOptions = ORDER_STATUSES;
+type OrderStatusOption = OrderStatus;
 const statuses = ['all', ...orderStatusOptions];
 const UNKNOWN_CUSTOMER = 'Unknown customer';
 const LOADING_CUSTOMER = 'Loading customer...';
-const ORDER_OPTIONS_PAGE_SIZE = 100;
-const ORDER_OPTIONS_MAX_PAGES = 50;
+const ORDER_OPTIONS_PRODUCTS_PAGE_SIZE = 25;
 const orderStatusEnumValue: Record<OrderStatusOption, number> = {
   Pending: 0,
   Processing: 1,
@@ -75,10 +121,26 @@ const resolveStatusOption = (value?: string | null): OrderStatusOption => {
   const match = orderStatusOptions.find((status) => status.toLowerCase() === normalized);
   return match ?? 'Pending';
 };
+const resolveBoardStatus = (order: OrderModel) => resolveStatusOption(order.status);
 const shouldShowPaidAt = (status?: string | null) => {
   const normalized = resolveStatusOption(status);
   return normalized === 'Paid' || normalized === 'Finished';
 };
+const resolveSafeOrderedProduct = (order: OrderModel): OrderLineItem[] =>
+  (order.orderedProduct ?? [])
+    .map((item) => ({
+      productId: item.productId ?? item.product?.id,
+      quantity: typeof item.quantity === 'number' ? item.quantity : 0,
+      value: typeof item.value === 'number' ? item.value : 0,
+      total: typeof item.total === 'number' ? item.total : undefined,
+      totalValue:
+        typeof item.totalValue === 'number'
+          ? item.totalValue
+          : typeof item.total === 'number'
+            ? item.total
+            : undefined,
+    }))
+    .filter((item) => item.productId !== undefined && item.productId !== null);
 const resolveItemsFromOrderedProducts = (order: OrderModel) => {
   if (!order.orderedProduct || order.orderedProduct.length === 0) {
     return resolveOrderItems(order);
@@ -90,19 +152,29 @@ const resolveItemsFromOrderedProducts = (order: OrderModel) => {
   return quantitySum > 0 ? quantitySum : order.orderedProduct.length;
 };
 
-type SelectedOrderItem = {
-  product: ProductModel;
-  quantity: string;
-  value: string;
+type OrderViewMode = 'list' | 'board';
+
+type OrderDraft = {
+  customer: CustomerModel | null;
+  items: SelectedOrderItem[];
+  scheduledPaymentDate: string | null;
+  status: OrderStatusOption;
 };
 
 export function Orders() {
   const { colors } = useTheme();
   const { t, language } = useI18n();
-  const { client, token, isAuthenticated, loading: authLoading, enterpriseId, currency, user } = useAuth();
+  const { client, token, isAuthenticated, loading: authLoading, enterpriseId, currency, environment, user } =
+    useAuth();
   const erpService = useMemo(() => new ErpService(client), [client]);
-  const canManageOrders = hasManagementAccess(user?.role);
-  const managementDeniedMessage = t('Only Admin, Manager, and Supervisor can edit or delete orders.');
+  const { can } = usePermissions();
+  const canCreateOrders = can('orders', 'create');
+  const canEditOrders = can('orders', 'edit');
+  const canDeleteOrders = can('orders', 'delete');
+  const canOverrideOrderStatus = canEditOrders && can('orders', 'approve');
+  const canGenerateBills = can('bills', 'create');
+  const canExportOrders = can('orders', 'export');
+  const permissionDeniedMessage = t('You do not have permission for this action.');
   const { width, isCompact, isTablet, contentPadding } = useResponsive();
   const dateTimeLocale = useMemo(() => {
     if (language === 'pt') {
@@ -151,6 +223,16 @@ export function Orders() {
   const [detailsLoading, setDetailsLoading] = useState(false);
   const [statusUpdating, setStatusUpdating] = useState(false);
   const [pendingStatusChange, setPendingStatusChange] = useState<OrderStatusOption | null>(null);
+  const [statusOverride, setStatusOverride] = useState(false);
+  const [statusOverrideReason, setStatusOverrideReason] = useState('');
+  const [statusPaymentDate, setStatusPaymentDate] = useState<Date | null>(null);
+  const [statusPaymentDatePickerVisible, setStatusPaymentDatePickerVisible] = useState(false);
+  const [statusTrackingCode, setStatusTrackingCode] = useState('');
+  const [editingItems, setEditingItems] = useState<SelectedOrderItem[] | null>(null);
+  const [editProductSearch, setEditProductSearch] = useState('');
+  const [editProductDropdownOpen, setEditProductDropdownOpen] = useState(false);
+  const [itemsSaving, setItemsSaving] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [confirmDeleteVisible, setConfirmDeleteVisible] = useState(false);
   const [confirmDeleteOrder, setConfirmDeleteOrder] = useState<OrderModel | null>(null);
   const [customerLookupLoading, setCustomerLookupLoading] = useState(false);
@@ -158,6 +240,28 @@ export function Orders() {
   const orderDetailsRequestRef = useRef<string | null>(null);
   const orderPrefetchRef = useRef(new Set<string>());
   const [deletingId, setDeletingId] = useState<OrderModel['id'] | null>(null);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<OrderBulkAction | null>(null);
+  const [bulkOrders, setBulkOrders] = useState<OrderModel[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<OrderStatusOption | null>(null);
+  const [bulkItems, setBulkItems] = useState<OrderBulkItem[]>([]);
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [viewMode, setViewMode] = useState<OrderViewMode>('list');
+  const [movingOrderId, setMovingOrderId] = useState<OrderModel['id'] | null>(null);
+  const offlineOrders = useOfflineMutations({ entity: 'order', erpService });
+  const handledOfflineSyncRef = useRef(offlineOrders.syncedVersion);
+
+  useEffect(() => {
+    // Reload once queued order changes have reached the server.
+    if (handledOfflineSyncRef.current === offlineOrders.syncedVersion) {
+      return;
+    }
+    handledOfflineSyncRef.current = offlineOrders.syncedVersion;
+    setRefreshKey((prev) => prev + 1);
+  }, [offlineOrders.syncedVersion]);
+
+  useCrossTabMutations({ scope: 'orders', onChange: () => setRefreshKey((prev) => prev + 1) });
+
   const [pageNumber, setPageNumber] = useState(1);
   const [pageSize] = useState(25);
   const [hasMore, setHasMore] = useState(false);
@@ -174,21 +278,41 @@ export function Orders() {
   const [selectedItems, setSelectedItems] = useState<SelectedOrderItem[]>([]);
   const [customers, setCustomers] = useState<CustomerModel[]>([]);
   const [products, setProducts] = useState<ProductModel[]>([]);
-  const [customerOptionsEnterpriseId, setCustomerOptionsEnterpriseId] = useState<string | null>(null);
   const [optionsLoading, setOptionsLoading] = useState(false);
+  const [customerOptionsLoaded, setCustomerOptionsLoaded] = useState(0);
+  const [customerOptionsPartial, setCustomerOptionsPartial] = useState(false);
   const [createStatus, setCreateStatus] = useState<OrderStatusOption>('Pending');
   const [creating, setCreating] = useState(false);
-  const ordersHubUrl = useMemo(() => {
-    const envUrl =
-      process.env.EXPO_PUBLIC_SIGNALR_ORDERS_HUB_URL ??
-      process.env.EXPO_PUBLIC_ORDERS_HUB_URL;
-    if (envUrl) {
-      return envUrl;
-    }
-    const base = API_CONFIG.baseUrl.replace(/\/$/, '');
-    const trimmed = base.replace(/\/api\/v1\/?$/i, '');
-    return `${trimmed}/orderHub`;
-  }, []);
+  const orderDraftValues = useMemo<OrderDraft>(
+    () => ({
+      customer: selectedCustomer,
+      items: selectedItems,
+      scheduledPaymentDate: scheduledPaymentDate ? scheduledPaymentDate.toISOString() : null,
+      status: createStatus,
+    }),
+    [createStatus, scheduledPaymentDate, selectedCustomer, selectedItems],
+  );
+  const orderDraft = useFormDraft<OrderDraft>({
+    scope: 'order',
+    environmentId: environment.id,
+    owner: resolveFormDraftOwner(user),
+    enabled: isAuthenticated && !authLoading && canCreateOrders,
+    open: createVisible,
+    values: orderDraftValues,
+    onRestore: (draft) => {
+      const restoredPaymentDate = draft.scheduledPaymentDate ? new Date(draft.scheduledPaymentDate) : null;
+      setOrderDateLabel(formatOrderDateTime(new Date()));
+      setSelectedCustomer(draft.customer ?? null);
+      setSelectedItems(Array.isArray(draft.items) ? draft.items : []);
+      setScheduledPaymentDate(
+        restoredPaymentDate && !Number.isNaN(restoredPaymentDate.getTime()) ? restoredPaymentDate : null,
+      );
+      const restoredStatus = resolveStatusOption(draft.status);
+      setCreateStatus(ORDER_INITIAL_STATUSES.includes(restoredStatus) ? restoredStatus : 'Pending');
+      setCreateVisible(true);
+    },
+  });
+  const ordersHubUrl = useMemo(() => resolveOrdersHubUrl(environment), [environment]);
   const orderEventNames = useMemo(() => {
     const raw = process.env.EXPO_PUBLIC_SIGNALR_ORDERS_EVENTS ?? '';
     const entries = raw
@@ -218,6 +342,39 @@ export function Orders() {
     };
   }, [startDateFilter, endDateFilter]);
 
+  // The board spans every matching order, not just the current page.
+  const [boardProgress, setBoardProgress] = useState<FetchAllProgress | null>(null);
+  const boardQueryOptions = allOrdersQuery(
+    erpService,
+    { ...orderFilter, enterpriseId: enterpriseId ?? undefined },
+    setBoardProgress,
+  );
+  const boardQuery = useCachedQuery({
+    ...boardQueryOptions,
+    enabled: isAuthenticated && !authLoading && viewMode === 'board',
+  });
+  const queryScope = useQueryScope();
+  const boardQueryKey = scopeQueryKey(boardQueryOptions.queryKey, queryScope);
+  const boardQueryKeyRef = useRef(boardQueryKey);
+  boardQueryKeyRef.current = boardQueryKey;
+
+  // Status moves and live status events patch the cached board rows instead of refetching every page.
+  const findBoardOrder = (orderId: OrderModel['id']) =>
+    queryCache
+      .getState<OrderModel[]>(boardQueryKeyRef.current)
+      ?.data?.find((order) => String(order.id) === String(orderId)) ?? null;
+
+  const patchBoardOrder = (orderId: OrderModel['id'], changes: Partial<OrderModel>) => {
+    if (!findBoardOrder(orderId)) {
+      return;
+    }
+    queryCache.setData<OrderModel[]>(boardQueryKeyRef.current, (current) =>
+      current
+        ? current.map((order) => (String(order.id) === String(orderId) ? { ...order, ...changes } : order))
+        : current,
+    );
+  };
+
   useEffect(() => {
     if (!isAuthenticated || authLoading) {
       return;
@@ -239,7 +396,7 @@ export function Orders() {
         setOrders(activeOrders);
         setHasMore(response.data.length === pageSize);
       } else {
-        setErrorMessage(response.error ?? t('Unable to load orders'));
+        setErrorMessage(describeApiError(t, response, t('Unable to load orders')));
       }
 
       setLoading(false);
@@ -281,6 +438,13 @@ export function Orders() {
         const normalizedStatus = typeof status === 'string' ? status.trim().toLowerCase() : '';
         const nextStatus = orderStatusOptions.find((entry) => entry.toLowerCase() === normalizedStatus);
         if (nextStatus) {
+          orderHistoryLog
+            .record(environment.id, orderId, { kind: 'status', source: 'signalr', toStatus: nextStatus })
+            .then(() => {
+              if (active) {
+                setHistoryVersion((prev) => prev + 1);
+              }
+            });
           setOrders((prev) =>
             prev.map((order) =>
               String(order.id) === String(orderId)
@@ -293,7 +457,13 @@ export function Orders() {
               ? { ...current, status: nextStatus }
               : current,
           );
+          patchBoardOrder(orderId, { status: nextStatus });
+          queryCache.invalidate(['orders', 'customers'], [boardQueryKeyRef.current]);
+        } else {
+          queryCache.invalidate(['orders', 'customers']);
         }
+      } else {
+        queryCache.invalidate(['orders', 'customers']);
       }
       setPageNumber(1);
       setRefreshKey((prev) => prev + 1);
@@ -305,7 +475,8 @@ export function Orders() {
 
     connection.onreconnected(handleOrderEvent);
 
-    connection.start().catch((error) => {
+    const trackedHub = trackHubConnection(connection, ordersHubUrl, orderEventNames);
+    trackedHub.start().catch((error) => {
       if (!active) {
         return;
       }
@@ -321,15 +492,10 @@ export function Orders() {
       orderEventNames.forEach((eventName) => {
         connection.off(eventName, handleOrderEvent);
       });
+      trackedHub.dispose();
       connection.stop();
     };
-  }, [isAuthenticated, authLoading, ordersHubUrl, orderEventNames, token]);
-
-  useEffect(() => {
-    if (!isAuthenticated) {
-      setCustomerOptionsEnterpriseId(null);
-    }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, authLoading, ordersHubUrl, orderEventNames, token, environment.id]);
 
   useEffect(() => {
     if (!createVisible || !isAuthenticated || authLoading) {
@@ -338,74 +504,20 @@ export function Orders() {
 
     let active = true;
 
-    const loadAllCustomerOptions = async () => {
-      const allCustomers: CustomerModel[] = [];
-      const seenCustomers = new Set<string>();
-
-      for (let page = 1; page <= ORDER_OPTIONS_MAX_PAGES; page += 1) {
-        const response = await erpService.fetchCustomers(page, ORDER_OPTIONS_PAGE_SIZE, false, {
-          enterpriseId: enterpriseId ?? undefined,
-        });
-
-        if (!response.ok) {
-          if (allCustomers.length > 0) {
-            return { ok: false as const, data: allCustomers, error: response.error };
-          }
-          return { ok: false as const, data: null, error: response.error };
-        }
-
-        const rows = response.data ?? [];
-        if (rows.length === 0) {
-          break;
-        }
-
-        let addedRows = 0;
-        rows.forEach((customer, index) => {
-          const hasId =
-            customer.id !== undefined &&
-            customer.id !== null &&
-            String(customer.id).trim() !== '';
-          const emailKey =
-            typeof customer.email === 'string'
-              ? customer.email.trim().toLowerCase()
-              : '';
-          const key = hasId
-            ? `id:${toIdKey(customer.id as string | number)}`
-            : emailKey
-              ? `email:${emailKey}`
-              : `page:${page}:idx:${index}`;
-
-          if (seenCustomers.has(key)) {
-            return;
-          }
-
-          seenCustomers.add(key);
-          allCustomers.push(customer);
-          addedRows += 1;
-        });
-
-        // Backends that ignore page parameters can repeat rows forever; stop once a page adds nothing new.
-        if (addedRows === 0) {
-          break;
-        }
-      }
-
-      return { ok: true as const, data: allCustomers, error: undefined };
-    };
-
     const loadOptions = async () => {
       setOptionsLoading(true);
 
-      const shouldLoadCustomers = customerOptionsEnterpriseId !== (enterpriseId ?? null);
-      const shouldLoadProducts = products.length === 0;
-
-      const [customersResponse, productsResponse] = await Promise.all([
-        shouldLoadCustomers
-          ? loadAllCustomerOptions()
-          : Promise.resolve({ ok: true, data: customers, error: undefined }),
-        shouldLoadProducts
-          ? erpService.fetchProducts(1, 25)
-          : Promise.resolve({ ok: true, data: products, error: undefined }),
+      // Both lists come from the shared cache, so reopening the form reuses rows other modules already loaded.
+      setCustomerOptionsLoaded(0);
+      const customerOptions = allCustomersQuery(
+        erpService,
+        { enterpriseId: enterpriseId ?? undefined },
+        (progress) => setCustomerOptionsLoaded(progress.rowsLoaded),
+      );
+      const productOptions = productsPageQuery(erpService, 1, ORDER_OPTIONS_PRODUCTS_PAGE_SIZE);
+      const [customersState, productsState] = await Promise.all([
+        queryCache.fetch(scopeQueryKey(customerOptions.queryKey, queryScope), customerOptions.fetcher),
+        queryCache.fetch(scopeQueryKey(productOptions.queryKey, queryScope), productOptions.fetcher),
       ]);
 
       if (!active) {
@@ -413,24 +525,19 @@ export function Orders() {
         return;
       }
 
-      if (customersResponse.data && shouldLoadCustomers) {
-        setCustomers(customersResponse.data);
+      if (customersState.data) {
+        setCustomers(customersState.data);
       }
+      setCustomerOptionsPartial(customersState.partial);
 
-      if (customersResponse.ok && shouldLoadCustomers) {
-        setCustomerOptionsEnterpriseId(enterpriseId ?? null);
+      if (productsState.data) {
+        setProducts(productsState.data);
       }
 
-      if (productsResponse.ok && productsResponse.data && shouldLoadProducts) {
-        setProducts(productsResponse.data);
-      }
-
-      if (!customersResponse.ok || !productsResponse.ok) {
-        const fallbackError =
-          customersResponse.error ??
-          productsResponse.error ??
-          t('Unable to load order options');
-        setErrorMessage(fallbackError);
+      if (customersState.error || productsState.error) {
+        setErrorMessage(
+          describeApiError(t, customersState.error ? customersState : productsState, t('Unable to load order options')),
+        );
       }
 
       setOptionsLoading(false);
@@ -444,6 +551,53 @@ export function Orders() {
     };
   }, [createVisible, isAuthenticated, authLoading, erpService, enterpriseId]);
 
+  const itemsEditing = editingItems !== null;
+
+  const orderHistory = useOrderHistory({
+    erpService,
+    environmentId: environment.id,
+    orderId: detailsOrder?.id ?? null,
+    enabled: detailsVisible && isAuthenticated && !authLoading,
+    version: historyVersion,
+  });
+
+  const recordOrderHistory = (orderId: string | number, record: Omit<OrderHistoryRecord, 'source' | 'user'>) => {
+    orderHistoryLog
+      .record(environment.id, orderId, { ...record, source: 'manual', user: user?.name || user?.email || null })
+      .then(() => setHistoryVersion((prev) => prev + 1));
+  };
+
+  useEffect(() => {
+    if (!itemsEditing || !isAuthenticated || authLoading) {
+      return;
+    }
+
+    let active = true;
+
+    const loadProducts = async () => {
+      const productOptions = productsPageQuery(erpService, 1, ORDER_OPTIONS_PRODUCTS_PAGE_SIZE);
+      const productsState = await queryCache.fetch(
+        scopeQueryKey(productOptions.queryKey, queryScope),
+        productOptions.fetcher,
+      );
+      if (!active) {
+        return;
+      }
+      if (productsState.data) {
+        setProducts(productsState.data);
+      }
+      if (productsState.error) {
+        setErrorMessage(describeApiError(t, productsState, t('Unable to load order options')));
+      }
+    };
+
+    loadProducts();
+
+    return () => {
+      active = false;
+    };
+  }, [itemsEditing, isAuthenticated, authLoading, erpService]);
+
   const goPrevPage = () => {
     setPageNumber((prev) => Math.max(1, prev - 1));
   };
@@ -813,6 +967,10 @@ export function Orders() {
       setErrorMessage(t('Authenticate to manage orders.'));
       return;
     }
+    if (!canCreateOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
     setErrorMessage(null);
     setOrderDateLabel(formatOrderDateTime(new Date()));
     setCustomerDropdownOpen(false);
@@ -840,12 +998,22 @@ export function Orders() {
     setScheduledPaymentDate(null);
     setCreateStatus('Pending');
     setCreating(false);
+    orderDraft.discardDraft();
+  };
+
+  const resetItemsEditing = () => {
+    setEditingItems(null);
+    setEditProductSearch('');
+    setEditProductDropdownOpen(false);
+    setItemsSaving(false);
   };
 
   const openDetails = (order: OrderModel) => {
     orderDetailsRequestRef.current = null;
     setStatusUpdating(false);
-    setPendingStatusChange(null);
+    cancelPendingStatusChange();
+    setStatusOverride(false);
+    resetItemsEditing();
     setDetailsOrder(order);
     setDetailsLoading(true);
     setDetailsVisible(true);
@@ -858,7 +1026,9 @@ export function Orders() {
     setDetailsCustomer(null);
     setDetailsLoading(false);
     setStatusUpdating(false);
-    setPendingStatusChange(null);
+    cancelPendingStatusChange();
+    setStatusOverride(false);
+    resetItemsEditing();
   };
 
   const closeDeleteConfirm = () => {
@@ -867,8 +1037,8 @@ export function Orders() {
   };
 
   const confirmDelete = async () => {
-    if (!canManageOrders) {
-      setErrorMessage(managementDeniedMessage);
+    if (!canDeleteOrders) {
+      setErrorMessage(permissionDeniedMessage);
       closeDeleteConfirm();
       return;
     }
@@ -882,7 +1052,7 @@ export function Orders() {
     setErrorMessage(null);
 
     const response = await erpService.deleteOrder(confirmDeleteOrder.id);
-    if (response.ok) {
+    if (response.ok || response.queued) {
       setOrders((prev) =>
         prev.filter((item) => String(item.id) !== String(confirmDeleteOrder.id)),
       );
@@ -890,7 +1060,7 @@ export function Orders() {
         closeDetails();
       }
     } else {
-      setErrorMessage(response.error ?? t('Unable to delete order'));
+      setErrorMessage(describeApiError(t, response, t('Unable to delete order')));
     }
 
     setDeletingId(null);
@@ -902,8 +1072,8 @@ export function Orders() {
       setErrorMessage(t('Authenticate to manage orders.'));
       return;
     }
-    if (!canManageOrders) {
-      setErrorMessage(managementDeniedMessage);
+    if (!canDeleteOrders) {
+      setErrorMessage(permissionDeniedMessage);
       return;
     }
     if (order.id === undefined || order.id === null) {
@@ -916,52 +1086,15 @@ export function Orders() {
   };
 
   const addProduct = (product: ProductModel) => {
-    setSelectedItems((prev) => {
-      const existing = prev.find((item) => item.product.id === product.id);
-      if (existing) {
-        return prev.map((item) => {
-          if (item.product.id !== product.id) {
-            return item;
-          }
-          const currentQuantity = parseNumber(item.quantity) ?? 0;
-          const allowDecimal = unitAllowsDecimal(item.product.unitOfMeasure);
-          const nextQuantity = allowDecimal
-            ? currentQuantity + 1
-            : Math.round(currentQuantity + 1);
-          return {
-            ...item,
-            quantity: String(Math.max(allowDecimal ? 0 : 1, nextQuantity)),
-          };
-        });
-      }
-      return [
-        ...prev,
-        {
-          product,
-          quantity: '1',
-          value: String(resolveProductValue(product)),
-        },
-      ];
-    });
+    setSelectedItems((prev) => addProductToLineItems(prev, product));
   };
 
   const updateLineItem = (productId: string | number, field: 'quantity' | 'value', value: string) => {
-    setSelectedItems((prev) =>
-      prev.map((item) => {
-        if (item.product.id !== productId) {
-          return item;
-        }
-        const sanitized =
-          field === 'quantity'
-            ? sanitizeQuantityInput(value, item.product.unitOfMeasure)
-            : sanitizeNumericInput(value);
-        return { ...item, [field]: sanitized };
-      }),
-    );
+    setSelectedItems((prev) => updateLineItemField(prev, productId, field, value));
   };
 
   const removeLineItem = (productId: string | number) => {
-    setSelectedItems((prev) => prev.filter((item) => item.product.id !== productId));
+    setSelectedItems((prev) => removeLineItemFromList(prev, productId));
   };
 
   const filteredCustomers = useMemo(() => {
@@ -986,38 +1119,24 @@ export function Orders() {
     );
   }, [products, productSearch, enterpriseId]);
 
-  const computedItems = useMemo(
-    () =>
-      selectedItems.reduce((sum, item) => sum + (parseNumber(item.quantity) ?? 0), 0),
-    [selectedItems],
-  );
-  const hasDecimalItems = useMemo(
-    () => selectedItems.some((item) => unitAllowsDecimal(item.product.unitOfMeasure)),
-    [selectedItems],
-  );
-
-  const computedTotal = useMemo(
-    () =>
-      selectedItems.reduce((sum, item) => {
-        const quantity = parseNumber(item.quantity) ?? 0;
-        const value = parseNumber(item.value) ?? 0;
-        return sum + quantity * value;
-      }, 0),
-    [selectedItems],
-  );
-
-  const hasLineItemErrors = useMemo(
-    () =>
-      selectedItems.some(
-        (item) =>
-          getQuantityError(item.quantity, item.product.unitOfMeasure) ||
-          getValueError(item.value),
-      ),
-    [selectedItems],
-  );
+  const hasCreateLineItemErrors = useMemo(() => hasLineItemErrors(selectedItems), [selectedItems]);
+
+  const describeLineItemsIssue = (issue: OrderLineItemsIssue) => {
+    const name = issue.name ?? t('Product');
+    switch (issue.kind) {
+      case 'quantity':
+        return t('{name} quantity: {message}.', { name, message: t(issue.message) });
+      case 'value':
+        return t('{name} value: {message}.', { name, message: t(issue.message) });
+      case 'stock':
+        return t('{name}: only {count} in stock.', { name, count: issue.available });
+      default:
+        return t('{name} has invalid quantity or value.', { name });
+    }
+  };
 
   const createDisabled =
-    creating || !selectedCustomer || selectedItems.length === 0 || hasLineItemErrors;
+    creating || !selectedCustomer || selectedItems.length === 0 || hasCreateLineItemErrors;
 
   const handleCreate = async () => {
     if (creating) {
@@ -1042,53 +1161,12 @@ export function Orders() {
       return;
     }
 
-    const orderLineItems: OrderLineItem[] = [];
-    let totalItems = 0;
-    let totalValue = 0;
-    for (const item of selectedItems) {
-      const quantityError = getQuantityError(item.quantity, item.product.unitOfMeasure);
-      if (quantityError) {
-        setErrorMessage(
-          t('{name} quantity: {message}.', {
-            name: item.product.name ?? t('Product'),
-            message: t(quantityError),
-          }),
-        );
-        return;
-      }
-      const valueError = getValueError(item.value);
-      if (valueError) {
-        setErrorMessage(
-          t('{name} value: {message}.', {
-            name: item.product.name ?? t('Product'),
-            message: t(valueError),
-          }),
-        );
-        return;
-      }
-      const quantity = parseNumber(item.quantity);
-      const value = parseNumber(item.value);
-      if (quantity === null || value === null) {
-        setErrorMessage(
-          t('{name} has invalid quantity or value.', {
-            name: item.product.name ?? t('Product'),
-          }),
-        );
-        return;
-      }
-
-      const resolvedQuantity = quantity;
-      const lineTotal = resolvedQuantity * value;
-      orderLineItems.push({
-        productId: item.product.id,
-        quantity: resolvedQuantity,
-        value,
-        total: lineTotal,
-        totalValue: lineTotal,
-      });
-      totalItems += resolvedQuantity;
-      totalValue += lineTotal;
+    const lineItems = buildOrderLineItems(selectedItems);
+    if (!lineItems.ok) {
+      setErrorMessage(describeLineItemsIssue(lineItems.issue));
+      return;
     }
+    const { lines: orderLineItems, totalItems, totalValue } = lineItems;
 
     const customer = resolveCustomerLabel(selectedCustomer);
     if (!customer) {
@@ -1128,7 +1206,9 @@ export function Orders() {
     };
 
     const response = await erpService.createOrder(payload);
-    if (response.ok) {
+    if (response.queued) {
+      closeCreate();
+    } else if (response.ok) {
       const fallbackOrder: OrderModel = {
         id: response.data?.id ?? Date.now(),
         customer,
@@ -1152,7 +1232,7 @@ export function Orders() {
       setOrders((prev) => [hydratedOrder, ...prev]);
       closeCreate();
     } else {
-      setErrorMessage(response.error ?? t('Unable to create order'));
+      setErrorMessage(describeApiError(t, response, t('Unable to create order')));
     }
 
     setCreating(false);
@@ -1172,34 +1252,241 @@ export function Orders() {
       setErrorMessage(t('Authenticate to manage orders.'));
       return;
     }
-    if (!canManageOrders) {
-      setErrorMessage(managementDeniedMessage);
+    if (!canEditOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    if (!canTransitionOrderStatus(currentStatus, nextStatus) && !(statusOverride && canOverrideOrderStatus)) {
+      setErrorMessage(t('This status change is not allowed.'));
       return;
     }
 
+    const requirements = getOrderStatusRequirements(nextStatus);
+    setStatusPaymentDate(
+      requirements.includes('paymentDate') ? parseDateValue(detailsOrder.paymentDate) ?? new Date() : null,
+    );
+    setStatusTrackingCode(requirements.includes('trackingCode') ? detailsOrder.trackingCode ?? '' : '');
+    setStatusOverrideReason('');
     setPendingStatusChange(nextStatus);
   };
 
   const cancelPendingStatusChange = () => {
     setPendingStatusChange(null);
+    setStatusOverrideReason('');
+    setStatusPaymentDate(null);
+    setStatusPaymentDatePickerVisible(false);
+    setStatusTrackingCode('');
   };
 
+  const statusChangeContext = useMemo<OrderStatusContext>(() => {
+    const paymentDate = statusPaymentDate ? new Date(statusPaymentDate) : null;
+    paymentDate?.setHours(12, 0, 0, 0);
+    return { paymentDate: paymentDate?.toISOString() ?? null, trackingCode: statusTrackingCode };
+  }, [statusPaymentDate, statusTrackingCode]);
+
+  const pendingStatusCheck = useMemo(() => {
+    if (!pendingStatusChange || !detailsOrder) {
+      return null;
+    }
+    const currentStatus = resolveStatusOption(detailsOrder.status);
+    return checkOrderStatusChange(
+      currentStatus,
+      pendingStatusChange,
+      statusChangeContext,
+      canTransitionOrderStatus(currentStatus, pendingStatusChange) ? undefined : statusOverrideReason,
+    );
+  }, [pendingStatusChange, detailsOrder, statusChangeContext, statusOverrideReason]);
+
   const confirmStatusChange = async () => {
-    if (!pendingStatusChange) {
+    if (!pendingStatusChange || !pendingStatusCheck) {
+      return;
+    }
+    if (!pendingStatusCheck.ok) {
+      setErrorMessage(t(pendingStatusCheck.error));
       return;
     }
 
     const nextStatus = pendingStatusChange;
-    setPendingStatusChange(null);
-    await handleManualStatusChange(nextStatus);
+    const context = statusChangeContext;
+    const overrideReason = pendingStatusCheck.override ? statusOverrideReason.trim() : undefined;
+    cancelPendingStatusChange();
+    await handleManualStatusChange(nextStatus, context, overrideReason);
+  };
+
+  const filteredEditProducts = useMemo(() => {
+    return products.filter((product) =>
+      matchesSearchWithinEnterprise(
+        [product.name, product.category, product.id],
+        editProductSearch,
+        enterpriseId,
+        product.enterpriseId,
+      ),
+    );
+  }, [products, editProductSearch, enterpriseId]);
+
+  const editStockLimits = useMemo(
+    () =>
+      editingItems ? buildOrderStockLimits(detailsOrder?.orderedProduct ?? [], editingItems, products) : undefined,
+    [editingItems, detailsOrder, products],
+  );
+
+  const hasEditLineItemErrors = useMemo(
+    () => (editingItems ? hasLineItemErrors(editingItems, editStockLimits) : false),
+    [editingItems, editStockLimits],
+  );
+
+  const startItemsEditing = () => {
+    if (!detailsOrder) {
+      return;
+    }
+    if (!canEditOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    cancelPendingStatusChange();
+    setEditProductSearch('');
+    setEditProductDropdownOpen(false);
+    setEditingItems(toSelectedOrderItems(resolveSafeOrderedProduct(detailsOrder), products));
+  };
+
+  const updateEditingItems = (update: (items: SelectedOrderItem[]) => SelectedOrderItem[]) => {
+    setEditingItems((prev) => (prev ? update(prev) : prev));
+  };
+
+  const saveEditedItems = async () => {
+    if (
+      itemsSaving ||
+      !editingItems ||
+      !detailsOrder ||
+      detailsOrder.id === undefined ||
+      detailsOrder.id === null
+    ) {
+      return;
+    }
+    if (!isAuthenticated || authLoading) {
+      setErrorMessage(t('Authenticate to manage orders.'));
+      return;
+    }
+    if (!canEditOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    if (editingItems.length === 0) {
+      setErrorMessage(t('Add at least one product.'));
+      return;
+    }
+
+    const lineItems = buildOrderLineItems(editingItems, editStockLimits);
+    if (!lineItems.ok) {
+      setErrorMessage(describeLineItemsIssue(lineItems.issue));
+      return;
+    }
+
+    setItemsSaving(true);
+    setErrorMessage(null);
+    try {
+      const fullOrderResponse = await erpService.fetchOrderById(detailsOrder.id);
+      const sourceOrder = fullOrderResponse.ok && fullOrderResponse.data
+        ? fullOrderResponse.data
+        : detailsOrder;
+
+      const updatedAt = new Date().toISOString();
+      const payload = buildOrderUpdatePayload(sourceOrder, {
+        updatedAt,
+        status: orderStatusEnumValue[resolveStatusOption(sourceOrder.status)],
+        orderedProduct: lineItems.lines,
+        items: lineItems.totalItems,
+        total: lineItems.totalValue,
+        totalValue: lineItems.totalValue,
+      });
+
+      const response = await erpService.updateOrder(payload);
+      if (response.ok || response.queued) {
+        const orderedProduct = lineItems.lines.map((line) => ({
+          ...line,
+          product: editingItems.find((item) => item.product.id === line.productId)?.product,
+        }));
+        const applyItems = (order: OrderModel): OrderModel => ({
+          ...order,
+          updatedAt,
+          orderedProduct,
+          items: lineItems.totalItems,
+          total: lineItems.totalValue,
+          totalValue: lineItems.totalValue,
+        });
+        setDetailsOrder((current) =>
+          current && String(current.id) === String(payload.id) ? applyItems(current) : current,
+        );
+        setOrders((prev) =>
+          prev.map((order) => (String(order.id) === String(payload.id) ? applyItems(order) : order)),
+        );
+        recordOrderHistory(payload.id, {
+          kind: 'items',
+          items: lineItems.totalItems,
+          total: lineItems.totalValue,
+        });
+        resetItemsEditing();
+      } else {
+        setErrorMessage(describeApiError(t, response, t('Unable to update order items')));
+      }
+    } finally {
+      setItemsSaving(false);
+    }
+  };
+
+  // Carries every field of the stored order so the PUT does not blank anything the change does not touch.
+  const buildOrderUpdatePayload = (
+    sourceOrder: OrderModel,
+    changes: Pick<OrderUpdatePayload, 'status' | 'updatedAt'> & Partial<OrderUpdatePayload>,
+  ): OrderUpdatePayload => {
+    const safeTotal =
+      typeof sourceOrder.total === 'number'
+        ? sourceOrder.total
+        : typeof sourceOrder.totalValue === 'number'
+          ? sourceOrder.totalValue
+          : 0;
+    const safeScheduledPaymentDate = sourceOrder.paymentScheduledDate ?? null;
+    const safePaymentDate = sourceOrder.paymentDate ?? null;
+
+    return {
+      id: sourceOrder.id,
+      customer: resolveOrderCustomerNameRaw(sourceOrder) || UNKNOWN_CUSTOMER,
+      customerId: resolveOrderCustomerId(sourceOrder) ?? sourceOrder.customerId,
+      date: sourceOrder.date ?? sourceOrder.createdAt ?? new Date().toISOString(),
+      createdAt: sourceOrder.createdAt ?? undefined,
+      total: safeTotal,
+      totalValue: sourceOrder.totalValue ?? safeTotal,
+      items: resolveItemsFromOrderedProducts(sourceOrder),
+      orderedProduct: resolveSafeOrderedProduct(sourceOrder),
+      isActive: sourceOrder.isActive ?? true,
+      enterpriseId: enterpriseId ?? undefined,
+      payday: sourceOrder.payday ?? null,
+      paymentScheduledDate: safeScheduledPaymentDate,
+      PaymentScheduledDate: safeScheduledPaymentDate,
+      paymentDate: safePaymentDate,
+      PaymentDate: safePaymentDate,
+      trackingCode: sourceOrder.trackingCode ?? null,
+      ...changes,
+    };
   };
 
-  const handleManualStatusChange = async (nextStatus: OrderStatusOption) => {
+  const handleManualStatusChange = async (
+    nextStatus: OrderStatusOption,
+    context: OrderStatusContext,
+    overrideReason?: string,
+  ) => {
     if (statusUpdating || !detailsOrder || detailsOrder.id === undefined || detailsOrder.id === null) {
       return;
     }
 
-    if (resolveStatusOption(detailsOrder.status) === nextStatus) {
+    const localCheck = checkOrderStatusChange(
+      resolveStatusOption(detailsOrder.status),
+      nextStatus,
+      context,
+      canOverrideOrderStatus ? overrideReason : undefined,
+    );
+    if (!localCheck.ok) {
+      setErrorMessage(t(localCheck.error));
       return;
     }
 
@@ -1207,8 +1494,8 @@ export function Orders() {
       setErrorMessage(t('Authenticate to manage orders.'));
       return;
     }
-    if (!canManageOrders) {
-      setErrorMessage(managementDeniedMessage);
+    if (!canEditOrders) {
+      setErrorMessage(permissionDeniedMessage);
       return;
     }
 
@@ -1219,100 +1506,325 @@ export function Orders() {
       const sourceOrder = fullOrderResponse.ok && fullOrderResponse.data
         ? fullOrderResponse.data
         : detailsOrder;
-
-      const safeOrderedProduct = (sourceOrder.orderedProduct ?? [])
-        .map((item) => ({
-          productId: item.productId ?? item.product?.id,
-          quantity: typeof item.quantity === 'number' ? item.quantity : 0,
-          value: typeof item.value === 'number' ? item.value : 0,
-          total: typeof item.total === 'number' ? item.total : undefined,
-          totalValue:
-            typeof item.totalValue === 'number'
-              ? item.totalValue
-              : typeof item.total === 'number'
-                ? item.total
-                : undefined,
-        }))
-        .filter((item) => item.productId !== undefined && item.productId !== null);
-
-      if (safeOrderedProduct.length === 0) {
-        setErrorMessage(t('Order must have Ordered Products.'));
+      // The open details may be stale, so the transition is checked again against the fetched status.
+      const check = checkOrderStatusChange(
+        resolveStatusOption(sourceOrder.status),
+        nextStatus,
+        context,
+        canOverrideOrderStatus ? overrideReason : undefined,
+      );
+      if (!check.ok) {
+        setErrorMessage(t(check.error));
         return;
       }
 
       const updatedAt = new Date().toISOString();
-      const nextPayday = nextStatus === 'Paid' ? updatedAt : sourceOrder.payday ?? null;
-      const safeCustomer = resolveOrderCustomerNameRaw(sourceOrder) || UNKNOWN_CUSTOMER;
-      const safeDate = sourceOrder.date ?? sourceOrder.createdAt ?? new Date().toISOString();
-      const safeScheduledPaymentDate = sourceOrder.paymentScheduledDate ?? null;
-      const safeTotal =
-        typeof sourceOrder.total === 'number'
-          ? sourceOrder.total
-          : typeof sourceOrder.totalValue === 'number'
-            ? sourceOrder.totalValue
-            : 0;
-      const safeCustomerId = resolveOrderCustomerId(sourceOrder);
-
-      const payload: OrderUpdatePayload = {
-        id: sourceOrder.id,
+      const payload = buildOrderUpdatePayload(sourceOrder, {
         updatedAt,
         status: orderStatusEnumValue[nextStatus],
-        customer: safeCustomer,
-        customerId: safeCustomerId ?? sourceOrder.customerId,
-        date: safeDate,
-        createdAt: sourceOrder.createdAt ?? undefined,
-        total: safeTotal,
-        totalValue: sourceOrder.totalValue ?? safeTotal,
-        items: resolveItemsFromOrderedProducts(sourceOrder),
-        orderedProduct: safeOrderedProduct,
-        isActive: sourceOrder.isActive ?? true,
-        enterpriseId: enterpriseId ?? undefined,
-        payday: nextPayday,
-        paymentScheduledDate: safeScheduledPaymentDate,
-        PaymentScheduledDate: safeScheduledPaymentDate,
-        paymentDate: null,
-        PaymentDate: null,
-      };
+        ...resolveOrderStatusEffects(nextStatus, context),
+        ...(check.override && overrideReason ? { statusChangeReason: overrideReason } : {}),
+      });
+      if (!payload.orderedProduct || payload.orderedProduct.length === 0) {
+        setErrorMessage(t('Order must have Ordered Products.'));
+        return;
+      }
 
-      const response = await erpService.updateOrder(payload);
-      if (response.ok) {
+      const response = await erpService.updateOrder(payload, { patchedQueryKeys: [boardQueryKeyRef.current] });
+      if (response.ok || response.queued) {
+        const applyStatus = (order: OrderModel): OrderModel => ({
+          ...order,
+          updatedAt,
+          status: nextStatus,
+          payday: payload.payday,
+          paymentDate: payload.paymentDate,
+          trackingCode: payload.trackingCode,
+        });
+        const boardOrder = findBoardOrder(payload.id);
+        if (boardOrder) {
+          patchBoardOrder(payload.id, applyStatus(boardOrder));
+        }
         setDetailsOrder((current) =>
-          current && String(current.id) === String(payload.id)
-            ? {
-                ...current,
-                updatedAt,
-                status: nextStatus,
-                payday: nextPayday,
-              }
-            : current,
+          current && String(current.id) === String(payload.id) ? applyStatus(current) : current,
         );
         setOrders((prev) =>
-          prev.map((order) =>
-            String(order.id) === String(payload.id)
-              ? {
-                  ...order,
-                  updatedAt,
-                  status: nextStatus,
-                  payday: nextPayday,
-                }
-              : order,
-          ),
+          prev.map((order) => (String(order.id) === String(payload.id) ? applyStatus(order) : order)),
         );
+        recordOrderHistory(payload.id, {
+          kind: 'status',
+          fromStatus: resolveStatusOption(sourceOrder.status),
+          toStatus: nextStatus,
+          note: payload.statusChangeReason ?? null,
+        });
+        if (nextStatus === 'Paid') {
+          recordOrderHistory(payload.id, { kind: 'payment', paymentDate: payload.paymentDate ?? null });
+        }
       } else {
-        setErrorMessage(response.error ?? t('Unable to update order status'));
+        setErrorMessage(describeApiError(t, response, t('Unable to update order status')));
       }
     } finally {
       setStatusUpdating(false);
     }
   };
 
+  useEffect(() => {
+    // Drop selections for orders that left the list (deleted, filtered out or another page).
+    setSelectedOrderIds((prev) => {
+      const next = prev.filter((id) => orders.some((order) => String(order.id) === id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [orders]);
+
+  const selectedOrders = orders.filter((order) => selectedOrderIds.includes(String(order.id)));
+  const bulkStatusOptions = getCommonNextStatuses(bulkOrders.map((order) => resolveStatusOption(order.status)));
+  const bulkSummary = summarizeOrderBulkItems(bulkItems);
+  const bulkStarted = bulkItems.length > 0;
+
+  const toggleOrderSelection = (order: OrderModel) => {
+    if (order.id === undefined || order.id === null) {
+      return;
+    }
+    const key = String(order.id);
+    setSelectedOrderIds((prev) => (prev.includes(key) ? prev.filter((id) => id !== key) : [...prev, key]));
+  };
+
+  const clearOrderSelection = () => setSelectedOrderIds([]);
+
+  const openBulkAction = (action: OrderBulkAction) => {
+    if (!isAuthenticated || authLoading) {
+      setErrorMessage(t('Authenticate to manage orders.'));
+      return;
+    }
+    const allowed =
+      action === 'status' ? canEditOrders : action === 'delete' ? canDeleteOrders : canGenerateBills;
+    if (!allowed) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    if (selectedOrders.length === 0) {
+      return;
+    }
+
+    setBulkOrders(selectedOrders);
+    setBulkStatus(getCommonNextStatuses(selectedOrders.map((order) => resolveStatusOption(order.status)))[0] ?? null);
+    setBulkItems([]);
+    setBulkAction(action);
+  };
+
+  const closeBulkAction = () => {
+    if (bulkRunning) {
+      return;
+    }
+    if (bulkSummary.succeeded > 0) {
+      clearOrderSelection();
+    }
+    setBulkAction(null);
+    setBulkOrders([]);
+    setBulkStatus(null);
+    setBulkItems([]);
+  };
+
+  const changeOrderStatusFromList = async (order: OrderModel, nextStatus: OrderStatusOption) => {
+    const fullOrderResponse = await erpService.fetchOrderById(order.id);
+    const sourceOrder = fullOrderResponse.ok && fullOrderResponse.data ? fullOrderResponse.data : order;
+    const fromStatus = resolveStatusOption(sourceOrder.status);
+    // Payments from the list are recorded as made now; Shipped relies on the order's own tracking code.
+    const context: OrderStatusContext = {
+      paymentDate: new Date().toISOString(),
+      trackingCode: sourceOrder.trackingCode ?? null,
+    };
+    const check = checkOrderStatusChange(fromStatus, nextStatus, context);
+    if (!check.ok) {
+      return t(check.error);
+    }
+
+    const updatedAt = new Date().toISOString();
+    const payload = buildOrderUpdatePayload(sourceOrder, {
+      updatedAt,
+      status: orderStatusEnumValue[nextStatus],
+      ...resolveOrderStatusEffects(nextStatus, context),
+    });
+    if (!payload.orderedProduct || payload.orderedProduct.length === 0) {
+      return t('Order must have Ordered Products.');
+    }
+
+    const boardOrder = findBoardOrder(payload.id);
+    patchBoardOrder(payload.id, {
+      updatedAt,
+      status: nextStatus,
+      payday: payload.payday,
+      paymentDate: payload.paymentDate,
+      trackingCode: payload.trackingCode,
+    });
+    const response = await erpService.updateOrder(payload, { patchedQueryKeys: [boardQueryKeyRef.current] });
+    if (!response.ok && !response.queued) {
+      if (boardOrder) {
+        patchBoardOrder(payload.id, {
+          updatedAt: boardOrder.updatedAt,
+          status: boardOrder.status,
+          payday: boardOrder.payday,
+          paymentDate: boardOrder.paymentDate,
+          trackingCode: boardOrder.trackingCode,
+        });
+      }
+      return describeApiError(t, response, t('Unable to update order status'));
+    }
+
+    setOrders((prev) =>
+      prev.map((item) =>
+        String(item.id) === String(payload.id)
+          ? {
+              ...item,
+              updatedAt,
+              status: nextStatus,
+              payday: payload.payday,
+              paymentDate: payload.paymentDate,
+              trackingCode: payload.trackingCode,
+            }
+          : item,
+      ),
+    );
+    recordOrderHistory(payload.id, { kind: 'status', fromStatus, toStatus: nextStatus, note: null });
+    if (nextStatus === 'Paid') {
+      recordOrderHistory(payload.id, { kind: 'payment', paymentDate: payload.paymentDate ?? null });
+    }
+    return null;
+  };
+
+  const resolveBulkTask = (): OrderBulkTask | null => {
+    const findOrder = (id: string | number) => bulkOrders.find((order) => String(order.id) === String(id));
+
+    switch (bulkAction) {
+      case 'status': {
+        const nextStatus = bulkStatus;
+        if (!nextStatus) {
+          return null;
+        }
+        return async (id) => {
+          const order = findOrder(id);
+          return order ? changeOrderStatusFromList(order, nextStatus) : t('Order id missing.');
+        };
+      }
+      case 'delete':
+        return async (id) => {
+          const response = await erpService.deleteOrder(id);
+          if (!response.ok && !response.queued) {
+            return describeApiError(t, response, t('Unable to delete order'));
+          }
+          setOrders((prev) => prev.filter((item) => String(item.id) !== String(id)));
+          return null;
+        };
+      case 'bills':
+        return async (id) => {
+          const response = await erpService.generateBill(id);
+          return response.ok ? null : describeApiError(t, response, t('Bill generation unavailable for this order.'));
+        };
+      default:
+        return null;
+    }
+  };
+
+  const runBulkAction = async (retryFailed = false) => {
+    const task = resolveBulkTask();
+    if (!task || bulkRunning) {
+      return;
+    }
+
+    const items = retryFailed
+      ? bulkItems
+      : createOrderBulkItems(bulkOrders.map((order) => order.id).filter((id) => id !== undefined && id !== null));
+    setBulkRunning(true);
+    setErrorMessage(null);
+    try {
+      await runOrderBulkTasks(items, task, setBulkItems);
+    } finally {
+      setBulkRunning(false);
+    }
+  };
+
+  const handleBoardMove = async (order: OrderModel, nextStatus: OrderStatusOption) => {
+    if (movingOrderId !== null || order.id === undefined || order.id === null) {
+      return;
+    }
+    if (!isAuthenticated || authLoading) {
+      setErrorMessage(t('Authenticate to manage orders.'));
+      return;
+    }
+    if (!canEditOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+
+    const currentStatus = resolveStatusOption(order.status);
+    if (currentStatus === nextStatus) {
+      return;
+    }
+    if (!canTransitionOrderStatus(currentStatus, nextStatus)) {
+      setErrorMessage(t('This status change is not allowed.'));
+      return;
+    }
+
+    // Statuses that need a payment date or tracking code go through the confirm card in the details modal.
+    const requirements = getOrderStatusRequirements(nextStatus);
+    if (requirements.length > 0) {
+      openDetails(order);
+      setStatusPaymentDate(requirements.includes('paymentDate') ? parseDateValue(order.paymentDate) ?? new Date() : null);
+      setStatusTrackingCode(requirements.includes('trackingCode') ? order.trackingCode ?? '' : '');
+      setPendingStatusChange(nextStatus);
+      return;
+    }
+
+    setMovingOrderId(order.id);
+    setErrorMessage(null);
+    try {
+      const error = await changeOrderStatusFromList(order, nextStatus);
+      if (error) {
+        setErrorMessage(error);
+      }
+    } finally {
+      setMovingOrderId(null);
+    }
+  };
+
+  const exportSelectedOrders = async () => {
+    if (!canExportOrders) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    if (selectedOrders.length === 0) {
+      return;
+    }
+
+    const csv = buildCsv(
+      ['id', 'status', 'customer', 'date', 'scheduledPaymentDate', 'paidAt', 'trackingCode', 'items', 'total'],
+      selectedOrders.map((order) => [
+        order.id,
+        resolveStatusOption(order.status),
+        resolveOrderCustomerName(order),
+        parseDateValue(resolveOrderDateSource(order))?.toISOString() ?? '',
+        parseDateValue(resolveOrderScheduledPaymentDateSource(order))?.toISOString() ?? '',
+        parseDateValue(resolveOrderPaydaySource(order))?.toISOString() ?? '',
+        order.trackingCode ?? '',
+        resolveOrderItems(order),
+        resolveOrderTotal(order),
+      ]),
+    );
+    try {
+      await exportCsv(buildExportFilename('orders', new Date(), 'csv'), csv);
+    } catch (error) {
+      console.warn('Failed to export orders', error);
+      setErrorMessage(t('Unable to export orders'));
+    }
+  };
+
   const renderStatusOptions = (
     selected: OrderStatusOption,
     onSelect: (status: OrderStatusOption) => void,
     disabled = false,
+    options: readonly OrderStatusOption[] = orderStatusOptions,
   ) => (
     <View style={[styles.statusOptions, isCompact && styles.statusOptionsCompact]}>
-      {orderStatusOptions.map((status) => {
+      {options.map((status) => {
         const isSelected = selected === status;
         return (
           <Chip
@@ -1350,7 +1862,7 @@ export function Orders() {
     </View>
   );
 
-  const filteredOrders = orders.filter((order) => {
+  const matchesOrderFilters = (order: OrderModel) => {
     const normalizedSearch = searchTerm.trim().toLowerCase();
     const customer = resolveOrderCustomerName(order).toLowerCase();
     const idString = (order.id ?? '').toString();
@@ -1386,7 +1898,10 @@ export function Orders() {
     }
 
     return matchesSearch && matchesStatus && matchesDate && isActive;
-  });
+  };
+
+  const filteredOrders = orders.filter(matchesOrderFilters);
+  const boardOrders = (boardQuery.data ?? []).filter(matchesOrderFilters);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -1421,7 +1936,37 @@ export function Orders() {
   const effectiveWidth = contentWidth > 0 ? contentWidth : width;
   const useCardLayout = effectiveWidth < 980;
   const useDenseMobileLayout = effectiveWidth < 420;
-  const orderTableMinWidth = effectiveWidth < 1280 ? 980 : 1080;
+  const orderTableMinWidth = effectiveWidth < 1280 ? 1028 : 1128;
+  const selectableOrderIds = filteredOrders
+    .filter((order) => order.id !== undefined && order.id !== null)
+    .map((order) => String(order.id));
+  const allVisibleSelected =
+    selectableOrderIds.length > 0 && selectableOrderIds.every((id) => selectedOrderIds.includes(id));
+  const toggleVisibleSelection = () => {
+    setSelectedOrderIds((prev) =>
+      allVisibleSelected
+        ? prev.filter((id) => !selectableOrderIds.includes(id))
+        : [...prev, ...selectableOrderIds.filter((id) => !prev.includes(id))],
+    );
+  };
+  const renderSelectionToggle = (selected: boolean, onPress: () => void, label: string, testID: string) => (
+    <IconButton
+      icon={() => (
+        <Feather
+          name={selected ? 'check-square' : 'square'}
+          size={18}
+          color={selected ? colors.primaryPurple : colors.textMuted}
+        />
+      )}
+      size={18}
+      onPress={onPress}
+      disabled={bulkRunning}
+      style={styles.selectToggle}
+      accessibilityLabel={label}
+      accessibilityState={{ checked: selected }}
+      testID={testID}
+    />
+  );
   const rowActionIconSize = useCardLayout ? (useDenseMobileLayout ? 22 : 24) : 16;
 
   return (
@@ -1461,7 +2006,22 @@ export function Orders() {
             </View>
           )}
 
-          {!loading && filteredOrders.length === 0 && (
+          <PendingSyncPanel
+            entries={offlineOrders.entries}
+            replaying={offlineOrders.replaying}
+            describe={(entry) => {
+              const payload = entry.payload as OrderCreatePayload | OrderUpdatePayload | string | number | null;
+              if (payload && typeof payload === 'object') {
+                return 'id' in payload && payload.id !== undefined ? `#${payload.id}` : payload.customer ?? null;
+              }
+              return payload === null ? null : `#${payload}`;
+            }}
+            onSyncNow={offlineOrders.syncNow}
+            onRetry={offlineOrders.retry}
+            onDiscard={offlineOrders.discard}
+          />
+
+          {viewMode === 'list' && !loading && filteredOrders.length === 0 && (
             <View style={[styles.emptyState, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}>
               <Feather name="shopping-cart" size={20} color={colors.textMuted} />
               <Text style={[styles.emptyTitle, { color: colors.textPrimary }]}>{t('No orders yet')}</Text>
@@ -1571,14 +2131,14 @@ export function Orders() {
               <Button
                 mode="contained"
                 onPress={openCreate}
-                disabled={!isAuthenticated || authLoading}
+                disabled={!isAuthenticated || authLoading || !canCreateOrders}
                 icon={({ size }) => <Feather name="plus" size={size} color={colors.neonGreen} />}
                 buttonColor={colors.primaryPurple}
                 textColor={colors.appBg}
                 style={[
                   styles.addButton,
                   isCompact && styles.addButtonCompact,
-                  (!isAuthenticated || authLoading) && styles.buttonDisabled,
+                  (!isAuthenticated || authLoading || !canCreateOrders) && styles.buttonDisabled,
                 ]}
                 contentStyle={[styles.addButtonContent, isCompact && styles.addButtonContentCompact]}
                 labelStyle={[styles.addButtonLabel, styles.compactControlLabel]}
@@ -1587,44 +2147,214 @@ export function Orders() {
               </Button>
             </View>
 
-            <View style={[styles.paginationRow, isCompact && styles.paginationRowCompact]}>
-              <Button
-                mode="outlined"
-                onPress={goPrevPage}
-                disabled={pageNumber === 1}
-                icon={({ size }) => <Feather name="chevron-left" size={size} color={colors.textSecondary} />}
-                textColor={colors.textSecondary}
+            <View style={[styles.viewRow, isCompact && styles.viewRowCompact]}>
+              <Text style={[styles.viewLabel, { color: colors.textSecondary }]}>{t('View')}</Text>
+              <View
                 style={[
-                  styles.paginationButton,
-                  { borderColor: colors.cardBorder },
-                  pageNumber === 1 && styles.paginationButtonDisabled,
+                  styles.viewToggle,
+                  styles.segmentedControl,
+                  { borderColor: colors.cardBorder, backgroundColor: colors.sidebarBgTo },
                 ]}
-                contentStyle={styles.paginationButtonContent}
-                labelStyle={styles.compactControlLabel}
               >
-                {t('Prev')}
-              </Button>
-              <Text style={[styles.pageIndicator, { color: colors.textPrimary }]}>{t('Page {page}', { page: pageNumber })}</Text>
-              <Button
-                mode="outlined"
-                onPress={goNextPage}
-                disabled={!hasMore}
-                icon={({ size }) => <Feather name="chevron-right" size={size} color={colors.textSecondary} />}
-                textColor={colors.textSecondary}
+                {([
+                  { value: 'list', label: 'List' },
+                  { value: 'board', label: 'Board' },
+                ] as const).map((option, index, array) => {
+                  const isActive = viewMode === option.value;
+                  return (
+                    <Pressable
+                      key={option.value}
+                      onPress={() => setViewMode(option.value)}
+                      style={({ pressed }) => [
+                        styles.segmentButton,
+                        index === 0 && styles.segmentButtonFirst,
+                        index === array.length - 1 && styles.segmentButtonLast,
+                        index < array.length - 1 && { borderRightWidth: 1, borderRightColor: colors.cardBorder },
+                        isActive && { backgroundColor: colors.primaryPurple },
+                        pressed && styles.segmentButtonPressed,
+                      ]}
+                      testID={`orders-view-${option.value}`}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentButtonLabel,
+                          { color: isActive ? colors.neonGreen : colors.textSecondary },
+                        ]}
+                      >
+                        {t(option.label)}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            {viewMode === 'list' && selectedOrderIds.length > 0 && (
+              <View
                 style={[
-                  styles.paginationButton,
-                  { borderColor: colors.cardBorder },
-                  !hasMore && styles.paginationButtonDisabled,
+                  styles.bulkBar,
+                  isCompact && styles.bulkBarCompact,
+                  { backgroundColor: `${colors.primaryPurple}12`, borderColor: colors.primaryPurple },
                 ]}
-                contentStyle={styles.paginationButtonContent}
-                labelStyle={styles.compactControlLabel}
+                testID="orders-bulk-bar"
               >
-                {t('Next')}
-              </Button>
-            </View>
+                <Text style={[styles.bulkBarLabel, { color: colors.textPrimary }]}>
+                  {t('{count} selected', { count: selectedOrderIds.length })}
+                </Text>
+                <View style={styles.bulkBarActions}>
+                  {canEditOrders && (
+                    <Button
+                      mode="outlined"
+                      onPress={() => openBulkAction('status')}
+                      icon={({ size }) => <Feather name="flag" size={size} color={colors.textSecondary} />}
+                      textColor={colors.textSecondary}
+                      style={[styles.bulkBarButton, { borderColor: colors.cardBorder }]}
+                      labelStyle={styles.compactControlLabel}
+                      testID="orders-bulk-status"
+                    >
+                      {t('Change status')}
+                    </Button>
+                  )}
+                  {canGenerateBills && (
+                    <Button
+                      mode="outlined"
+                      onPress={() => openBulkAction('bills')}
+                      icon={({ size }) => <Feather name="file-text" size={size} color={colors.textSecondary} />}
+                      textColor={colors.textSecondary}
+                      style={[styles.bulkBarButton, { borderColor: colors.cardBorder }]}
+                      labelStyle={styles.compactControlLabel}
+                      testID="orders-bulk-bills"
+                    >
+                      {t('Generate boletos')}
+                    </Button>
+                  )}
+                  {canExportOrders && (
+                    <Button
+                      mode="outlined"
+                      onPress={exportSelectedOrders}
+                      icon={({ size }) => <Feather name="download" size={size} color={colors.textSecondary} />}
+                      textColor={colors.textSecondary}
+                      style={[styles.bulkBarButton, { borderColor: colors.cardBorder }]}
+                      labelStyle={styles.compactControlLabel}
+                      testID="orders-bulk-export"
+                    >
+                      {t('Export')}
+                    </Button>
+                  )}
+                  {canDeleteOrders && (
+                    <Button
+                      mode="outlined"
+                      onPress={() => openBulkAction('delete')}
+                      icon={({ size }) => <Feather name="trash-2" size={size} color={colors.accentOrange} />}
+                      textColor={colors.accentOrange}
+                      style={[styles.bulkBarButton, { borderColor: colors.cardBorder }]}
+                      labelStyle={styles.compactControlLabel}
+                      testID="orders-bulk-delete"
+                    >
+                      {t('Delete')}
+                    </Button>
+                  )}
+                  {!allVisibleSelected && (
+                    <Button
+                      mode="text"
+                      onPress={toggleVisibleSelection}
+                      textColor={colors.textSecondary}
+                      labelStyle={styles.compactControlLabel}
+                    >
+                      {t('Select all on page')}
+                    </Button>
+                  )}
+                  <Button
+                    mode="text"
+                    onPress={clearOrderSelection}
+                    textColor={colors.textMuted}
+                    labelStyle={styles.compactControlLabel}
+                    testID="orders-bulk-clear"
+                  >
+                    {t('Clear selection')}
+                  </Button>
+                </View>
+              </View>
+            )}
+
+            {viewMode === 'list' && (
+              <View style={[styles.paginationRow, isCompact && styles.paginationRowCompact]}>
+                <Button
+                  mode="outlined"
+                  onPress={goPrevPage}
+                  disabled={pageNumber === 1}
+                  icon={({ size }) => <Feather name="chevron-left" size={size} color={colors.textSecondary} />}
+                  textColor={colors.textSecondary}
+                  style={[
+                    styles.paginationButton,
+                    { borderColor: colors.cardBorder },
+                    pageNumber === 1 && styles.paginationButtonDisabled,
+                  ]}
+                  contentStyle={styles.paginationButtonContent}
+                  labelStyle={styles.compactControlLabel}
+                >
+                  {t('Prev')}
+                </Button>
+                <Text style={[styles.pageIndicator, { color: colors.textPrimary }]}>{t('Page {page}', { page: pageNumber })}</Text>
+                <Button
+                  mode="outlined"
+                  onPress={goNextPage}
+                  disabled={!hasMore}
+                  icon={({ size }) => <Feather name="chevron-right" size={size} color={colors.textSecondary} />}
+                  textColor={colors.textSecondary}
+                  style={[
+                    styles.paginationButton,
+                    { borderColor: colors.cardBorder },
+                    !hasMore && styles.paginationButtonDisabled,
+                  ]}
+                  contentStyle={styles.paginationButtonContent}
+                  labelStyle={styles.compactControlLabel}
+                >
+                  {t('Next')}
+                </Button>
+              </View>
+            )}
 
           {/* Order List */}
-          {useCardLayout ? (
+          {viewMode === 'board' && boardQuery.error && (
+            <View style={[styles.banner, { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange }]}>
+              <Text style={[styles.bannerText, { color: colors.accentOrange }]}>{boardQuery.error}</Text>
+            </View>
+          )}
+          {viewMode === 'board' && !boardQuery.loading && boardQuery.partial && (
+            <View style={[styles.banner, { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange }]}>
+              <Text style={[styles.bannerText, { color: colors.accentOrange }]}>
+                {t('The board shows the first {count} orders only; the rest could not be loaded.', {
+                  count: boardQuery.data?.length ?? 0,
+                })}
+              </Text>
+            </View>
+          )}
+
+          {viewMode === 'board' && boardQuery.loading ? (
+            <NervLoader
+              size={140}
+              label={t('Synchronizing EVA-01')}
+              subtitle={t('LCL circulation nominal | Loading orders...')}
+              progressText={t('{count} orders loaded', { count: boardProgress?.rowsLoaded ?? 0 })}
+            />
+          ) : viewMode === 'board' ? (
+            <OrderBoard
+              orders={boardOrders}
+              statuses={ORDER_STATUS_LABELS}
+              colors={colors}
+              currency={currency}
+              draggable={!useCardLayout}
+              canMove={isAuthenticated && !authLoading && canEditOrders}
+              movingOrderId={movingOrderId}
+              resolveStatus={resolveBoardStatus}
+              resolveCustomerName={resolveOrderCustomerName}
+              getStatusColor={getStatusColor}
+              formatDateTime={(value) => formatOrderDateTime(value)}
+              onMove={handleBoardMove}
+              onOpen={openDetails}
+            />
+          ) : useCardLayout ? (
             <View style={styles.orderList}>
               {filteredOrders.map((order) => {
                 const safeId = order.id ?? '-';
@@ -1642,6 +2372,7 @@ export function Orders() {
                       ? order.total
                       : 0;
                 const isDeleting = deletingId === order.id;
+                const isSelected = selectedOrderIds.includes(String(order.id));
 
                 return (
                   <View
@@ -1649,11 +2380,20 @@ export function Orders() {
                     style={[
                       styles.orderMobileCard,
                       useDenseMobileLayout && styles.orderMobileCardDense,
-                      { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder },
+                      {
+                        backgroundColor: colors.cardBgFrom,
+                        borderColor: isSelected ? colors.primaryPurple : colors.cardBorder,
+                      },
                     ]}
                   >
                     <View style={styles.orderMobileHeader}>
                       <View style={styles.orderMobileHeaderTop}>
+                        {renderSelectionToggle(
+                          isSelected,
+                          () => toggleOrderSelection(order),
+                          t('Select order #{id}', { id: safeId }),
+                          `order-select-${safeId}`,
+                        )}
                         <View style={styles.orderMobileIdBlock}>
                           <Text style={[styles.orderLabel, { color: colors.textMuted }]}>{t('Order')}</Text>
                           <Text
@@ -1773,7 +2513,7 @@ export function Orders() {
                           ]}
                           accessibilityLabel={t('View Details')}
                         />
-                        {canManageOrders && (
+                        {canDeleteOrders && (
                           <IconButton
                             icon={() => <Feather name="trash-2" size={rowActionIconSize} color={colors.accentOrange} />}
                             size={rowActionIconSize}
@@ -1811,6 +2551,14 @@ export function Orders() {
                     { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder },
                   ]}
                 >
+                  <View style={styles.orderTableSelectColumn}>
+                    {renderSelectionToggle(
+                      allVisibleSelected,
+                      toggleVisibleSelection,
+                      t('Select all on page'),
+                      'order-select-all',
+                    )}
+                  </View>
                   <Text style={[styles.orderTableHeadText, { color: colors.textMuted }, styles.orderTableOrderColumn]}>
                     {t('Order')}
                   </Text>
@@ -1848,15 +2596,27 @@ export function Orders() {
                           ? order.total
                           : 0;
                     const isDeleting = deletingId === order.id;
+                    const isSelected = selectedOrderIds.includes(String(order.id));
 
                     return (
                       <View
                         key={safeId}
                         style={[
                           styles.orderTableRow,
-                          { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder },
+                          {
+                            backgroundColor: isSelected ? `${colors.primaryPurple}0F` : colors.cardBgFrom,
+                            borderColor: colors.cardBorder,
+                          },
                         ]}
                       >
+                        <View style={[styles.orderTableCell, styles.orderTableSelectColumn]}>
+                          {renderSelectionToggle(
+                            isSelected,
+                            () => toggleOrderSelection(order),
+                            t('Select order #{id}', { id: safeId }),
+                            `order-select-${safeId}`,
+                          )}
+                        </View>
                         <View style={[styles.orderTableCell, styles.orderTableOrderColumn]}>
                           <Text style={[styles.orderLabel, { color: colors.textMuted }]}>{t('Order')}</Text>
                           <Text style={[styles.orderId, { color: colors.neonGreen }]}>#{safeId}</Text>
@@ -1946,7 +2706,7 @@ export function Orders() {
                               ]}
                               accessibilityLabel={t('View Details')}
                             />
-                            {canManageOrders && (
+                            {canDeleteOrders && (
                               <IconButton
                                 icon={() => <Feather name="trash-2" size={rowActionIconSize} color={colors.accentOrange} />}
                                 size={rowActionIconSize}
@@ -2046,6 +2806,120 @@ export function Orders() {
         </View>
       </Modal>
 
+      <Modal visible={bulkAction !== null} transparent animationType="fade" onRequestClose={closeBulkAction}>
+        <View style={styles.modalBackdrop}>
+          <View
+            style={[
+              styles.modalCard,
+              { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder },
+              isTablet && styles.modalCardWide,
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>
+                {bulkAction === 'status'
+                  ? t('Change status')
+                  : bulkAction === 'delete'
+                    ? t('Delete orders')
+                    : t('Generate boletos')}
+              </Text>
+              <IconButton
+                icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+                size={18}
+                onPress={closeBulkAction}
+                disabled={bulkRunning}
+                style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+              />
+            </View>
+            {bulkStarted ? (
+              <OrderBulkProgress items={bulkItems} colors={colors} />
+            ) : (
+              <View style={styles.bulkConfirm}>
+                <Text style={[styles.confirmText, { color: colors.textSecondary }]}>
+                  {bulkAction === 'status'
+                    ? t('Move {count} orders to the selected status.', { count: bulkOrders.length })
+                    : bulkAction === 'delete'
+                      ? t('Delete {count} orders? This action cannot be undone.', { count: bulkOrders.length })
+                      : t('Generate a boleto for each of the {count} selected orders.', { count: bulkOrders.length })}
+                </Text>
+                {bulkAction === 'status' &&
+                  (bulkStatusOptions.length > 0 ? (
+                    <>
+                      {renderStatusOptions(bulkStatus ?? bulkStatusOptions[0], setBulkStatus, false, bulkStatusOptions)}
+                      {bulkStatus === 'Paid' && (
+                        <Text style={[styles.statusUpdateHint, { color: colors.textMuted }]}>
+                          {t('Payments are recorded with the current date and time.')}
+                        </Text>
+                      )}
+                      {bulkStatus === 'Shipped' && (
+                        <Text style={[styles.statusUpdateHint, { color: colors.textMuted }]}>
+                          {t('Orders without a tracking code will fail and can be shipped one by one.')}
+                        </Text>
+                      )}
+                    </>
+                  ) : (
+                    <Text style={[styles.statusUpdateHint, { color: colors.accentOrange }]}>
+                      {t('No status change is allowed for every selected order.')}
+                    </Text>
+                  ))}
+              </View>
+            )}
+            <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
+              <Button
+                mode="outlined"
+                onPress={closeBulkAction}
+                disabled={bulkRunning}
+                textColor={colors.textSecondary}
+                style={[styles.modalButton, { borderColor: colors.cardBorder }]}
+                contentStyle={styles.modalButtonContent}
+                labelStyle={styles.modalButtonLabel}
+              >
+                {bulkStarted ? t('Close') : t('Cancel')}
+              </Button>
+              {bulkStarted ? (
+                bulkSummary.failed > 0 && (
+                  <Button
+                    mode="outlined"
+                    onPress={() => runBulkAction(true)}
+                    disabled={bulkRunning}
+                    icon={({ size }) => <Feather name="refresh-cw" size={size} color={colors.primaryPurple} />}
+                    textColor={colors.primaryPurple}
+                    style={[
+                      styles.modalButton,
+                      { borderColor: colors.cardBorder },
+                      bulkRunning && styles.actionButtonDisabled,
+                    ]}
+                    contentStyle={styles.modalButtonContent}
+                    labelStyle={styles.modalButtonLabel}
+                    testID="orders-bulk-retry"
+                  >
+                    {t('Retry failed')}
+                  </Button>
+                )
+              ) : (
+                <Button
+                  mode="outlined"
+                  onPress={() => runBulkAction()}
+                  disabled={bulkRunning || (bulkAction === 'status' && !bulkStatus)}
+                  textColor={bulkAction === 'delete' ? colors.accentOrange : colors.primaryPurple}
+                  style={[
+                    styles.modalButton,
+                    bulkAction === 'delete' && styles.deleteButton,
+                    { borderColor: colors.cardBorder },
+                    (bulkRunning || (bulkAction === 'status' && !bulkStatus)) && styles.actionButtonDisabled,
+                  ]}
+                  contentStyle={styles.modalButtonContent}
+                  labelStyle={styles.modalButtonLabel}
+                  testID="orders-bulk-confirm"
+                >
+                  {bulkAction === 'delete' ? t('Delete') : t('Confirm')}
+                </Button>
+              )}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       <Modal visible={createVisible} transparent animationType="fade" onRequestClose={closeCreate}>
         <View style={styles.modalBackdrop}>
           <View
@@ -2073,10 +2947,26 @@ export function Orders() {
               {optionsLoading && (
                 <View style={styles.infoRow}>
                   <Text style={[styles.infoText, { color: colors.textMuted }]}>
-                    {t('Loading customers and products...')}
+                    {customerOptionsLoaded > 0
+                      ? t('Loading customers and products... {count} customers loaded', {
+                          count: customerOptionsLoaded,
+                        })
+                      : t('Loading customers and products...')}
                   </Text>
                 </View>
               )}
+              {!optionsLoading && customerOptionsPartial && (
+                <View style={styles.infoRow}>
+                  <Text style={[styles.infoText, { color: colors.accentOrange }]}>
+                    {t('Only the first {count} customers were loaded; some may be missing from this list.', {
+                      count: customers.length,
+                    })}
+                  </Text>
+                </View>
+              )}
+              {orderDraft.restored && (
+                <DraftRestoredNotice onDismiss={orderDraft.dismissRestored} onDiscard={closeCreate} />
+              )}
               {errorMessage && (
                 <View style={[styles.banner, { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange }]}>
                   <Text style={[styles.bannerText, { color: colors.accentOrange }]}>{errorMessage}</Text>
@@ -2251,209 +3141,23 @@ export function Orders() {
 
               <View style={styles.modalField}>
                 <Text style={[styles.modalLabel, { color: colors.textSecondary }]}>{t('Status')}</Text>
-                {renderStatusOptions(createStatus, setCreateStatus)}
+                {renderStatusOptions(createStatus, setCreateStatus, false, ORDER_INITIAL_STATUSES)}
               </View>
 
-                <View style={styles.modalField}>
-                  <View style={styles.sectionHeader}>
-                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Products')}</Text>
-                    <Text style={[styles.sectionMeta, { color: colors.textMuted }]}>
-                      {t('{count} selected', { count: selectedItems.length })}
-                    </Text>
-                  </View>
-                  <TouchableRipple
-                    style={[
-                      styles.dropdownHeader,
-                      {
-                        borderColor: productDropdownOpen ? colors.neonGreen : colors.cardBorder,
-                        backgroundColor: colors.inputBgFrom,
-                      },
-                    ]}
-                    onPress={toggleProductDropdown}
-                    disabled={creating}
-                    rippleColor={`${colors.primaryPurple}22`}
-                  >
-                    <View style={styles.dropdownHeaderContentRow}>
-                      <View style={styles.dropdownHeaderContent}>
-                        <Text style={[styles.dropdownHeaderLabel, { color: colors.textPrimary }]}>
-                          {t('Add products')}
-                        </Text>
-                        <Text style={[styles.dropdownHeaderMeta, { color: colors.textSecondary }]}>
-                          {t('Search catalog and add items')}
-                        </Text>
-                      </View>
-                      <Feather
-                        name={productDropdownOpen ? 'chevron-up' : 'chevron-down'}
-                        size={16}
-                        color={colors.textSecondary}
-                      />
-                    </View>
-                  </TouchableRipple>
-                  {productDropdownOpen && (
-                    <View style={styles.dropdownPanel}>
-                      <PaperTextInput
-                        mode="outlined"
-                        style={[styles.dropdownSearch, { backgroundColor: colors.inputBgFrom }]}
-                        outlineColor={colors.cardBorder}
-                        activeOutlineColor={colors.primaryPurple}
-                        textColor={colors.textPrimary}
-                        value={productSearch}
-                        onChangeText={setProductSearch}
-                        placeholder={t('Search products...')}
-                        placeholderTextColor={colors.textMuted}
-                        autoCapitalize="none"
-                        editable={!creating}
-                        left={
-                          <PaperTextInput.Icon
-                            icon={() => <Feather name="search" size={16} color={colors.primaryPurple} />}
-                          />
-                        }
-                      />
-                      <ScrollView
-                        style={[styles.selectorList, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}
-                        nestedScrollEnabled
-                      >
-                        {filteredProducts.length === 0 ? (
-                          <Text style={[styles.selectorEmpty, { color: colors.textMuted }]}>
-                            {t('No products found.')}
-                          </Text>
-                        ) : (
-                          filteredProducts.map((product) => {
-                            const defaultValue = resolveProductValue(product);
-                            const isSelected = selectedItems.some((item) => item.product.id === product.id);
-                            return (
-                              <TouchableRipple
-                                key={product.id}
-                                style={[
-                                  styles.selectorItem,
-                                  {
-                                    borderColor: isSelected ? colors.neonGreen : colors.cardBorder,
-                                    backgroundColor: isSelected ? `${colors.neonGreen}12` : 'transparent',
-                                  },
-                                ]}
-                                onPress={() => addProduct(product)}
-                                disabled={creating}
-                                rippleColor={`${colors.neonGreen}1f`}
-                              >
-                                <View style={styles.selectorContent}>
-                                  <View style={styles.selectorInfo}>
-                                    <Text style={[styles.selectorTitle, { color: colors.textPrimary }]}>
-                                      {product.name ?? t('Unnamed product')}
-                                    </Text>
-                                    <Text style={[styles.selectorSubtitle, { color: colors.textMuted }]}>
-                                      {formatCurrency(defaultValue, currency)}
-                                    </Text>
-                                  </View>
-                                  <Text style={[styles.selectorAction, { color: colors.neonGreen }]}>
-                                    {isSelected ? t('Added') : t('Add')}
-                                  </Text>
-                                </View>
-                              </TouchableRipple>
-                            );
-                          })
-                        )}
-                      </ScrollView>
-                    </View>
-                  )}
-
-                <View style={styles.lineItems}>
-                  {selectedItems.length === 0 ? (
-                    <Text style={[styles.selectorEmpty, { color: colors.textMuted }]}>
-                      {t('No products selected.')}
-                    </Text>
-                  ) : (
-                    selectedItems.map((item) => {
-                      const lineQuantity = parseNumber(item.quantity) ?? 0;
-                      const lineValue = parseNumber(item.value) ?? 0;
-                      const lineTotal = lineQuantity * lineValue;
-                      const quantityError = getQuantityError(item.quantity, item.product.unitOfMeasure);
-                      const valueError = getValueError(item.value);
-                      const allowDecimal = unitAllowsDecimal(item.product.unitOfMeasure);
-                        return (
-                          <View
-                            key={item.product.id}
-                            style={[styles.lineItemCard, { borderColor: colors.cardBorder }]}
-                          >
-                            <View style={styles.lineItemHeader}>
-                              <Text style={[styles.selectorTitle, { color: colors.textPrimary }]}>
-                                {item.product.name ?? t('Product')}
-                              </Text>
-                              <IconButton
-                                icon={() => <Feather name="trash-2" size={14} color={colors.accentOrange} />}
-                                size={18}
-                                onPress={() => removeLineItem(item.product.id)}
-                                disabled={creating}
-                              />
-                            </View>
-                            <View style={styles.lineItemRow}>
-                              <View style={styles.lineItemField}>
-                                <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Qty')}</Text>
-                                <PaperTextInput
-                                  mode="outlined"
-                                  style={[styles.lineItemInput, { backgroundColor: colors.inputBgFrom }]}
-                                  textColor={colors.textPrimary}
-                                  outlineColor={colors.cardBorder}
-                                  activeOutlineColor={colors.primaryPurple}
-                                  value={item.quantity}
-                                  onChangeText={(value) => updateLineItem(item.product.id, 'quantity', value)}
-                                  keyboardType={allowDecimal ? 'decimal-pad' : 'numeric'}
-                                  inputMode={allowDecimal ? 'decimal' : 'numeric'}
-                                  error={!!quantityError}
-                                  editable={!creating}
-                                  dense
-                                />
-                                <HelperText type="error" visible={!!quantityError} style={styles.lineItemHelper}>
-                                  {quantityError ?? ''}
-                                </HelperText>
-                              </View>
-                              <View style={styles.lineItemField}>
-                                <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Value')}</Text>
-                                <PaperTextInput
-                                  mode="outlined"
-                                  style={[styles.lineItemInput, { backgroundColor: colors.inputBgFrom }]}
-                                  textColor={colors.textPrimary}
-                                  outlineColor={colors.cardBorder}
-                                  activeOutlineColor={colors.primaryPurple}
-                                  value={item.value}
-                                  onChangeText={(value) => updateLineItem(item.product.id, 'value', value)}
-                                  keyboardType="numeric"
-                                  inputMode="decimal"
-                                  error={!!valueError}
-                                  editable={!creating}
-                                  dense
-                                />
-                                <HelperText type="error" visible={!!valueError} style={styles.lineItemHelper}>
-                                  {valueError ?? ''}
-                                </HelperText>
-                              </View>
-                            <View style={styles.lineItemField}>
-                              <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Total')}</Text>
-                              <Text style={[styles.lineItemTotal, { color: colors.textPrimary }]}>
-                                {formatCurrency(lineTotal, currency)}
-                              </Text>
-                            </View>
-                          </View>
-                        </View>
-                      );
-                    })
-                  )}
-                </View>
-
-                <View style={[styles.summaryRow, { borderColor: colors.cardBorder }]}>
-                  <View style={styles.summaryItem}>
-                    <Text style={[styles.summaryLabel, { color: colors.textMuted }]}>{t('Items')}</Text>
-                    <Text style={[styles.summaryValue, { color: colors.textPrimary }]}>
-                      {hasDecimalItems ? computedItems.toFixed(2) : Math.round(computedItems)}
-                    </Text>
-                  </View>
-                  <View style={styles.summaryItem}>
-                    <Text style={[styles.summaryLabel, { color: colors.textMuted }]}>{t('Total')}</Text>
-                    <Text style={[styles.summaryValue, { color: colors.textPrimary }]}>
-                      {formatCurrency(computedTotal, currency)}
-                    </Text>
-                  </View>
-                </View>
-              </View>
+              <OrderLineItemsEditor
+                items={selectedItems}
+                products={filteredProducts}
+                productSearch={productSearch}
+                dropdownOpen={productDropdownOpen}
+                disabled={creating}
+                currency={currency}
+                colors={colors}
+                onProductSearchChange={setProductSearch}
+                onToggleDropdown={toggleProductDropdown}
+                onAdd={addProduct}
+                onChange={updateLineItem}
+                onRemove={removeLineItem}
+              />
 
                 <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
                   <Button
@@ -2585,6 +3289,12 @@ export function Orders() {
                       </Text>
                     </View>
                   )}
+                  {!!detailsOrder.trackingCode && (
+                    <View style={styles.detailsRow}>
+                      <Text style={[styles.detailsLabel, { color: colors.textMuted }]}>{t('Tracking code')}</Text>
+                      <Text style={[styles.detailsValue, { color: colors.textPrimary }]}>{detailsOrder.trackingCode}</Text>
+                    </View>
+                  )}
                   <View style={styles.detailsRow}>
                     <Text style={[styles.detailsLabel, { color: colors.textMuted }]}>{t('Items')}</Text>
                     <Text style={[styles.detailsValue, { color: colors.textPrimary }]}>
@@ -2612,13 +3322,38 @@ export function Orders() {
                   </View>
                 </View>
 
-                {canManageOrders && (
+                {canEditOrders && (
                   <View style={styles.detailsSection}>
-                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Manual Status')}</Text>
+                    <View style={styles.sectionHeader}>
+                      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Manual Status')}</Text>
+                      {canOverrideOrderStatus && (
+                        <View style={styles.overrideToggle}>
+                          <Text style={[styles.overrideLabel, { color: colors.textMuted }]}>
+                            {t('Admin override')}
+                          </Text>
+                          <Switch
+                            value={statusOverride}
+                            onValueChange={(value) => {
+                              setStatusOverride(value);
+                              cancelPendingStatusChange();
+                            }}
+                            disabled={statusUpdating}
+                            color={colors.accentOrange}
+                            testID="order-status-override"
+                          />
+                        </View>
+                      )}
+                    </View>
                     {renderStatusOptions(
                       resolveStatusOption(detailsOrder.status),
                       requestStatusChange,
-                      statusUpdating || deletingId === detailsOrder.id,
+                      statusUpdating || itemsEditing || deletingId === detailsOrder.id,
+                      orderStatusOptions.filter(
+                        (status) =>
+                          status === resolveStatusOption(detailsOrder.status) ||
+                          (statusOverride && canOverrideOrderStatus) ||
+                          canTransitionOrderStatus(resolveStatusOption(detailsOrder.status), status),
+                      ),
                     )}
                     {pendingStatusChange && (
                       <View
@@ -2633,6 +3368,58 @@ export function Orders() {
                             to: t(pendingStatusChange),
                           })}
                         </Text>
+                        {getOrderStatusRequirements(pendingStatusChange).includes('paymentDate') && (
+                          <View style={[styles.metaRow, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}>
+                            <Text style={[styles.metaValue, { color: colors.textPrimary }]}>
+                              {t('Paid at')}: {statusPaymentDate ? formatDateLabel(statusPaymentDate) : '-'}
+                            </Text>
+                            <Button
+                              mode="outlined"
+                              onPress={() => setStatusPaymentDatePickerVisible(true)}
+                              disabled={statusUpdating}
+                              textColor={colors.textSecondary}
+                              style={[styles.clearButton, { borderColor: colors.cardBorder }]}
+                              contentStyle={styles.clearButtonContent}
+                            >
+                              {statusPaymentDate ? t('Change') : t('Pick date')}
+                            </Button>
+                          </View>
+                        )}
+                        {getOrderStatusRequirements(pendingStatusChange).includes('trackingCode') && (
+                          <PaperTextInput
+                            mode="outlined"
+                            label={t('Tracking code')}
+                            style={[styles.dropdownSearch, { backgroundColor: colors.cardBgFrom }]}
+                            outlineColor={colors.cardBorder}
+                            activeOutlineColor={colors.primaryPurple}
+                            textColor={colors.textPrimary}
+                            value={statusTrackingCode}
+                            onChangeText={setStatusTrackingCode}
+                            autoCapitalize="characters"
+                            editable={!statusUpdating}
+                            testID="order-status-tracking-code"
+                          />
+                        )}
+                        {!canTransitionOrderStatus(resolveStatusOption(detailsOrder.status), pendingStatusChange) && (
+                          <PaperTextInput
+                            mode="outlined"
+                            label={t('Override reason')}
+                            style={[styles.dropdownSearch, { backgroundColor: colors.cardBgFrom }]}
+                            outlineColor={colors.cardBorder}
+                            activeOutlineColor={colors.accentOrange}
+                            textColor={colors.textPrimary}
+                            value={statusOverrideReason}
+                            onChangeText={setStatusOverrideReason}
+                            editable={!statusUpdating}
+                            multiline
+                            testID="order-status-override-reason"
+                          />
+                        )}
+                        {pendingStatusCheck && !pendingStatusCheck.ok && (
+                          <Text style={[styles.statusUpdateHint, { color: colors.accentOrange }]}>
+                            {t(pendingStatusCheck.error)}
+                          </Text>
+                        )}
                         <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
                           <Button
                             mode="outlined"
@@ -2648,7 +3435,7 @@ export function Orders() {
                           <Button
                             mode="contained"
                             onPress={confirmStatusChange}
-                            disabled={statusUpdating}
+                            disabled={statusUpdating || !pendingStatusCheck?.ok}
                             buttonColor={colors.primaryPurple}
                             textColor={colors.appBg}
                             style={[styles.modalButton, statusUpdating && styles.actionButtonDisabled]}
@@ -2669,7 +3456,70 @@ export function Orders() {
                 )}
 
                 <View style={styles.detailsSection}>
-                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Line Items')}</Text>
+                  <View style={styles.sectionHeader}>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Line Items')}</Text>
+                    {canEditOrders && !itemsEditing && (
+                      <Button
+                        mode="outlined"
+                        onPress={startItemsEditing}
+                        disabled={detailsLoading || statusUpdating || deletingId === detailsOrder.id}
+                        textColor={colors.textSecondary}
+                        style={[styles.clearButton, { borderColor: colors.cardBorder }]}
+                        contentStyle={styles.clearButtonContent}
+                        testID="order-edit-items"
+                      >
+                        {t('Edit items')}
+                      </Button>
+                    )}
+                  </View>
+                  {editingItems ? (
+                    <>
+                      <OrderLineItemsEditor
+                        items={editingItems}
+                        products={filteredEditProducts}
+                        productSearch={editProductSearch}
+                        dropdownOpen={editProductDropdownOpen}
+                        disabled={itemsSaving}
+                        currency={currency}
+                        colors={colors}
+                        stockLimits={editStockLimits}
+                        testIDPrefix="order-edit-items"
+                        onProductSearchChange={setEditProductSearch}
+                        onToggleDropdown={() => setEditProductDropdownOpen((prev) => !prev)}
+                        onAdd={(product) => updateEditingItems((items) => addProductToLineItems(items, product))}
+                        onChange={(productId, field, value) =>
+                          updateEditingItems((items) => updateLineItemField(items, productId, field, value))
+                        }
+                        onRemove={(productId) => updateEditingItems((items) => removeLineItemFromList(items, productId))}
+                      />
+                      <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
+                        <Button
+                          mode="outlined"
+                          onPress={resetItemsEditing}
+                          disabled={itemsSaving}
+                          textColor={colors.textSecondary}
+                          style={[styles.modalButton, { borderColor: colors.cardBorder }]}
+                          contentStyle={styles.modalButtonContent}
+                          labelStyle={styles.modalButtonLabel}
+                        >
+                          {t('Cancel')}
+                        </Button>
+                        <Button
+                          mode="contained"
+                          onPress={saveEditedItems}
+                          disabled={itemsSaving || editingItems.length === 0 || hasEditLineItemErrors}
+                          buttonColor={colors.primaryPurple}
+                          textColor={colors.appBg}
+                          style={[styles.modalButton, itemsSaving && styles.actionButtonDisabled]}
+                          contentStyle={styles.modalButtonContent}
+                          labelStyle={styles.modalButtonLabel}
+                          testID="order-save-items"
+                        >
+                          {itemsSaving ? t('Saving...') : t('Save items')}
+                        </Button>
+                      </View>
+                    </>
+                  ) : (
                   <View style={[styles.lineItems, { marginTop: 8 }]}>
                     {detailsOrder.orderedProduct && detailsOrder.orderedProduct.length > 0 ? (
                       detailsOrder.orderedProduct.map((item, index) => {
@@ -2724,8 +3574,18 @@ export function Orders() {
                       </Text>
                     )}
                   </View>
+                  )}
                 </View>
 
+                <OrderHistoryPanel
+                  entries={orderHistory.entries}
+                  loading={orderHistory.loading}
+                  fromLocalLog={orderHistory.fromLocalLog}
+                  currency={currency}
+                  colors={colors}
+                  formatDateTime={(value) => formatOrderDateTime(value)}
+                />
+
                 <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
                     <Button
                       mode="outlined"
@@ -2737,7 +3597,7 @@ export function Orders() {
                     >
                       {t('Close')}
                     </Button>
-                    {canManageOrders && (
+                    {canDeleteOrders && (
                       <Button
                         mode="outlined"
                         onPress={() => requestDelete(detailsOrder)}
@@ -2773,6 +3633,22 @@ export function Orders() {
         presentationStyle="overFullScreen"
         onConfirm={({ date }) => handlePaymentDateConfirm({ date })}
       />
+
+      <DatePickerModal
+        locale="en-US"
+        mode="single"
+        visible={statusPaymentDatePickerVisible}
+        onDismiss={() => setStatusPaymentDatePickerVisible(false)}
+        date={statusPaymentDate ?? undefined}
+        validRange={{ endDate: new Date() }}
+        saveLabel={t('Apply')}
+        label={t('Paid at')}
+        presentationStyle="overFullScreen"
+        onConfirm={({ date }) => {
+          setStatusPaymentDate(date ?? null);
+          setStatusPaymentDatePickerVisible(false);
+        }}
+      />
     </>
   );
 }
@@ -2930,6 +3806,92 @@ const styles = StyleSheet.create({
     flexDirection: 'column',
     alignItems: 'stretch',
   },
+  bulkBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  bulkBarCompact: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+  },
+  bulkBarLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  bulkBarActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  bulkBarButton: {
+    borderRadius: 12,
+  },
+  bulkConfirm: {
+    gap: 12,
+  },
+  selectToggle: {
+    margin: 0,
+  },
+  viewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+    gap: 12,
+  },
+  viewRowCompact: {
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+  },
+  viewLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+  },
+  viewToggle: {
+    flex: 1,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 3,
+    overflow: 'hidden',
+  },
+  segmentButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 38,
+  },
+  segmentButtonLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+    textAlign: 'center',
+    lineHeight: 18,
+  },
+  segmentButtonFirst: {
+    borderTopLeftRadius: 10,
+    borderBottomLeftRadius: 10,
+  },
+  segmentButtonLast: {
+    borderTopRightRadius: 10,
+    borderBottomRightRadius: 10,
+  },
+  segmentButtonPressed: {
+    opacity: 0.9,
+  },
   paginationRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3109,6 +4071,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingRight: 16,
   },
+  orderTableSelectColumn: {
+    width: 48,
+    alignItems: 'center',
+  },
   orderTableOrderColumn: {
     width: 160,
   },
@@ -3487,10 +4453,6 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.6,
   },
-  sectionMeta: {
-    fontSize: 11,
-    fontWeight: '600',
-  },
   selectorList: {
     borderWidth: 1.5,
     borderRadius: 10,
@@ -3524,10 +4486,6 @@ const styles = StyleSheet.create({
   selectorSubtitle: {
     fontSize: 11,
   },
-  selectorAction: {
-    fontSize: 12,
-    fontWeight: '700',
-  },
   selectorEmpty: {
     paddingHorizontal: 12,
     paddingVertical: 12,
@@ -3563,6 +4521,15 @@ const styles = StyleSheet.create({
     marginTop: 6,
     fontSize: 11,
   },
+  overrideToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  overrideLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   modalActions: {
     flexDirection: 'row',
     gap: 12,
@@ -3617,42 +4584,8 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.4,
   },
-  lineItemInput: {
-    borderWidth: 1.5,
-    borderRadius: 8,
-    paddingHorizontal: 10,
-    paddingVertical: 6,
-    fontSize: 13,
-    minWidth: 80,
-  },
   lineItemTotal: {
     fontSize: 13,
     fontWeight: '600',
   },
-  lineItemHelper: {
-    marginTop: -2,
-    marginBottom: -2,
-    fontSize: 10,
-  },
-  summaryRow: {
-    marginTop: 12,
-    borderWidth: 1.5,
-    borderRadius: 10,
-    padding: 12,
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    gap: 12,
-  },
-  summaryItem: {
-    gap: 4,
-  },
-  summaryLabel: {
-    fontSize: 10,
-    textTransform: 'uppercase',
-    letterSpacing: 0.4,
-  },
-  summaryValue: {
-    fontSize: 16,
-    fontWeight: '700',
-  },
 });
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Alert, Modal, ScrollView, StyleSheet, View } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { Button, Card, Chip, HelperText, IconButton, Searchbar, Switch, Text, TextInput } from './ui/Paper';
@@ -7,7 +7,14 @@ import { useAuth } from '../contexts/AuthContext';
 import { useI18n } from '../contexts/I18nContext';
 import { ErpService, PayableBill, PayableBillPayload } from '../services/erpService';
 import { useResponsive } from '../hooks/useResponsive';
+import { usePermissions } from '../hooks/auth/usePermissions';
+import { useOfflineMutations } from '../hooks/offline/useOfflineMutations';
+import { useCrossTabMutations } from '../hooks/sync/useCrossTabSync';
 import { NervLoader } from './NervLoader';
+import { PendingSyncPanel } from './offline/PendingSyncPanel';
+import { DraftRestoredNotice } from './shared/DraftRestoredNotice';
+import { useFormDraft } from '../hooks/drafts/useFormDraft';
+import { resolveFormDraftOwner } from '../services/formDrafts';
 import { formatCurrency } from '../utils/currency';
 import {
   filterPayableBillsBySearch,
@@ -16,14 +23,27 @@ import {
   parseAmountInput,
   toIsoFromDateInput,
 } from '../utils/payables/helpers';
+import { describeApiError } from '../utils/apiErrors';
 
 const pageSize = 25;
 type BillFilter = 'all' | 'open' | 'paid';
+type PayableBillDraft = {
+  editingBill: PayableBill | null;
+  description: string;
+  dueDateInput: string;
+  amountInput: string;
+  isPaid: boolean;
+};
 
 export function PayableBills() {
   const { colors } = useTheme();
   const { t } = useI18n();
-  const { client, isAuthenticated, loading: authLoading, currency } = useAuth();
+  const { client, isAuthenticated, loading: authLoading, currency, environment, user } = useAuth();
+  const { can } = usePermissions();
+  const canCreateBills = can('payables', 'create');
+  const canEditBills = can('payables', 'edit');
+  const canDeleteBills = can('payables', 'delete');
+  const canApproveBills = can('payables', 'approve');
   const { isCompact, isTablet, contentPadding } = useResponsive();
   const erpService = useMemo(() => new ErpService(client), [client]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -43,6 +63,41 @@ export function PayableBills() {
   const [isPaid, setIsPaid] = useState(false);
   const [saving, setSaving] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const billDraftValues = useMemo<PayableBillDraft>(
+    () => ({ editingBill, description, dueDateInput, amountInput, isPaid }),
+    [amountInput, description, dueDateInput, editingBill, isPaid],
+  );
+  const billDraft = useFormDraft<PayableBillDraft>({
+    scope: 'payableBill',
+    environmentId: environment.id,
+    owner: resolveFormDraftOwner(user),
+    enabled: isAuthenticated && !authLoading && (canCreateBills || canEditBills),
+    open: modalVisible,
+    values: billDraftValues,
+    onRestore: (draft) => {
+      setEditingBill(draft.editingBill ?? null);
+      setDescription(draft.description ?? '');
+      setDueDateInput(draft.dueDateInput ?? '');
+      setAmountInput(draft.amountInput ?? '');
+      setIsPaid(Boolean(draft.isPaid));
+      setFormError(null);
+      setModalVisible(true);
+    },
+  });
+  const offlineBills = useOfflineMutations({ entity: 'payableBill', erpService });
+
+  const handledOfflineSyncRef = useRef(offlineBills.syncedVersion);
+
+  useEffect(() => {
+    // Reload once queued bill changes have reached the server.
+    if (handledOfflineSyncRef.current === offlineBills.syncedVersion) {
+      return;
+    }
+    handledOfflineSyncRef.current = offlineBills.syncedVersion;
+    setRefreshKey((prev) => prev + 1);
+  }, [offlineBills.syncedVersion]);
+
+  useCrossTabMutations({ scope: 'payableBills', onChange: () => setRefreshKey((prev) => prev + 1) });
 
   useEffect(() => {
     if (!isAuthenticated || authLoading) {
@@ -66,7 +121,7 @@ export function PayableBills() {
         setBills(activeBills);
         setHasMore(activeBills.length === pageSize);
       } else {
-        setErrorMessage(response.error ?? t('Unable to load payable bills.'));
+        setErrorMessage(describeApiError(t, response, t('Unable to load payable bills.')));
       }
 
       setLoading(false);
@@ -115,9 +170,15 @@ export function PayableBills() {
     setEditingBill(null);
     setFormError(null);
     setSaving(false);
+    billDraft.discardDraft();
   };
 
   const saveBill = async () => {
+    if (!(editingBill ? canEditBills : canCreateBills)) {
+      setFormError(t('You do not have permission for this action.'));
+      return;
+    }
+
     const trimmedDescription = description.trim();
     if (!trimmedDescription) {
       setFormError(t('Description is required.'));
@@ -152,6 +213,11 @@ export function PayableBills() {
       ? await erpService.updatePayableBill(payload)
       : await erpService.createPayableBill(payload);
 
+    if (response.queued) {
+      closeModal();
+      return;
+    }
+
     if (response.ok) {
       closeModal();
       setPageNumber(1);
@@ -159,7 +225,7 @@ export function PayableBills() {
       return;
     }
 
-    setFormError(response.error ?? t('Unable to save payable bill.'));
+    setFormError(describeApiError(t, response, t('Unable to save payable bill.')));
     setSaving(false);
   };
 
@@ -167,6 +233,10 @@ export function PayableBills() {
     if (!bill.id) {
       return;
     }
+    if (!canApproveBills) {
+      setErrorMessage(t('You do not have permission for this action.'));
+      return;
+    }
 
     const response = await erpService.updatePayableBill({
       id: bill.id,
@@ -177,18 +247,22 @@ export function PayableBills() {
       paidAt: !bill.isPaid ? new Date().toISOString() : null,
     });
 
-    if (response.ok) {
+    if (response.ok || response.queued) {
       setRefreshKey((prev) => prev + 1);
       return;
     }
 
-    setErrorMessage(response.error ?? t('Unable to update payable bill.'));
+    setErrorMessage(describeApiError(t, response, t('Unable to update payable bill.')));
   };
 
   const confirmDelete = (bill: PayableBill) => {
     if (!bill.id) {
       return;
     }
+    if (!canDeleteBills) {
+      setErrorMessage(t('You do not have permission for this action.'));
+      return;
+    }
 
     Alert.alert(
       t('Delete payable bill'),
@@ -200,11 +274,11 @@ export function PayableBills() {
           style: 'destructive',
           onPress: async () => {
             const response = await erpService.deletePayableBill(bill.id as string);
-            if (response.ok) {
+            if (response.ok || response.queued) {
               setRefreshKey((prev) => prev + 1);
               return;
             }
-            setErrorMessage(response.error ?? t('Unable to delete payable bill.'));
+            setErrorMessage(describeApiError(t, response, t('Unable to delete payable bill.')));
           },
         },
       ],
@@ -258,6 +332,7 @@ export function PayableBills() {
             <Button
               mode="contained"
               onPress={openCreateModal}
+              disabled={!canCreateBills}
               buttonColor={colors.primaryPurple}
               textColor={colors.neonGreen}
               icon={({ size }) => <Feather name="plus" size={size} color={colors.neonGreen} />}
@@ -368,6 +443,18 @@ export function PayableBills() {
             </View>
           )}
 
+          <PendingSyncPanel
+            entries={offlineBills.entries}
+            replaying={offlineBills.replaying}
+            describe={(entry) => {
+              const payload = entry.payload as PayableBillPayload | string | null;
+              return payload && typeof payload === 'object' ? payload.description : payload;
+            }}
+            onSyncNow={offlineBills.syncNow}
+            onRetry={offlineBills.retry}
+            onDiscard={offlineBills.discard}
+          />
+
           {!loading && filteredBills.length === 0 && (
             <View style={[styles.emptyState, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}>
               <Feather name="file-text" size={20} color={colors.textMuted} />
@@ -425,6 +512,7 @@ export function PayableBills() {
                     <Button
                       mode="outlined"
                       onPress={() => togglePaid(bill)}
+                      disabled={!canApproveBills}
                       textColor={bill.isPaid ? colors.accentOrange : colors.neonGreen}
                       style={[styles.actionButton, { borderColor: colors.cardBorder }]}
                     >
@@ -433,6 +521,7 @@ export function PayableBills() {
                     <Button
                       mode="outlined"
                       onPress={() => openEditModal(bill)}
+                      disabled={!canEditBills}
                       textColor={colors.textSecondary}
                       style={[styles.actionButton, { borderColor: colors.cardBorder }]}
                     >
@@ -441,6 +530,7 @@ export function PayableBills() {
                     <Button
                       mode="outlined"
                       onPress={() => confirmDelete(bill)}
+                      disabled={!canDeleteBills}
                       textColor={colors.accentOrange}
                       style={[styles.actionButton, { borderColor: colors.accentOrange }]}
                     >
@@ -475,6 +565,9 @@ export function PayableBills() {
               />
             </View>
 
+            {billDraft.restored && (
+              <DraftRestoredNotice onDismiss={billDraft.dismissRestored} onDiscard={closeModal} />
+            )}
             <TextInput
               mode="outlined"
               label={t('Description')}
@@ -500,7 +593,7 @@ export function PayableBills() {
 
             <View style={[styles.switchRow, { borderColor: colors.cardBorder }]}>
               <Text style={{ color: colors.textPrimary }}>{t('Mark as paid')}</Text>
-              <Switch value={isPaid} onValueChange={setIsPaid} />
+              <Switch value={isPaid} onValueChange={setIsPaid} disabled={!canApproveBills} />
             </View>
 
             <HelperText type="error" visible={Boolean(formError)}>
@@ -16,6 +16,7 @@ import {
 } from './ui/Paper';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useI18n } from '../contexts/I18nContext';
 import { formatCurrency } from '../utils/currency';
 import { ErpService, Product as ProductModel } from '../services/erpService';
 import { NervLoader } from './NervLoader';
@@ -33,6 +34,9 @@ import {
   sanitizeQuantityInput,
   unitAllowsDecimal,
 } from '../utils/products/form';
+import { describeApiError } from '../utils/apiErrors';
+import { usePermissions } from '../hooks/auth/usePermissions';
+import { useCrossTabMutations } from '../hooks/sync/useCrossTabSync';
 
 const statusFilters = ['active', 'deactivated', 'all'];
 const unitOptions = ['UN', 'KG', 'L', 'M', 'CM', 'BOX'];
@@ -40,9 +44,14 @@ type ProductViewMode = 'detailed' | 'compact';
 
 export function Products() {
   const { colors } = useTheme();
+  const { t } = useI18n();
   const { client, isAuthenticated, loading: authLoading, enterpriseId, currency } = useAuth();
   const erpService = useMemo(() => new ErpService(client), [client]);
   const { isCompact, isTablet, contentPadding } = useResponsive();
+  const { can } = usePermissions();
+  const canCreateProducts = can('products', 'create');
+  const canEditProducts = can('products', 'edit');
+  const canDeleteProducts = can('products', 'delete');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('active');
   const [unitFilter, setUnitFilter] = useState<string[]>([]);
@@ -54,6 +63,7 @@ export function Products() {
   const [pageNumber, setPageNumber] = useState(1);
   const [pageSize] = useState(25);
   const [hasMore, setHasMore] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [editingProduct, setEditingProduct] = useState<ProductModel | null>(null);
   const [editName, setEditName] = useState('');
   const [editPicture, setEditPicture] = useState('');
@@ -114,7 +124,7 @@ export function Products() {
         setProducts(response.data);
         setHasMore(response.data.length === pageSize);
       } else {
-        setErrorMessage(response.error ?? 'Unable to load products');
+        setErrorMessage(describeApiError(t, response, t('Unable to load products')));
       }
 
       setLoading(false);
@@ -125,7 +135,9 @@ export function Products() {
     return () => {
       active = false;
     };
-  }, [erpService, isAuthenticated, authLoading, pageNumber, pageSize, searchTerm]);
+  }, [erpService, isAuthenticated, authLoading, pageNumber, pageSize, searchTerm, refreshKey]);
+
+  useCrossTabMutations({ scope: 'products', onChange: () => setRefreshKey((prev) => prev + 1) });
 
   const goPrevPage = () => {
     setPageNumber((prev) => Math.max(1, prev - 1));
@@ -151,6 +163,10 @@ export function Products() {
 
   const openEdit = (product: ProductModel) => {
     setMenuProductId(null);
+    if (!canEditProducts) {
+      setErrorMessage(t('You do not have permission for this action.'));
+      return;
+    }
     setEditingProduct(product);
     setEditName(product.name ?? '');
     setEditPicture(product.pictureAddress ?? '');
@@ -178,6 +194,10 @@ export function Products() {
   };
 
   const openCreate = () => {
+    if (!canCreateProducts) {
+      setErrorMessage(t('You do not have permission for this action.'));
+      return;
+    }
     setCreateName('');
     setCreateDescription('');
     setCreatePicture('');
@@ -289,7 +309,7 @@ export function Products() {
       );
       closeEdit();
     } else {
-      setErrorMessage(response.error ?? 'Unable to update product');
+      setErrorMessage(describeApiError(t, response, t('Unable to update product')));
     }
 
     setSaving(false);
@@ -354,7 +374,7 @@ export function Products() {
       }
       closeCreate();
     } else {
-      setErrorMessage(response.error ?? 'Unable to create product');
+      setErrorMessage(describeApiError(t, response, t('Unable to create product')));
     }
 
     setCreating(false);
@@ -422,6 +442,10 @@ export function Products() {
   };
 
   const handleDeactivate = (product: ProductModel) => {
+    if (!canDeleteProducts) {
+      setErrorMessage(t('You do not have permission for this action.'));
+      return;
+    }
     Alert.alert(
       'Deactivate product',
       `Deactivate ${product.name}?`,
@@ -448,7 +472,7 @@ export function Products() {
                 ),
               );
             } else {
-              setErrorMessage(response.error ?? 'Unable to deactivate product');
+              setErrorMessage(describeApiError(t, response, t('Unable to deactivate product')));
             }
 
             setDeactivatingId(null);
@@ -597,10 +621,15 @@ export function Products() {
           <Button
             mode="contained"
             onPress={openCreate}
+            disabled={!canCreateProducts}
             icon={({ size }) => <Feather name="plus" size={size} color={colors.neonGreen} />}
             buttonColor={colors.primaryPurple}
             textColor={colors.appBg}
-            style={[styles.addButton, isCompact && styles.addButtonCompact]}
+            style={[
+              styles.addButton,
+              isCompact && styles.addButtonCompact,
+              !canCreateProducts && styles.compactActionButtonDisabled,
+            ]}
             contentStyle={[styles.addButtonContent, isCompact && styles.addButtonContentCompact]}
             labelStyle={styles.addButtonLabel}
           >
@@ -747,17 +776,22 @@ export function Products() {
                             icon={() => <Feather name="edit-3" size={14} color={colors.primaryPurple} />}
                             size={18}
                             onPress={() => openEdit(product)}
-                            style={[styles.compactActionButton, { borderColor: colors.cardBorder }]}
+                            disabled={!canEditProducts}
+                            style={[
+                              styles.compactActionButton,
+                              { borderColor: colors.cardBorder },
+                              !canEditProducts && styles.compactActionButtonDisabled,
+                            ]}
                           />
                           <IconButton
                             icon={() => <Feather name="trash-2" size={14} color="#f72585" />}
                             size={18}
                             onPress={() => handleDeactivate(product)}
-                            disabled={deactivatingId === product.id}
+                            disabled={!canDeleteProducts || deactivatingId === product.id}
                             style={[
                               styles.compactActionButton,
                               { borderColor: colors.cardBorder },
-                              deactivatingId === product.id && styles.compactActionButtonDisabled,
+                              (!canDeleteProducts || deactivatingId === product.id) && styles.compactActionButtonDisabled,
                             ]}
                           />
                         </View>
@@ -852,27 +886,31 @@ export function Products() {
                               <Text style={[styles.menuLabel, { color: colors.textSecondary }]}>Details</Text>
                             </View>
                           </TouchableRipple>
-                          <TouchableRipple style={styles.menuItem} onPress={() => openEdit(product)}>
-                            <View style={styles.menuItemContent}>
-                              <Feather name="edit-3" size={14} color={colors.primaryPurple} />
-                              <Text style={[styles.menuLabel, { color: colors.primaryPurple }]}>Edit</Text>
-                            </View>
-                          </TouchableRipple>
-                          <TouchableRipple
-                            style={styles.menuItem}
-                            onPress={() => {
-                              setMenuProductId(null);
-                              handleDeactivate(product);
-                            }}
-                            disabled={deactivatingId === product.id}
-                          >
-                            <View style={styles.menuItemContent}>
-                              <Feather name="trash-2" size={14} color="#f72585" />
-                              <Text style={[styles.menuLabel, { color: '#f72585' }]}>
-                                {deactivatingId === product.id ? 'Deactivating...' : 'Deactivate'}
-                              </Text>
-                            </View>
-                          </TouchableRipple>
+                          {canEditProducts && (
+                            <TouchableRipple style={styles.menuItem} onPress={() => openEdit(product)}>
+                              <View style={styles.menuItemContent}>
+                                <Feather name="edit-3" size={14} color={colors.primaryPurple} />
+                                <Text style={[styles.menuLabel, { color: colors.primaryPurple }]}>Edit</Text>
+                              </View>
+                            </TouchableRipple>
+                          )}
+                          {canDeleteProducts && (
+                            <TouchableRipple
+                              style={styles.menuItem}
+                              onPress={() => {
+                                setMenuProductId(null);
+                                handleDeactivate(product);
+                              }}
+                              disabled={deactivatingId === product.id}
+                            >
+                              <View style={styles.menuItemContent}>
+                                <Feather name="trash-2" size={14} color="#f72585" />
+                                <Text style={[styles.menuLabel, { color: '#f72585' }]}>
+                                  {deactivatingId === product.id ? 'Deactivating...' : 'Deactivate'}
+                                </Text>
+                              </View>
+                            </TouchableRipple>
+                          )}
                         </View>
                       )}
                     </Card.Content>
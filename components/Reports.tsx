@@ -11,6 +11,7 @@ import { useResponsive } from '../hooks/useResponsive';
 import { useReportsData } from '../hooks/reports/useReportsData';
 import { ReportQuickStatCard } from './reports/ReportQuickStatCard';
 import { ReportItemCard } from './reports/ReportItemCard';
+import { usePermissions } from '../hooks/auth/usePermissions';
 
 export function Reports() {
   const { colors } = useTheme();
@@ -18,6 +19,8 @@ export function Reports() {
   const { client, isAuthenticated, loading: authLoading } = useAuth();
   const erpService = useMemo(() => new ErpService(client), [client]);
   const { isCompact, contentPadding } = useResponsive();
+  const { can } = usePermissions();
+  const canExportReports = can('reports', 'export');
   const { reports, loading, errorMessage, reportsThisMonth, reportsToday } = useReportsData({
     erpService,
     isAuthenticated,
@@ -117,6 +120,7 @@ export function Reports() {
               report={report}
               colors={colors}
               isCompact={isCompact}
+              canExport={canExportReports}
             />
           ))}
         </View>
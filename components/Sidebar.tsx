@@ -6,9 +6,12 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ThemeToggle } from './ThemeToggle';
 import { useResponsive } from '../hooks/useResponsive';
-import { sidebarModules } from '../utils/sidebar/modules';
+import { developerModules, sidebarModules } from '../utils/sidebar/modules';
 import { useSidebarState } from '../hooks/sidebar/useSidebarState';
+import { usePermissions } from '../hooks/auth/usePermissions';
+import { PermissionModule } from '../utils/access';
 import { useI18n } from '../contexts/I18nContext';
+import { EnterpriseSwitcher } from './sidebar/EnterpriseSwitcher';
 
 interface SidebarProps {
   activeModule: string;
@@ -29,6 +32,7 @@ export function Sidebar({
   const { t } = useI18n();
   const { logout, user } = useAuth();
   const { isCompact } = useResponsive();
+  const { can } = usePermissions();
   const isStacked = layout === 'stacked';
   const isDrawerLayout = isStacked && isCompact;
   const isSideCollapsed = !isStacked && collapsed;
@@ -43,16 +47,17 @@ export function Sidebar({
   const displayRole = user?.role ?? user?.email ?? t('Operator');
   const navigationModules = React.useMemo(
     () =>
-      sidebarModules.filter(
+      [...sidebarModules, ...(__DEV__ ? developerModules : [])].filter(
         (module) =>
           typeof module.id === 'string' &&
           module.id.trim().length > 0 &&
           typeof module.label === 'string' &&
           module.label.trim().length > 0 &&
           typeof module.icon === 'string' &&
-          module.icon.trim().length > 0,
+          module.icon.trim().length > 0 &&
+          can(module.id as PermissionModule, 'view'),
       ),
-    [],
+    [can],
   );
 
   const handleSelectModule = (moduleId: string) => {
@@ -103,6 +108,7 @@ export function Sidebar({
           </TouchableRipple>
         )}
       </View>
+      {!isSideCollapsed && <EnterpriseSwitcher />}
     </View>
   );
 
@@ -8,6 +8,13 @@ import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useI18n } from '../contexts/I18nContext';
 import { useResponsive } from '../hooks/useResponsive';
+import { EndpointCapabilitiesCard } from './diagnostics/EndpointCapabilitiesCard';
+import { NetworkLogCard } from './diagnostics/NetworkLogCard';
+import { EnvironmentSwitcher } from './environments/EnvironmentSwitcher';
+import { AppLockCard } from './appLock/AppLockCard';
+import { ChangePasswordCard } from './auth/ChangePasswordCard';
+import { TwoFactorCard } from './auth/TwoFactorCard';
+import { LocalDataCard } from './security/LocalDataCard';
 import { AppLanguage, normalizeLanguageCode } from '../utils/language';
 
 const languageOrder: AppLanguage[] = ['en', 'pt', 'es', 'ja'];
@@ -237,6 +244,23 @@ export function UserProfile() {
             </View>
           </Card.Content>
         </Card>
+
+        <Card mode="outlined" style={[styles.environmentCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+          <Card.Content style={styles.languageCardContent}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('API environment')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Switching signs you into the session stored for that environment.')}
+            </Text>
+            <EnvironmentSwitcher />
+          </Card.Content>
+        </Card>
+
+        <ChangePasswordCard />
+        <TwoFactorCard />
+        <AppLockCard />
+        <LocalDataCard />
+        <EndpointCapabilitiesCard />
+        <NetworkLogCard />
       </View>
     </ScrollView>
   );
@@ -343,6 +367,10 @@ const styles = StyleSheet.create({
   languageCard: {
     borderRadius: 10,
   },
+  environmentCard: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
   languageCardContent: {
     padding: 16,
     gap: 10,
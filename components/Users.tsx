@@ -0,0 +1,634 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Chip, Searchbar } from './ui/Paper';
+import { useTheme } from '../contexts/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useI18n } from '../contexts/I18nContext';
+import { ErpService, UserAccount } from '../services/erpService';
+import { useResponsive } from '../hooks/useResponsive';
+import { useUsers } from '../hooks/users/useUsers';
+import { usePermissions } from '../hooks/auth/usePermissions';
+import { useCrossTabMutations } from '../hooks/sync/useCrossTabSync';
+import { describeApiError } from '../utils/apiErrors';
+import { ACCESS_ROLES, AccessRole, accessRoleIndex } from '../utils/access';
+import {
+  ROLE_LABELS,
+  UserInviteValues,
+  UserRoleFilter,
+  UserStatusFilter,
+  emptyUserInviteValues,
+  filterUsersByStatus,
+  getUserInviteErrors,
+  hasUserInviteErrors,
+  resolveUserDisplayName,
+} from '../utils/users/presentation';
+import { NervLoader } from './NervLoader';
+import { ConfirmModal } from './customers/ConfirmModal';
+import { InviteUserModal } from './users/InviteUserModal';
+import { UserCard } from './users/UserCard';
+
+const statusOptions: UserStatusFilter[] = ['all', 'active', 'invited', 'inactive'];
+const roleOptions: UserRoleFilter[] = ['all', ...ACCESS_ROLES];
+
+const statusOptionLabels: Record<UserStatusFilter, string> = {
+  all: 'All',
+  active: 'Active',
+  invited: 'Invited',
+  inactive: 'Inactive',
+};
+
+type PendingConfirm = { kind: 'deactivate' | 'reset'; user: UserAccount };
+
+const userRowKey = (user: UserAccount, index: number) => String(user.id ?? user.email ?? `row-${index}`);
+
+export function Users() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { client, isAuthenticated, loading: authLoading, enterpriseId, user: currentUser } = useAuth();
+  const { isCompact, isTablet, contentPadding } = useResponsive();
+  const { can } = usePermissions();
+  const canViewUsers = can('users', 'view');
+  const canInviteUsers = can('users', 'create');
+  const canEditUsers = can('users', 'edit');
+  const canDeactivateUsers = can('users', 'delete');
+  const permissionDeniedMessage = t('You do not have permission for this action.');
+
+  const erpService = useMemo(() => new ErpService(client), [client]);
+
+  const {
+    searchTerm,
+    setSearchTerm,
+    roleFilter,
+    setRoleFilter,
+    users,
+    setUsers,
+    loading,
+    errorMessage,
+    setErrorMessage,
+    pageNumber,
+    setPageNumber,
+    hasMore,
+    refresh: refreshUsers,
+  } = useUsers({
+    erpService,
+    isAuthenticated,
+    authLoading,
+    enterpriseId,
+    enabled: canViewUsers,
+    pageSize: 25,
+  });
+
+  useCrossTabMutations({ scope: 'users', onChange: refreshUsers });
+
+  const [statusFilter, setStatusFilter] = useState<UserStatusFilter>('all');
+  const [noticeMessage, setNoticeMessage] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<UserAccount['id'] | null>(null);
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+  const [inviteVisible, setInviteVisible] = useState(false);
+  const [inviteValues, setInviteValues] = useState<UserInviteValues>(emptyUserInviteValues);
+  const [inviteAttempted, setInviteAttempted] = useState(false);
+  const [inviteSubmitting, setInviteSubmitting] = useState(false);
+
+  const inviteErrors = useMemo(() => getUserInviteErrors(inviteValues), [inviteValues]);
+
+  const isSelf = useCallback(
+    (account: UserAccount) =>
+      (account.id !== undefined && currentUser?.id != null && String(account.id) === String(currentUser.id)) ||
+      (!!account.email && account.email.toLowerCase() === currentUser?.email?.toLowerCase()),
+    [currentUser?.email, currentUser?.id],
+  );
+
+  const goPrevPage = useCallback(() => {
+    setPageNumber((prev) => Math.max(1, prev - 1));
+  }, [setPageNumber]);
+
+  const goNextPage = useCallback(() => {
+    if (hasMore) {
+      setPageNumber((prev) => prev + 1);
+    }
+  }, [hasMore, setPageNumber]);
+
+  const openInvite = useCallback(() => {
+    if (!canInviteUsers) {
+      setErrorMessage(permissionDeniedMessage);
+      return;
+    }
+    setErrorMessage(null);
+    setNoticeMessage(null);
+    setInviteValues(emptyUserInviteValues());
+    setInviteAttempted(false);
+    setInviteVisible(true);
+  }, [canInviteUsers, permissionDeniedMessage, setErrorMessage]);
+
+  const closeInvite = useCallback(() => {
+    setInviteVisible(false);
+    setInviteAttempted(false);
+  }, []);
+
+  const handleInviteSubmit = useCallback(async () => {
+    if (inviteSubmitting) {
+      return;
+    }
+    setInviteAttempted(true);
+    if (hasUserInviteErrors(inviteErrors)) {
+      return;
+    }
+
+    setInviteSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const email = inviteValues.email.trim();
+      const response = await erpService.inviteUser({
+        email,
+        name: inviteValues.name.trim() || undefined,
+        role: accessRoleIndex(inviteValues.role),
+        enterpriseId: enterpriseId ?? undefined,
+      });
+      if (response.ok) {
+        const invited: UserAccount = response.data ?? {
+          id: `temp-${Date.now()}`,
+          email,
+          name: inviteValues.name.trim() || undefined,
+          role: inviteValues.role,
+          status: 'Invited',
+          isActive: true,
+        };
+        setUsers((prev) => [invited, ...prev]);
+        setNoticeMessage(t('Invitation sent to {email}.', { email }));
+        closeInvite();
+        return;
+      }
+      setErrorMessage(describeApiError(t, response, t('Unable to invite user')));
+    } finally {
+      setInviteSubmitting(false);
+    }
+  }, [
+    closeInvite,
+    enterpriseId,
+    erpService,
+    inviteErrors,
+    inviteSubmitting,
+    inviteValues,
+    setErrorMessage,
+    setUsers,
+    t,
+  ]);
+
+  const handleRoleChange = useCallback(
+    async (account: UserAccount, role: AccessRole) => {
+      if (!canEditUsers) {
+        setErrorMessage(permissionDeniedMessage);
+        return;
+      }
+      if (account.id === undefined || account.id === null) {
+        setErrorMessage(t('User id missing.'));
+        return;
+      }
+
+      setBusyUserId(account.id);
+      setErrorMessage(null);
+      setNoticeMessage(null);
+      try {
+        const response = await erpService.updateUserRole(account.id, role);
+        if (response.ok) {
+          setUsers((prev) => prev.map((item) => (item.id === account.id ? { ...item, role } : item)));
+          setNoticeMessage(
+            t('{name} is now {role}.', { name: resolveUserDisplayName(account), role: t(ROLE_LABELS[role]) }),
+          );
+          return;
+        }
+        setErrorMessage(describeApiError(t, response, t('Unable to change role')));
+      } finally {
+        setBusyUserId(null);
+      }
+    },
+    [canEditUsers, erpService, permissionDeniedMessage, setErrorMessage, setUsers, t],
+  );
+
+  const requestConfirm = useCallback(
+    (kind: PendingConfirm['kind'], account: UserAccount) => {
+      const allowed = kind === 'deactivate' ? canDeactivateUsers : canEditUsers;
+      if (!allowed) {
+        setErrorMessage(permissionDeniedMessage);
+        return;
+      }
+      if (account.id === undefined || account.id === null) {
+        setErrorMessage(t('User id missing.'));
+        return;
+      }
+      setPendingConfirm({ kind, user: account });
+    },
+    [canDeactivateUsers, canEditUsers, permissionDeniedMessage, setErrorMessage, t],
+  );
+
+  const closeConfirm = useCallback(() => setPendingConfirm(null), []);
+
+  const handleConfirm = useCallback(async () => {
+    if (!pendingConfirm || pendingConfirm.user.id === undefined || pendingConfirm.user.id === null) {
+      closeConfirm();
+      return;
+    }
+    const { kind, user: account } = pendingConfirm;
+    const accountId = account.id as string | number;
+    const name = resolveUserDisplayName(account);
+
+    setBusyUserId(accountId);
+    setErrorMessage(null);
+    setNoticeMessage(null);
+    try {
+      if (kind === 'deactivate') {
+        const response = await erpService.deactivateUser(accountId);
+        if (response.ok) {
+          setUsers((prev) =>
+            prev.map((item) => (item.id === accountId ? { ...item, isActive: false, status: 'Inactive' } : item)),
+          );
+          setNoticeMessage(t('{name} can no longer sign in.', { name }));
+        } else {
+          setErrorMessage(describeApiError(t, response, t('Unable to deactivate user')));
+        }
+        return;
+      }
+
+      const response = await erpService.resetUserPassword(accountId);
+      if (response.ok) {
+        setNoticeMessage(t('A password reset link was sent to {email}.', { email: account.email ?? name }));
+      } else {
+        setErrorMessage(describeApiError(t, response, t('Unable to reset password')));
+      }
+    } finally {
+      setBusyUserId(null);
+      closeConfirm();
+    }
+  }, [closeConfirm, erpService, pendingConfirm, setErrorMessage, setUsers, t]);
+
+  const visibleUsers = useMemo(() => filterUsersByStatus(users, statusFilter), [users, statusFilter]);
+
+  if (loading && users.length === 0) {
+    return (
+      <NervLoader
+        variant="customers"
+        fullScreen
+        label={t('Synchronizing EVA-01')}
+        subtitle={t('LCL circulation nominal | Loading users...')}
+      />
+    );
+  }
+
+  const renderFilterChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <Chip
+      key={key}
+      selected={isSelected}
+      showSelectedCheck={false}
+      icon={
+        isSelected
+          ? ({ size }) => <Feather name="check" size={Math.max(12, size - 2)} color={colors.neonGreen} />
+          : undefined
+      }
+      onPress={onPress}
+      style={[
+        styles.filterButton,
+        {
+          backgroundColor: isSelected ? colors.primaryPurple : colors.cardBgFrom,
+          borderColor: isSelected ? colors.primaryPurple : colors.cardBorder,
+        },
+      ]}
+      textStyle={[styles.filterText, { color: isSelected ? colors.neonGreen : colors.textSecondary }]}
+    >
+      {label}
+    </Chip>
+  );
+
+  const confirmName = pendingConfirm ? resolveUserDisplayName(pendingConfirm.user) : '';
+
+  return (
+    <>
+      <ScrollView style={styles.container}>
+        <View style={[styles.content, { padding: contentPadding }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.neonGreen }, isCompact && styles.titleCompact]}>
+              {t('USER MANAGEMENT')}
+            </Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }, isCompact && styles.subtitleCompact]}>
+              {t('Control who can access the ERP and what they can do')}
+            </Text>
+            <View style={[styles.headerLine, { backgroundColor: colors.primaryPurple }]} />
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterContainer}>
+            {statusOptions.map((status) =>
+              renderFilterChip(status, t(statusOptionLabels[status]), statusFilter === status, () =>
+                setStatusFilter(status),
+              ),
+            )}
+          </ScrollView>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterContainer}>
+            {roleOptions.map((role) =>
+              renderFilterChip(
+                `role-${role}`,
+                role === 'all' ? t('All roles') : t(ROLE_LABELS[role]),
+                roleFilter === role,
+                () => setRoleFilter(role),
+              ),
+            )}
+          </ScrollView>
+
+          <View style={[styles.actionRow, isCompact && styles.actionRowCompact]}>
+            <Searchbar
+              placeholder={t('Search by name or email...')}
+              value={searchTerm}
+              onChangeText={setSearchTerm}
+              style={[styles.searchBar, { backgroundColor: colors.inputBgFrom }]}
+              iconColor={colors.primaryPurple}
+              inputStyle={[styles.searchInput, { color: colors.textPrimary }]}
+              placeholderTextColor={colors.textMuted}
+            />
+
+            <Button
+              mode="contained"
+              onPress={openInvite}
+              disabled={!canInviteUsers}
+              icon={({ size }) => <Feather name="user-plus" size={size} color={colors.neonGreen} />}
+              buttonColor={colors.primaryPurple}
+              textColor={colors.appBg}
+              style={[styles.addButton, isCompact && styles.addButtonCompact, !canInviteUsers && styles.buttonDisabled]}
+              contentStyle={[styles.addButtonContent, isCompact && styles.addButtonContentCompact]}
+              labelStyle={styles.addButtonLabel}
+              testID="users-invite"
+            >
+              {t('Invite')}
+            </Button>
+          </View>
+
+          <View style={[styles.paginationRow, isCompact && styles.paginationRowCompact]}>
+            <Button
+              mode="outlined"
+              onPress={goPrevPage}
+              disabled={pageNumber === 1}
+              icon={({ size }) => <Feather name="chevron-left" size={size} color={colors.textSecondary} />}
+              textColor={colors.textSecondary}
+              style={[
+                styles.paginationButton,
+                { borderColor: colors.cardBorder },
+                pageNumber === 1 && styles.paginationButtonDisabled,
+              ]}
+            >
+              {t('Prev')}
+            </Button>
+
+            <Text style={[styles.pageIndicator, { color: colors.textPrimary }]}>
+              {t('Page {page}', { page: pageNumber })}
+            </Text>
+
+            <Button
+              mode="outlined"
+              onPress={goNextPage}
+              disabled={!hasMore}
+              icon={({ size }) => <Feather name="chevron-right" size={size} color={colors.textSecondary} />}
+              textColor={colors.textSecondary}
+              style={[
+                styles.paginationButton,
+                { borderColor: colors.cardBorder },
+                !hasMore && styles.paginationButtonDisabled,
+              ]}
+              contentStyle={styles.paginationButtonContent}
+            >
+              {t('Next')}
+            </Button>
+          </View>
+
+          {noticeMessage && (
+            <View style={[styles.banner, { backgroundColor: `${colors.neonGreen}15`, borderColor: colors.neonGreen }]}>
+              <Text style={[styles.bannerText, { color: colors.textPrimary }]}>{noticeMessage}</Text>
+            </View>
+          )}
+
+          {errorMessage && (
+            <View
+              style={[styles.banner, { backgroundColor: `${colors.accentOrange}20`, borderColor: colors.accentOrange }]}
+            >
+              <Text style={[styles.bannerText, { color: colors.accentOrange }]}>{errorMessage}</Text>
+            </View>
+          )}
+
+          {!loading && visibleUsers.length === 0 && (
+            <View style={[styles.emptyState, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}>
+              <Feather name="user-check" size={20} color={colors.textMuted} />
+              <Text style={[styles.emptyTitle, { color: colors.textPrimary }]}>{t('No users found')}</Text>
+              <Text style={[styles.emptySubtitle, { color: colors.textMuted }]}>
+                {t('Invite people by email to give them access.')}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.userList}>
+            {visibleUsers.map((account, index) => (
+              <UserCard
+                key={userRowKey(account, index)}
+                rowKey={userRowKey(account, index)}
+                user={account}
+                colors={colors}
+                isCompact={isCompact}
+                isSelf={isSelf(account)}
+                canEdit={canEditUsers}
+                canDelete={canDeactivateUsers}
+                busy={busyUserId !== null && account.id === busyUserId}
+                onRoleChange={handleRoleChange}
+                onResetPassword={(target) => requestConfirm('reset', target)}
+                onDeactivate={(target) => requestConfirm('deactivate', target)}
+              />
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+
+      <InviteUserModal
+        visible={inviteVisible}
+        values={inviteValues}
+        errors={inviteErrors}
+        attempted={inviteAttempted}
+        submitting={inviteSubmitting}
+        isCompact={isCompact}
+        isTablet={isTablet}
+        colors={colors}
+        onClose={closeInvite}
+        onSubmit={handleInviteSubmit}
+        onFieldChange={(field, value) => setInviteValues((prev) => ({ ...prev, [field]: value }))}
+        onRoleChange={(role) => setInviteValues((prev) => ({ ...prev, role }))}
+      />
+
+      <ConfirmModal
+        visible={pendingConfirm !== null}
+        title={pendingConfirm?.kind === 'reset' ? t('Reset Password') : t('Deactivate User')}
+        message={
+          pendingConfirm?.kind === 'reset'
+            ? t('Send {name} a link to choose a new password?', { name: confirmName })
+            : t('Deactivate {name}? They will no longer be able to sign in.', { name: confirmName })
+        }
+        confirmLabel={pendingConfirm?.kind === 'reset' ? t('Send link') : t('Deactivate')}
+        busyLabel={pendingConfirm?.kind === 'reset' ? 'Sending...' : 'Deactivating...'}
+        busy={busyUserId !== null}
+        isCompact={isCompact}
+        isTablet={isTablet}
+        colors={colors}
+        onCancel={closeConfirm}
+        onConfirm={handleConfirm}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 20,
+    paddingBottom: 34,
+    paddingHorizontal: 20,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: '800',
+    letterSpacing: 0.4,
+    marginBottom: 6,
+    lineHeight: 36,
+  },
+  titleCompact: {
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: 0.2,
+    lineHeight: 30,
+  },
+  subtitle: {
+    fontSize: 15,
+    lineHeight: 21,
+    marginBottom: 10,
+  },
+  subtitleCompact: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  headerLine: {
+    height: 6,
+    width: 132,
+    borderRadius: 999,
+  },
+  banner: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  bannerText: {
+    fontSize: 12,
+  },
+  emptyState: {
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 18,
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 14,
+  },
+  emptyTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  emptySubtitle: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  filterContainer: {
+    marginBottom: 16,
+  },
+  filterButton: {
+    borderRadius: 999,
+    borderWidth: 1,
+    marginRight: 10,
+    minHeight: 40,
+    justifyContent: 'center',
+    paddingHorizontal: 2,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  actionRowCompact: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+  },
+  paginationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+    gap: 12,
+  },
+  paginationRowCompact: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+  },
+  paginationButton: {
+    borderRadius: 12,
+    borderWidth: 1.5,
+  },
+  paginationButtonDisabled: {
+    opacity: 0.5,
+  },
+  paginationButtonContent: {
+    paddingVertical: 4,
+  },
+  pageIndicator: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  searchBar: {
+    flex: 1,
+    borderRadius: 16,
+    minHeight: 50,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+  },
+  addButton: {
+    borderRadius: 14,
+    minHeight: 50,
+  },
+  addButtonContent: {
+    paddingHorizontal: 18,
+    paddingVertical: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButtonContentCompact: {
+    paddingVertical: 6,
+  },
+  addButtonLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  addButtonCompact: {
+    width: '100%',
+    minHeight: 44,
+    borderRadius: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  userList: {
+    gap: 16,
+  },
+});
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card, Chip, Switch } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAppLock } from '../../hooks/appLock/useAppLock';
+import { APP_LOCK_IDLE_OPTIONS, APP_LOCK_MAX_ATTEMPTS } from '../../services/appLock';
+import { PinSetupModal, PinSetupMode } from './PinSetupModal';
+
+export function AppLockCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { enabled, idleMinutes, setIdleMinutes, lock } = useAppLock();
+  const [setupMode, setSetupMode] = useState<PinSetupMode | null>(null);
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('App lock')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Ask for a PIN on this device after inactivity or when the app returns from background. {count} wrong PINs sign you out.', {
+                count: APP_LOCK_MAX_ATTEMPTS,
+              })}
+            </Text>
+          </View>
+          <Switch
+            value={enabled}
+            onValueChange={(next) => setSetupMode(next ? 'enable' : 'disable')}
+            color={colors.neonGreen}
+            testID="app-lock-switch"
+          />
+        </View>
+
+        {enabled && (
+          <>
+            <View style={styles.idleRow}>
+              <Text style={[styles.metaText, { color: colors.textMuted }]}>{t('Lock after')}</Text>
+              {APP_LOCK_IDLE_OPTIONS.map((minutes) => {
+                const selected = minutes === idleMinutes;
+                return (
+                  <Chip
+                    key={minutes}
+                    compact
+                    selected={selected}
+                    onPress={() => setIdleMinutes(minutes)}
+                    style={{
+                      backgroundColor: selected ? `${colors.primaryPurple}30` : colors.cardBgTo,
+                      borderColor: selected ? colors.primaryPurple : colors.cardBorder,
+                      borderWidth: 1,
+                    }}
+                    textStyle={{ color: selected ? colors.textPrimary : colors.textSecondary }}
+                  >
+                    {t('{count} min', { count: minutes })}
+                  </Chip>
+                );
+              })}
+            </View>
+
+            <View style={styles.actionsRow}>
+              <Button
+                mode="outlined"
+                compact
+                onPress={() => setSetupMode('change')}
+                textColor={colors.textSecondary}
+                icon={({ size }) => <Feather name="key" size={size} color={colors.textSecondary} />}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              >
+                {t('Change PIN')}
+              </Button>
+              <Button
+                mode="outlined"
+                compact
+                onPress={lock}
+                textColor={colors.neonGreen}
+                icon={({ size }) => <Feather name="lock" size={size} color={colors.neonGreen} />}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              >
+                {t('Lock now')}
+              </Button>
+            </View>
+          </>
+        )}
+      </Card.Content>
+      <PinSetupModal visible={setupMode !== null} mode={setupMode ?? 'enable'} onClose={() => setSetupMode(null)} />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  idleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  metaText: {
+    fontSize: 12,
+    marginRight: 4,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Image, Modal, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAppLock } from '../../hooks/appLock/useAppLock';
+import { OtpInput } from '../shared/OtpInput';
+
+export function AppLockScreen() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { user, logout } = useAuth();
+  const { pinLength, remainingAttempts, unlock } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleComplete = async (value: string) => {
+    if (checking) {
+      return;
+    }
+    setChecking(true);
+    const result = await unlock(value);
+    setChecking(false);
+    setPin('');
+
+    if (result === 'lockedOut') {
+      await logout();
+      return;
+    }
+    if (result === 'invalid') {
+      setErrorMessage(t('Incorrect PIN. {count} attempts left.', { count: remainingAttempts - 1 }));
+      return;
+    }
+    setErrorMessage(null);
+  };
+
+  return (
+    // A modal so it also covers forms that are open in their own modals; back/escape cannot dismiss it.
+    <Modal visible animationType="fade" onRequestClose={() => undefined}>
+      <View style={[styles.container, { backgroundColor: colors.appBg }]} testID="app-lock-screen">
+        <View style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+          <Image source={require('../../assets/images/logo-mark.png')} style={styles.logo} />
+          <View style={styles.titleRow}>
+            <Feather name="lock" size={18} color={colors.neonGreen} />
+            <Text style={[styles.title, { color: colors.neonGreen }]}>{t('App locked')}</Text>
+          </View>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {user?.name ? t('Enter the PIN for {name}', { name: user.name }) : t('Enter your PIN to continue')}
+          </Text>
+
+          <OtpInput
+            value={pin}
+            onChangeText={(value) => {
+              setPin(value);
+              setErrorMessage(null);
+            }}
+            length={pinLength}
+            secure
+            autoFocus
+            disabled={checking}
+            error={Boolean(errorMessage)}
+            onComplete={handleComplete}
+            testID="app-lock-pin"
+          />
+
+          <Text style={[styles.errorText, { color: colors.accentOrange }]}>{errorMessage ?? ' '}</Text>
+
+          <Button
+            mode="outlined"
+            compact
+            onPress={logout}
+            disabled={checking}
+            textColor={colors.textSecondary}
+            icon={({ size }) => <Feather name="log-out" size={size} color={colors.textSecondary} />}
+            style={[styles.signOutButton, { borderColor: colors.cardBorder }]}
+          >
+            {t('Sign out instead')}
+          </Button>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 28,
+    gap: 14,
+    alignItems: 'center',
+  },
+  logo: {
+    width: 56,
+    height: 56,
+    resizeMode: 'contain',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    letterSpacing: 0.6,
+  },
+  subtitle: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  signOutButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
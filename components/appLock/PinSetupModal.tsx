@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Platform, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Chip, IconButton } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAppLock } from '../../hooks/appLock/useAppLock';
+import { APP_LOCK_PIN_LENGTHS } from '../../services/appLock';
+import { OtpInput } from '../shared/OtpInput';
+
+export type PinSetupMode = 'enable' | 'change' | 'disable';
+
+type PinSetupStep = 'current' | 'new' | 'confirm';
+
+interface PinSetupModalProps {
+  visible: boolean;
+  mode: PinSetupMode;
+  onClose: () => void;
+}
+
+const STEP_TITLES: Record<PinSetupStep, string> = {
+  current: 'Enter your current PIN',
+  new: 'Choose a new PIN',
+  confirm: 'Repeat the new PIN',
+};
+
+export function PinSetupModal({ visible, mode, onClose }: PinSetupModalProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { pinLength, verify, setPin, disable } = useAppLock();
+  const [step, setStep] = useState<PinSetupStep>('new');
+  const [value, setValue] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [newPinLength, setNewPinLength] = useState<number>(APP_LOCK_PIN_LENGTHS[0]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setStep(mode === 'enable' ? 'new' : 'current');
+    setValue('');
+    setNewPin('');
+    setNewPinLength(mode === 'change' ? pinLength : APP_LOCK_PIN_LENGTHS[0]);
+    setErrorMessage(null);
+  }, [visible, mode, pinLength]);
+
+  const handleComplete = async (entered: string) => {
+    setValue('');
+
+    if (step === 'current') {
+      if (!(await verify(entered))) {
+        setErrorMessage(t('Incorrect PIN.'));
+        return;
+      }
+      if (mode === 'disable') {
+        await disable();
+        onClose();
+        return;
+      }
+      setErrorMessage(null);
+      setStep('new');
+      return;
+    }
+
+    if (step === 'new') {
+      setNewPin(entered);
+      setErrorMessage(null);
+      setStep('confirm');
+      return;
+    }
+
+    if (entered !== newPin) {
+      setNewPin('');
+      setErrorMessage(t('PINs do not match. Try again.'));
+      setStep('new');
+      return;
+    }
+
+    try {
+      await setPin(entered);
+      onClose();
+    } catch (error) {
+      setErrorMessage(t(error instanceof Error ? error.message : 'Unable to save PIN.'));
+      setStep('new');
+    }
+  };
+
+  const slotCount = step === 'current' ? pinLength : newPinLength;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View style={[styles.modalCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>
+              {mode === 'disable' ? t('Turn off app lock') : mode === 'change' ? t('Change PIN') : t('Set up app lock')}
+            </Text>
+            <IconButton
+              icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+              size={18}
+              onPress={onClose}
+              style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+            />
+          </View>
+
+          <Text style={[styles.stepText, { color: colors.textSecondary }]}>{t(STEP_TITLES[step])}</Text>
+
+          {step === 'new' && (
+            <View style={styles.lengthRow}>
+              {APP_LOCK_PIN_LENGTHS.map((length) => {
+                const selected = length === newPinLength;
+                return (
+                  <Chip
+                    key={length}
+                    compact
+                    selected={selected}
+                    onPress={() => {
+                      setNewPinLength(length);
+                      setValue('');
+                    }}
+                    style={{
+                      backgroundColor: selected ? `${colors.primaryPurple}30` : colors.cardBgTo,
+                      borderColor: selected ? colors.primaryPurple : colors.cardBorder,
+                      borderWidth: 1,
+                    }}
+                    textStyle={{ color: selected ? colors.textPrimary : colors.textSecondary }}
+                  >
+                    {t('{count} digits', { count: length })}
+                  </Chip>
+                );
+              })}
+            </View>
+          )}
+
+          <OtpInput
+            key={`${step}-${slotCount}`}
+            value={value}
+            onChangeText={setValue}
+            length={slotCount}
+            secure
+            autoFocus
+            error={Boolean(errorMessage)}
+            onComplete={handleComplete}
+            testID={`pin-setup-${step}`}
+          />
+
+          <Text style={[styles.errorText, { color: colors.accentOrange }]}>{errorMessage ?? ' '}</Text>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(8, 10, 18, 0.78)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    width: '100%',
+    maxWidth: 460,
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 24,
+    gap: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  modalCloseButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  lengthRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  errorText: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card, TextInput as PaperTextInput } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { validateNewPassword } from '../../utils/security/password';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+const EMPTY_FORM = { currentPassword: '', newPassword: '', confirmation: '' };
+
+type ChangePasswordField = keyof typeof EMPTY_FORM;
+
+const FIELDS: { key: ChangePasswordField; label: string }[] = [
+  { key: 'currentPassword', label: 'Current password' },
+  { key: 'newPassword', label: 'New password' },
+  { key: 'confirmation', label: 'Confirm new password' },
+];
+
+export function ChangePasswordCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { changePassword } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const close = () => {
+    setOpen(false);
+    setForm(EMPTY_FORM);
+    setShowPasswords(false);
+    setErrorMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.currentPassword) {
+      setErrorMessage(t('Enter your current password.'));
+      return;
+    }
+    const problem = validateNewPassword(form.newPassword, form.confirmation, form.currentPassword);
+    if (problem) {
+      setErrorMessage(t(problem));
+      return;
+    }
+
+    setSaving(true);
+    setErrorMessage(null);
+    try {
+      await changePassword({ currentPassword: form.currentPassword, newPassword: form.newPassword });
+      close();
+      setSuccessMessage(t('Password changed.'));
+    } catch (error) {
+      setErrorMessage(t(error instanceof Error ? error.message : 'Unable to change password'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('Password')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Other devices stay signed in until their session expires.')}
+            </Text>
+          </View>
+          {!open && (
+            <Button
+              mode="outlined"
+              compact
+              onPress={() => {
+                setOpen(true);
+                setSuccessMessage(null);
+              }}
+              textColor={colors.textSecondary}
+              icon={({ size }) => <Feather name="key" size={size} color={colors.textSecondary} />}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              testID="change-password-open"
+            >
+              {t('Change password')}
+            </Button>
+          )}
+        </View>
+
+        {successMessage && <Text style={[styles.statusText, { color: colors.neonGreen }]}>{successMessage}</Text>}
+
+        {open && (
+          <>
+            {FIELDS.map((field) => (
+              <PaperTextInput
+                key={field.key}
+                mode="outlined"
+                dense
+                label={t(field.label)}
+                value={form[field.key]}
+                onChangeText={(value) => {
+                  setForm((current) => ({ ...current, [field.key]: value }));
+                  setErrorMessage(null);
+                }}
+                secureTextEntry={!showPasswords}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={{ backgroundColor: colors.inputBgFrom }}
+                textColor={colors.textPrimary}
+                outlineColor={colors.cardBorder}
+                activeOutlineColor={colors.primaryPurple}
+                right={
+                  field.key === 'currentPassword' ? (
+                    <PaperTextInput.Icon
+                      onPress={() => setShowPasswords((current) => !current)}
+                      icon={() => (
+                        <Feather name={showPasswords ? 'eye' : 'eye-off'} size={18} color={colors.textMuted} />
+                      )}
+                    />
+                  ) : undefined
+                }
+                testID={`change-password-${field.key}`}
+              />
+            ))}
+            <PasswordStrengthMeter password={form.newPassword} />
+
+            {errorMessage && <Text style={[styles.statusText, { color: colors.accentOrange }]}>{errorMessage}</Text>}
+
+            <View style={styles.actionsRow}>
+              <Button
+                mode="outlined"
+                compact
+                onPress={close}
+                disabled={saving}
+                textColor={colors.textSecondary}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              >
+                {t('Cancel')}
+              </Button>
+              <Button
+                mode="outlined"
+                compact
+                onPress={handleSave}
+                loading={saving}
+                disabled={saving}
+                textColor={colors.neonGreen}
+                icon={({ size }) => <Feather name="check" size={size} color={colors.neonGreen} />}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+                testID="change-password-save"
+              >
+                {t('Save password')}
+              </Button>
+            </View>
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  statusText: {
+    fontSize: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
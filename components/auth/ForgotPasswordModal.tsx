@@ -0,0 +1,237 @@
+import React, { useEffect } from 'react';
+import { Modal, Platform, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, IconButton, TextInput as PaperTextInput } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { PasswordResetStep, usePasswordReset } from '../../hooks/auth/usePasswordReset';
+import { PASSWORD_RESET_CODE_LENGTH } from '../../utils/security/password';
+import { OtpInput } from '../shared/OtpInput';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+interface ForgotPasswordModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const STEP_SUBTITLES: Record<PasswordResetStep, string> = {
+  request: 'Enter the email on your account and we will send you a reset code.',
+  reset: 'Enter the code sent to {email} and choose a new password.',
+  done: 'Your password was reset. Sign in with the new password.',
+};
+
+export function ForgotPasswordModal({ visible, onClose }: ForgotPasswordModalProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { requestPasswordReset, resetPassword } = useAuth();
+  const {
+    step,
+    setStep,
+    email,
+    setEmail,
+    code,
+    setCode,
+    newPassword,
+    setNewPassword,
+    confirmation,
+    setConfirmation,
+    submitting,
+    error,
+    clearError,
+    reset,
+    sendCode,
+    submitReset,
+  } = usePasswordReset({ requestPasswordReset, resetPassword });
+
+  useEffect(() => {
+    if (visible) {
+      reset();
+    }
+  }, [visible, reset]);
+
+  const inputProps = {
+    mode: 'outlined' as const,
+    dense: true,
+    autoCapitalize: 'none' as const,
+    autoCorrect: false,
+    style: { backgroundColor: colors.inputBgFrom },
+    textColor: colors.textPrimary,
+    outlineColor: colors.cardBorder,
+    activeOutlineColor: colors.primaryPurple,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View style={[styles.modalCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>{t('Reset password')}</Text>
+            <IconButton
+              icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+              size={18}
+              onPress={onClose}
+              disabled={submitting}
+              style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+            />
+          </View>
+
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {t(STEP_SUBTITLES[step], { email: email.trim() })}
+          </Text>
+
+          {step === 'request' && (
+            <PaperTextInput
+              {...inputProps}
+              label={t('Email')}
+              value={email}
+              onChangeText={(value) => {
+                setEmail(value);
+                clearError();
+              }}
+              keyboardType="email-address"
+              onSubmitEditing={sendCode}
+              testID="forgot-password-email"
+            />
+          )}
+
+          {step === 'reset' && (
+            <>
+              <OtpInput
+                value={code}
+                onChangeText={(value) => {
+                  setCode(value);
+                  clearError();
+                }}
+                length={PASSWORD_RESET_CODE_LENGTH}
+                autoFocus
+                disabled={submitting}
+                error={Boolean(error)}
+                testID="forgot-password-code"
+              />
+              <PaperTextInput
+                {...inputProps}
+                label={t('New password')}
+                value={newPassword}
+                onChangeText={(value) => {
+                  setNewPassword(value);
+                  clearError();
+                }}
+                secureTextEntry
+                testID="forgot-password-new"
+              />
+              <PasswordStrengthMeter password={newPassword} />
+              <PaperTextInput
+                {...inputProps}
+                label={t('Confirm new password')}
+                value={confirmation}
+                onChangeText={(value) => {
+                  setConfirmation(value);
+                  clearError();
+                }}
+                secureTextEntry
+                onSubmitEditing={submitReset}
+                testID="forgot-password-confirm"
+              />
+            </>
+          )}
+
+          {error && <Text style={[styles.errorText, { color: colors.accentOrange }]}>{t(error)}</Text>}
+
+          <View style={styles.modalActions}>
+            {step === 'reset' && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => setStep('request')}
+                disabled={submitting}
+                textColor={colors.textSecondary}
+              >
+                {t('Send a new code')}
+              </Button>
+            )}
+            <Button
+              mode="contained"
+              onPress={step === 'request' ? sendCode : step === 'reset' ? submitReset : onClose}
+              loading={submitting}
+              disabled={submitting}
+              buttonColor={colors.primaryPurple}
+              textColor={colors.appBg}
+              style={styles.modalButton}
+              testID="forgot-password-submit"
+            >
+              {step === 'request' ? t('Send code') : step === 'reset' ? t('Reset password') : t('Back to sign in')}
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(8, 10, 18, 0.78)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    width: '100%',
+    maxWidth: 460,
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 24,
+    gap: 14,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  modalCloseButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  errorText: {
+    fontSize: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  modalButton: {
+    minWidth: 140,
+    borderRadius: 16,
+  },
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { AntDesign, Feather } from '@expo/vector-icons';
+import { Surface, TouchableRipple } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useOAuthProvider } from '../../hooks/auth/useOAuthProvider';
+import { OAuthProvider } from '../../utils/security/oauthProviders';
+
+interface OAuthProviderButtonProps {
+  provider: OAuthProvider;
+  submitting: boolean;
+  active: boolean;
+  compact?: boolean;
+  onBegin: (provider: OAuthProvider) => boolean;
+  onCode: (
+    provider: OAuthProvider,
+    payload: { code: string; redirectUri: string; codeVerifier?: string },
+  ) => void;
+  onFinish: (message?: string) => void;
+}
+
+export function OAuthProviderButton({
+  provider,
+  submitting,
+  active,
+  compact,
+  onBegin,
+  onCode,
+  onFinish,
+}: OAuthProviderButtonProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { start } = useOAuthProvider({ provider, onBegin, onCode, onFinish });
+
+  return (
+    <Surface
+      style={[
+        styles.button,
+        { borderColor: colors.primaryPurple, backgroundColor: `${colors.primaryPurple}14` },
+        submitting && styles.buttonDisabled,
+      ]}
+      elevation={0}
+    >
+      <TouchableRipple
+        onPress={start}
+        disabled={submitting}
+        testID={`login-oauth-${provider.id}`}
+        style={styles.ripple}
+      >
+        <View style={[styles.content, compact && styles.contentCompact]}>
+          <View style={[styles.iconBox, { backgroundColor: colors.cardBgFrom, borderColor: `${colors.cardBorder}aa` }]}>
+            {provider.kind === 'microsoft' ? (
+              <AntDesign name="windows" size={18} color="#00A4EF" />
+            ) : (
+              <Feather name="key" size={18} color={colors.primaryPurple} />
+            )}
+          </View>
+          <View style={styles.textContainer}>
+            <Text style={[styles.title, { color: colors.primaryPurple }]}>
+              {active ? t('Linking...') : t('Continue with {provider}', { provider: provider.label })}
+            </Text>
+            <Text style={[styles.subtitle, { color: colors.textMuted }]}>
+              {t('ORGANIZATION ACCOUNT')}
+            </Text>
+          </View>
+          <Feather name="chevron-right" size={20} color={colors.primaryPurple} />
+        </View>
+      </TouchableRipple>
+    </Surface>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    borderRadius: 18,
+    borderWidth: 1.5,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  ripple: {
+    padding: 16,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  contentCompact: {
+    flexWrap: 'wrap',
+  },
+  iconBox: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  subtitle: {
+    fontSize: 10,
+    letterSpacing: 1,
+  },
+});
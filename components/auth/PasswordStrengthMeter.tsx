@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { PASSWORD_MIN_LENGTH, evaluatePasswordStrength } from '../../utils/security/password';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const SEGMENTS = [1, 2, 3, 4];
+
+export function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+
+  if (!password) {
+    return null;
+  }
+
+  const { score, label, checks } = evaluatePasswordStrength(password);
+  const tone = score >= 3 ? colors.neonGreen : score === 2 ? colors.primaryPurple : colors.accentOrange;
+  const hints = [
+    !checks.length && t('at least {count} characters', { count: PASSWORD_MIN_LENGTH }),
+    !checks.uppercase && t('an uppercase letter'),
+    !checks.number && t('a number'),
+    !checks.symbol && t('a symbol'),
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.container} testID="password-strength">
+      <View style={styles.barRow}>
+        {SEGMENTS.map((segment) => (
+          <View
+            key={segment}
+            style={[styles.segment, { backgroundColor: segment <= score ? tone : colors.cardBorder }]}
+          />
+        ))}
+      </View>
+      <Text style={[styles.label, { color: tone }]}>
+        {t(label)}
+        {hints.length > 0 && score < 4 ? (
+          <Text style={{ color: colors.textMuted }}> · {t('Add')} {hints.join(', ')}</Text>
+        ) : null}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  barRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 999,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
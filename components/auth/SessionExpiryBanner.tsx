@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Modal, Platform, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, IconButton } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSessionExpiryWarning } from '../../hooks/auth/useSessionExpiryWarning';
+import { formatSessionCountdown } from '../../utils/security/session';
+
+export function SessionExpiryBanner() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { sessionExpiresAt, canExtendSession, extendSession, logout } = useAuth();
+  const { visible, remainingMs, dismiss } = useSessionExpiryWarning({ expiresAt: sessionExpiresAt });
+  const [extending, setExtending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExtend = async () => {
+    setExtending(true);
+    setError(null);
+    try {
+      await extendSession();
+    } catch (err: any) {
+      setError(err?.message ?? 'Unable to extend the session');
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    // A modal so it shows above forms that are open in their own modals.
+    <Modal visible transparent animationType="fade" onRequestClose={dismiss}>
+      <View style={styles.backdrop}>
+        <View
+          style={[styles.banner, { backgroundColor: colors.cardBgFrom, borderColor: colors.accentOrange }]}
+          testID="session-expiry-banner"
+        >
+          <View style={styles.headerRow}>
+            <Feather name="clock" size={18} color={colors.accentOrange} />
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: colors.textPrimary }]}>
+                {t('Your session ends in {time}', { time: formatSessionCountdown(remainingMs) })}
+              </Text>
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+                {canExtendSession
+                  ? t('Stay signed in to keep working. Unsaved forms are kept as drafts either way.')
+                  : t('You will need to sign in again. Unsaved forms are kept as drafts and reopen afterwards.')}
+              </Text>
+            </View>
+            <IconButton
+              icon={() => <Feather name="x" size={16} color={colors.textSecondary} />}
+              size={16}
+              onPress={dismiss}
+              disabled={extending}
+              style={[styles.closeButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+            />
+          </View>
+
+          {error && <Text style={[styles.errorText, { color: colors.accentOrange }]}>{t(error)}</Text>}
+
+          <View style={styles.actionsRow}>
+            <Button
+              mode="outlined"
+              compact
+              onPress={logout}
+              disabled={extending}
+              textColor={colors.textSecondary}
+              icon={({ size }) => <Feather name="log-out" size={size} color={colors.textSecondary} />}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              testID="session-expiry-sign-out"
+            >
+              {t('Sign out')}
+            </Button>
+            {canExtendSession && (
+              <Button
+                mode="contained"
+                compact
+                onPress={handleExtend}
+                loading={extending}
+                disabled={extending}
+                buttonColor={colors.primaryPurple}
+                textColor={colors.appBg}
+                style={styles.pillButton}
+                testID="session-expiry-extend"
+              >
+                {t('Stay signed in')}
+              </Button>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-start',
+    paddingTop: 48,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(8, 10, 18, 0.45)',
+  },
+  banner: {
+    width: '100%',
+    maxWidth: 520,
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  closeButton: {
+    margin: 0,
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+  },
+  errorText: {
+    fontSize: 12,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  pillButton: {
+    borderRadius: 999,
+  },
+});
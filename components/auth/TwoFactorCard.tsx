@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { Image, Linking, Platform, Share, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card, Chip } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTwoFactorSettings } from '../../hooks/auth/useTwoFactorSettings';
+import { formatUsDateTime } from '../../utils/datetime';
+import { TWO_FACTOR_CODE_LENGTH, formatTwoFactorSecret } from '../../utils/security/twoFactor';
+import { OtpInput } from '../shared/OtpInput';
+
+export function TwoFactorCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { authService, hasRememberedDevice, forgetThisDevice } = useAuth();
+  const {
+    status,
+    unsupported,
+    loading,
+    busy,
+    error,
+    clearError,
+    setup,
+    cancelSetup,
+    startSetup,
+    confirmSetup,
+    recoveryCodes,
+    dismissRecoveryCodes,
+    pendingAction,
+    setPendingAction,
+    confirmPendingAction,
+    forgetDevice,
+  } = useTwoFactorSettings({ authService, forgetThisDevice });
+  const [code, setCode] = useState('');
+
+  const enabled = Boolean(status?.enabled);
+  const hasCurrentDevice = status?.devices.some((device) => device.current) ?? false;
+
+  const updateCode = (value: string) => {
+    setCode(value);
+    clearError();
+  };
+
+  const submitCode = (submit: (value: string) => Promise<void>) => async (value: string) => {
+    setCode('');
+    await submit(value);
+  };
+
+  const shareRecoveryCodes = () => {
+    if (!recoveryCodes?.length) {
+      return;
+    }
+    Share.share({ message: `NERV ERP ${t('Recovery codes')}\n\n${recoveryCodes.join('\n')}` }).catch(() => undefined);
+  };
+
+  const renderPillButton = (
+    label: string,
+    icon: keyof typeof Feather.glyphMap,
+    onPress: () => void,
+    tone = colors.textSecondary,
+  ) => (
+    <Button
+      mode="outlined"
+      compact
+      onPress={onPress}
+      disabled={busy}
+      textColor={tone}
+      icon={({ size }) => <Feather name={icon} size={size} color={tone} />}
+      style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('Two-step verification')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Ask for a code from an authenticator app or your email after the password.')}
+            </Text>
+          </View>
+          {!loading && !unsupported && (
+            <Chip
+              compact
+              style={{
+                backgroundColor: enabled ? `${colors.neonGreen}22` : colors.cardBgTo,
+                borderColor: enabled ? colors.neonGreen : colors.cardBorder,
+                borderWidth: 1,
+              }}
+              textStyle={{ color: enabled ? colors.neonGreen : colors.textSecondary }}
+            >
+              {enabled ? t('On') : t('Off')}
+            </Chip>
+          )}
+        </View>
+
+        {loading && <Text style={[styles.metaText, { color: colors.textMuted }]}>{t('Loading...')}</Text>}
+        {unsupported && (
+          <Text style={[styles.metaText, { color: colors.textMuted }]}>
+            {t('This server does not support two-step verification yet.')}
+          </Text>
+        )}
+
+        {recoveryCodes && recoveryCodes.length > 0 && (
+          <View style={[styles.panel, { borderColor: colors.accentOrange, backgroundColor: `${colors.accentOrange}12` }]}>
+            <Text style={[styles.panelTitle, { color: colors.textPrimary }]}>{t('Save your recovery codes')}</Text>
+            <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+              {t('Each code signs you in once if you lose access to your second factor. They will not be shown again.')}
+            </Text>
+            <View style={styles.codesGrid} testID="two-factor-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <Text key={recoveryCode} selectable style={[styles.codeText, { color: colors.textPrimary }]}>
+                  {recoveryCode}
+                </Text>
+              ))}
+            </View>
+            <View style={styles.actionsRow}>
+              {renderPillButton(t('Share codes'), 'share-2', shareRecoveryCodes)}
+              {renderPillButton(t('I saved them'), 'check', dismissRecoveryCodes, colors.neonGreen)}
+            </View>
+          </View>
+        )}
+
+        {!loading && !unsupported && !enabled && !setup && (
+          <View style={styles.actionsRow}>
+            {renderPillButton(t('Use an authenticator app'), 'smartphone', () => startSetup('totp'))}
+            {renderPillButton(t('Use email codes'), 'mail', () => startSetup('email'))}
+          </View>
+        )}
+
+        {setup && (
+          <View style={[styles.panel, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}>
+            {setup.method === 'totp' ? (
+              <>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                  {t('Scan the QR code with your authenticator app, or type the key by hand, then enter the code it shows.')}
+                </Text>
+                {setup.qrCodeImage && (
+                  <Image source={{ uri: setup.qrCodeImage }} style={styles.qrImage} accessibilityLabel={t('QR code')} />
+                )}
+                {setup.secret && (
+                  <Text selectable style={[styles.secretText, { color: colors.textPrimary }]} testID="two-factor-secret">
+                    {formatTwoFactorSecret(setup.secret)}
+                  </Text>
+                )}
+                {setup.otpauthUrl && Platform.OS !== 'web' && (
+                  <View style={styles.actionsRow}>
+                    {renderPillButton(t('Open authenticator app'), 'external-link', () => {
+                      Linking.openURL(setup.otpauthUrl as string).catch(() => undefined);
+                    })}
+                  </View>
+                )}
+              </>
+            ) : (
+              <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                {t('We sent a code to your email. Enter it to turn on two-step verification.')}
+              </Text>
+            )}
+            <OtpInput
+              value={code}
+              onChangeText={updateCode}
+              length={TWO_FACTOR_CODE_LENGTH}
+              disabled={busy}
+              error={Boolean(error)}
+              onComplete={submitCode(confirmSetup)}
+              testID="two-factor-setup-code"
+            />
+            <View style={styles.actionsRow}>
+              {renderPillButton(t('Cancel'), 'x', () => {
+                setCode('');
+                cancelSetup();
+              })}
+            </View>
+          </View>
+        )}
+
+        {enabled && status && (
+          <>
+            <Text style={[styles.metaText, { color: colors.textMuted }]}>
+              {status.method === 'email' ? t('Codes are sent to your email.') : t('Codes come from your authenticator app.')}
+              {status.recoveryCodesLeft !== null
+                ? ` ${t('{count} recovery codes left.', { count: status.recoveryCodesLeft })}`
+                : ''}
+            </Text>
+
+            {pendingAction ? (
+              <View style={[styles.panel, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}>
+                <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                  {pendingAction === 'disable'
+                    ? t('Enter a current code to turn off two-step verification.')
+                    : t('Enter a current code to replace your recovery codes.')}
+                </Text>
+                <OtpInput
+                  value={code}
+                  onChangeText={updateCode}
+                  length={TWO_FACTOR_CODE_LENGTH}
+                  autoFocus
+                  disabled={busy}
+                  error={Boolean(error)}
+                  onComplete={submitCode(confirmPendingAction)}
+                  testID="two-factor-confirm-code"
+                />
+                <View style={styles.actionsRow}>
+                  {renderPillButton(t('Cancel'), 'x', () => {
+                    setCode('');
+                    setPendingAction(null);
+                  })}
+                </View>
+              </View>
+            ) : (
+              <View style={styles.actionsRow}>
+                {renderPillButton(t('New recovery codes'), 'refresh-cw', () => setPendingAction('regenerate'))}
+                {renderPillButton(t('Turn off'), 'shield-off', () => setPendingAction('disable'), colors.accentOrange)}
+              </View>
+            )}
+
+            {(status.devices.length > 0 || hasRememberedDevice) && (
+              <View style={styles.devicesList}>
+                <Text style={[styles.panelTitle, { color: colors.textPrimary }]}>{t('Remembered devices')}</Text>
+                {status.devices.map((device) => (
+                  <View key={device.id} style={[styles.deviceRow, { borderColor: colors.cardBorder }]}>
+                    <Feather name={device.current ? 'smartphone' : 'monitor'} size={16} color={colors.textSecondary} />
+                    <View style={styles.deviceText}>
+                      <Text style={[styles.deviceName, { color: colors.textPrimary }]}>
+                        {t(device.name)}
+                        {device.current ? ` · ${t('This device')}` : ''}
+                      </Text>
+                      {device.lastUsedAt && (
+                        <Text style={[styles.metaText, { color: colors.textMuted }]}>
+                          {t('Last used {date}', { date: formatUsDateTime(device.lastUsedAt) })}
+                        </Text>
+                      )}
+                    </View>
+                    <Button mode="text" compact onPress={() => forgetDevice(device)} disabled={busy} textColor={colors.accentOrange}>
+                      {t('Forget')}
+                    </Button>
+                  </View>
+                ))}
+                {hasRememberedDevice && !hasCurrentDevice && (
+                  <View style={styles.actionsRow}>
+                    {renderPillButton(t('Forget this device'), 'x-circle', () => {
+                      forgetThisDevice();
+                    })}
+                  </View>
+                )}
+              </View>
+            )}
+          </>
+        )}
+
+        {error && <Text style={[styles.metaText, { color: colors.accentOrange }]}>{t(error)}</Text>}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  metaText: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  panel: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+  },
+  panelTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  codeText: {
+    width: '46%',
+    fontSize: 14,
+    letterSpacing: 1,
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+  },
+  qrImage: {
+    width: 180,
+    height: 180,
+    alignSelf: 'center',
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+  },
+  secretText: {
+    fontSize: 15,
+    letterSpacing: 1.5,
+    textAlign: 'center',
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+  devicesList: {
+    gap: 8,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderTopWidth: 1,
+    paddingTop: 8,
+  },
+  deviceText: {
+    flex: 1,
+    gap: 2,
+  },
+  deviceName: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Chip, Switch, TextInput as PaperTextInput } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { TWO_FACTOR_CODE_LENGTH, TwoFactorChallenge, TwoFactorMethod } from '../../utils/security/twoFactor';
+import { OtpInput } from '../shared/OtpInput';
+
+interface TwoFactorChallengeStepProps {
+  challenge: TwoFactorChallenge;
+}
+
+const RESEND_COOLDOWN_SECONDS = 30;
+
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  totp: 'Authenticator app',
+  email: 'Email code',
+};
+
+export function TwoFactorChallengeStep({ challenge }: TwoFactorChallengeStepProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { verifyTwoFactor, resendTwoFactorCode, cancelTwoFactor } = useAuth();
+  const [method, setMethod] = useState<TwoFactorMethod>(challenge.method);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (resendIn <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setResendIn((current) => current - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const submit = async (value = code) => {
+    if (submitting || !value.trim()) {
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await verifyTwoFactor({ code: value, method, rememberDevice, isRecoveryCode: useRecoveryCode });
+    } catch (err: any) {
+      setError(err?.message ?? 'Invalid verification code');
+      setCode('');
+      setSubmitting(false);
+    }
+  };
+
+  const resend = async (nextMethod: TwoFactorMethod) => {
+    setError(null);
+    setInfo(null);
+    try {
+      await resendTwoFactorCode(nextMethod);
+      setMethod(nextMethod);
+      setCode('');
+      setResendIn(RESEND_COOLDOWN_SECONDS);
+      if (nextMethod === 'email') {
+        setInfo(t('A new code was sent.'));
+      }
+    } catch (err: any) {
+      setError(err?.message ?? 'Unable to send a new code');
+    }
+  };
+
+  const subtitle = useRecoveryCode
+    ? t('Enter one of the recovery codes you saved when you turned on two-step verification.')
+    : method === 'email'
+      ? t('Enter the code we sent to {destination}.', { destination: challenge.destination ?? t('your email') })
+      : t('Enter the 6-digit code from your authenticator app.');
+
+  return (
+    <View style={styles.container} testID="two-factor-step">
+      <View style={styles.titleRow}>
+        <Feather name="shield" size={18} color={colors.neonGreen} />
+        <Text style={[styles.title, { color: colors.textPrimary }]}>{t('Two-step verification')}</Text>
+      </View>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{subtitle}</Text>
+
+      {!useRecoveryCode && challenge.methods.length > 1 && (
+        <View style={styles.methodRow}>
+          {challenge.methods.map((entry) => {
+            const selected = entry === method;
+            return (
+              <Chip
+                key={entry}
+                compact
+                selected={selected}
+                disabled={submitting}
+                onPress={() => {
+                  if (entry === method) {
+                    return;
+                  }
+                  // Email codes have to be sent first; authenticator codes are always at hand.
+                  if (entry === 'email') {
+                    resend(entry);
+                  } else {
+                    setMethod(entry);
+                    setCode('');
+                  }
+                }}
+                style={{
+                  backgroundColor: selected ? `${colors.primaryPurple}30` : colors.cardBgTo,
+                  borderColor: selected ? colors.primaryPurple : colors.cardBorder,
+                  borderWidth: 1,
+                }}
+                textStyle={{ color: selected ? colors.textPrimary : colors.textSecondary }}
+              >
+                {t(METHOD_LABELS[entry])}
+              </Chip>
+            );
+          })}
+        </View>
+      )}
+
+      {useRecoveryCode ? (
+        <PaperTextInput
+          mode="outlined"
+          dense
+          label={t('Recovery code')}
+          value={code}
+          onChangeText={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          onSubmitEditing={() => submit()}
+          style={{ backgroundColor: colors.inputBgFrom }}
+          textColor={colors.textPrimary}
+          outlineColor={colors.cardBorder}
+          activeOutlineColor={colors.primaryPurple}
+          testID="two-factor-recovery-code"
+        />
+      ) : (
+        <OtpInput
+          key={method}
+          value={code}
+          onChangeText={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          length={TWO_FACTOR_CODE_LENGTH}
+          autoFocus
+          disabled={submitting}
+          error={Boolean(error)}
+          onComplete={submit}
+          testID="two-factor-code"
+        />
+      )}
+
+      {error && <Text style={[styles.messageText, { color: colors.accentOrange }]}>{t(error)}</Text>}
+      {!error && info && <Text style={[styles.messageText, { color: colors.neonGreen }]}>{info}</Text>}
+
+      <View style={styles.rememberRow}>
+        <Text style={[styles.rememberText, { color: colors.textSecondary }]}>{t('Remember this device')}</Text>
+        <Switch
+          value={rememberDevice}
+          onValueChange={setRememberDevice}
+          color={colors.neonGreen}
+          testID="two-factor-remember"
+        />
+      </View>
+
+      <Button
+        mode="contained"
+        onPress={() => submit()}
+        disabled={submitting || !code.trim()}
+        loading={submitting}
+        buttonColor={colors.primaryPurple}
+        textColor={colors.appBg}
+        style={styles.verifyButton}
+        testID="two-factor-submit"
+      >
+        {t('Verify')}
+      </Button>
+
+      <View style={styles.linksRow}>
+        {!useRecoveryCode && method === 'email' && (
+          <Button
+            mode="text"
+            compact
+            onPress={() => resend('email')}
+            disabled={submitting || resendIn > 0}
+            textColor={colors.primaryPurple}
+          >
+            {resendIn > 0 ? t('Resend in {seconds}s', { seconds: resendIn }) : t('Resend code')}
+          </Button>
+        )}
+        <Button
+          mode="text"
+          compact
+          onPress={() => {
+            setUseRecoveryCode((current) => !current);
+            setCode('');
+            setError(null);
+          }}
+          disabled={submitting}
+          textColor={colors.primaryPurple}
+        >
+          {useRecoveryCode ? t('Use a verification code') : t('Use a recovery code')}
+        </Button>
+        <Button mode="text" compact onPress={cancelTwoFactor} disabled={submitting} textColor={colors.textMuted}>
+          {t('Back to sign in')}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  messageText: {
+    fontSize: 12,
+  },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  rememberText: {
+    fontSize: 13,
+  },
+  verifyButton: {
+    borderRadius: 14,
+  },
+  linksRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    gap: 4,
+  },
+});
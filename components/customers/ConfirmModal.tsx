@@ -11,6 +11,7 @@ interface ConfirmModalProps {
   message: string;
   confirmLabel: string;
   cancelLabel?: string;
+  busyLabel?: string;
   busy: boolean;
   isCompact: boolean;
   isTablet: boolean;
@@ -25,6 +26,7 @@ export function ConfirmModal({
   message,
   confirmLabel,
   cancelLabel = 'Cancel',
+  busyLabel = 'Deactivating...',
   busy,
   isCompact,
   isTablet,
@@ -81,7 +83,7 @@ export function ConfirmModal({
               contentStyle={styles.modalButtonContent}
               labelStyle={styles.modalButtonLabel}
             >
-              {busy ? t('Deactivating...') : t(confirmLabel)}
+              {busy ? t(busyLabel) : t(confirmLabel)}
             </Button>
           </View>
         </View>
@@ -12,7 +12,8 @@ interface CustomerCardProps {
   colors: CustomerColors;
   currency: string | null;
   isCompact: boolean;
-  canManage: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
   isDeactivating: boolean;
   onEdit: (customer: CustomerCardData['customer']) => void;
   onDeactivate: (customer: CustomerCardData['customer'], displayName: string) => void;
@@ -36,7 +37,8 @@ export function CustomerCard({
   colors,
   currency,
   isCompact,
-  canManage,
+  canEdit,
+  canDelete,
   isDeactivating,
   onEdit,
   onDeactivate,
@@ -87,31 +89,35 @@ export function CustomerCard({
               {t(data.status)}
             </Chip>
 
-            {canManage && (
+            {(canEdit || canDelete) && (
               <View style={styles.actionButtons}>
-                <IconButton
-                  icon={() => <Feather name="edit-2" size={14} color={colors.primaryPurple} />}
-                  size={18}
-                  onPress={() => onEdit(data.customer)}
-                  style={[
-                    styles.actionButton,
-                    { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
-                  ]}
-                  testID={`customer-edit-${data.key}`}
-                />
+                {canEdit && (
+                  <IconButton
+                    icon={() => <Feather name="edit-2" size={14} color={colors.primaryPurple} />}
+                    size={18}
+                    onPress={() => onEdit(data.customer)}
+                    style={[
+                      styles.actionButton,
+                      { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
+                    ]}
+                    testID={`customer-edit-${data.key}`}
+                  />
+                )}
 
-                <IconButton
-                  icon={() => <Feather name="trash-2" size={14} color={colors.accentOrange} />}
-                  size={18}
-                  onPress={() => onDeactivate(data.customer, data.displayName)}
-                  disabled={isDeactivating}
-                  style={[
-                    styles.actionButton,
-                    { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
-                    isDeactivating && styles.actionButtonDisabled,
-                  ]}
-                  testID={`customer-deactivate-${data.key}`}
-                />
+                {canDelete && (
+                  <IconButton
+                    icon={() => <Feather name="trash-2" size={14} color={colors.accentOrange} />}
+                    size={18}
+                    onPress={() => onDeactivate(data.customer, data.displayName)}
+                    disabled={isDeactivating}
+                    style={[
+                      styles.actionButton,
+                      { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
+                      isDeactivating && styles.actionButtonDisabled,
+                    ]}
+                    testID={`customer-deactivate-${data.key}`}
+                  />
+                )}
               </View>
             )}
           </View>
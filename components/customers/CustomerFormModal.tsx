@@ -5,6 +5,7 @@ import { Button, Chip, HelperText, IconButton, TextInput as PaperTextInput } fro
 import {
   CustomerFormErrors,
   CustomerFormValues,
+  CustomerServerErrors,
   CustomerStatusOption,
   formatPostalCode,
   normalizeDigits,
@@ -18,12 +19,14 @@ interface CustomerFormModalProps {
   mode: CustomerFormMode;
   values: CustomerFormValues;
   errors: CustomerFormErrors;
+  serverErrors: CustomerServerErrors;
   attempted: boolean;
   submitting: boolean;
   submitDisabled: boolean;
   isCompact: boolean;
   isTablet: boolean;
   colors: CustomerColors;
+  notice?: React.ReactNode;
   onClose: () => void;
   onSubmit: () => void;
   onFieldChange: (field: keyof CustomerFormValues, value: string | CustomerStatusOption) => void;
@@ -36,12 +39,14 @@ export function CustomerFormModal({
   mode,
   values,
   errors,
+  serverErrors,
   attempted,
   submitting,
   submitDisabled,
   isCompact,
   isTablet,
   colors,
+  notice,
   onClose,
   onSubmit,
   onFieldChange,
@@ -56,6 +61,16 @@ export function CustomerFormModal({
   const showPostalCodeError = attempted || !!normalizeDigits(values.postalCode);
 
   const nameHelper = errors.name ?? (errors.required && showNameError ? errors.required : null);
+  // Local checks win while they fail; otherwise show what the server rejected on the last save.
+  const fieldError = (field: keyof CustomerFormValues, localError: string | null, showLocal = true) =>
+    (showLocal ? localError : null) ?? serverErrors[field] ?? null;
+  const nameError = fieldError('name', nameHelper, showNameError);
+  const emailError = fieldError('email', errors.email, showEmailError);
+  const phoneError = fieldError('phone', errors.phone, showPhoneError);
+  const documentError = fieldError('document', errors.document, showDocumentError);
+  const postalCodeError = fieldError('postalCode', errors.postalCode, showPostalCodeError);
+  const cityError = fieldError('city', errors.city, showCityError);
+  const stateError = fieldError('state', errors.state, showStateError);
   const title = mode === 'create' ? t('New Customer') : t('Edit Customer');
   const submitLabel =
     mode === 'create'
@@ -91,6 +106,7 @@ export function CustomerFormModal({
           </View>
 
           <ScrollView showsVerticalScrollIndicator={false}>
+            {notice && <View style={styles.noticeSlot}>{notice}</View>}
             <View style={styles.modalField}>
               <Text style={[styles.modalLabel, { color: colors.textSecondary }]}>{t('Full name')}</Text>
               <PaperTextInput
@@ -106,11 +122,11 @@ export function CustomerFormModal({
                 placeholder={t('Customer full name')}
                 placeholderTextColor={colors.textMuted}
                 autoCapitalize="words"
-                error={!!nameHelper && showNameError}
+                error={!!nameError}
                 editable={!submitting}
               />
-              <HelperText type="error" visible={!!nameHelper && showNameError} style={styles.fieldHelper}>
-                {nameHelper ?? ''}
+              <HelperText type="error" visible={!!nameError} style={styles.fieldHelper}>
+                {nameError ?? ''}
               </HelperText>
             </View>
 
@@ -130,11 +146,11 @@ export function CustomerFormModal({
                 placeholderTextColor={colors.textMuted}
                 autoCapitalize="none"
                 keyboardType="email-address"
-                error={!!errors.email && showEmailError}
+                error={!!emailError}
                 editable={!submitting}
               />
-              <HelperText type="error" visible={!!errors.email && showEmailError} style={styles.fieldHelper}>
-                {errors.email ?? ''}
+              <HelperText type="error" visible={!!emailError} style={styles.fieldHelper}>
+                {emailError ?? ''}
               </HelperText>
             </View>
 
@@ -154,11 +170,11 @@ export function CustomerFormModal({
                 placeholderTextColor={colors.textMuted}
                 keyboardType="phone-pad"
                 textContentType="telephoneNumber"
-                error={!!errors.phone && showPhoneError}
+                error={!!phoneError}
                 editable={!submitting}
               />
-              <HelperText type="error" visible={!!errors.phone && showPhoneError} style={styles.fieldHelper}>
-                {errors.phone ?? ''}
+              <HelperText type="error" visible={!!phoneError} style={styles.fieldHelper}>
+                {phoneError ?? ''}
               </HelperText>
             </View>
 
@@ -177,11 +193,11 @@ export function CustomerFormModal({
                 placeholder={t('CPF/CNPJ/NIF')}
                 placeholderTextColor={colors.textMuted}
                 keyboardType="numeric"
-                error={!!errors.document && showDocumentError}
+                error={!!documentError}
                 editable={!submitting}
               />
-              <HelperText type="error" visible={!!errors.document && showDocumentError} style={styles.fieldHelper}>
-                {errors.document ?? ''}
+              <HelperText type="error" visible={!!documentError} style={styles.fieldHelper}>
+                {documentError ?? ''}
               </HelperText>
             </View>
 
@@ -210,8 +226,14 @@ export function CustomerFormModal({
                     placeholder="Av. Paulista"
                     placeholderTextColor={colors.textMuted}
                     autoCapitalize="words"
+                    error={!!serverErrors.street}
                     editable={!submitting}
                   />
+                  {serverErrors.street ? (
+                    <HelperText type="error" visible style={styles.fieldHelper}>
+                      {serverErrors.street}
+                    </HelperText>
+                  ) : null}
                 </View>
 
                 <View style={[styles.modalField, styles.fieldFlexNarrow]}>
@@ -229,8 +251,14 @@ export function CustomerFormModal({
                     placeholder="1234"
                     placeholderTextColor={colors.textMuted}
                     keyboardType="default"
+                    error={!!serverErrors.number}
                     editable={!submitting}
                   />
+                  {serverErrors.number ? (
+                    <HelperText type="error" visible style={styles.fieldHelper}>
+                      {serverErrors.number}
+                    </HelperText>
+                  ) : null}
                 </View>
 
                 <View style={[styles.modalField, styles.fieldFlex]}>
@@ -249,11 +277,11 @@ export function CustomerFormModal({
                     placeholderTextColor={colors.textMuted}
                     keyboardType="numeric"
                     maxLength={9}
-                    error={!!errors.postalCode && showPostalCodeError}
+                    error={!!postalCodeError}
                     editable={!submitting}
                   />
-                  <HelperText type="error" visible={!!errors.postalCode && showPostalCodeError} style={styles.fieldHelper}>
-                    {errors.postalCode ?? ''}
+                  <HelperText type="error" visible={!!postalCodeError} style={styles.fieldHelper}>
+                    {postalCodeError ?? ''}
                   </HelperText>
                 </View>
               </View>
@@ -274,8 +302,14 @@ export function CustomerFormModal({
                     placeholder="Bela Vista"
                     placeholderTextColor={colors.textMuted}
                     autoCapitalize="words"
+                    error={!!serverErrors.neighborhood}
                     editable={!submitting}
                   />
+                  {serverErrors.neighborhood ? (
+                    <HelperText type="error" visible style={styles.fieldHelper}>
+                      {serverErrors.neighborhood}
+                    </HelperText>
+                  ) : null}
                 </View>
 
                 <View style={[styles.modalField, styles.fieldFlex]}>
@@ -293,11 +327,11 @@ export function CustomerFormModal({
                     placeholder="Sao Paulo"
                     placeholderTextColor={colors.textMuted}
                     autoCapitalize="words"
-                    error={!!errors.city && showCityError}
+                    error={!!cityError}
                     editable={!submitting}
                   />
-                  <HelperText type="error" visible={!!errors.city && showCityError} style={styles.fieldHelper}>
-                    {errors.city ?? ''}
+                  <HelperText type="error" visible={!!cityError} style={styles.fieldHelper}>
+                    {cityError ?? ''}
                   </HelperText>
                 </View>
               </View>
@@ -319,11 +353,11 @@ export function CustomerFormModal({
                     placeholderTextColor={colors.textMuted}
                     autoCapitalize="characters"
                     maxLength={2}
-                    error={!!errors.state && showStateError}
+                    error={!!stateError}
                     editable={!submitting}
                   />
-                  <HelperText type="error" visible={!!errors.state && showStateError} style={styles.fieldHelper}>
-                    {errors.state ?? ''}
+                  <HelperText type="error" visible={!!stateError} style={styles.fieldHelper}>
+                    {stateError ?? ''}
                   </HelperText>
                 </View>
 
@@ -342,8 +376,14 @@ export function CustomerFormModal({
                     placeholder="Apt 101"
                     placeholderTextColor={colors.textMuted}
                     autoCapitalize="words"
+                    error={!!serverErrors.complement}
                     editable={!submitting}
                   />
+                  {serverErrors.complement ? (
+                    <HelperText type="error" visible style={styles.fieldHelper}>
+                      {serverErrors.complement}
+                    </HelperText>
+                  ) : null}
                 </View>
               </View>
             </View>
@@ -460,6 +500,9 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: 0.3,
   },
+  noticeSlot: {
+    marginBottom: 12,
+  },
   modalField: {
     gap: 8,
   },
@@ -1,5 +1,5 @@
 import { Customer as CustomerModel } from '../../services/erpService';
-import { CustomerFormValues, CustomerStatusOption } from '../../utils/customers/validation';
+import { CustomerFormValues, CustomerServerErrors, CustomerStatusOption } from '../../utils/customers/validation';
 
 export type CustomerFormMode = 'create' | 'edit';
 
@@ -10,8 +10,12 @@ export type CustomerFormState = {
   customer: CustomerModel | null;
   attempted: boolean;
   submitting: boolean;
+  serverErrors: CustomerServerErrors;
 };
 
+// What survives in a form draft; validation and submit state start over on restore.
+export type CustomerFormDraft = Pick<CustomerFormState, 'mode' | 'values' | 'customer'>;
+
 export type CustomerFormAction =
   | { type: 'OPEN_CREATE'; payload: CustomerFormValues }
   | { type: 'OPEN_EDIT'; payload: { values: CustomerFormValues; customer: CustomerModel } }
@@ -19,6 +23,7 @@ export type CustomerFormAction =
   | { type: 'SET_FIELD'; payload: { field: keyof CustomerFormValues; value: string | CustomerStatusOption } }
   | { type: 'SET_ATTEMPTED'; payload: boolean }
   | { type: 'SET_SUBMITTING'; payload: boolean }
+  | { type: 'SET_SERVER_ERRORS'; payload: CustomerServerErrors }
   | { type: 'PATCH_FIELDS'; payload: Partial<CustomerFormValues> };
 
 export type CustomerColors = {
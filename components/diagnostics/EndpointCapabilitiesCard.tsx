@@ -0,0 +1,120 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useEndpointCapabilities } from '../../hooks/diagnostics/useEndpointCapabilities';
+import { ENDPOINT_VARIANTS, EndpointOperation } from '../../services/endpointCapabilities';
+import { formatUsDateTime } from '../../utils/datetime';
+
+const operationLabels: Record<EndpointOperation, string> = {
+  deleteOrder: 'Delete order',
+  updateOrder: 'Update order',
+  fetchPayableBills: 'Load payable bills',
+};
+
+export function EndpointCapabilitiesCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { client } = useAuth();
+  const { baseUrl, capabilities, reset } = useEndpointCapabilities({ client });
+
+  const operations = Object.keys(ENDPOINT_VARIANTS) as EndpointOperation[];
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('API Diagnostics')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Route variants detected for {baseUrl}', { baseUrl })}
+            </Text>
+          </View>
+          <Button
+            mode="outlined"
+            compact
+            onPress={reset}
+            textColor={colors.textSecondary}
+            icon={({ size }) => <Feather name="rotate-ccw" size={size} color={colors.textSecondary} />}
+            style={[styles.resetButton, { borderColor: colors.cardBorder }]}
+          >
+            {t('Detect again')}
+          </Button>
+        </View>
+
+        {operations.map((operation) => {
+          const capability = capabilities[operation];
+          return (
+            <View key={operation} style={[styles.operationRow, { borderColor: colors.cardBorder }]}>
+              <Text style={[styles.operationLabel, { color: colors.textMuted }]}>{t(operationLabels[operation])}</Text>
+              <Text
+                style={[styles.variantText, { color: capability ? colors.neonGreen : colors.textSecondary }]}
+              >
+                {capability ? capability.variant : t('Not detected yet')}
+              </Text>
+              {capability && (
+                <Text style={[styles.metaText, { color: colors.textMuted }]}>
+                  {t('Detected at {date}', { date: formatUsDateTime(capability.resolvedAt) })}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    minWidth: 180,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  resetButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+  operationRow: {
+    borderTopWidth: 1,
+    paddingTop: 10,
+    gap: 2,
+  },
+  operationLabel: {
+    fontSize: 10,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  variantText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  metaText: {
+    fontSize: 11,
+  },
+});
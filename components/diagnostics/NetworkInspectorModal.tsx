@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Chip, IconButton, Searchbar, TouchableRipple } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useNetworkLog } from '../../hooks/diagnostics/useNetworkLog';
+import { NetworkLogEntry } from '../../services/networkLog';
+import {
+  NETWORK_LOG_FILTERS,
+  NetworkLogFilter,
+  describeNetworkLogEntry,
+  isErrorEntry,
+} from '../../utils/diagnostics/networkLogFilters';
+import { formatUsDateTime } from '../../utils/datetime';
+
+interface NetworkInspectorModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatJson = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+
+export function NetworkInspectorModal({ visible, onClose }: NetworkInspectorModalProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const [filter, setFilter] = useState<NetworkLogFilter>('all');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { entries, totalCount, clear, exportEntries } = useNetworkLog({ filter, search });
+
+  const renderBlock = (label: string, value: unknown) =>
+    value === undefined || (value && typeof value === 'object' && Object.keys(value).length === 0) ? null : (
+      <View style={styles.detailBlock}>
+        <Text style={[styles.detailLabel, { color: colors.textMuted }]}>{label}</Text>
+        <Text selectable style={[styles.detailText, { color: colors.textSecondary, backgroundColor: colors.cardBgTo }]}>
+          {formatJson(value)}
+        </Text>
+      </View>
+    );
+
+  const renderDetails = (entry: NetworkLogEntry) =>
+    entry.kind === 'http' ? (
+      <>
+        {renderBlock(t('Base URL'), entry.baseUrl)}
+        {entry.requestId ? renderBlock(t('Request id'), entry.requestId) : null}
+        {entry.error ? renderBlock(t('Error'), entry.error) : null}
+        {renderBlock(t('Request headers'), entry.requestHeaders)}
+        {renderBlock(t('Request body'), entry.requestBody)}
+        {renderBlock(t('Response headers'), entry.responseHeaders)}
+        {renderBlock(t('Response body'), entry.responseBody)}
+      </>
+    ) : (
+      <>
+        {renderBlock(t('Hub'), entry.hub)}
+        {renderBlock(t('Details'), entry.detail)}
+      </>
+    );
+
+  const renderEntry = (entry: NetworkLogEntry) => {
+    const failed = isErrorEntry(entry);
+    const expanded = expandedId === entry.id;
+    const accent = failed ? colors.accentOrange : entry.kind === 'http' ? colors.neonGreen : colors.primaryPurple;
+    return (
+      <View key={entry.id} style={[styles.entry, { borderColor: colors.cardBorder }]}>
+        <TouchableRipple onPress={() => setExpandedId(expanded ? null : entry.id)} rippleColor={`${accent}22`}>
+          <View style={styles.entryHeader}>
+            <Text style={[styles.entryBadge, { color: accent, borderColor: accent }]}>
+              {entry.kind === 'http' ? (entry.status === 0 ? t('ERR') : entry.status) : 'WS'}
+            </Text>
+            <View style={styles.entryText}>
+              <Text style={[styles.entryTitle, { color: colors.textPrimary }]} numberOfLines={expanded ? undefined : 1}>
+                {describeNetworkLogEntry(entry)}
+              </Text>
+              <Text style={[styles.entryMeta, { color: colors.textMuted }]}>
+                {entry.kind === 'http'
+                  ? t('{date} | {duration} ms | attempt {attempt}', {
+                      date: formatUsDateTime(entry.at),
+                      duration: entry.durationMs,
+                      attempt: entry.attempt + 1,
+                    })
+                  : formatUsDateTime(entry.at)}
+              </Text>
+            </View>
+            <Feather name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color={colors.textSecondary} />
+          </View>
+        </TouchableRipple>
+        {expanded && <View style={styles.entryDetails}>{renderDetails(entry)}</View>}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.appBg }]}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={[styles.title, { color: colors.neonGreen }]}>{t('Network log')}</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              {t('{shown} of {total} entries', { shown: entries.length, total: totalCount })}
+            </Text>
+          </View>
+          <IconButton
+            icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+            size={18}
+            onPress={onClose}
+            style={[styles.closeButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+          />
+        </View>
+
+        <Searchbar
+          placeholder={t('Filter by path, status or request id...')}
+          value={search}
+          onChangeText={setSearch}
+          style={[styles.searchBar, { backgroundColor: colors.inputBgFrom }]}
+          iconColor={colors.primaryPurple}
+          inputStyle={{ color: colors.textPrimary }}
+          placeholderTextColor={colors.textMuted}
+        />
+
+        <View style={styles.toolbar}>
+          <View style={styles.filters}>
+            {NETWORK_LOG_FILTERS.map((option) => {
+              const selected = option.key === filter;
+              return (
+                <Chip
+                  key={option.key}
+                  compact
+                  selected={selected}
+                  onPress={() => setFilter(option.key)}
+                  style={{
+                    backgroundColor: selected ? `${colors.primaryPurple}30` : colors.cardBgTo,
+                    borderColor: selected ? colors.primaryPurple : colors.cardBorder,
+                    borderWidth: 1,
+                  }}
+                  textStyle={{ color: selected ? colors.textPrimary : colors.textSecondary }}
+                >
+                  {t(option.label)}
+                </Chip>
+              );
+            })}
+          </View>
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              compact
+              onPress={exportEntries}
+              disabled={entries.length === 0}
+              textColor={colors.neonGreen}
+              icon={({ size }) => <Feather name="download" size={size} color={colors.neonGreen} />}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+            >
+              {t('Export JSON')}
+            </Button>
+            <Button
+              mode="outlined"
+              compact
+              onPress={clear}
+              disabled={totalCount === 0}
+              textColor={colors.textSecondary}
+              icon={({ size }) => <Feather name="trash-2" size={size} color={colors.textSecondary} />}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+            >
+              {t('Clear log')}
+            </Button>
+          </View>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {entries.length === 0 ? (
+            <Text style={[styles.emptyText, { color: colors.textMuted }]}>{t('No requests recorded yet')}</Text>
+          ) : (
+            entries.map(renderEntry)
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 24,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: 0.3,
+  },
+  subtitle: {
+    fontSize: 13,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchBar: {
+    borderRadius: 14,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+  list: {
+    gap: 8,
+    paddingBottom: 32,
+  },
+  emptyText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  entry: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  entryBadge: {
+    minWidth: 40,
+    textAlign: 'center',
+    fontSize: 11,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+  },
+  entryText: {
+    flex: 1,
+    gap: 2,
+  },
+  entryTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  entryMeta: {
+    fontSize: 11,
+  },
+  entryDetails: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  detailBlock: {
+    gap: 4,
+  },
+  detailLabel: {
+    fontSize: 10,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  detailText: {
+    fontSize: 11,
+    lineHeight: 16,
+    fontFamily: 'monospace',
+    borderRadius: 8,
+    padding: 8,
+  },
+});
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card, Switch } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useNetworkLog } from '../../hooks/diagnostics/useNetworkLog';
+import { NetworkInspectorModal } from './NetworkInspectorModal';
+
+export function NetworkLogCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { enabled, totalCount, setEnabled } = useNetworkLog();
+  const [inspectorOpen, setInspectorOpen] = useState(false);
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('Network log')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Records API calls and live update events on this device, with credentials redacted')}
+            </Text>
+          </View>
+          <Switch value={enabled} onValueChange={setEnabled} color={colors.neonGreen} />
+        </View>
+
+        <View style={styles.footerRow}>
+          <Text style={[styles.metaText, { color: colors.textMuted }]}>
+            {enabled ? t('{count} entries recorded', { count: totalCount }) : t('Recording is off')}
+          </Text>
+          <Button
+            mode="outlined"
+            compact
+            onPress={() => setInspectorOpen(true)}
+            textColor={colors.textSecondary}
+            icon={({ size }) => <Feather name="list" size={size} color={colors.textSecondary} />}
+            style={[styles.openButton, { borderColor: colors.cardBorder }]}
+          >
+            {t('Open log')}
+          </Button>
+        </View>
+      </Card.Content>
+      <NetworkInspectorModal visible={inspectorOpen} onClose={() => setInspectorOpen(false)} />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  footerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  metaText: {
+    fontSize: 12,
+  },
+  openButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
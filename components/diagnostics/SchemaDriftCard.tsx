@@ -0,0 +1,165 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useSchemaDrift } from '../../hooks/diagnostics/useSchemaDrift';
+import { SchemaDriftEntry, SchemaEntity } from '../../services/normalizerSchemas';
+import { formatUsDateTime } from '../../utils/datetime';
+
+const entityLabels: Record<SchemaEntity, string> = {
+  customer: 'Customers',
+  product: 'Products',
+  order: 'Orders',
+  orderLineItem: 'Order items',
+  orderHistory: 'Order history',
+  bill: 'Bills',
+  user: 'Users',
+};
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => `${key} (${count})`);
+
+// Only hits on a spelling other than the field's own name point at drift.
+const formatAliasHits = (aliasHits: SchemaDriftEntry['aliasHits']) =>
+  Object.entries(aliasHits).flatMap(([field, hits]) =>
+    Object.entries(hits)
+      .filter(([alias]) => alias !== field)
+      .map(([alias, count]) => `${field} <- ${alias} (${count})`),
+  );
+
+export function SchemaDriftCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { report, reset } = useSchemaDrift();
+
+  const entities = Object.keys(entityLabels) as SchemaEntity[];
+
+  const renderList = (label: string, values: string[], color: string) => (
+    <View style={styles.listBlock}>
+      <Text style={[styles.listLabel, { color: colors.textMuted }]}>{label}</Text>
+      <Text style={[styles.listText, { color: values.length > 0 ? color : colors.textMuted }]}>
+        {values.length > 0 ? values.join(', ') : t('None')}
+      </Text>
+    </View>
+  );
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('Schema drift')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+              {t('Aliases, missing and unknown fields seen while normalizing API payloads')}
+            </Text>
+          </View>
+          <Button
+            mode="outlined"
+            compact
+            onPress={reset}
+            textColor={colors.textSecondary}
+            icon={({ size }) => <Feather name="trash-2" size={size} color={colors.textSecondary} />}
+            style={[styles.resetButton, { borderColor: colors.cardBorder }]}
+          >
+            {t('Clear report')}
+          </Button>
+        </View>
+
+        {entities.map((entity) => {
+          const entry = report[entity];
+          return (
+            <View key={entity} style={[styles.entityRow, { borderColor: colors.cardBorder }]}>
+              <View style={styles.entityHeader}>
+                <Text style={[styles.entityLabel, { color: colors.textPrimary }]}>{t(entityLabels[entity])}</Text>
+                <Text style={[styles.metaText, { color: colors.textMuted }]}>
+                  {entry
+                    ? t('{count} payloads | last {date}', {
+                        count: entry.samples,
+                        date: formatUsDateTime(entry.lastSeenAt),
+                      })
+                    : t('No payloads normalized yet')}
+                </Text>
+              </View>
+              {entry && (
+                <>
+                  {renderList(t('Missing fields'), formatCounts(entry.missing), colors.accentOrange)}
+                  {renderList(t('Unknown fields'), formatCounts(entry.unknown), colors.primaryPurple)}
+                  {renderList(t('Alias hits'), formatAliasHits(entry.aliasHits), colors.neonGreen)}
+                </>
+              )}
+            </View>
+          );
+        })}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    minWidth: 180,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  resetButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+  entityRow: {
+    borderTopWidth: 1,
+    paddingTop: 10,
+    gap: 6,
+  },
+  entityHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  entityLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  listBlock: {
+    gap: 2,
+  },
+  listLabel: {
+    fontSize: 10,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  listText: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  metaText: {
+    fontSize: 11,
+  },
+});
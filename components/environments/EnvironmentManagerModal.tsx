@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, HelperText, IconButton, TextInput as PaperTextInput } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useApiEnvironments } from '../../hooks/environments/useApiEnvironments';
+import { ApiEnvironment, DEFAULT_API_ENVIRONMENT_ID } from '../../services/apiEnvironments';
+import {
+  EMPTY_ENVIRONMENT_FORM,
+  EnvironmentFormValues,
+  toEnvironmentDraft,
+  toEnvironmentForm,
+  validateEnvironmentForm,
+} from '../../utils/environments/validation';
+
+interface EnvironmentManagerModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type EditorState = { id?: string; values: EnvironmentFormValues } | null;
+
+const FORM_FIELDS: Array<{ key: keyof EnvironmentFormValues; label: string; placeholder: string }> = [
+  { key: 'name', label: 'Name', placeholder: 'Staging' },
+  { key: 'baseUrl', label: 'Base URL', placeholder: 'https://erp.example.com/api/v1' },
+  { key: 'authPath', label: 'Login path', placeholder: '/User/LogInto' },
+  { key: 'refreshAuthPath', label: 'Refresh path', placeholder: '/User/RefreshToken' },
+  { key: 'ordersHubUrl', label: 'Orders hub URL', placeholder: 'https://erp.example.com/orderHub' },
+  { key: 'timeoutSeconds', label: 'Timeout (seconds)', placeholder: '15' },
+];
+
+export function EnvironmentManagerModal({ visible, onClose }: EnvironmentManagerModalProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { environments, active, save, remove, activate } = useApiEnvironments();
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [attempted, setAttempted] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setEditor(null);
+      setAttempted(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const errors = editor && attempted ? validateEnvironmentForm(editor.values) : {};
+
+  const openEditor = (environment?: ApiEnvironment) => {
+    setAttempted(false);
+    setError(null);
+    setEditor(
+      environment
+        ? { id: environment.id, values: toEnvironmentForm(environment) }
+        : { values: EMPTY_ENVIRONMENT_FORM },
+    );
+  };
+
+  const handleFieldChange = (key: keyof EnvironmentFormValues, value: string) => {
+    setEditor((current) => (current ? { ...current, values: { ...current.values, [key]: value } } : current));
+  };
+
+  const handleSave = async () => {
+    if (!editor) {
+      return;
+    }
+    setAttempted(true);
+    if (Object.keys(validateEnvironmentForm(editor.values)).length > 0) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await save(toEnvironmentDraft(editor.values, editor.id));
+      setEditor(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : t('Unable to save environment'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = async (environment: ApiEnvironment) => {
+    setBusy(true);
+    try {
+      await activate(environment.id);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderEnvironment = (environment: ApiEnvironment) => {
+    const isActive = environment.id === active.id;
+    const isDefault = environment.id === DEFAULT_API_ENVIRONMENT_ID;
+    return (
+      <View
+        key={environment.id}
+        style={[
+          styles.environmentRow,
+          { borderColor: isActive ? colors.neonGreen : colors.cardBorder, backgroundColor: colors.cardBgTo },
+        ]}
+      >
+        <View style={styles.environmentText}>
+          <View style={styles.environmentTitleRow}>
+            <Text style={[styles.environmentName, { color: colors.textPrimary }]}>
+              {isDefault ? t('Default') : environment.name}
+            </Text>
+            {isActive && (
+              <Text style={[styles.activeBadge, { color: colors.neonGreen, borderColor: colors.neonGreen }]}>
+                {t('Active')}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.environmentMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+            {environment.baseUrl}
+          </Text>
+        </View>
+        <View style={styles.environmentActions}>
+          {!isActive && (
+            <Button
+              mode="outlined"
+              compact
+              disabled={busy}
+              onPress={() => handleActivate(environment)}
+              textColor={colors.neonGreen}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+            >
+              {t('Use')}
+            </Button>
+          )}
+          {!isDefault && (
+            <>
+              <IconButton
+                icon={() => <Feather name="edit-2" size={16} color={colors.textSecondary} />}
+                size={16}
+                disabled={busy}
+                onPress={() => openEditor(environment)}
+                accessibilityLabel={t('Edit environment')}
+              />
+              <IconButton
+                icon={() => <Feather name="trash-2" size={16} color={colors.accentOrange} />}
+                size={16}
+                disabled={busy}
+                onPress={() => remove(environment.id)}
+                accessibilityLabel={t('Remove environment')}
+              />
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View style={[styles.modalCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+          <View style={styles.modalHeader}>
+            <View style={styles.headerText}>
+              <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>{t('API environments')}</Text>
+              <Text style={[styles.modalSubtitle, { color: colors.textSecondary }]}>
+                {t('Each environment keeps its own session')}
+              </Text>
+            </View>
+            <IconButton
+              icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+              size={18}
+              onPress={onClose}
+              style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+            />
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+            {environments.map(renderEnvironment)}
+
+            {editor ? (
+              <View style={[styles.editor, { borderColor: colors.cardBorder }]}>
+                <Text style={[styles.editorTitle, { color: colors.textPrimary }]}>
+                  {editor.id ? t('Edit environment') : t('New environment')}
+                </Text>
+                {FORM_FIELDS.map((field) => (
+                  <View key={field.key}>
+                    <PaperTextInput
+                      mode="outlined"
+                      dense
+                      label={t(field.label)}
+                      style={{ backgroundColor: colors.inputBgFrom }}
+                      textColor={colors.textPrimary}
+                      outlineColor={colors.cardBorder}
+                      activeOutlineColor={colors.primaryPurple}
+                      value={editor.values[field.key]}
+                      onChangeText={(value) => handleFieldChange(field.key, value)}
+                      placeholder={field.placeholder}
+                      placeholderTextColor={colors.textMuted}
+                      autoCapitalize={field.key === 'name' ? 'words' : 'none'}
+                      autoCorrect={false}
+                      keyboardType={field.key === 'timeoutSeconds' ? 'numeric' : 'default'}
+                    />
+                    {errors[field.key] && (
+                      <HelperText type="error" visible style={{ color: colors.accentOrange }}>
+                        {t(errors[field.key] as string)}
+                      </HelperText>
+                    )}
+                  </View>
+                ))}
+                {error && <Text style={[styles.errorText, { color: colors.accentOrange }]}>{error}</Text>}
+                <View style={styles.editorActions}>
+                  <Button
+                    mode="outlined"
+                    onPress={() => setEditor(null)}
+                    disabled={busy}
+                    textColor={colors.textSecondary}
+                    style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+                  >
+                    {t('Cancel')}
+                  </Button>
+                  <Button
+                    mode="contained"
+                    onPress={handleSave}
+                    disabled={busy}
+                    buttonColor={colors.primaryPurple}
+                    textColor={colors.appBg}
+                    style={styles.pillButton}
+                  >
+                    {t('Save')}
+                  </Button>
+                </View>
+              </View>
+            ) : (
+              <Button
+                mode="outlined"
+                onPress={() => openEditor()}
+                textColor={colors.neonGreen}
+                icon={({ size }) => <Feather name="plus" size={size} color={colors.neonGreen} />}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              >
+                {t('Add environment')}
+              </Button>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(8, 10, 18, 0.78)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    width: '100%',
+    maxWidth: 560,
+    maxHeight: '90%',
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 24,
+    gap: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  modalSubtitle: {
+    fontSize: 12,
+  },
+  modalCloseButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalBody: {
+    gap: 10,
+  },
+  environmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 8,
+    paddingLeft: 14,
+    paddingRight: 6,
+    gap: 8,
+  },
+  environmentText: {
+    flex: 1,
+    gap: 2,
+  },
+  environmentTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  environmentName: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  activeBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 1,
+  },
+  environmentMeta: {
+    fontSize: 12,
+  },
+  environmentActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  editor: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 6,
+  },
+  editorTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 12,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { TouchableRipple } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useApiEnvironments } from '../../hooks/environments/useApiEnvironments';
+import { DEFAULT_API_ENVIRONMENT_ID } from '../../services/apiEnvironments';
+import { EnvironmentManagerModal } from './EnvironmentManagerModal';
+
+interface EnvironmentSwitcherProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+export function EnvironmentSwitcher({ style }: EnvironmentSwitcherProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { active } = useApiEnvironments();
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  return (
+    <>
+      <TouchableRipple
+        onPress={() => setManagerOpen(true)}
+        borderless
+        accessibilityRole="button"
+        accessibilityLabel={t('Switch API environment')}
+        style={[styles.trigger, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }, style]}
+      >
+        <View style={styles.triggerContent}>
+          <Feather name="server" size={14} color={colors.neonGreen} />
+          <View style={styles.triggerText}>
+            <Text style={[styles.triggerLabel, { color: colors.textPrimary }]} numberOfLines={1}>
+              {t('API: {name}', { name: active.id === DEFAULT_API_ENVIRONMENT_ID ? t('Default') : active.name })}
+            </Text>
+            <Text style={[styles.triggerMeta, { color: colors.textMuted }]} numberOfLines={1}>
+              {active.baseUrl}
+            </Text>
+          </View>
+          <Feather name="chevron-down" size={14} color={colors.textSecondary} />
+        </View>
+      </TouchableRipple>
+      <EnvironmentManagerModal visible={managerOpen} onClose={() => setManagerOpen(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  triggerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  triggerText: {
+    flex: 1,
+    gap: 1,
+  },
+  triggerLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.4,
+  },
+  triggerMeta: {
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,198 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { OfflineMutation } from '../../services/offlineQueue';
+import { formatUsDateTime } from '../../utils/datetime';
+
+const OFFLINE_MUTATION_LABELS: Record<OfflineMutation['kind'], string> = {
+  createOrder: 'Create order',
+  updateOrder: 'Update order',
+  deleteOrder: 'Delete order',
+  createCustomer: 'Create customer',
+  updateCustomer: 'Update customer',
+  deactivateCustomer: 'Deactivate customer',
+  createPayableBill: 'Create payable bill',
+  updatePayableBill: 'Update payable bill',
+  deletePayableBill: 'Delete payable bill',
+};
+
+interface PendingSyncPanelProps {
+  entries: OfflineMutation[];
+  replaying: boolean;
+  describe?: (entry: OfflineMutation) => string | null;
+  onSyncNow: () => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+export function PendingSyncPanel({
+  entries,
+  replaying,
+  describe,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}: PendingSyncPanelProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const statusLabel = (entry: OfflineMutation) => {
+    switch (entry.status) {
+      case 'syncing':
+        return t('Syncing...');
+      case 'conflict':
+        return t('Conflict');
+      case 'failed':
+        return t('Sync failed');
+      default:
+        return t('Pending sync');
+    }
+  };
+
+  const statusColor = (entry: OfflineMutation) =>
+    entry.status === 'conflict' || entry.status === 'failed' ? colors.accentOrange : colors.primaryPurple;
+
+  return (
+    <View
+      style={[
+        styles.panel,
+        { backgroundColor: `${colors.primaryPurple}12`, borderColor: `${colors.primaryPurple}66` },
+      ]}
+    >
+      <View style={styles.panelHeader}>
+        <View style={styles.panelTitleRow}>
+          <Feather name="cloud-off" size={16} color={colors.primaryPurple} />
+          <Text style={[styles.panelTitle, { color: colors.textPrimary }]}>
+            {t('{count} change(s) waiting to sync', { count: entries.length })}
+          </Text>
+        </View>
+        <Button
+          mode="outlined"
+          compact
+          onPress={onSyncNow}
+          disabled={replaying}
+          textColor={colors.textSecondary}
+          style={[styles.actionButton, { borderColor: colors.cardBorder }]}
+          icon={({ size }) => <Feather name="refresh-cw" size={size} color={colors.textSecondary} />}
+        >
+          {replaying ? t('Syncing...') : t('Sync now')}
+        </Button>
+      </View>
+
+      {entries.map((entry) => {
+        const detail = describe?.(entry);
+        const needsAttention = entry.status === 'conflict' || entry.status === 'failed';
+        return (
+          <View key={entry.id} style={[styles.entryRow, { borderColor: colors.cardBorder }]}>
+            <View style={styles.entryInfo}>
+              <Text style={[styles.entryTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+                {t(OFFLINE_MUTATION_LABELS[entry.kind])}
+                {detail ? ` · ${detail}` : ''}
+              </Text>
+              <Text style={[styles.entryMeta, { color: colors.textMuted }]} numberOfLines={2}>
+                {formatUsDateTime(entry.createdAt)}
+                {needsAttention && entry.lastError ? ` · ${entry.lastError}` : ''}
+              </Text>
+            </View>
+            <View
+              style={[
+                styles.statusPill,
+                { borderColor: statusColor(entry), backgroundColor: `${statusColor(entry)}20` },
+              ]}
+            >
+              <Text style={[styles.statusText, { color: statusColor(entry) }]}>{statusLabel(entry)}</Text>
+            </View>
+            {needsAttention && (
+              <View style={styles.entryActions}>
+                <Button
+                  mode="text"
+                  compact
+                  onPress={() => onRetry(entry.id)}
+                  disabled={replaying}
+                  textColor={colors.primaryPurple}
+                >
+                  {t('Retry')}
+                </Button>
+                <Button mode="text" compact onPress={() => onDiscard(entry.id)} textColor={colors.accentOrange}>
+                  {t('Discard')}
+                </Button>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 14,
+    gap: 10,
+  },
+  panelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  panelTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexShrink: 1,
+  },
+  panelTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  actionButton: {
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    borderTopWidth: 1,
+    paddingTop: 10,
+  },
+  entryInfo: {
+    flex: 1,
+    minWidth: 160,
+    gap: 2,
+  },
+  entryTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  entryMeta: {
+    fontSize: 11,
+  },
+  statusPill: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+});
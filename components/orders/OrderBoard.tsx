@@ -0,0 +1,416 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Animated, PanResponder, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Chip, IconButton, TouchableRipple } from '../ui/Paper';
+import { CustomerColors } from '../customers/types';
+import { Order as OrderModel } from '../../services/erpService';
+import { formatCurrency } from '../../utils/currency';
+import { resolveOrderTotal } from '../../utils/orders/helpers';
+import { groupOrdersByStatus, resolveDropColumnIndex } from '../../utils/orders/board';
+import { OrderStatus, getNextOrderStatuses } from '../../utils/orders/statusMachine';
+import { useI18n } from '../../contexts/I18nContext';
+
+const COLUMN_WIDTH = 260;
+const COLUMN_GAP = 12;
+
+interface OrderBoardProps {
+  orders: OrderModel[];
+  statuses: readonly OrderStatus[];
+  colors: CustomerColors;
+  currency?: string | null;
+  // Drag and drop needs a pointer; touch layouts move cards from the card menu instead.
+  draggable: boolean;
+  canMove: boolean;
+  movingOrderId: OrderModel['id'] | null;
+  resolveStatus: (order: OrderModel) => OrderStatus;
+  resolveCustomerName: (order: OrderModel) => string;
+  getStatusColor: (status: OrderStatus) => string;
+  formatDateTime: (value: string) => string;
+  onMove: (order: OrderModel, status: OrderStatus) => void;
+  onOpen: (order: OrderModel) => void;
+}
+
+interface OrderBoardCardProps {
+  order: OrderModel;
+  status: OrderStatus;
+  columnIndex: number;
+  columnCount: number;
+  statuses: readonly OrderStatus[];
+  colors: CustomerColors;
+  currency?: string | null;
+  draggable: boolean;
+  canMove: boolean;
+  moving: boolean;
+  menuOpen: boolean;
+  customerName: string;
+  formatDateTime: (value: string) => string;
+  onToggleMenu: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onMove: (status: OrderStatus) => void;
+  onOpen: () => void;
+}
+
+function OrderBoardCard({
+  order,
+  status,
+  columnIndex,
+  columnCount,
+  statuses,
+  colors,
+  currency,
+  draggable,
+  canMove,
+  moving,
+  menuOpen,
+  customerName,
+  formatDateTime,
+  onToggleMenu,
+  onDragStart,
+  onDragEnd,
+  onMove,
+  onOpen,
+}: OrderBoardCardProps) {
+  const { t } = useI18n();
+  const pan = useRef(new Animated.ValueXY()).current;
+  const [dragging, setDragging] = useState(false);
+  const dropRef = useRef({ onDragStart, onDragEnd, onMove, columnIndex, columnCount, statuses });
+  dropRef.current = { onDragStart, onDragEnd, onMove, columnIndex, columnCount, statuses };
+  const dragEnabled = draggable && canMove && !moving;
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, gesture) => dragEnabled && Math.abs(gesture.dx) > 8,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => {
+          setDragging(true);
+          dropRef.current.onDragStart();
+        },
+        onPanResponderMove: Animated.event([null, { dx: pan.x, dy: pan.y }], { useNativeDriver: false }),
+        onPanResponderRelease: (_, gesture) => {
+          const current = dropRef.current;
+          const targetIndex = resolveDropColumnIndex(
+            current.columnIndex,
+            gesture.dx,
+            COLUMN_WIDTH + COLUMN_GAP,
+            current.columnCount,
+          );
+          setDragging(false);
+          current.onDragEnd();
+          Animated.spring(pan, { toValue: { x: 0, y: 0 }, useNativeDriver: false }).start();
+          if (targetIndex !== current.columnIndex) {
+            current.onMove(current.statuses[targetIndex]);
+          }
+        },
+        onPanResponderTerminate: () => {
+          setDragging(false);
+          dropRef.current.onDragEnd();
+          Animated.spring(pan, { toValue: { x: 0, y: 0 }, useNativeDriver: false }).start();
+        },
+      }),
+    [dragEnabled, pan],
+  );
+
+  const nextStatuses = getNextOrderStatuses(status);
+  const scheduledPaymentDate = order.paymentScheduledDate ?? null;
+
+  return (
+    <Animated.View
+      {...panResponder.panHandlers}
+      style={[
+        styles.card,
+        { backgroundColor: colors.cardBgFrom, borderColor: dragging ? colors.primaryPurple : colors.cardBorder },
+        dragging && styles.cardDragging,
+        { transform: pan.getTranslateTransform() },
+      ]}
+      testID={`order-board-card-${order.id}`}
+    >
+      <TouchableRipple onPress={onOpen} disabled={dragging} style={styles.cardBody} borderless>
+        <View style={styles.cardContent}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardId, { color: colors.neonGreen }]}>#{order.id ?? '-'}</Text>
+            {moving ? (
+              <ActivityIndicator size="small" color={colors.primaryPurple} />
+            ) : (
+              canMove &&
+              nextStatuses.length > 0 && (
+                <IconButton
+                  icon={() => (
+                    <Feather name={menuOpen ? 'x' : 'move'} size={14} color={colors.textSecondary} />
+                  )}
+                  size={14}
+                  onPress={onToggleMenu}
+                  style={[styles.moveButton, { borderColor: colors.cardBorder }]}
+                  accessibilityLabel={t('Move order')}
+                  testID={`order-board-move-${order.id}`}
+                />
+              )
+            )}
+          </View>
+          <Text style={[styles.cardCustomer, { color: colors.textPrimary }]} numberOfLines={1}>
+            {customerName}
+          </Text>
+          <Text style={[styles.cardTotal, { color: colors.textPrimary }]}>
+            {formatCurrency(resolveOrderTotal(order), currency)}
+          </Text>
+          <View style={styles.cardMetaRow}>
+            <Feather name="clock" size={12} color={colors.primaryPurple} />
+            <Text style={[styles.cardMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+              {scheduledPaymentDate
+                ? t('Pay on {date}', { date: formatDateTime(scheduledPaymentDate) })
+                : t('Payment not scheduled')}
+            </Text>
+          </View>
+        </View>
+      </TouchableRipple>
+      {menuOpen && (
+        <View style={[styles.moveMenu, { borderTopColor: colors.cardBorder }]}>
+          <Text style={[styles.moveMenuLabel, { color: colors.textMuted }]}>{t('Move to')}</Text>
+          <View style={styles.moveMenuOptions}>
+            {nextStatuses.map((nextStatus) => (
+              <Chip
+                key={nextStatus}
+                compact
+                onPress={() => onMove(nextStatus)}
+                style={[styles.moveOption, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+                textStyle={[styles.moveOptionText, { color: colors.textSecondary }]}
+                testID={`order-board-move-${order.id}-${nextStatus}`}
+              >
+                {t(nextStatus)}
+              </Chip>
+            ))}
+          </View>
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+export function OrderBoard({
+  orders,
+  statuses,
+  colors,
+  currency,
+  draggable,
+  canMove,
+  movingOrderId,
+  resolveStatus,
+  resolveCustomerName,
+  getStatusColor,
+  formatDateTime,
+  onMove,
+  onOpen,
+}: OrderBoardProps) {
+  const { t } = useI18n();
+  const [menuOrderId, setMenuOrderId] = useState<string | null>(null);
+  const [draggingFrom, setDraggingFrom] = useState<OrderStatus | null>(null);
+  const columns = useMemo(
+    () => groupOrdersByStatus(orders, statuses, resolveStatus),
+    [orders, statuses, resolveStatus],
+  );
+  const dropTargets = draggingFrom ? getNextOrderStatuses(draggingFrom) : [];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator
+      scrollEnabled={draggingFrom === null}
+      contentContainerStyle={styles.board}
+      testID="order-board"
+    >
+      {statuses.map((status, columnIndex) => {
+        const columnOrders = columns[status] ?? [];
+        const statusColor = getStatusColor(status);
+        const isDropTarget = dropTargets.includes(status);
+
+        return (
+          <View
+            key={status}
+            style={[
+              styles.column,
+              {
+                backgroundColor: isDropTarget ? `${colors.primaryPurple}14` : `${colors.textMuted}0A`,
+                borderColor: isDropTarget ? colors.primaryPurple : colors.cardBorder,
+              },
+            ]}
+            testID={`order-board-column-${status}`}
+          >
+            <View style={styles.columnHeader}>
+              <View style={[styles.columnDot, { backgroundColor: statusColor }]} />
+              <Text style={[styles.columnTitle, { color: colors.textPrimary }]}>{t(status)}</Text>
+              <View style={[styles.columnCount, { backgroundColor: `${statusColor}18` }]}>
+                <Text style={[styles.columnCountText, { color: statusColor }]}>{columnOrders.length}</Text>
+              </View>
+            </View>
+            <View style={styles.columnCards}>
+              {columnOrders.length === 0 ? (
+                <Text style={[styles.columnEmpty, { color: colors.textMuted }]}>{t('No orders')}</Text>
+              ) : (
+                columnOrders.map((order) => {
+                  const key = String(order.id);
+                  return (
+                    <OrderBoardCard
+                      key={key}
+                      order={order}
+                      status={status}
+                      columnIndex={columnIndex}
+                      columnCount={statuses.length}
+                      statuses={statuses}
+                      colors={colors}
+                      currency={currency}
+                      draggable={draggable}
+                      canMove={canMove}
+                      moving={movingOrderId !== null && String(movingOrderId) === key}
+                      menuOpen={menuOrderId === key}
+                      customerName={resolveCustomerName(order)}
+                      formatDateTime={formatDateTime}
+                      onToggleMenu={() => setMenuOrderId((current) => (current === key ? null : key))}
+                      onDragStart={() => {
+                        setMenuOrderId(null);
+                        setDraggingFrom(status);
+                      }}
+                      onDragEnd={() => setDraggingFrom(null)}
+                      onMove={(nextStatus) => {
+                        setMenuOrderId(null);
+                        onMove(order, nextStatus);
+                      }}
+                      onOpen={() => onOpen(order)}
+                    />
+                  );
+                })
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  board: {
+    gap: COLUMN_GAP,
+    paddingBottom: 12,
+    alignItems: 'flex-start',
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 10,
+    gap: 10,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+  },
+  columnDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  columnTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '700',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+  },
+  columnCount: {
+    minWidth: 24,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  columnCountText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  columnCards: {
+    gap: 8,
+  },
+  columnEmpty: {
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  cardDragging: {
+    zIndex: 10,
+    opacity: 0.92,
+  },
+  cardBody: {
+    borderRadius: 12,
+  },
+  cardContent: {
+    padding: 12,
+    gap: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 28,
+  },
+  cardId: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  cardCustomer: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  cardTotal: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  cardMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  cardMeta: {
+    flex: 1,
+    fontSize: 12,
+  },
+  moveButton: {
+    margin: 0,
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  moveMenu: {
+    borderTopWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  moveMenuLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+  },
+  moveMenuOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  moveOption: {
+    borderWidth: 1,
+    borderRadius: 10,
+  },
+  moveOptionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
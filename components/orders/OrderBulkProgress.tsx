@@ -0,0 +1,126 @@
+import React from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { CustomerColors } from '../customers/types';
+import { OrderBulkItem, summarizeOrderBulkItems } from '../../utils/orders/bulk';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface OrderBulkProgressProps {
+  items: OrderBulkItem[];
+  colors: CustomerColors;
+}
+
+export function OrderBulkProgress({ items, colors }: OrderBulkProgressProps) {
+  const { t } = useI18n();
+  const summary = summarizeOrderBulkItems(items);
+
+  const renderStateIcon = (item: OrderBulkItem) => {
+    switch (item.state) {
+      case 'running':
+        return <ActivityIndicator size="small" color={colors.primaryPurple} />;
+      case 'success':
+        return <Feather name="check-circle" size={16} color={colors.neonGreen} />;
+      case 'failed':
+        return <Feather name="x-circle" size={16} color={colors.accentOrange} />;
+      default:
+        return <Feather name="clock" size={16} color={colors.textMuted} />;
+    }
+  };
+
+  return (
+    <View style={styles.progressSection}>
+      <View style={styles.progressHeader}>
+        <Text style={[styles.progressSummary, { color: colors.textPrimary }]}>
+          {t('{done} of {total} processed', { done: summary.done, total: summary.total })}
+        </Text>
+        <Text style={[styles.progressMeta, { color: colors.textMuted }]}>
+          {t('{succeeded} succeeded · {failed} failed', { succeeded: summary.succeeded, failed: summary.failed })}
+        </Text>
+      </View>
+      <View style={[styles.progressTrack, { backgroundColor: `${colors.textMuted}1A` }]}>
+        <View
+          style={[
+            styles.progressFill,
+            {
+              backgroundColor: summary.failed > 0 ? colors.accentOrange : colors.neonGreen,
+              width: `${summary.total > 0 ? Math.round((summary.done / summary.total) * 100) : 0}%`,
+            },
+          ]}
+        />
+      </View>
+      <ScrollView style={styles.progressList} contentContainerStyle={styles.progressListContent}>
+        {items.map((item) => (
+          <View
+            key={String(item.id)}
+            style={[styles.progressRow, { borderColor: colors.cardBorder }]}
+            testID={`order-bulk-item-${item.id}`}
+          >
+            <View style={styles.progressIcon}>{renderStateIcon(item)}</View>
+            <View style={styles.progressBody}>
+              <Text style={[styles.progressOrder, { color: colors.textPrimary }]}>#{item.id}</Text>
+              {item.state === 'failed' && !!item.error && (
+                <Text style={[styles.progressError, { color: colors.accentOrange }]}>{item.error}</Text>
+              )}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  progressSection: {
+    gap: 10,
+  },
+  progressHeader: {
+    gap: 2,
+  },
+  progressSummary: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  progressMeta: {
+    fontSize: 12,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  progressList: {
+    maxHeight: 280,
+  },
+  progressListContent: {
+    gap: 6,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  progressIcon: {
+    width: 20,
+    alignItems: 'center',
+  },
+  progressBody: {
+    flex: 1,
+    gap: 2,
+  },
+  progressOrder: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  progressError: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { CustomerColors } from '../customers/types';
+import { OrderHistoryEntry, OrderHistoryKind, OrderHistorySource } from '../../services/erpService';
+import { formatCurrency } from '../../utils/currency';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface OrderHistoryPanelProps {
+  entries: OrderHistoryEntry[];
+  loading: boolean;
+  fromLocalLog: boolean;
+  currency?: string | null;
+  colors: CustomerColors;
+  formatDateTime: (value: string) => string;
+}
+
+const KIND_ICONS: Record<OrderHistoryKind, React.ComponentProps<typeof Feather>['name']> = {
+  status: 'flag',
+  items: 'package',
+  payment: 'dollar-sign',
+};
+
+const SOURCE_LABELS: Record<OrderHistorySource, string> = {
+  manual: 'Manual',
+  signalr: 'SignalR',
+  automation: 'Automation',
+};
+
+export function OrderHistoryPanel({
+  entries,
+  loading,
+  fromLocalLog,
+  currency,
+  colors,
+  formatDateTime,
+}: OrderHistoryPanelProps) {
+  const { t } = useI18n();
+
+  const describeEntry = (entry: OrderHistoryEntry) => {
+    switch (entry.kind) {
+      case 'items':
+        return typeof entry.items === 'number' && typeof entry.total === 'number'
+          ? t('Line items updated: {items} items, {total}', {
+              items: entry.items,
+              total: formatCurrency(entry.total, currency),
+            })
+          : t('Line items updated');
+      case 'payment':
+        return entry.paymentDate
+          ? t('Payment recorded for {date}', { date: formatDateTime(entry.paymentDate) })
+          : t('Payment recorded');
+      default:
+        if (entry.fromStatus && entry.toStatus) {
+          return t('Status changed from {from} to {to}', { from: t(entry.fromStatus), to: t(entry.toStatus) });
+        }
+        return entry.toStatus ? t('Status changed to {to}', { to: t(entry.toStatus) }) : t('Status changed');
+    }
+  };
+
+  return (
+    <View style={styles.historySection}>
+      <View style={styles.historyHeader}>
+        <Text style={[styles.historyTitle, { color: colors.textSecondary }]}>{t('History')}</Text>
+        {fromLocalLog && (
+          <Text style={[styles.historyMeta, { color: colors.textMuted }]}>{t('Recorded on this device')}</Text>
+        )}
+      </View>
+      {loading && entries.length === 0 ? (
+        <Text style={[styles.historyEmpty, { color: colors.textMuted }]}>{t('Loading history...')}</Text>
+      ) : entries.length === 0 ? (
+        <Text style={[styles.historyEmpty, { color: colors.textMuted }]}>{t('No history yet.')}</Text>
+      ) : (
+        <View style={styles.timeline}>
+          {entries.map((entry, index) => (
+            <View key={entry.id} style={styles.timelineRow} testID={`order-history-${entry.id}`}>
+              <View style={styles.timelineRail}>
+                <View
+                  style={[
+                    styles.timelineDot,
+                    { borderColor: colors.primaryPurple, backgroundColor: `${colors.primaryPurple}1A` },
+                  ]}
+                >
+                  <Feather name={KIND_ICONS[entry.kind]} size={12} color={colors.primaryPurple} />
+                </View>
+                {index < entries.length - 1 && (
+                  <View style={[styles.timelineLine, { backgroundColor: colors.cardBorder }]} />
+                )}
+              </View>
+              <View style={styles.timelineBody}>
+                <Text style={[styles.timelineTitle, { color: colors.textPrimary }]}>{describeEntry(entry)}</Text>
+                <Text style={[styles.timelineMeta, { color: colors.textMuted }]}>
+                  {[formatDateTime(entry.at), entry.user || t('Unknown user'), t(SOURCE_LABELS[entry.source])].join(
+                    ' · ',
+                  )}
+                </Text>
+                {!!entry.note && (
+                  <Text style={[styles.timelineNote, { color: colors.textSecondary }]}>{entry.note}</Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  historySection: {
+    gap: 8,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  historyTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  historyMeta: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  historyEmpty: {
+    paddingVertical: 8,
+    fontSize: 12,
+  },
+  timeline: {
+    marginTop: 4,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  timelineRail: {
+    alignItems: 'center',
+    width: 24,
+  },
+  timelineDot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    marginVertical: 2,
+  },
+  timelineBody: {
+    flex: 1,
+    gap: 2,
+    paddingBottom: 14,
+  },
+  timelineTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  timelineMeta: {
+    fontSize: 11,
+  },
+  timelineNote: {
+    fontSize: 12,
+    lineHeight: 17,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,417 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { HelperText, IconButton, TextInput as PaperTextInput, TouchableRipple } from '../ui/Paper';
+import { CustomerColors } from '../customers/types';
+import { Product as ProductModel } from '../../services/erpService';
+import { formatCurrency } from '../../utils/currency';
+import {
+  getQuantityError,
+  getValueError,
+  parseNumber,
+  resolveProductValue,
+  unitAllowsDecimal,
+} from '../../utils/orders/helpers';
+import {
+  OrderStockLimits,
+  SelectedOrderItem,
+  getStockLimit,
+  summarizeLineItems,
+} from '../../utils/orders/lineItems';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface OrderLineItemsEditorProps {
+  items: SelectedOrderItem[];
+  products: ProductModel[];
+  productSearch: string;
+  dropdownOpen: boolean;
+  disabled: boolean;
+  currency?: string | null;
+  colors: CustomerColors;
+  stockLimits?: OrderStockLimits;
+  testIDPrefix?: string;
+  onProductSearchChange: (value: string) => void;
+  onToggleDropdown: () => void;
+  onAdd: (product: ProductModel) => void;
+  onChange: (productId: string | number, field: 'quantity' | 'value', value: string) => void;
+  onRemove: (productId: string | number) => void;
+}
+
+export function OrderLineItemsEditor({
+  items,
+  products,
+  productSearch,
+  dropdownOpen,
+  disabled,
+  currency,
+  colors,
+  stockLimits,
+  testIDPrefix,
+  onProductSearchChange,
+  onToggleDropdown,
+  onAdd,
+  onChange,
+  onRemove,
+}: OrderLineItemsEditorProps) {
+  const { t } = useI18n();
+  const summary = summarizeLineItems(items);
+
+  return (
+    <View style={styles.modalField}>
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('Products')}</Text>
+        <Text style={[styles.sectionMeta, { color: colors.textMuted }]}>
+          {t('{count} selected', { count: items.length })}
+        </Text>
+      </View>
+      <TouchableRipple
+        style={[
+          styles.dropdownHeader,
+          {
+            borderColor: dropdownOpen ? colors.neonGreen : colors.cardBorder,
+            backgroundColor: colors.inputBgFrom,
+          },
+        ]}
+        onPress={onToggleDropdown}
+        disabled={disabled}
+        rippleColor={`${colors.primaryPurple}22`}
+        testID={testIDPrefix ? `${testIDPrefix}-add-products` : undefined}
+      >
+        <View style={styles.dropdownHeaderContentRow}>
+          <View style={styles.dropdownHeaderContent}>
+            <Text style={[styles.dropdownHeaderLabel, { color: colors.textPrimary }]}>{t('Add products')}</Text>
+            <Text style={[styles.dropdownHeaderMeta, { color: colors.textSecondary }]}>
+              {t('Search catalog and add items')}
+            </Text>
+          </View>
+          <Feather name={dropdownOpen ? 'chevron-up' : 'chevron-down'} size={16} color={colors.textSecondary} />
+        </View>
+      </TouchableRipple>
+      {dropdownOpen && (
+        <View style={styles.dropdownPanel}>
+          <PaperTextInput
+            mode="outlined"
+            style={[styles.dropdownSearch, { backgroundColor: colors.inputBgFrom }]}
+            outlineColor={colors.cardBorder}
+            activeOutlineColor={colors.primaryPurple}
+            textColor={colors.textPrimary}
+            value={productSearch}
+            onChangeText={onProductSearchChange}
+            placeholder={t('Search products...')}
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+            editable={!disabled}
+            left={<PaperTextInput.Icon icon={() => <Feather name="search" size={16} color={colors.primaryPurple} />} />}
+          />
+          <ScrollView
+            style={[styles.selectorList, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgFrom }]}
+            nestedScrollEnabled
+          >
+            {products.length === 0 ? (
+              <Text style={[styles.selectorEmpty, { color: colors.textMuted }]}>{t('No products found.')}</Text>
+            ) : (
+              products.map((product) => {
+                const defaultValue = resolveProductValue(product);
+                const isSelected = items.some((item) => item.product.id === product.id);
+                return (
+                  <TouchableRipple
+                    key={product.id}
+                    style={[
+                      styles.selectorItem,
+                      {
+                        borderColor: isSelected ? colors.neonGreen : colors.cardBorder,
+                        backgroundColor: isSelected ? `${colors.neonGreen}12` : 'transparent',
+                      },
+                    ]}
+                    onPress={() => onAdd(product)}
+                    disabled={disabled}
+                    rippleColor={`${colors.neonGreen}1f`}
+                  >
+                    <View style={styles.selectorContent}>
+                      <View style={styles.selectorInfo}>
+                        <Text style={[styles.selectorTitle, { color: colors.textPrimary }]}>
+                          {product.name ?? t('Unnamed product')}
+                        </Text>
+                        <Text style={[styles.selectorSubtitle, { color: colors.textMuted }]}>
+                          {formatCurrency(defaultValue, currency)}
+                        </Text>
+                      </View>
+                      <Text style={[styles.selectorAction, { color: colors.neonGreen }]}>
+                        {isSelected ? t('Added') : t('Add')}
+                      </Text>
+                    </View>
+                  </TouchableRipple>
+                );
+              })
+            )}
+          </ScrollView>
+        </View>
+      )}
+
+      <View style={styles.lineItems}>
+        {items.length === 0 ? (
+          <Text style={[styles.selectorEmpty, { color: colors.textMuted }]}>{t('No products selected.')}</Text>
+        ) : (
+          items.map((item) => {
+            const lineQuantity = parseNumber(item.quantity) ?? 0;
+            const lineValue = parseNumber(item.value) ?? 0;
+            const lineTotal = lineQuantity * lineValue;
+            const stockLimit = getStockLimit(item, stockLimits);
+            const quantityError =
+              getQuantityError(item.quantity, item.product.unitOfMeasure) ??
+              (stockLimit !== null && lineQuantity > stockLimit
+                ? t('Only {count} in stock', { count: stockLimit })
+                : null);
+            const valueError = getValueError(item.value);
+            const allowDecimal = unitAllowsDecimal(item.product.unitOfMeasure);
+            return (
+              <View key={item.product.id} style={[styles.lineItemCard, { borderColor: colors.cardBorder }]}>
+                <View style={styles.lineItemHeader}>
+                  <Text style={[styles.selectorTitle, { color: colors.textPrimary }]}>
+                    {item.product.name ?? t('Product')}
+                  </Text>
+                  <IconButton
+                    icon={() => <Feather name="trash-2" size={14} color={colors.accentOrange} />}
+                    size={18}
+                    onPress={() => onRemove(item.product.id)}
+                    disabled={disabled}
+                  />
+                </View>
+                <View style={styles.lineItemRow}>
+                  <View style={styles.lineItemField}>
+                    <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Qty')}</Text>
+                    <PaperTextInput
+                      mode="outlined"
+                      style={[styles.lineItemInput, { backgroundColor: colors.inputBgFrom }]}
+                      textColor={colors.textPrimary}
+                      outlineColor={colors.cardBorder}
+                      activeOutlineColor={colors.primaryPurple}
+                      value={item.quantity}
+                      onChangeText={(value) => onChange(item.product.id, 'quantity', value)}
+                      keyboardType={allowDecimal ? 'decimal-pad' : 'numeric'}
+                      inputMode={allowDecimal ? 'decimal' : 'numeric'}
+                      error={!!quantityError}
+                      editable={!disabled}
+                      dense
+                    />
+                    <HelperText type="error" visible={!!quantityError} style={styles.lineItemHelper}>
+                      {quantityError ?? ''}
+                    </HelperText>
+                  </View>
+                  <View style={styles.lineItemField}>
+                    <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Value')}</Text>
+                    <PaperTextInput
+                      mode="outlined"
+                      style={[styles.lineItemInput, { backgroundColor: colors.inputBgFrom }]}
+                      textColor={colors.textPrimary}
+                      outlineColor={colors.cardBorder}
+                      activeOutlineColor={colors.primaryPurple}
+                      value={item.value}
+                      onChangeText={(value) => onChange(item.product.id, 'value', value)}
+                      keyboardType="numeric"
+                      inputMode="decimal"
+                      error={!!valueError}
+                      editable={!disabled}
+                      dense
+                    />
+                    <HelperText type="error" visible={!!valueError} style={styles.lineItemHelper}>
+                      {valueError ?? ''}
+                    </HelperText>
+                  </View>
+                  <View style={styles.lineItemField}>
+                    <Text style={[styles.lineItemLabel, { color: colors.textMuted }]}>{t('Total')}</Text>
+                    <Text style={[styles.lineItemTotal, { color: colors.textPrimary }]}>
+                      {formatCurrency(lineTotal, currency)}
+                    </Text>
+                  </View>
+                </View>
+              </View>
+            );
+          })
+        )}
+      </View>
+
+      <View style={[styles.summaryRow, { borderColor: colors.cardBorder }]}>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryLabel, { color: colors.textMuted }]}>{t('Items')}</Text>
+          <Text style={[styles.summaryValue, { color: colors.textPrimary }]}>
+            {summary.hasDecimalItems ? summary.items.toFixed(2) : Math.round(summary.items)}
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryLabel, { color: colors.textMuted }]}>{t('Total')}</Text>
+          <Text style={[styles.summaryValue, { color: colors.textPrimary }]}>
+            {formatCurrency(summary.total, currency)}
+          </Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalField: {
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.6,
+  },
+  sectionMeta: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  dropdownHeader: {
+    borderWidth: 2,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  dropdownHeaderContentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    flex: 1,
+  },
+  dropdownHeaderContent: {
+    flex: 1,
+    gap: 4,
+  },
+  dropdownHeaderLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dropdownHeaderMeta: {
+    fontSize: 11,
+  },
+  dropdownPanel: {
+    marginTop: 10,
+    gap: 10,
+  },
+  dropdownSearch: {
+    borderRadius: 10,
+  },
+  selectorList: {
+    borderWidth: 1.5,
+    borderRadius: 10,
+    marginTop: 8,
+    maxHeight: 160,
+    overflow: 'hidden',
+  },
+  selectorItem: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  selectorInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  selectorContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  selectorTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  selectorSubtitle: {
+    fontSize: 11,
+  },
+  selectorAction: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  selectorEmpty: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 12,
+  },
+  lineItems: {
+    marginTop: 12,
+    gap: 10,
+  },
+  lineItemCard: {
+    borderWidth: 1.5,
+    borderRadius: 10,
+    padding: 10,
+    gap: 8,
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  lineItemRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  lineItemField: {
+    minWidth: 90,
+    gap: 4,
+  },
+  lineItemLabel: {
+    fontSize: 10,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+  },
+  lineItemInput: {
+    borderWidth: 1.5,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    minWidth: 80,
+  },
+  lineItemTotal: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  lineItemHelper: {
+    marginTop: -2,
+    marginBottom: -2,
+    fontSize: 10,
+  },
+  summaryRow: {
+    marginTop: 12,
+    borderWidth: 1.5,
+    borderRadius: 10,
+    padding: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  summaryItem: {
+    gap: 4,
+  },
+  summaryLabel: {
+    fontSize: 10,
+    textTransform: 'uppercase',
+    letterSpacing: 0.4,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
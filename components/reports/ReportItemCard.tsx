@@ -11,9 +11,10 @@ interface ReportItemCardProps {
   report: ReportModel;
   colors: CustomerColors;
   isCompact: boolean;
+  canExport: boolean;
 }
 
-export function ReportItemCard({ report, colors, isCompact }: ReportItemCardProps) {
+export function ReportItemCard({ report, colors, isCompact, canExport }: ReportItemCardProps) {
   const { t } = useI18n();
   return (
     <Card
@@ -61,6 +62,7 @@ export function ReportItemCard({ report, colors, isCompact }: ReportItemCardProp
           <Button
             mode="outlined"
             onPress={() => undefined}
+            disabled={!canExport}
             icon={({ size }) => <Feather name="download" size={size} color={colors.primaryPurple} />}
             textColor={colors.primaryPurple}
             style={[styles.actionButton, styles.actionButtonOutline, { borderColor: colors.cardBorder }]}
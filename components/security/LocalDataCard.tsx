@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, Card } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { SecureStorageMode, secureStorage } from '../../services/secureStorage';
+
+const MODE_DESCRIPTIONS: Record<SecureStorageMode, string> = {
+  encrypted: 'Your session and queued offline edits are encrypted with a key that never leaves this browser.',
+  'secure-backend': "Your session and queued offline edits are kept in the device's secure storage.",
+  plain: 'Secure storage is not available on this device; your session is stored without encryption.',
+};
+
+export function LocalDataCard() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { clearLocalData } = useAuth();
+  const [confirming, setConfirming] = useState(false);
+  const [clearing, setClearing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const mode = secureStorage.getMode();
+
+  const handleClear = async () => {
+    setClearing(true);
+    setErrorMessage(null);
+    try {
+      await clearLocalData();
+    } catch (error) {
+      console.warn('Failed to clear local data', error);
+      setErrorMessage(t('Unable to clear local data.'));
+      setClearing(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <Card mode="outlined" style={[styles.card, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+      <Card.Content style={styles.cardContent}>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>{t('Local data')}</Text>
+            <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>{t(MODE_DESCRIPTIONS[mode])}</Text>
+          </View>
+          <Feather
+            name={mode === 'plain' ? 'unlock' : 'shield'}
+            size={18}
+            color={mode === 'plain' ? colors.accentOrange : colors.neonGreen}
+          />
+        </View>
+
+        {confirming ? (
+          <>
+            <Text style={[styles.warningText, { color: colors.accentOrange }]}>
+              {t('This signs you out of every environment and removes queued offline edits, saved environments and preferences from this device.')}
+            </Text>
+            <View style={styles.actionsRow}>
+              <Button
+                mode="outlined"
+                compact
+                onPress={() => setConfirming(false)}
+                disabled={clearing}
+                textColor={colors.textSecondary}
+                style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              >
+                {t('Cancel')}
+              </Button>
+              <Button
+                mode="outlined"
+                compact
+                onPress={handleClear}
+                loading={clearing}
+                disabled={clearing}
+                textColor={colors.accentOrange}
+                icon={({ size }) => <Feather name="trash-2" size={size} color={colors.accentOrange} />}
+                style={[styles.pillButton, { borderColor: colors.accentOrange }]}
+                testID="local-data-confirm"
+              >
+                {t('Clear everything')}
+              </Button>
+            </View>
+          </>
+        ) : (
+          <View style={styles.actionsRow}>
+            <Button
+              mode="outlined"
+              compact
+              onPress={() => setConfirming(true)}
+              textColor={colors.textSecondary}
+              icon={({ size }) => <Feather name="trash-2" size={size} color={colors.textSecondary} />}
+              style={[styles.pillButton, { borderColor: colors.cardBorder }]}
+              testID="local-data-clear"
+            >
+              {t('Clear all local data')}
+            </Button>
+          </View>
+        )}
+
+        {errorMessage && <Text style={[styles.warningText, { color: colors.accentOrange }]}>{errorMessage}</Text>}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginTop: 14,
+  },
+  cardContent: {
+    padding: 16,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  warningText: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pillButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+  },
+});
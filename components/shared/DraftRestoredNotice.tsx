@@ -0,0 +1,60 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, IconButton } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface DraftRestoredNoticeProps {
+  onDismiss: () => void;
+  onDiscard: () => void;
+}
+
+export function DraftRestoredNotice({ onDismiss, onDiscard }: DraftRestoredNoticeProps) {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+
+  return (
+    <View
+      style={[styles.notice, { borderColor: colors.primaryPurple, backgroundColor: `${colors.primaryPurple}18` }]}
+      testID="draft-restored-notice"
+    >
+      <Feather name="rotate-ccw" size={14} color={colors.primaryPurple} />
+      <Text style={[styles.noticeText, { color: colors.textPrimary }]}>
+        {t('We restored the changes you had not saved before your session ended.')}
+      </Text>
+      <Button mode="text" compact onPress={onDiscard} textColor={colors.accentOrange}>
+        {t('Discard')}
+      </Button>
+      <IconButton
+        icon={() => <Feather name="x" size={14} color={colors.textSecondary} />}
+        size={14}
+        onPress={onDismiss}
+        style={styles.dismissButton}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingLeft: 12,
+    paddingRight: 4,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  dismissButton: {
+    margin: 0,
+    width: 28,
+    height: 28,
+  },
+});
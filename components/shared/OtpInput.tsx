@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface OtpInputProps {
+  value: string;
+  onChangeText: (value: string) => void;
+  length?: number;
+  secure?: boolean;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  error?: boolean;
+  numeric?: boolean;
+  onComplete?: (value: string) => void;
+  testID?: string;
+}
+
+// Native counterpart of the `input-otp` slots in components/ui: one hidden field drives the boxes,
+// so paste and SMS/email autofill keep working.
+export function OtpInput({
+  value,
+  onChangeText,
+  length = 6,
+  secure = false,
+  autoFocus = false,
+  disabled = false,
+  error = false,
+  numeric = true,
+  onComplete,
+  testID,
+}: OtpInputProps) {
+  const { colors } = useTheme();
+  const [focused, setFocused] = useState(autoFocus);
+
+  const handleChange = (text: string) => {
+    const sanitized = (numeric ? text.replace(/\D/g, '') : text.replace(/\s/g, '').toUpperCase()).slice(0, length);
+    onChangeText(sanitized);
+    if (sanitized.length === length) {
+      onComplete?.(sanitized);
+    }
+  };
+
+  const activeIndex = Math.min(value.length, length - 1);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.slots} pointerEvents="none">
+        {Array.from({ length }, (_, index) => {
+          const char = value[index];
+          const isActive = focused && !disabled && index === activeIndex;
+          const borderColor = error ? colors.accentOrange : isActive ? colors.neonGreen : colors.cardBorder;
+          return (
+            <View
+              key={index}
+              style={[
+                styles.slot,
+                { borderColor, backgroundColor: colors.inputBgFrom },
+                isActive && styles.slotActive,
+                disabled && styles.slotDisabled,
+              ]}
+            >
+              <Text style={[styles.slotText, { color: colors.textPrimary }]}>
+                {char ? (secure ? '•' : char) : ''}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+      <TextInput
+        value={value}
+        onChangeText={handleChange}
+        maxLength={length}
+        autoFocus={autoFocus}
+        editable={!disabled}
+        keyboardType={numeric ? 'number-pad' : 'default'}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        textContentType="oneTimeCode"
+        autoComplete={Platform.OS === 'android' ? 'sms-otp' : 'one-time-code'}
+        caretHidden
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        style={styles.hiddenInput}
+        testID={testID}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'center',
+  },
+  slots: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  slot: {
+    width: 44,
+    height: 52,
+    borderWidth: 1,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  slotActive: {
+    borderWidth: 2,
+  },
+  slotDisabled: {
+    opacity: 0.5,
+  },
+  slotText: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  hiddenInput: {
+    ...StyleSheet.absoluteFillObject,
+    opacity: 0,
+    color: 'transparent',
+  },
+});
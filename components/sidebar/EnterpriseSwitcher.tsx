@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Modal, Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { IconButton, TouchableRipple } from '../ui/Paper';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { AuthEnterprise } from '../../utils/enterprises';
+import { useEnterpriseSwitcher } from '../../hooks/sidebar/useEnterpriseSwitcher';
+
+export function EnterpriseSwitcher() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+  const { enterprises, current, enterpriseId, canSwitch, switchingId, error, clearError, select } =
+    useEnterpriseSwitcher();
+  const [open, setOpen] = useState(false);
+
+  if (!canSwitch) {
+    return null;
+  }
+
+  const labelFor = (entry: AuthEnterprise | null) =>
+    entry?.name ?? (entry ? t('Enterprise {id}', { id: entry.id }) : t('Select enterprise'));
+
+  const handleClose = () => {
+    if (switchingId) {
+      return;
+    }
+    clearError();
+    setOpen(false);
+  };
+
+  const handleSelect = async (nextId: string) => {
+    if (await select(nextId)) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <TouchableRipple
+        onPress={() => setOpen(true)}
+        borderless
+        accessibilityRole="button"
+        accessibilityLabel={t('Switch enterprise')}
+        testID="sidebar-enterprise-switcher"
+        style={[styles.trigger, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+        rippleColor={`${colors.neonGreen}22`}
+      >
+        <View style={styles.triggerContent}>
+          <Feather name="briefcase" size={14} color={colors.neonGreen} />
+          <Text style={[styles.triggerLabel, { color: colors.textPrimary }]} numberOfLines={1}>
+            {labelFor(current)}
+          </Text>
+          <Feather name="chevron-down" size={14} color={colors.textSecondary} />
+        </View>
+      </TouchableRipple>
+
+      <Modal visible={open} transparent animationType="fade" onRequestClose={handleClose}>
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.modalCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}>
+            <View style={styles.modalHeader}>
+              <View style={styles.modalHeaderText}>
+                <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>{t('Switch enterprise')}</Text>
+                <Text style={[styles.modalSubtitle, { color: colors.textSecondary }]}>
+                  {t('Data on every screen reloads for the selected enterprise')}
+                </Text>
+              </View>
+              <IconButton
+                icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+                size={18}
+                onPress={handleClose}
+                disabled={Boolean(switchingId)}
+                style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+              />
+            </View>
+
+            {error ? <Text style={[styles.errorText, { color: colors.accentOrange }]}>{t(error)}</Text> : null}
+
+            <ScrollView contentContainerStyle={styles.list}>
+              {enterprises.map((entry) => {
+                const selected = entry.id === enterpriseId;
+                const busy = switchingId === entry.id;
+                return (
+                  <TouchableRipple
+                    key={entry.id}
+                    onPress={() => handleSelect(entry.id)}
+                    disabled={Boolean(switchingId)}
+                    testID={`enterprise-option-${entry.id}`}
+                    style={[
+                      styles.option,
+                      {
+                        borderColor: selected ? colors.primaryPurple : colors.cardBorder,
+                        backgroundColor: selected ? colors.hoverBg : colors.cardBgTo,
+                      },
+                    ]}
+                    rippleColor={`${colors.primaryPurple}22`}
+                  >
+                    <View style={styles.optionContent}>
+                      <Feather name="briefcase" size={16} color={selected ? colors.neonGreen : colors.textSecondary} />
+                      <View style={styles.optionText}>
+                        <Text style={[styles.optionLabel, { color: colors.textPrimary }]} numberOfLines={1}>
+                          {labelFor(entry)}
+                        </Text>
+                        {entry.name ? (
+                          <Text style={[styles.optionMeta, { color: colors.textMuted }]} numberOfLines={1}>
+                            {entry.id}
+                          </Text>
+                        ) : null}
+                      </View>
+                      {busy ? (
+                        <ActivityIndicator size="small" color={colors.neonGreen} />
+                      ) : selected ? (
+                        <Feather name="check" size={16} color={colors.neonGreen} />
+                      ) : null}
+                    </View>
+                  </TouchableRipple>
+                );
+              })}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginTop: 14,
+  },
+  triggerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  triggerLabel: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.4,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(8, 10, 18, 0.78)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    width: '100%',
+    maxWidth: 480,
+    maxHeight: '80%',
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 24,
+    gap: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalHeaderText: {
+    flex: 1,
+    gap: 4,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  modalSubtitle: {
+    fontSize: 13,
+  },
+  modalCloseButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: 13,
+  },
+  list: {
+    gap: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  optionContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+  },
+  optionText: {
+    flex: 1,
+    gap: 2,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionMeta: {
+    fontSize: 11,
+  },
+});
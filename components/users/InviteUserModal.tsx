@@ -0,0 +1,269 @@
+import React from 'react';
+import { Modal, Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Button, HelperText, IconButton, TextInput as PaperTextInput } from '../ui/Paper';
+import { CustomerColors } from '../customers/types';
+import { RoleChips } from './RoleChips';
+import { AccessRole } from '../../utils/access';
+import { UserInviteErrors, UserInviteValues } from '../../utils/users/presentation';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface InviteUserModalProps {
+  visible: boolean;
+  values: UserInviteValues;
+  errors: UserInviteErrors;
+  attempted: boolean;
+  submitting: boolean;
+  isCompact: boolean;
+  isTablet: boolean;
+  colors: CustomerColors;
+  onClose: () => void;
+  onSubmit: () => void;
+  onFieldChange: (field: 'email' | 'name', value: string) => void;
+  onRoleChange: (role: AccessRole) => void;
+}
+
+export function InviteUserModal({
+  visible,
+  values,
+  errors,
+  attempted,
+  submitting,
+  isCompact,
+  isTablet,
+  colors,
+  onClose,
+  onSubmit,
+  onFieldChange,
+  onRoleChange,
+}: InviteUserModalProps) {
+  const { t } = useI18n();
+  const emailError = attempted || values.email.trim() ? errors.email : null;
+  const nameError = errors.name;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View
+          style={[
+            styles.modalCard,
+            { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder },
+            isTablet && styles.modalCardWide,
+          ]}
+        >
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>{t('Invite User')}</Text>
+            <IconButton
+              icon={() => <Feather name="x" size={18} color={colors.textSecondary} />}
+              size={18}
+              onPress={onClose}
+              disabled={submitting}
+              style={[styles.modalCloseButton, { borderColor: colors.cardBorder, backgroundColor: colors.cardBgTo }]}
+            />
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.modalBody}>
+            <Text style={[styles.hint, { color: colors.textMuted }]}>
+              {t('They will receive an email with a link to set their password.')}
+            </Text>
+
+            <View style={styles.modalField}>
+              <Text style={[styles.modalLabel, { color: colors.textSecondary }]}>{t('Email')}</Text>
+              <PaperTextInput
+                mode="outlined"
+                style={[styles.modalInput, { backgroundColor: colors.inputBgFrom }]}
+                contentStyle={styles.modalInputContent}
+                outlineStyle={styles.modalInputOutline}
+                textColor={colors.textPrimary}
+                outlineColor={colors.cardBorder}
+                activeOutlineColor={colors.primaryPurple}
+                value={values.email}
+                onChangeText={(value) => onFieldChange('email', value)}
+                placeholder="email@domain.com"
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                error={!!emailError}
+                editable={!submitting}
+                testID="user-invite-email"
+              />
+              <HelperText type="error" visible={!!emailError} style={styles.fieldHelper}>
+                {emailError ? t(emailError) : ''}
+              </HelperText>
+            </View>
+
+            <View style={styles.modalField}>
+              <Text style={[styles.modalLabel, { color: colors.textSecondary }]}>{t('Full name')}</Text>
+              <PaperTextInput
+                mode="outlined"
+                style={[styles.modalInput, { backgroundColor: colors.inputBgFrom }]}
+                contentStyle={styles.modalInputContent}
+                outlineStyle={styles.modalInputOutline}
+                textColor={colors.textPrimary}
+                outlineColor={colors.cardBorder}
+                activeOutlineColor={colors.primaryPurple}
+                value={values.name}
+                onChangeText={(value) => onFieldChange('name', value)}
+                placeholder={t('Optional')}
+                placeholderTextColor={colors.textMuted}
+                autoCapitalize="words"
+                error={!!nameError}
+                editable={!submitting}
+              />
+              <HelperText type="error" visible={!!nameError} style={styles.fieldHelper}>
+                {nameError ? t(nameError) : ''}
+              </HelperText>
+            </View>
+
+            <View style={styles.modalField}>
+              <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>{t('Role')}</Text>
+              <RoleChips value={values.role} colors={colors} disabled={submitting} onChange={onRoleChange} />
+            </View>
+          </ScrollView>
+
+          <View style={[styles.modalActions, isCompact && styles.modalActionsCompact]}>
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              disabled={submitting}
+              textColor={colors.textSecondary}
+              style={[styles.modalButton, { borderColor: colors.cardBorder }]}
+              contentStyle={styles.modalButtonContent}
+              labelStyle={styles.modalButtonLabel}
+            >
+              {t('Cancel')}
+            </Button>
+            <Button
+              mode="contained"
+              onPress={onSubmit}
+              disabled={submitting}
+              buttonColor={colors.primaryPurple}
+              textColor={colors.appBg}
+              style={styles.modalButton}
+              contentStyle={styles.modalButtonContent}
+              labelStyle={styles.modalButtonLabel}
+              testID="user-invite-submit"
+            >
+              {submitting ? t('Sending...') : t('Send invite')}
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(8, 10, 18, 0.78)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    width: '100%',
+    borderRadius: 28,
+    borderWidth: 1,
+    padding: 28,
+    gap: 20,
+    maxHeight: '95%',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#1c140d',
+        shadowOffset: { width: 0, height: 18 },
+        shadowOpacity: 0.22,
+        shadowRadius: 30,
+      },
+      android: {
+        elevation: 8,
+      },
+    }),
+  },
+  modalCardWide: {
+    maxWidth: 520,
+    alignSelf: 'center',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalCloseButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  modalBody: {
+    gap: 6,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginBottom: 6,
+  },
+  modalField: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.4,
+  },
+  modalLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    letterSpacing: 0.2,
+  },
+  modalInput: {
+    borderRadius: 16,
+    minHeight: 52,
+  },
+  modalInputContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  modalInputOutline: {
+    borderRadius: 16,
+  },
+  fieldHelper: {
+    marginTop: -2,
+    marginBottom: -4,
+    fontSize: 11,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    marginTop: 14,
+  },
+  modalActionsCompact: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+  },
+  modalButton: {
+    minWidth: 120,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  modalButtonContent: {
+    height: 44,
+    paddingHorizontal: 18,
+  },
+  modalButtonLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
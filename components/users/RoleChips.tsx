@@ -0,0 +1,68 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Chip } from '../ui/Paper';
+import { CustomerColors } from '../customers/types';
+import { ACCESS_ROLES, AccessRole } from '../../utils/access';
+import { ROLE_LABELS } from '../../utils/users/presentation';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface RoleChipsProps {
+  value: AccessRole | null;
+  colors: CustomerColors;
+  disabled?: boolean;
+  compact?: boolean;
+  testIDPrefix?: string;
+  onChange: (role: AccessRole) => void;
+}
+
+export function RoleChips({ value, colors, disabled, compact, testIDPrefix, onChange }: RoleChipsProps) {
+  const { t } = useI18n();
+  return (
+    <View style={styles.roleOptions}>
+      {ACCESS_ROLES.map((role) => {
+        const isSelected = value === role;
+        return (
+          <Chip
+            key={role}
+            compact={compact}
+            selected={isSelected}
+            disabled={disabled}
+            onPress={() => {
+              if (!isSelected) {
+                onChange(role);
+              }
+            }}
+            icon={isSelected ? 'check' : undefined}
+            style={[
+              styles.roleOption,
+              {
+                borderColor: isSelected ? colors.neonGreen : colors.cardBorder,
+                backgroundColor: isSelected ? `${colors.neonGreen}1A` : colors.cardBgTo,
+              },
+            ]}
+            textStyle={[styles.roleOptionText, { color: isSelected ? colors.neonGreen : colors.textSecondary }]}
+            testID={testIDPrefix ? `${testIDPrefix}-${role}` : undefined}
+          >
+            {t(ROLE_LABELS[role])}
+          </Chip>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  roleOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  roleOption: {
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  roleOptionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,240 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Card, Chip, IconButton } from '../ui/Paper';
+import { CustomerColors } from '../customers/types';
+import { RoleChips } from './RoleChips';
+import { UserAccount } from '../../services/erpService';
+import { AccessRole } from '../../utils/access';
+import { ROLE_LABELS, resolveUserDisplayName } from '../../utils/users/presentation';
+import { formatUsDateTime } from '../../utils/datetime';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface UserCardProps {
+  user: UserAccount;
+  rowKey: string;
+  colors: CustomerColors;
+  isCompact: boolean;
+  isSelf: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  busy: boolean;
+  onRoleChange: (user: UserAccount, role: AccessRole) => void;
+  onResetPassword: (user: UserAccount) => void;
+  onDeactivate: (user: UserAccount) => void;
+}
+
+const getStatusColor = (status: UserAccount['status'], colors: CustomerColors) => {
+  switch (status) {
+    case 'Invited':
+      return colors.primaryPurple;
+    case 'Inactive':
+      return colors.textMuted;
+    default:
+      return colors.neonGreen;
+  }
+};
+
+export function UserCard({
+  user,
+  rowKey,
+  colors,
+  isCompact,
+  isSelf,
+  canEdit,
+  canDelete,
+  busy,
+  onRoleChange,
+  onResetPassword,
+  onDeactivate,
+}: UserCardProps) {
+  const { t } = useI18n();
+  const status = user.status ?? 'Active';
+  const statusColor = getStatusColor(status, colors);
+  const isInactive = status === 'Inactive';
+  // Admins cannot demote or lock out themselves from here.
+  const canChangeRole = canEdit && !isSelf && !isInactive;
+  const canDeactivate = canDelete && !isSelf && !isInactive;
+  const canReset = canEdit && !isInactive;
+
+  return (
+    <Card
+      mode="outlined"
+      style={[styles.userCard, { backgroundColor: colors.cardBgFrom, borderColor: colors.cardBorder }]}
+      testID={`user-row-${rowKey}`}
+    >
+      <Card.Content style={styles.userCardContent}>
+        <View style={[styles.userHeader, isCompact && styles.userHeaderCompact]}>
+          <View style={styles.userInfo}>
+            <Text style={[styles.userName, { color: colors.textPrimary }]}>
+              {resolveUserDisplayName(user)}
+              {isSelf ? ` · ${t('You')}` : ''}
+            </Text>
+            {user.email && (
+              <View style={styles.userMetaLine}>
+                <Feather name="mail" size={12} color={colors.textMuted} />
+                <Text style={[styles.metaText, { color: colors.textSecondary }]}>{user.email}</Text>
+              </View>
+            )}
+            <View style={styles.userMetaLine}>
+              <Feather name="clock" size={12} color={colors.textMuted} />
+              <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                {user.lastLoginAt
+                  ? t('Last sign-in {date}', { date: formatUsDateTime(user.lastLoginAt) })
+                  : t('Never signed in')}
+              </Text>
+            </View>
+          </View>
+
+          <View style={[styles.userActions, isCompact && styles.userActionsCompact]}>
+            <Chip
+              compact={isCompact}
+              style={[styles.statusBadge, { backgroundColor: `${statusColor}20`, borderColor: `${statusColor}45` }]}
+              textStyle={[styles.statusText, { color: statusColor }]}
+            >
+              {t(status)}
+            </Chip>
+
+            {(canReset || canDeactivate) && (
+              <View style={styles.actionButtons}>
+                {canReset && (
+                  <IconButton
+                    icon={() => <Feather name="key" size={14} color={colors.primaryPurple} />}
+                    size={18}
+                    onPress={() => onResetPassword(user)}
+                    disabled={busy}
+                    accessibilityLabel={t('Reset password')}
+                    style={[
+                      styles.actionButton,
+                      { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
+                      busy && styles.actionButtonDisabled,
+                    ]}
+                    testID={`user-reset-${rowKey}`}
+                  />
+                )}
+                {canDeactivate && (
+                  <IconButton
+                    icon={() => <Feather name="user-x" size={14} color={colors.accentOrange} />}
+                    size={18}
+                    onPress={() => onDeactivate(user)}
+                    disabled={busy}
+                    accessibilityLabel={t('Deactivate')}
+                    style={[
+                      styles.actionButton,
+                      { borderColor: colors.cardBorder, backgroundColor: `${colors.appBg}55` },
+                      busy && styles.actionButtonDisabled,
+                    ]}
+                    testID={`user-deactivate-${rowKey}`}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+        </View>
+
+        <View style={[styles.roleRow, { borderColor: colors.cardBorder, backgroundColor: `${colors.primaryPurple}12` }]}>
+          <Feather name="shield" size={14} color={colors.primaryPurple} />
+          {canChangeRole ? (
+            <RoleChips
+              value={user.role ?? null}
+              colors={colors}
+              compact
+              disabled={busy}
+              testIDPrefix={`user-role-${rowKey}`}
+              onChange={(role) => onRoleChange(user, role)}
+            />
+          ) : (
+            <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+              {t(ROLE_LABELS[user.role ?? 'employee'])}
+            </Text>
+          )}
+        </View>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  userCard: {
+    borderRadius: 14,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  userCardContent: {
+    padding: 18,
+  },
+  userHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 14,
+    marginBottom: 14,
+  },
+  userHeaderCompact: {
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+  },
+  userInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  userName: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginBottom: 6,
+    letterSpacing: 0.2,
+  },
+  userMetaLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12.5,
+    flexShrink: 1,
+  },
+  userActions: {
+    alignItems: 'flex-end',
+    gap: 10,
+  },
+  userActionsCompact: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  statusBadge: {
+    alignSelf: 'flex-end',
+    borderWidth: 1,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.2,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  actionButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 8,
+  },
+});
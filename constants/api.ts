@@ -3,6 +3,16 @@ export interface ApiClientConfig {
   authPath: string;
   googleAuthPath?: string;
   googleCodeAuthPath?: string;
+  refreshAuthPath?: string;
+  enterprisesPath?: string;
+  switchEnterprisePath?: string;
+  permissionsPath?: string;
+  changePasswordPath?: string;
+  forgotPasswordPath?: string;
+  resetPasswordPath?: string;
+  twoFactorVerifyPath?: string;
+  twoFactorResendPath?: string;
+  twoFactorPath?: string;
   defaultHeaders?: Record<string, string>;
   timeoutMs?: number;
 }
@@ -12,6 +22,16 @@ export const API_CONFIG: ApiClientConfig = {
   authPath: process.env.EXPO_PUBLIC_AUTH_PATH ?? '/User/LogInto',
   googleAuthPath: process.env.EXPO_PUBLIC_GOOGLE_AUTH_PATH ?? '/User/LoginWithGoogle',
   googleCodeAuthPath: process.env.EXPO_PUBLIC_GOOGLE_CODE_AUTH_PATH ?? '/User/LoginWithGoogleCode',
+  refreshAuthPath: process.env.EXPO_PUBLIC_REFRESH_AUTH_PATH ?? '/User/RefreshToken',
+  enterprisesPath: process.env.EXPO_PUBLIC_ENTERPRISES_PATH ?? '/User/GetEnterprises',
+  switchEnterprisePath: process.env.EXPO_PUBLIC_SWITCH_ENTERPRISE_PATH ?? '/User/SwitchEnterprise',
+  permissionsPath: process.env.EXPO_PUBLIC_PERMISSIONS_PATH ?? '/User/GetPermissions',
+  changePasswordPath: process.env.EXPO_PUBLIC_CHANGE_PASSWORD_PATH ?? '/User/ChangePassword',
+  forgotPasswordPath: process.env.EXPO_PUBLIC_FORGOT_PASSWORD_PATH ?? '/User/ForgotPassword',
+  resetPasswordPath: process.env.EXPO_PUBLIC_RESET_PASSWORD_PATH ?? '/User/ResetPassword',
+  twoFactorVerifyPath: process.env.EXPO_PUBLIC_TWO_FACTOR_VERIFY_PATH ?? '/User/VerifyTwoFactor',
+  twoFactorResendPath: process.env.EXPO_PUBLIC_TWO_FACTOR_RESEND_PATH ?? '/User/ResendTwoFactorCode',
+  twoFactorPath: process.env.EXPO_PUBLIC_TWO_FACTOR_PATH ?? '/User/TwoFactor',
   timeoutMs: 15000,
   defaultHeaders: {
     Accept: 'application/json',
@@ -0,0 +1,16 @@
+import { resolveOAuthProviders } from '../utils/security/oauthProviders';
+
+// Listed one by one because Expo only inlines `process.env.EXPO_PUBLIC_*` when it is read by name.
+export const OAUTH_PROVIDERS = resolveOAuthProviders({
+  microsoftClientId: process.env.EXPO_PUBLIC_MICROSOFT_CLIENT_ID,
+  microsoftTenantId: process.env.EXPO_PUBLIC_MICROSOFT_TENANT_ID,
+  microsoftScopes: process.env.EXPO_PUBLIC_MICROSOFT_SCOPES,
+  microsoftCodeAuthPath: process.env.EXPO_PUBLIC_MICROSOFT_CODE_AUTH_PATH,
+  oidcIssuer: process.env.EXPO_PUBLIC_OIDC_ISSUER,
+  oidcClientId: process.env.EXPO_PUBLIC_OIDC_CLIENT_ID,
+  oidcLabel: process.env.EXPO_PUBLIC_OIDC_LABEL,
+  oidcScopes: process.env.EXPO_PUBLIC_OIDC_SCOPES,
+  oidcCodeAuthPath: process.env.EXPO_PUBLIC_OIDC_CODE_AUTH_PATH,
+});
+
+export const OAUTH_REDIRECT_URI = process.env.EXPO_PUBLIC_OAUTH_REDIRECT_URI;
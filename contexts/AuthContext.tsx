@@ -8,42 +8,105 @@ import React, {
   useRef,
   useState,
 } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_CONFIG } from '../constants/api';
 import { ApiClient, ApiResponse } from '../services/apiClient';
-import { AuthCredentials, AuthService, AuthTokens, GoogleCodeExchangePayload } from '../services/authService';
+import {
+  ApiEnvironment,
+  apiEnvironmentStore,
+  createApiServices,
+  rememberedDeviceStorageKey,
+  sessionStorageKey,
+  twoFactorChallengeStorageKey,
+} from '../services/apiEnvironments';
+import {
+  AuthCredentials,
+  AuthService,
+  AuthTokens,
+  ChangePasswordPayload,
+  GoogleCodeExchangePayload,
+  OAuthCodeExchangePayload,
+  ResetPasswordPayload,
+} from '../services/authService';
+import { crossTabBridge } from '../services/crossTab';
+import { clearAllLocalData } from '../services/localData';
+import { offlineMutationQueue } from '../services/offlineQueue';
+import { queryCache } from '../services/queryCache';
+import { secureStorage } from '../services/secureStorage';
 import { normalizeCurrencyCode } from '../utils/currency';
+import { AuthEnterprise, areEnterprisesEqual, mergeEnterprises } from '../utils/enterprises';
+import { readPermissionGrants } from '../utils/access';
+import {
+  TwoFactorChallenge,
+  TwoFactorMethod,
+  isChallengeActive,
+  readRememberedDeviceToken,
+  readTwoFactorChallenge,
+} from '../utils/security/twoFactor';
 import { AppLanguage, languageToEnumValue, normalizeLanguageCode } from '../utils/language';
+import { OAuthProvider } from '../utils/security/oauthProviders';
 
 interface AuthContextValue {
   token: string | null;
   enterpriseId: string | null;
+  enterprises: AuthEnterprise[];
+  permissionGrants: string[] | null;
   currency: string | null;
   isAuthenticated: boolean;
   loading: boolean;
   user: AuthUserProfile | null;
-  login: (credentials: AuthCredentials) => Promise<AuthTokens>;
-  loginWithGoogle: (idToken: string) => Promise<AuthTokens>;
-  loginWithGoogleCode: (payload: GoogleCodeExchangePayload) => Promise<AuthTokens>;
+  // Sign-in calls resolve with null when the backend asks for a second factor; see `twoFactorChallenge`.
+  login: (credentials: AuthCredentials) => Promise<AuthTokens | null>;
+  loginWithGoogle: (idToken: string) => Promise<AuthTokens | null>;
+  loginWithGoogleCode: (payload: GoogleCodeExchangePayload) => Promise<AuthTokens | null>;
+  loginWithOAuthCode: (
+    provider: OAuthProvider,
+    payload: Omit<OAuthCodeExchangePayload, 'provider'>,
+  ) => Promise<AuthTokens | null>;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  verifyTwoFactor: (input: TwoFactorVerifyInput) => Promise<AuthTokens | null>;
+  resendTwoFactorCode: (method: TwoFactorMethod) => Promise<void>;
+  cancelTwoFactor: () => Promise<void>;
+  hasRememberedDevice: boolean;
+  forgetThisDevice: () => Promise<void>;
   setUserLanguage: (language: AppLanguage | null) => Promise<void>;
   setUserProfilePicture: (avatarUrl: string | null) => Promise<void>;
   setUserTheme: (theme: UserTheme | null) => Promise<void>;
   logout: () => Promise<void>;
+  // When the current token lapses, and whether a refresh token can push that back.
+  sessionExpiresAt: number | null;
+  canExtendSession: boolean;
+  extendSession: () => Promise<void>;
+  changePassword: (payload: ChangePasswordPayload) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (payload: ResetPasswordPayload) => Promise<void>;
+  clearLocalData: () => Promise<void>;
   client: ApiClient;
+  authService: AuthService;
+  environment: ApiEnvironment;
+  switchEnvironment: (environmentId: string) => Promise<void>;
+  switchEnterprise: (enterpriseId: string) => Promise<void>;
 }
 
-const TOKEN_STORAGE_KEY = 'authToken';
-const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+interface TwoFactorVerifyInput {
+  code: string;
+  method: TwoFactorMethod;
+  rememberDevice: boolean;
+  isRecoveryCode: boolean;
+}
 
-const client = new ApiClient(API_CONFIG);
-const authService = new AuthService(client);
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const TOKEN_REFRESH_LEAD_MS = 2 * 60 * 1000; // renew 2 minutes before expiry
+const TOKEN_REFRESH_RETRY_BASE_MS = 5 * 1000;
+const TOKEN_REFRESH_RETRY_MAX_MS = 60 * 1000;
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 interface StoredSession {
   token: string;
+  refreshToken?: string | null;
   expiresAt: number;
   enterpriseId?: string | null;
+  enterprises?: AuthEnterprise[];
+  permissionGrants?: string[] | null;
   currency?: string | null;
   user?: AuthUserProfile | null;
   theme?: UserTheme | null;
@@ -561,6 +624,19 @@ const resolveTokenValue = (data: unknown) => {
   return null;
 };
 
+const resolveRefreshTokenValue = (data: unknown) => {
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, any>;
+    return pickFirstString(
+      record.refreshToken,
+      record.RefreshToken,
+      record.refresh_token,
+    );
+  }
+
+  return null;
+};
+
 const resolveExpiresInMs = (data: unknown) => {
   if (data && typeof data === 'object') {
     const record = data as Record<string, any>;
@@ -595,11 +671,26 @@ const resolveEnterpriseCurrency = (data: unknown) => {
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [token, setToken] = useState<string | null>(null);
   const [enterpriseId, setEnterpriseId] = useState<string | null>(null);
+  const [enterprises, setEnterprises] = useState<AuthEnterprise[]>([]);
+  const [permissionGrants, setPermissionGrants] = useState<string[] | null>(null);
   const [currency, setCurrency] = useState<string | null>(null);
   const [user, setUser] = useState<AuthUserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [environment, setEnvironment] = useState(() => apiEnvironmentStore.getSnapshot().active);
+  const [environmentReady, setEnvironmentReady] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [hasRememberedDevice, setHasRememberedDevice] = useState(false);
+  const [sessionExpiry, setSessionExpiry] = useState<{ expiresAt: number; renewable: boolean } | null>(null);
+  // Bumped when another tab stores a new session, so the restore below reads it again.
+  const [sessionRevision, setSessionRevision] = useState(0);
+  const environmentRef = useRef(environment);
   const logoutTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+  const sessionExpiresAtRef = useRef<number | null>(null);
+  const refreshRetryCountRef = useRef(0);
   const enterpriseCurrencyRef = useRef<string | null>(null);
+  const enterpriseListTokenRef = useRef<string | null>(null);
+  const permissionsTokenRef = useRef<string | null>(null);
 
   const clearLogoutTimer = () => {
     if (logoutTimer.current) {
@@ -608,19 +699,83 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = useCallback(async () => {
+  // Every environment gets its own client and stored session, so tokens never cross backends.
+  const { client, authService } = useMemo(() => createApiServices(environment), [environment]);
+  const storageKey = sessionStorageKey(environment.id);
+  const challengeStorageKey = twoFactorChallengeStorageKey(environment.id);
+  const deviceStorageKey = rememberedDeviceStorageKey(environment.id);
+
+  useEffect(() => {
+    const unsubscribe = apiEnvironmentStore.subscribe((snapshot) => {
+      const current = environmentRef.current;
+      if (current === snapshot.active) {
+        return;
+      }
+      if (current.id !== snapshot.active.id) {
+        // Stop renewing the outgoing session before the next one is restored.
+        clearLogoutTimer();
+        refreshTokenRef.current = null;
+        setLoading(true);
+      }
+      environmentRef.current = snapshot.active;
+      queryCache.clear();
+      setEnvironment(snapshot.active);
+    });
+    apiEnvironmentStore.load().finally(() => setEnvironmentReady(true));
+    return unsubscribe;
+  }, []);
+
+  const clearSessionState = useCallback(() => {
     clearLogoutTimer();
+    refreshTokenRef.current = null;
+    sessionExpiresAtRef.current = null;
+    setSessionExpiry(null);
     setToken(null);
     setEnterpriseId(null);
+    setEnterprises([]);
+    setPermissionGrants(null);
     setCurrency(null);
     setUser(null);
     client.setToken(null);
-    await AsyncStorage.removeItem(TOKEN_STORAGE_KEY);
-  }, []);
+    offlineMutationQueue.setScope(null);
+  }, [client]);
+
+  const offlineQueueUserId = token ? user?.id || user?.email || null : null;
+
+  useEffect(() => {
+    // Queued offline writes only replay for the user and environment that recorded them.
+    offlineMutationQueue.setScope(
+      offlineQueueUserId ? { environmentId: environment.id, userId: String(offlineQueueUserId) } : null,
+    );
+  }, [environment.id, offlineQueueUserId]);
+
+  const announceSession = useCallback(
+    (signedIn: boolean) => crossTabBridge.publish({ type: 'session', environmentId: environment.id, signedIn }),
+    [environment.id],
+  );
+
+  const logout = useCallback(async () => {
+    clearSessionState();
+    queryCache.clear();
+    await secureStorage.removeItem(storageKey);
+    announceSession(false);
+  }, [announceSession, clearSessionState, storageKey]);
 
-  const scheduleLogout = useCallback(
+  const scheduleSessionRenewal = useCallback(
     (expiresAt: number) => {
       clearLogoutTimer();
+      sessionExpiresAtRef.current = expiresAt;
+      refreshRetryCountRef.current = 0;
+      setSessionExpiry({ expiresAt, renewable: Boolean(refreshTokenRef.current) });
+
+      if (refreshTokenRef.current) {
+        const refreshDelay = Math.max(expiresAt - Date.now() - TOKEN_REFRESH_LEAD_MS, 0);
+        logoutTimer.current = setTimeout(() => {
+          client.refreshAuthToken();
+        }, refreshDelay);
+        return;
+      }
+
       const delay = expiresAt - Date.now();
       if (delay <= 0) {
         logout();
@@ -628,13 +783,118 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       logoutTimer.current = setTimeout(logout, delay);
     },
-    [logout],
+    [client, logout],
   );
 
+  const refreshSession = useCallback(async () => {
+    const currentRefreshToken = refreshTokenRef.current;
+    if (!currentRefreshToken) {
+      await logout();
+      return null;
+    }
+
+    // Tabs share one stored session; if another tab already rotated the refresh token, take its result
+    // instead of spending the old token, which single-use refresh tokens would reject.
+    const shared = await secureStorage.getItem(storageKey);
+    let sharedSession: StoredSession | null = null;
+    try {
+      sharedSession = shared ? (JSON.parse(shared) as StoredSession) : null;
+    } catch {
+      sharedSession = null;
+    }
+    if (
+      sharedSession?.token &&
+      sharedSession.refreshToken &&
+      sharedSession.refreshToken !== currentRefreshToken &&
+      sharedSession.expiresAt - Date.now() > TOKEN_REFRESH_LEAD_MS &&
+      refreshTokenRef.current === currentRefreshToken
+    ) {
+      refreshTokenRef.current = sharedSession.refreshToken;
+      client.setToken(sharedSession.token);
+      setToken(sharedSession.token);
+      scheduleSessionRenewal(sharedSession.expiresAt);
+      return sharedSession.token;
+    }
+
+    const response = await authService.refresh(currentRefreshToken);
+    const nextToken = resolveTokenValue(response.data);
+
+    // The refresh token can be consumed mid-flight by logout or an environment switch; drop the late result.
+    if (refreshTokenRef.current !== currentRefreshToken) {
+      return null;
+    }
+
+    // Only a rejected refresh token ends the session; offline, timeouts and server errors retry with backoff
+    // while the current token is still valid.
+    const rejected = response.status === 400 || response.status === 401 || (response.ok && !nextToken);
+    const expiresAtNow = sessionExpiresAtRef.current;
+    if (!response.ok || !nextToken) {
+      if (rejected || !expiresAtNow || expiresAtNow <= Date.now()) {
+        await logout();
+        return null;
+      }
+      const retryDelay = Math.min(
+        TOKEN_REFRESH_RETRY_BASE_MS * 2 ** refreshRetryCountRef.current,
+        TOKEN_REFRESH_RETRY_MAX_MS,
+        expiresAtNow - Date.now(),
+      );
+      refreshRetryCountRef.current += 1;
+      clearLogoutTimer();
+      logoutTimer.current = setTimeout(() => {
+        if (Date.now() >= expiresAtNow) {
+          logout();
+          return;
+        }
+        client.refreshAuthToken();
+      }, retryDelay);
+      return null;
+    }
+
+    const expiresAt = Date.now() + resolveExpiresInMs(response.data);
+    const nextRefreshToken = resolveRefreshTokenValue(response.data) ?? currentRefreshToken;
+    refreshTokenRef.current = nextRefreshToken;
+    client.setToken(nextToken);
+    setToken(nextToken);
+    scheduleSessionRenewal(expiresAt);
+
+    const stored = await secureStorage.getItem(storageKey);
+    let session: StoredSession | null = null;
+    try {
+      session = stored ? (JSON.parse(stored) as StoredSession) : null;
+    } catch {
+      session = null;
+    }
+
+    if (session) {
+      const updated: StoredSession = {
+        ...session,
+        token: nextToken,
+        refreshToken: nextRefreshToken,
+        expiresAt,
+      };
+      await secureStorage.setItem(storageKey, JSON.stringify(updated));
+      announceSession(true);
+    }
+
+    return nextToken;
+  }, [announceSession, authService, client, logout, scheduleSessionRenewal, storageKey]);
+
   useEffect(() => {
+    client.setTokenRefreshHandler(refreshSession);
+    return () => client.setTokenRefreshHandler(null);
+  }, [client, refreshSession]);
+
+  useEffect(() => {
+    if (!environmentReady) {
+      return;
+    }
+
+    let active = true;
+
     const restoreSession = async () => {
+      let restored = false;
       try {
-        const stored = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+        const stored = await secureStorage.getItem(storageKey);
         if (stored) {
           let session: StoredSession | null = null;
 
@@ -644,20 +904,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             session = { token: stored, expiresAt: Date.now() + DEFAULT_TOKEN_TTL_MS };
           }
 
-            if (session?.token && session.expiresAt > Date.now()) {
+            if (!active) {
+              return;
+            }
+
+            const canRenew = Boolean(session?.refreshToken);
+            if (session?.token && (session.expiresAt > Date.now() || canRenew)) {
               const resolvedEnterpriseId =
                 session.enterpriseId ?? resolveEnterpriseId(null, session.token);
               const resolvedUser = resolveUserProfile(null, session.token, session.user ?? null);
               const resolvedCurrency = normalizeCurrencyCode(session.currency) ?? null;
+              const resolvedEnterprises = mergeEnterprises(
+                resolvedEnterpriseId ?? null,
+                session.enterprises,
+                parseJwtPayload(session.token),
+              );
               setToken(session.token);
               setEnterpriseId(resolvedEnterpriseId ?? null);
+              setEnterprises(resolvedEnterprises);
+              setPermissionGrants(
+                session.permissionGrants ?? readPermissionGrants(parseJwtPayload(session.token)),
+              );
               setCurrency(resolvedCurrency);
               setUser(resolvedUser);
               client.setToken(session.token);
-              scheduleLogout(session.expiresAt);
+              refreshTokenRef.current = session.refreshToken ?? null;
+              scheduleSessionRenewal(session.expiresAt);
+              restored = true;
 
               const shouldUpdateSession =
                 (resolvedEnterpriseId && resolvedEnterpriseId !== session.enterpriseId) ||
+                !areEnterprisesEqual(session.enterprises ?? [], resolvedEnterprises) ||
                 !areUsersEqual(session.user ?? null, resolvedUser) ||
                 (resolvedUser.theme && resolvedUser.theme !== session.theme);
 
@@ -665,28 +942,114 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 const refreshed: StoredSession = {
                   ...session,
                   enterpriseId: resolvedEnterpriseId,
+                  enterprises: resolvedEnterprises,
                   currency: resolvedCurrency,
                   user: resolvedUser,
                   theme: resolvedUser.theme ?? session.theme ?? null,
                 };
-                await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(refreshed));
+                await secureStorage.setItem(storageKey, JSON.stringify(refreshed));
               }
           } else {
-            await AsyncStorage.removeItem(TOKEN_STORAGE_KEY);
+            await secureStorage.removeItem(storageKey);
           }
         }
       } finally {
-        setLoading(false);
+        if (active) {
+          // Nothing stored for this environment: drop whatever the previous one left in memory.
+          if (!restored) {
+            clearSessionState();
+          }
+          setLoading(false);
+        }
       }
     };
 
     restoreSession();
-  }, [scheduleLogout]);
+
+    return () => {
+      active = false;
+    };
+  }, [environmentReady, client, clearSessionState, scheduleSessionRenewal, storageKey, sessionRevision]);
+
+  // Other tabs of the web build share the stored session; follow their sign-ins, sign-outs and language.
+  useEffect(
+    () =>
+      crossTabBridge.subscribe((message) => {
+        if (message.type === 'language' && message.environmentId === environment.id) {
+          setUser((prev) => (prev ? { ...prev, language: message.language } : prev));
+          return;
+        }
+        if (message.type !== 'session' || message.environmentId !== environment.id) {
+          return;
+        }
+        if (message.signedIn) {
+          setSessionRevision((prev) => prev + 1);
+          return;
+        }
+        // The tab that signed out already removed the stored session; only the in-memory token is left here.
+        clearSessionState();
+        queryCache.clear();
+      }),
+    [clearSessionState, environment.id],
+  );
+
+  // A reload in the middle of a second-factor step resumes it instead of asking for the password again.
+  useEffect(() => {
+    if (!environmentReady) {
+      return;
+    }
+
+    let active = true;
+
+    const restoreTwoFactorState = async () => {
+      try {
+        const [storedChallenge, deviceToken] = await Promise.all([
+          secureStorage.getItem(challengeStorageKey),
+          secureStorage.getItem(deviceStorageKey),
+        ]);
+        if (!active) {
+          return;
+        }
+        authService.setRememberedDeviceToken(deviceToken);
+        setHasRememberedDevice(Boolean(deviceToken));
+
+        const challenge = storedChallenge ? (JSON.parse(storedChallenge) as TwoFactorChallenge) : null;
+        if (isChallengeActive(challenge)) {
+          setTwoFactorChallenge(challenge);
+          return;
+        }
+        setTwoFactorChallenge(null);
+        if (storedChallenge) {
+          await secureStorage.removeItem(challengeStorageKey);
+        }
+      } catch (error) {
+        console.warn('Failed to restore two-factor state', error);
+      }
+    };
+
+    restoreTwoFactorState();
+
+    return () => {
+      active = false;
+    };
+  }, [environmentReady, authService, challengeStorageKey, deviceStorageKey]);
+
+  const storeTwoFactorChallenge = useCallback(
+    async (challenge: TwoFactorChallenge | null) => {
+      setTwoFactorChallenge(challenge);
+      if (challenge) {
+        await secureStorage.setItem(challengeStorageKey, JSON.stringify(challenge));
+      } else {
+        await secureStorage.removeItem(challengeStorageKey);
+      }
+    },
+    [challengeStorageKey],
+  );
 
   useEffect(() => () => clearLogoutTimer(), []);
 
   const updateStoredCurrency = useCallback(async (nextCurrency: string | null) => {
-    const stored = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+    const stored = await secureStorage.getItem(storageKey);
     if (!stored) {
       return;
     }
@@ -706,11 +1069,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       ...session,
       currency: nextCurrency,
     };
-    await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updated));
-  }, []);
+    await secureStorage.setItem(storageKey, JSON.stringify(updated));
+  }, [storageKey]);
 
   const updateStoredTheme = useCallback(async (nextTheme: UserTheme | null) => {
-    const stored = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+    const stored = await secureStorage.getItem(storageKey);
     if (!stored) {
       return;
     }
@@ -731,11 +1094,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       theme: nextTheme,
       user: session.user ? { ...session.user, theme: nextTheme } : session.user,
     };
-    await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updated));
-  }, []);
+    await secureStorage.setItem(storageKey, JSON.stringify(updated));
+  }, [storageKey]);
 
   const updateStoredLanguage = useCallback(async (nextLanguage: AppLanguage | null) => {
-    const stored = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+    const stored = await secureStorage.getItem(storageKey);
     if (!stored) {
       return;
     }
@@ -760,11 +1123,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       ...session,
       user: session.user ? { ...session.user, language: nextLanguage } : session.user,
     };
-    await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updated));
-  }, []);
+    await secureStorage.setItem(storageKey, JSON.stringify(updated));
+  }, [storageKey]);
 
   const updateStoredAvatarUrl = useCallback(async (nextAvatarUrl: string | null) => {
-    const stored = await AsyncStorage.getItem(TOKEN_STORAGE_KEY);
+    const stored = await secureStorage.getItem(storageKey);
     if (!stored) {
       return;
     }
@@ -790,8 +1153,93 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       ...session,
       user: session.user ? { ...session.user, avatarUrl: normalizedNext } : session.user,
     };
-    await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(updated));
-  }, []);
+    await secureStorage.setItem(storageKey, JSON.stringify(updated));
+  }, [storageKey]);
+
+  const patchStoredSession = useCallback(
+    async (update: (session: StoredSession) => StoredSession | null) => {
+      const stored = await secureStorage.getItem(storageKey);
+      if (!stored) {
+        return;
+      }
+
+      let session: StoredSession | null = null;
+      try {
+        session = JSON.parse(stored) as StoredSession;
+      } catch {
+        return;
+      }
+
+      if (!session?.token) {
+        return;
+      }
+
+      const updated = update(session);
+      if (updated) {
+        await secureStorage.setItem(storageKey, JSON.stringify(updated));
+      }
+    },
+    [storageKey],
+  );
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    patchStoredSession((session) =>
+      areEnterprisesEqual(session.enterprises ?? [], enterprises) ? null : { ...session, enterprises },
+    );
+  }, [token, enterprises, patchStoredSession]);
+
+  // Tokens only carry the current enterprise for most users; ask the backend for the full list once per session.
+  useEffect(() => {
+    if (!token || enterprises.length > 1 || enterpriseListTokenRef.current === token) {
+      return;
+    }
+    enterpriseListTokenRef.current = token;
+
+    let active = true;
+
+    const loadEnterprises = async () => {
+      const response = await authService.fetchEnterprises();
+      if (!active || !response.ok) {
+        return;
+      }
+      setEnterprises((prev) => mergeEnterprises(enterpriseId, prev, response.data));
+    };
+
+    loadEnterprises();
+
+    return () => {
+      active = false;
+    };
+  }, [authService, token, enterpriseId, enterprises.length]);
+
+  // The permissions endpoint wins over token claims and role defaults; backends without it keep those.
+  useEffect(() => {
+    if (!token || permissionsTokenRef.current === token) {
+      return;
+    }
+    permissionsTokenRef.current = token;
+
+    let active = true;
+
+    const loadPermissions = async () => {
+      const response = await authService.fetchPermissions();
+      const grants = response.ok ? readPermissionGrants(response.data) : null;
+      if (!active || !grants) {
+        return;
+      }
+      setPermissionGrants(grants);
+      await patchStoredSession((session) => ({ ...session, permissionGrants: grants }));
+    };
+
+    loadPermissions();
+
+    return () => {
+      active = false;
+    };
+  }, [authService, token, patchStoredSession]);
 
   useEffect(() => {
     if (!token || !enterpriseId) {
@@ -820,6 +1268,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const resolved = normalizeCurrencyCode(resolveEnterpriseCurrency(response.data)) ?? 'BRL';
         enterpriseCurrencyRef.current = enterpriseId;
         setCurrency(resolved);
+        setEnterprises((prev) => mergeEnterprises(enterpriseId, prev, [{ ...response.data, id: enterpriseId }]));
         await updateStoredCurrency(resolved);
       }
     };
@@ -829,10 +1278,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => {
       active = false;
     };
-  }, [token, enterpriseId, currency, updateStoredCurrency]);
+  }, [client, token, enterpriseId, currency, updateStoredCurrency]);
 
   const persistSession = useCallback(
-    async (response: ApiResponse<AuthTokens>, fallbackUser?: Partial<AuthUserProfile> | null) => {
+    async (
+      response: ApiResponse<AuthTokens>,
+      fallbackUser?: Partial<AuthUserProfile> | null,
+    ): Promise<AuthTokens | null> => {
+      const challenge = readTwoFactorChallenge(response.data);
+      if (challenge) {
+        await storeTwoFactorChallenge({ ...challenge, username: fallbackUser?.name ?? null });
+        return null;
+      }
+
       const nextToken = resolveTokenValue(response.data);
 
       if (!response.ok || !nextToken) {
@@ -840,33 +1298,49 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       const resolvedEnterpriseId = resolveEnterpriseId(response.data, nextToken);
+      const nextRefreshToken = resolveRefreshTokenValue(response.data);
       const expiresInMs = resolveExpiresInMs(response.data);
       const expiresAt = Date.now() + expiresInMs;
       const resolvedUser = resolveUserProfile(response.data, nextToken, fallbackUser ?? null);
+      const resolvedEnterprises = mergeEnterprises(
+        resolvedEnterpriseId ?? null,
+        response.data,
+        parseJwtPayload(nextToken),
+      );
+      const resolvedGrants = readPermissionGrants(response.data, parseJwtPayload(nextToken));
       const session: StoredSession = {
         token: nextToken,
+        refreshToken: nextRefreshToken,
         expiresAt,
         enterpriseId: resolvedEnterpriseId,
+        enterprises: resolvedEnterprises,
+        permissionGrants: resolvedGrants,
         currency: null,
         user: resolvedUser,
         theme: resolvedUser.theme ?? null,
       };
 
-      await AsyncStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(session));
+      await secureStorage.setItem(storageKey, JSON.stringify(session));
+      await storeTwoFactorChallenge(null);
       setToken(nextToken);
       setEnterpriseId(resolvedEnterpriseId);
+      setEnterprises(resolvedEnterprises);
+      setPermissionGrants(resolvedGrants);
       setCurrency(null);
       setUser(resolvedUser);
       client.setToken(nextToken);
-      scheduleLogout(expiresAt);
+      refreshTokenRef.current = nextRefreshToken;
+      scheduleSessionRenewal(expiresAt);
+      announceSession(true);
 
       return {
         token: nextToken,
+        refreshToken: nextRefreshToken ?? undefined,
         expiresIn: expiresInMs / 1000,
         enterpriseId: resolvedEnterpriseId ?? undefined,
       };
     },
-    [scheduleLogout],
+    [announceSession, client, scheduleSessionRenewal, storageKey, storeTwoFactorChallenge],
   );
 
   const setUserTheme = useCallback(
@@ -901,10 +1375,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         language: normalizedLanguage,
       });
 
+      const nextLanguage = normalizeLanguageCode(resolvedUser.language) ?? normalizedLanguage;
       setUser(resolvedUser);
-      await updateStoredLanguage(normalizeLanguageCode(resolvedUser.language) ?? normalizedLanguage);
+      await updateStoredLanguage(nextLanguage);
+      crossTabBridge.publish({ type: 'language', environmentId: environment.id, language: nextLanguage });
     },
-    [client, token, user, updateStoredLanguage],
+    [client, environment.id, token, user, updateStoredLanguage],
   );
 
   const setUserProfilePicture = useCallback(
@@ -937,7 +1413,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authService.login(credentials);
       return persistSession(response, { name: credentials.username });
     },
-    [persistSession],
+    [authService, persistSession],
   );
 
   const loginWithGoogle = useCallback(
@@ -948,7 +1424,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authService.loginWithGoogle(idToken);
       return persistSession(response);
     },
-    [persistSession],
+    [authService, persistSession],
   );
 
   const loginWithGoogleCode = useCallback(
@@ -959,13 +1435,185 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authService.loginWithGoogleCode(payload);
       return persistSession(response);
     },
-    [persistSession],
+    [authService, persistSession],
+  );
+
+  const loginWithOAuthCode = useCallback(
+    async (provider: OAuthProvider, payload: Omit<OAuthCodeExchangePayload, 'provider'>) => {
+      if (!payload?.code || !payload?.redirectUri) {
+        throw new Error('Missing authorization code or redirectUri');
+      }
+      const response = await authService.loginWithOAuthCode(provider.exchangePath, {
+        ...payload,
+        provider: provider.id,
+      });
+      return persistSession(response);
+    },
+    [authService, persistSession],
   );
 
+  const switchEnterprise = useCallback(
+    async (nextEnterpriseId: string) => {
+      if (!token || nextEnterpriseId === enterpriseId) {
+        return;
+      }
+      if (!enterprises.some((entry) => entry.id === nextEnterpriseId)) {
+        throw new Error('Enterprise not found for this user.');
+      }
+
+      const response = await authService.switchEnterprise(nextEnterpriseId);
+      // Backends without the endpoint scope data through the filters' enterpriseId alone; keep the current token.
+      const unsupported = response.status === 404 || response.status === 405 || response.status === 501;
+      if (!response.ok && !unsupported) {
+        throw new Error(response.error ?? 'Unable to switch enterprise');
+      }
+
+      const nextToken = response.ok ? resolveTokenValue(response.data) : null;
+      let renewed: Pick<StoredSession, 'token' | 'refreshToken' | 'expiresAt'> | null = null;
+      if (nextToken) {
+        const expiresAt = Date.now() + resolveExpiresInMs(response.data);
+        const nextRefreshToken = resolveRefreshTokenValue(response.data) ?? refreshTokenRef.current;
+        refreshTokenRef.current = nextRefreshToken;
+        client.setToken(nextToken);
+        setToken(nextToken);
+        scheduleSessionRenewal(expiresAt);
+        renewed = { token: nextToken, refreshToken: nextRefreshToken, expiresAt };
+      }
+
+      queryCache.clear();
+      enterpriseCurrencyRef.current = null;
+      setCurrency(null);
+      setEnterpriseId(nextEnterpriseId);
+      await patchStoredSession((session) => ({
+        ...session,
+        ...(renewed ?? {}),
+        enterpriseId: nextEnterpriseId,
+        currency: null,
+      }));
+    },
+    [authService, client, token, enterpriseId, enterprises, patchStoredSession, scheduleSessionRenewal],
+  );
+
+  const verifyTwoFactor = useCallback(
+    async ({ code, method, rememberDevice, isRecoveryCode }: TwoFactorVerifyInput) => {
+      if (!twoFactorChallenge || !isChallengeActive(twoFactorChallenge)) {
+        await storeTwoFactorChallenge(null);
+        throw new Error('The verification step expired. Sign in again.');
+      }
+
+      const response = await authService.verifyTwoFactor({
+        challengeToken: twoFactorChallenge.challengeToken,
+        code: code.trim(),
+        method,
+        rememberDevice,
+        isRecoveryCode,
+      });
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Invalid verification code');
+      }
+
+      const deviceToken = rememberDevice ? readRememberedDeviceToken(response.data) : null;
+      if (deviceToken) {
+        authService.setRememberedDeviceToken(deviceToken);
+        setHasRememberedDevice(true);
+        await secureStorage.setItem(deviceStorageKey, deviceToken);
+      }
+
+      return persistSession(response, { name: twoFactorChallenge.username ?? 'User' });
+    },
+    [authService, deviceStorageKey, persistSession, storeTwoFactorChallenge, twoFactorChallenge],
+  );
+
+  const resendTwoFactorCode = useCallback(
+    async (method: TwoFactorMethod) => {
+      if (!twoFactorChallenge) {
+        return;
+      }
+      const response = await authService.resendTwoFactorCode(twoFactorChallenge.challengeToken, method);
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to send a new code');
+      }
+      // Some backends issue a fresh challenge with the new code; keep whichever is newest.
+      const renewed = readTwoFactorChallenge(response.data);
+      await storeTwoFactorChallenge({
+        ...twoFactorChallenge,
+        ...(renewed ?? {}),
+        method,
+        username: twoFactorChallenge.username,
+      });
+    },
+    [authService, storeTwoFactorChallenge, twoFactorChallenge],
+  );
+
+  const cancelTwoFactor = useCallback(() => storeTwoFactorChallenge(null), [storeTwoFactorChallenge]);
+
+  const forgetThisDevice = useCallback(async () => {
+    authService.setRememberedDeviceToken(null);
+    setHasRememberedDevice(false);
+    await secureStorage.removeItem(deviceStorageKey);
+  }, [authService, deviceStorageKey]);
+
+  const changePassword = useCallback(
+    async (payload: ChangePasswordPayload) => {
+      const response = await authService.changePassword(payload);
+      if (response.status === 401) {
+        throw new Error('Current password is incorrect.');
+      }
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to change password');
+      }
+    },
+    [authService],
+  );
+
+  const requestPasswordReset = useCallback(
+    async (email: string) => {
+      const response = await authService.requestPasswordReset(email.trim());
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to send the reset code');
+      }
+    },
+    [authService],
+  );
+
+  const resetPassword = useCallback(
+    async (payload: ResetPasswordPayload) => {
+      const response = await authService.resetPassword({ ...payload, email: payload.email.trim() });
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to reset password');
+      }
+    },
+    [authService],
+  );
+
+  const extendSession = useCallback(async () => {
+    // A rejected refresh signs out through `refreshSession`; a transient failure keeps retrying in the background.
+    const nextToken = await client.refreshAuthToken();
+    if (!nextToken) {
+      throw new Error('Unable to extend the session');
+    }
+  }, [client]);
+
+  const clearLocalData = useCallback(async () => {
+    clearSessionState();
+    setTwoFactorChallenge(null);
+    setHasRememberedDevice(false);
+    authService.setRememberedDeviceToken(null);
+    await clearAllLocalData();
+    announceSession(false);
+  }, [announceSession, authService, clearSessionState]);
+
+  const switchEnvironment = useCallback(async (environmentId: string) => {
+    // The outgoing session stays stored under its own environment; only the in-memory state is swapped.
+    await apiEnvironmentStore.setActive(environmentId);
+  }, []);
+
   const value = useMemo(
     () => ({
       token,
       enterpriseId,
+      enterprises,
+      permissionGrants,
       currency,
       isAuthenticated: Boolean(token),
       loading,
@@ -973,25 +1621,63 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       login,
       loginWithGoogle,
       loginWithGoogleCode,
+      loginWithOAuthCode,
+      twoFactorChallenge,
+      verifyTwoFactor,
+      resendTwoFactorCode,
+      cancelTwoFactor,
+      hasRememberedDevice,
+      forgetThisDevice,
       setUserLanguage,
       setUserProfilePicture,
       setUserTheme,
       logout,
+      sessionExpiresAt: sessionExpiry?.expiresAt ?? null,
+      canExtendSession: Boolean(sessionExpiry?.renewable),
+      extendSession,
+      changePassword,
+      requestPasswordReset,
+      resetPassword,
+      clearLocalData,
       client,
+      authService,
+      environment,
+      switchEnvironment,
+      switchEnterprise,
     }),
     [
       token,
       enterpriseId,
+      enterprises,
+      permissionGrants,
       currency,
       loading,
       user,
       login,
       loginWithGoogle,
       loginWithGoogleCode,
+      loginWithOAuthCode,
+      twoFactorChallenge,
+      verifyTwoFactor,
+      resendTwoFactorCode,
+      cancelTwoFactor,
+      hasRememberedDevice,
+      forgetThisDevice,
       setUserLanguage,
       setUserProfilePicture,
       setUserTheme,
       logout,
+      sessionExpiry,
+      extendSession,
+      changePassword,
+      requestPasswordReset,
+      resetPassword,
+      clearLocalData,
+      client,
+      authService,
+      environment,
+      switchEnvironment,
+      switchEnterprise,
     ],
   );
 
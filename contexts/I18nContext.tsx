@@ -538,6 +538,367 @@ const dictionaryExtensions: Record<AppLanguage, TranslationDict> = {
     'BOOTING NERV SYSTEMS': 'INICIANDO SISTEMAS NERV',
     'Synchronizing EVA-01 | LCL pressure stable': 'Sincronizando EVA-01 | Pressao LCL estavel',
     Timeline: 'Linha do tempo',
+    'Syncing...': 'Sincronizando...',
+    Conflict: 'Conflito',
+    'Sync failed': 'Falha na sincronizacao',
+    'Pending sync': 'Sincronizacao pendente',
+    '{count} change(s) waiting to sync': '{count} alteracao(oes) aguardando sincronizacao',
+    'Sync now': 'Sincronizar agora',
+    Retry: 'Tentar novamente',
+    Discard: 'Descartar',
+    'Create order': 'Criar pedido',
+    'Update order': 'Atualizar pedido',
+    'Delete order': 'Excluir pedido',
+    'Create customer': 'Criar cliente',
+    'Update customer': 'Atualizar cliente',
+    'Deactivate customer': 'Desativar cliente',
+    'Create payable bill': 'Criar conta a pagar',
+    'Update payable bill': 'Atualizar conta a pagar',
+    'API Diagnostics': 'Diagnostico da API',
+    'Route variants detected for {baseUrl}': 'Variantes de rota detectadas para {baseUrl}',
+    'Detect again': 'Detectar novamente',
+    'Load payable bills': 'Carregar contas a pagar',
+    'Not detected yet': 'Ainda nao detectado',
+    'Detected at {date}': 'Detectado em {date}',
+    '{products} products | {orders} orders | {customers} customers loaded':
+      '{products} produtos | {orders} pedidos | {customers} clientes carregados',
+    'Counting customers... {count} loaded': 'Contando clientes... {count} carregados',
+    'Loading customers and products... {count} customers loaded':
+      'Carregando clientes e produtos... {count} clientes carregados',
+    'Unable to reach the server. Check your connection.':
+      'Nao foi possivel conectar ao servidor. Verifique sua conexao.',
+    'The server took too long to respond.': 'O servidor demorou demais para responder.',
+    'The server rejected the data sent.': 'O servidor rejeitou os dados enviados.',
+    'Your session is no longer valid. Sign in again.': 'Sua sessao nao e mais valida. Entre novamente.',
+    'You do not have permission for this action.': 'Voce nao tem permissao para esta acao.',
+    'This record was changed elsewhere. Reload and try again.':
+      'Este registro foi alterado em outro lugar. Recarregue e tente novamente.',
+    'The server failed to process the request (status {status}).':
+      'O servidor falhou ao processar a requisicao (status {status}).',
+    'Invalid fields: {fields}': 'Campos invalidos: {fields}',
+    '(request {id})': '(requisicao {id})',
+    'Unable to load customers': 'Nao foi possivel carregar os clientes',
+    'Unable to load reports': 'Nao foi possivel carregar os relatorios',
+    Diagnostics: 'Diagnostico',
+    'DEVELOPER DIAGNOSTICS': 'DIAGNOSTICO DE DESENVOLVIMENTO',
+    'Backend contract checks for this session': 'Verificacoes do contrato do backend nesta sessao',
+    'Schema drift': 'Divergencia de schema',
+    'Aliases, missing and unknown fields seen while normalizing API payloads':
+      'Aliases, campos ausentes e desconhecidos vistos ao normalizar respostas da API',
+    'Clear report': 'Limpar relatorio',
+    '{count} payloads | last {date}': '{count} registros | ultimo {date}',
+    'No payloads normalized yet': 'Nenhum registro normalizado ainda',
+    'Missing fields': 'Campos ausentes',
+    'Unknown fields': 'Campos desconhecidos',
+    'Alias hits': 'Aliases usados',
+    'Order items': 'Itens do pedido',
+    None: 'Nenhum',
+    Default: 'Padrao',
+    Use: 'Usar',
+    'API environments': 'Ambientes da API',
+    'API environment': 'Ambiente da API',
+    'API: {name}': 'API: {name}',
+    'Switch API environment': 'Trocar ambiente da API',
+    'Each environment keeps its own session': 'Cada ambiente mantem sua propria sessao',
+    'Switching signs you into the session stored for that environment.':
+      'Ao trocar, voce entra na sessao salva para aquele ambiente.',
+    'Add environment': 'Adicionar ambiente',
+    'New environment': 'Novo ambiente',
+    'Edit environment': 'Editar ambiente',
+    'Remove environment': 'Remover ambiente',
+    'Unable to save environment': 'Nao foi possivel salvar o ambiente',
+    'Base URL': 'URL base',
+    'Login path': 'Rota de login',
+    'Refresh path': 'Rota de renovacao',
+    'Orders hub URL': 'URL do hub de pedidos',
+    'Timeout (seconds)': 'Tempo limite (segundos)',
+    'Enter a valid http(s) URL': 'Informe uma URL http(s) valida',
+    'Paths must start with /': 'Rotas devem comecar com /',
+    'Use between 1 and 300 seconds': 'Use entre 1 e 300 segundos',
+    'Network log': 'Log de rede',
+    'Records API calls and live update events on this device, with credentials redacted':
+      'Registra chamadas da API e eventos de atualizacao ao vivo neste dispositivo, com credenciais ocultas',
+    '{count} entries recorded': '{count} registros gravados',
+    'Recording is off': 'Gravacao desligada',
+    'Open log': 'Abrir log',
+    '{shown} of {total} entries': '{shown} de {total} registros',
+    'Filter by path, status or request id...': 'Filtrar por rota, status ou id da requisicao...',
+    Errors: 'Erros',
+    HTTP: 'HTTP',
+    SignalR: 'SignalR',
+    'Export JSON': 'Exportar JSON',
+    'Clear log': 'Limpar log',
+    'No requests recorded yet': 'Nenhuma requisicao gravada ainda',
+    ERR: 'ERRO',
+    '{date} | {duration} ms | attempt {attempt}': '{date} | {duration} ms | tentativa {attempt}',
+    'Request id': 'Id da requisicao',
+    Error: 'Erro',
+    'Request headers': 'Cabecalhos da requisicao',
+    'Request body': 'Corpo da requisicao',
+    'Response headers': 'Cabecalhos da resposta',
+    'Response body': 'Corpo da resposta',
+    Hub: 'Hub',
+    'Switch enterprise': 'Trocar empresa',
+    'Select enterprise': 'Selecionar empresa',
+    'Enterprise {id}': 'Empresa {id}',
+    'Data on every screen reloads for the selected enterprise':
+      'Os dados de todas as telas sao recarregados para a empresa selecionada',
+    'Unable to switch enterprise': 'Nao foi possivel trocar de empresa',
+    'App locked': 'App bloqueado',
+    'Enter the PIN for {name}': 'Digite o PIN de {name}',
+    'Enter your PIN to continue': 'Digite seu PIN para continuar',
+    'Incorrect PIN. {count} attempts left.': 'PIN incorreto. Restam {count} tentativas.',
+    'Sign out instead': 'Sair da conta',
+    'App lock': 'Bloqueio do app',
+    'Ask for a PIN on this device after inactivity or when the app returns from background. {count} wrong PINs sign you out.':
+      'Pede um PIN neste dispositivo apos inatividade ou quando o app volta do segundo plano. {count} PINs errados encerram a sessao.',
+    'Lock after': 'Bloquear apos',
+    '{count} min': '{count} min',
+    'Change PIN': 'Alterar PIN',
+    'Lock now': 'Bloquear agora',
+    'Turn off app lock': 'Desativar bloqueio do app',
+    'Set up app lock': 'Configurar bloqueio do app',
+    'Enter your current PIN': 'Digite seu PIN atual',
+    'Choose a new PIN': 'Escolha um novo PIN',
+    'Repeat the new PIN': 'Repita o novo PIN',
+    '{count} digits': '{count} digitos',
+    'Incorrect PIN.': 'PIN incorreto.',
+    'PINs do not match. Try again.': 'Os PINs nao conferem. Tente novamente.',
+    'PIN must have 4 to 6 digits.': 'O PIN deve ter de 4 a 6 digitos.',
+    'Unable to save PIN.': 'Nao foi possivel salvar o PIN.',
+    'Local data': 'Dados locais',
+    'Your session and queued offline edits are encrypted with a key that never leaves this browser.':
+      'Sua sessao e as edicoes offline na fila sao criptografadas com uma chave que nunca sai deste navegador.',
+    'Your session and queued offline edits are kept in the device\'s secure storage.':
+      'Sua sessao e as edicoes offline na fila ficam no armazenamento seguro do dispositivo.',
+    'Secure storage is not available on this device; your session is stored without encryption.':
+      'Armazenamento seguro indisponivel neste dispositivo; sua sessao e salva sem criptografia.',
+    'This signs you out of every environment and removes queued offline edits, saved environments and preferences from this device.':
+      'Isso encerra a sessao em todos os ambientes e remove deste dispositivo as edicoes offline na fila, os ambientes salvos e as preferencias.',
+    'Clear everything': 'Apagar tudo',
+    'Clear all local data': 'Apagar todos os dados locais',
+    'Unable to clear local data.': 'Nao foi possivel apagar os dados locais.',
+    'Too weak': 'Muito fraca',
+    Weak: 'Fraca',
+    Fair: 'Razoavel',
+    Good: 'Boa',
+    Strong: 'Forte',
+    Add: 'Adicione',
+    'at least {count} characters': 'pelo menos {count} caracteres',
+    'an uppercase letter': 'uma letra maiuscula',
+    'a number': 'um numero',
+    'a symbol': 'um simbolo',
+    'Choose a stronger password.': 'Escolha uma senha mais forte.',
+    'Passwords do not match.': 'As senhas nao conferem.',
+    'The new password must be different from the current one.': 'A nova senha deve ser diferente da atual.',
+    'Current password': 'Senha atual',
+    'New password': 'Nova senha',
+    'Confirm new password': 'Confirme a nova senha',
+    'Enter your current password.': 'Informe sua senha atual.',
+    'Password changed.': 'Senha alterada.',
+    'Unable to change password': 'Nao foi possivel alterar a senha',
+    'Other devices stay signed in until their session expires.':
+      'Outros dispositivos continuam conectados ate a sessao expirar.',
+    'Change password': 'Alterar senha',
+    'Save password': 'Salvar senha',
+    'Forgot password?': 'Esqueceu a senha?',
+    'Reset password': 'Redefinir senha',
+    'Enter the email on your account and we will send you a reset code.':
+      'Informe o email da sua conta e enviaremos um codigo de redefinicao.',
+    'Enter the code sent to {email} and choose a new password.':
+      'Digite o codigo enviado para {email} e escolha uma nova senha.',
+    'Your password was reset. Sign in with the new password.': 'Sua senha foi redefinida. Entre com a nova senha.',
+    'Enter a valid email address.': 'Informe um email valido.',
+    'Enter the code sent to your email.': 'Digite o codigo enviado para seu email.',
+    'Unable to send the reset code': 'Nao foi possivel enviar o codigo de redefinicao',
+    'Unable to reset password': 'Nao foi possivel redefinir a senha',
+    'Send a new code': 'Enviar novo codigo',
+    'Send code': 'Enviar codigo',
+    'Back to sign in': 'Voltar ao login',
+    'Two-step verification': 'Verificacao em duas etapas',
+    'Authenticator app': 'App autenticador',
+    'Email code': 'Codigo por email',
+    'A new code was sent.': 'Um novo codigo foi enviado.',
+    'Unable to send a new code': 'Nao foi possivel enviar um novo codigo',
+    'Invalid verification code': 'Codigo de verificacao invalido',
+    'The verification step expired. Sign in again.': 'A etapa de verificacao expirou. Entre novamente.',
+    'Enter one of the recovery codes you saved when you turned on two-step verification.':
+      'Digite um dos codigos de recuperacao que voce salvou ao ativar a verificacao em duas etapas.',
+    'Enter the code we sent to {destination}.': 'Digite o codigo enviado para {destination}.',
+    'your email': 'seu email',
+    'Enter the 6-digit code from your authenticator app.': 'Digite o codigo de 6 digitos do seu app autenticador.',
+    'Recovery code': 'Codigo de recuperacao',
+    'Remember this device': 'Lembrar este dispositivo',
+    Verify: 'Verificar',
+    'Resend in {seconds}s': 'Reenviar em {seconds}s',
+    'Resend code': 'Reenviar codigo',
+    'Use a verification code': 'Usar um codigo de verificacao',
+    'Use a recovery code': 'Usar um codigo de recuperacao',
+    'Ask for a code from an authenticator app or your email after the password.':
+      'Pede um codigo do app autenticador ou do seu email depois da senha.',
+    On: 'Ativada',
+    Off: 'Desativada',
+    'Loading...': 'Carregando...',
+    'This server does not support two-step verification yet.':
+      'Este servidor ainda nao suporta verificacao em duas etapas.',
+    'Recovery codes': 'Codigos de recuperacao',
+    'Save your recovery codes': 'Salve seus codigos de recuperacao',
+    'Each code signs you in once if you lose access to your second factor. They will not be shown again.':
+      'Cada codigo permite entrar uma vez se voce perder o acesso ao segundo fator. Eles nao serao exibidos novamente.',
+    'Share codes': 'Compartilhar codigos',
+    'I saved them': 'Ja salvei',
+    'Use an authenticator app': 'Usar app autenticador',
+    'Use email codes': 'Usar codigos por email',
+    'Scan the QR code with your authenticator app, or type the key by hand, then enter the code it shows.':
+      'Escaneie o QR code com seu app autenticador ou digite a chave manualmente e informe o codigo exibido.',
+    'QR code': 'QR code',
+    'Open authenticator app': 'Abrir app autenticador',
+    'We sent a code to your email. Enter it to turn on two-step verification.':
+      'Enviamos um codigo para seu email. Digite-o para ativar a verificacao em duas etapas.',
+    'Codes are sent to your email.': 'Os codigos sao enviados para seu email.',
+    'Codes come from your authenticator app.': 'Os codigos vem do seu app autenticador.',
+    '{count} recovery codes left.': 'Restam {count} codigos de recuperacao.',
+    'Enter a current code to turn off two-step verification.':
+      'Digite um codigo atual para desativar a verificacao em duas etapas.',
+    'Enter a current code to replace your recovery codes.':
+      'Digite um codigo atual para substituir seus codigos de recuperacao.',
+    'New recovery codes': 'Novos codigos de recuperacao',
+    'Turn off': 'Desativar',
+    'Remembered devices': 'Dispositivos lembrados',
+    'This device': 'Este dispositivo',
+    'Last used {date}': 'Usado por ultimo em {date}',
+    Forget: 'Esquecer',
+    'Forget this device': 'Esquecer este dispositivo',
+    'Unable to load two-step verification settings':
+      'Nao foi possivel carregar as configuracoes de verificacao em duas etapas',
+    'Unable to start two-step verification setup':
+      'Nao foi possivel iniciar a configuracao da verificacao em duas etapas',
+    'Unable to forget device': 'Nao foi possivel esquecer o dispositivo',
+    'Request failed': 'Falha na requisicao',
+    'Unknown device': 'Dispositivo desconhecido',
+    'Your session ends in {time}': 'Sua sessao termina em {time}',
+    'Stay signed in to keep working. Unsaved forms are kept as drafts either way.':
+      'Continue conectado para seguir trabalhando. Formularios nao salvos ficam guardados como rascunho de qualquer forma.',
+    'You will need to sign in again. Unsaved forms are kept as drafts and reopen afterwards.':
+      'Voce precisara entrar novamente. Formularios nao salvos ficam guardados como rascunho e reabrem depois.',
+    'Stay signed in': 'Continuar conectado',
+    'Sign out': 'Sair',
+    'Unable to extend the session': 'Nao foi possivel estender a sessao',
+    'We restored the changes you had not saved before your session ended.':
+      'Restauramos as alteracoes que voce nao tinha salvo antes de a sessao terminar.',
+    'Continue with {provider}': 'Continuar com {provider}',
+    'ORGANIZATION ACCOUNT': 'CONTA DA ORGANIZACAO',
+    Users: 'Usuarios',
+    Admin: 'Administrador',
+    Manager: 'Gerente',
+    Supervisor: 'Supervisor',
+    Employee: 'Funcionario',
+    Invited: 'Convidado',
+    'All roles': 'Todos os perfis',
+    Role: 'Perfil',
+    Optional: 'Opcional',
+    You: 'Voce',
+    Invite: 'Convidar',
+    'Invite User': 'Convidar usuario',
+    'Send invite': 'Enviar convite',
+    'Sending...': 'Enviando...',
+    'Send link': 'Enviar link',
+    'Reset Password': 'Redefinir senha',
+    'Deactivate User': 'Desativar usuario',
+    'USER MANAGEMENT': 'GESTAO DE USUARIOS',
+    'Control who can access the ERP and what they can do': 'Controle quem acessa o ERP e o que cada um pode fazer',
+    'Search by name or email...': 'Buscar por nome ou email...',
+    'No users found': 'Nenhum usuario encontrado',
+    'Invite people by email to give them access.': 'Convide pessoas por email para dar acesso.',
+    'LCL circulation nominal | Loading users...': 'Circulacao LCL nominal | Carregando usuarios...',
+    'They will receive an email with a link to set their password.':
+      'A pessoa recebera um email com um link para definir a senha.',
+    'Last sign-in {date}': 'Ultimo acesso {date}',
+    'Never signed in': 'Nunca acessou',
+    'Invitation sent to {email}.': 'Convite enviado para {email}.',
+    '{name} is now {role}.': '{name} agora e {role}.',
+    '{name} can no longer sign in.': '{name} nao pode mais entrar.',
+    'A password reset link was sent to {email}.': 'Um link de redefinicao de senha foi enviado para {email}.',
+    'Send {name} a link to choose a new password?': 'Enviar para {name} um link para escolher uma nova senha?',
+    'Deactivate {name}? They will no longer be able to sign in.': 'Desativar {name}? A pessoa nao podera mais entrar.',
+    'Unable to load users': 'Nao foi possivel carregar os usuarios',
+    'Unable to invite user': 'Nao foi possivel convidar o usuario',
+    'Unable to change role': 'Nao foi possivel alterar o perfil',
+    'Unable to deactivate user': 'Nao foi possivel desativar o usuario',
+    'User id missing.': 'Id do usuario ausente.',
+    'Email is required': 'Email e obrigatorio',
+    'Enter a valid email address': 'Informe um email valido',
+    'Name is too short': 'Nome muito curto',
+    'Edit items': 'Editar itens',
+    'Save items': 'Salvar itens',
+    'Only {count} in stock': 'Apenas {count} em estoque',
+    '{name}: only {count} in stock.': '{name}: apenas {count} em estoque.',
+    'Unable to update order items': 'Nao foi possivel atualizar os itens do pedido',
+    'Admin override': 'Substituicao de admin',
+    'Tracking code': 'Codigo de rastreio',
+    'Override reason': 'Motivo da substituicao',
+    'This status change is not allowed.': 'Esta mudanca de status nao e permitida.',
+    'Describe why this status change is needed.': 'Descreva por que esta mudanca de status e necessaria.',
+    'Payment date is required to mark an order as Paid.':
+      'A data de pagamento e obrigatoria para marcar o pedido como Pago.',
+    'Tracking code is required to mark an order as Shipped.':
+      'O codigo de rastreio e obrigatorio para marcar o pedido como Enviado.',
+    'Order is already in this status.': 'O pedido ja esta neste status.',
+    Change: 'Alterar',
+    'Pick date': 'Escolher data',
+    History: 'Historico',
+    'Recorded on this device': 'Registrado neste dispositivo',
+    'Loading history...': 'Carregando historico...',
+    'No history yet.': 'Nenhum historico ainda.',
+    'Line items updated': 'Itens do pedido atualizados',
+    'Line items updated: {items} items, {total}': 'Itens do pedido atualizados: {items} itens, {total}',
+    'Payment recorded': 'Pagamento registrado',
+    'Payment recorded for {date}': 'Pagamento registrado em {date}',
+    'Status changed': 'Status alterado',
+    'Status changed to {to}': 'Status alterado para {to}',
+    'Status changed from {from} to {to}': 'Status alterado de {from} para {to}',
+    'Unknown user': 'Usuario desconhecido',
+    Manual: 'Manual',
+    Automation: 'Automacao',
+    'Order history': 'Historico de pedidos',
+    'Change status': 'Alterar status',
+    'Generate boletos': 'Gerar boletos',
+    'Delete orders': 'Excluir pedidos',
+    'Clear selection': 'Limpar selecao',
+    'Select all on page': 'Selecionar todos da pagina',
+    'Select order #{id}': 'Selecionar pedido #{id}',
+    'Retry failed': 'Tentar falhas novamente',
+    'Unable to export orders': 'Nao foi possivel exportar os pedidos',
+    'Move {count} orders to the selected status.': 'Mover {count} pedidos para o status selecionado.',
+    'Delete {count} orders? This action cannot be undone.': 'Excluir {count} pedidos? Esta acao nao pode ser desfeita.',
+    'Generate a boleto for each of the {count} selected orders.':
+      'Gerar um boleto para cada um dos {count} pedidos selecionados.',
+    'Payments are recorded with the current date and time.': 'Os pagamentos sao registrados com a data e hora atuais.',
+    'Orders without a tracking code will fail and can be shipped one by one.':
+      'Pedidos sem codigo de rastreio vao falhar e podem ser enviados um a um.',
+    'No status change is allowed for every selected order.':
+      'Nenhuma mudanca de status e permitida para todos os pedidos selecionados.',
+    '{done} of {total} processed': '{done} de {total} processados',
+    '{succeeded} succeeded · {failed} failed': '{succeeded} com sucesso · {failed} com falha',
+    List: 'Lista',
+    Board: 'Quadro',
+    'Move order': 'Mover pedido',
+    'Move to': 'Mover para',
+    'No orders': 'Nenhum pedido',
+    '{count} orders loaded': '{count} pedidos carregados',
+    'Current password is incorrect.': 'A senha atual esta incorreta.',
+    'This record no longer exists. Reload and try again.':
+      'Este registro nao existe mais. Recarregue e tente novamente.',
+    'Not every record could be loaded, so these totals may be incomplete.':
+      'Nem todos os registros puderam ser carregados, entao estes totais podem estar incompletos.',
+    'Counts cover the first {count} customers only; the rest could not be loaded.':
+      'As contagens cobrem apenas os primeiros {count} clientes; os demais nao puderam ser carregados.',
+    'Not every order could be loaded, so order counts and totals may be incomplete.':
+      'Nem todos os pedidos puderam ser carregados, entao a contagem e os totais de pedidos podem estar incompletos.',
+    'The board shows the first {count} orders only; the rest could not be loaded.':
+      'O quadro mostra apenas os primeiros {count} pedidos; os demais nao puderam ser carregados.',
+    'Only the first {count} customers were loaded; some may be missing from this list.':
+      'Apenas os primeiros {count} clientes foram carregados; alguns podem faltar nesta lista.',
   },
   es: {
     'Active Customers': 'Clientes activos',
@@ -860,6 +1221,368 @@ const dictionaryExtensions: Record<AppLanguage, TranslationDict> = {
     '{name} quantity: {message}.': '{name} cantidad: {message}.',
     '{name} value: {message}.': 'Valor {name}: {message}.',
     '{value} days': '{value} días',
+    'Syncing...': 'Sincronizando...',
+    Conflict: 'Conflicto',
+    'Sync failed': 'Error de sincronización',
+    'Pending sync': 'Sincronización pendiente',
+    '{count} change(s) waiting to sync': '{count} cambio(s) esperando sincronización',
+    'Sync now': 'Sincronizar ahora',
+    Retry: 'Reintentar',
+    Discard: 'Descartar',
+    'Create order': 'Crear pedido',
+    'Update order': 'Actualizar pedido',
+    'Delete order': 'Eliminar pedido',
+    'Create customer': 'Crear cliente',
+    'Update customer': 'Actualizar cliente',
+    'Deactivate customer': 'Desactivar cliente',
+    'Create payable bill': 'Crear cuenta por pagar',
+    'Update payable bill': 'Actualizar cuenta por pagar',
+    'API Diagnostics': 'Diagnóstico de la API',
+    'Route variants detected for {baseUrl}': 'Variantes de ruta detectadas para {baseUrl}',
+    'Detect again': 'Detectar de nuevo',
+    'Load payable bills': 'Cargar cuentas por pagar',
+    'Not detected yet': 'Aún no detectado',
+    'Detected at {date}': 'Detectado el {date}',
+    '{products} products | {orders} orders | {customers} customers loaded':
+      '{products} productos | {orders} pedidos | {customers} clientes cargados',
+    'Counting customers... {count} loaded': 'Contando clientes... {count} cargados',
+    'Loading customers and products... {count} customers loaded':
+      'Cargando clientes y productos... {count} clientes cargados',
+    'Unable to reach the server. Check your connection.': 'No se pudo conectar con el servidor. Revisa tu conexión.',
+    'The server took too long to respond.': 'El servidor tardó demasiado en responder.',
+    'The server rejected the data sent.': 'El servidor rechazó los datos enviados.',
+    'Your session is no longer valid. Sign in again.': 'Tu sesión ya no es válida. Inicia sesión de nuevo.',
+    'You do not have permission for this action.': 'No tienes permiso para esta acción.',
+    'This record was changed elsewhere. Reload and try again.':
+      'Este registro se modificó en otro lugar. Recarga e inténtalo de nuevo.',
+    'The server failed to process the request (status {status}).':
+      'El servidor no pudo procesar la solicitud (estado {status}).',
+    'Invalid fields: {fields}': 'Campos no válidos: {fields}',
+    '(request {id})': '(solicitud {id})',
+    'Unable to load customers': 'No se pudieron cargar los clientes',
+    'Unable to load reports': 'No se pudieron cargar los informes',
+    Diagnostics: 'Diagnóstico',
+    'DEVELOPER DIAGNOSTICS': 'DIAGNÓSTICO DE DESARROLLO',
+    'Backend contract checks for this session': 'Verificaciones del contrato del backend en esta sesión',
+    'Schema drift': 'Desvío de esquema',
+    'Aliases, missing and unknown fields seen while normalizing API payloads':
+      'Alias, campos faltantes y desconocidos vistos al normalizar respuestas de la API',
+    'Clear report': 'Limpiar informe',
+    '{count} payloads | last {date}': '{count} registros | último {date}',
+    'No payloads normalized yet': 'Aún no se normalizó ningún registro',
+    'Missing fields': 'Campos faltantes',
+    'Unknown fields': 'Campos desconocidos',
+    'Alias hits': 'Alias usados',
+    'Order items': 'Artículos del pedido',
+    None: 'Ninguno',
+    Default: 'Predeterminado',
+    Use: 'Usar',
+    Required: 'Obligatorio',
+    'API environments': 'Entornos de la API',
+    'API environment': 'Entorno de la API',
+    'API: {name}': 'API: {name}',
+    'Switch API environment': 'Cambiar entorno de la API',
+    'Each environment keeps its own session': 'Cada entorno mantiene su propia sesión',
+    'Switching signs you into the session stored for that environment.':
+      'Al cambiar, entras en la sesión guardada para ese entorno.',
+    'Add environment': 'Agregar entorno',
+    'New environment': 'Nuevo entorno',
+    'Edit environment': 'Editar entorno',
+    'Remove environment': 'Eliminar entorno',
+    'Unable to save environment': 'No se pudo guardar el entorno',
+    'Base URL': 'URL base',
+    'Login path': 'Ruta de inicio de sesión',
+    'Refresh path': 'Ruta de renovación',
+    'Orders hub URL': 'URL del hub de pedidos',
+    'Timeout (seconds)': 'Tiempo de espera (segundos)',
+    'Enter a valid http(s) URL': 'Ingresa una URL http(s) válida',
+    'Paths must start with /': 'Las rutas deben comenzar con /',
+    'Use between 1 and 300 seconds': 'Usa entre 1 y 300 segundos',
+    'Network log': 'Registro de red',
+    'Records API calls and live update events on this device, with credentials redacted':
+      'Registra llamadas a la API y eventos de actualización en vivo en este dispositivo, con credenciales ocultas',
+    '{count} entries recorded': '{count} entradas registradas',
+    'Recording is off': 'Grabación desactivada',
+    'Open log': 'Abrir registro',
+    '{shown} of {total} entries': '{shown} de {total} entradas',
+    'Filter by path, status or request id...': 'Filtrar por ruta, estado o id de solicitud...',
+    Errors: 'Errores',
+    HTTP: 'HTTP',
+    SignalR: 'SignalR',
+    'Export JSON': 'Exportar JSON',
+    'Clear log': 'Limpiar registro',
+    'No requests recorded yet': 'Aún no hay solicitudes registradas',
+    ERR: 'ERR',
+    '{date} | {duration} ms | attempt {attempt}': '{date} | {duration} ms | intento {attempt}',
+    'Request id': 'Id de solicitud',
+    Error: 'Error',
+    'Request headers': 'Encabezados de la solicitud',
+    'Request body': 'Cuerpo de la solicitud',
+    'Response headers': 'Encabezados de la respuesta',
+    'Response body': 'Cuerpo de la respuesta',
+    Hub: 'Hub',
+    'Switch enterprise': 'Cambiar empresa',
+    'Select enterprise': 'Seleccionar empresa',
+    'Enterprise {id}': 'Empresa {id}',
+    'Data on every screen reloads for the selected enterprise':
+      'Los datos de todas las pantallas se recargan para la empresa seleccionada',
+    'Unable to switch enterprise': 'No se pudo cambiar de empresa',
+    'App locked': 'App bloqueada',
+    'Enter the PIN for {name}': 'Introduce el PIN de {name}',
+    'Enter your PIN to continue': 'Introduce tu PIN para continuar',
+    'Incorrect PIN. {count} attempts left.': 'PIN incorrecto. Quedan {count} intentos.',
+    'Sign out instead': 'Cerrar sesión',
+    'App lock': 'Bloqueo de la app',
+    'Ask for a PIN on this device after inactivity or when the app returns from background. {count} wrong PINs sign you out.':
+      'Pide un PIN en este dispositivo tras inactividad o cuando la app vuelve del segundo plano. {count} PIN incorrectos cierran la sesión.',
+    'Lock after': 'Bloquear tras',
+    '{count} min': '{count} min',
+    'Change PIN': 'Cambiar PIN',
+    'Lock now': 'Bloquear ahora',
+    'Turn off app lock': 'Desactivar bloqueo de la app',
+    'Set up app lock': 'Configurar bloqueo de la app',
+    'Enter your current PIN': 'Introduce tu PIN actual',
+    'Choose a new PIN': 'Elige un nuevo PIN',
+    'Repeat the new PIN': 'Repite el nuevo PIN',
+    '{count} digits': '{count} dígitos',
+    'Incorrect PIN.': 'PIN incorrecto.',
+    'PINs do not match. Try again.': 'Los PIN no coinciden. Inténtalo de nuevo.',
+    'PIN must have 4 to 6 digits.': 'El PIN debe tener de 4 a 6 dígitos.',
+    'Unable to save PIN.': 'No se pudo guardar el PIN.',
+    'Local data': 'Datos locales',
+    'Your session and queued offline edits are encrypted with a key that never leaves this browser.':
+      'Tu sesion y las ediciones sin conexion en cola se cifran con una clave que nunca sale de este navegador.',
+    'Your session and queued offline edits are kept in the device\'s secure storage.':
+      'Tu sesion y las ediciones sin conexion en cola se guardan en el almacenamiento seguro del dispositivo.',
+    'Secure storage is not available on this device; your session is stored without encryption.':
+      'El almacenamiento seguro no esta disponible en este dispositivo; tu sesion se guarda sin cifrar.',
+    'This signs you out of every environment and removes queued offline edits, saved environments and preferences from this device.':
+      'Esto cierra la sesion en todos los entornos y elimina de este dispositivo las ediciones sin conexion en cola, los entornos guardados y las preferencias.',
+    'Clear everything': 'Borrar todo',
+    'Clear all local data': 'Borrar todos los datos locales',
+    'Unable to clear local data.': 'No se pudieron borrar los datos locales.',
+    'Too weak': 'Muy debil',
+    Weak: 'Debil',
+    Fair: 'Aceptable',
+    Good: 'Buena',
+    Strong: 'Fuerte',
+    Add: 'Agrega',
+    'at least {count} characters': 'al menos {count} caracteres',
+    'an uppercase letter': 'una letra mayuscula',
+    'a number': 'un numero',
+    'a symbol': 'un simbolo',
+    'Choose a stronger password.': 'Elige una contrasena mas segura.',
+    'Passwords do not match.': 'Las contrasenas no coinciden.',
+    'The new password must be different from the current one.': 'La nueva contrasena debe ser distinta de la actual.',
+    'Current password': 'Contrasena actual',
+    'New password': 'Nueva contrasena',
+    'Confirm new password': 'Confirma la nueva contrasena',
+    'Enter your current password.': 'Introduce tu contrasena actual.',
+    'Password changed.': 'Contrasena cambiada.',
+    'Unable to change password': 'No se pudo cambiar la contrasena',
+    'Other devices stay signed in until their session expires.':
+      'Los demas dispositivos siguen conectados hasta que caduque su sesion.',
+    'Change password': 'Cambiar contrasena',
+    'Save password': 'Guardar contrasena',
+    'Forgot password?': 'Olvidaste tu contrasena?',
+    'Reset password': 'Restablecer contrasena',
+    'Enter the email on your account and we will send you a reset code.':
+      'Introduce el correo de tu cuenta y te enviaremos un codigo de restablecimiento.',
+    'Enter the code sent to {email} and choose a new password.':
+      'Introduce el codigo enviado a {email} y elige una nueva contrasena.',
+    'Your password was reset. Sign in with the new password.':
+      'Tu contrasena se restablecio. Inicia sesion con la nueva contrasena.',
+    'Enter a valid email address.': 'Introduce un correo valido.',
+    'Enter the code sent to your email.': 'Introduce el codigo enviado a tu correo.',
+    'Unable to send the reset code': 'No se pudo enviar el codigo de restablecimiento',
+    'Unable to reset password': 'No se pudo restablecer la contrasena',
+    'Send a new code': 'Enviar un codigo nuevo',
+    'Send code': 'Enviar codigo',
+    'Back to sign in': 'Volver al inicio de sesion',
+    'Two-step verification': 'Verificacion en dos pasos',
+    'Authenticator app': 'App de autenticacion',
+    'Email code': 'Codigo por correo',
+    'A new code was sent.': 'Se envio un codigo nuevo.',
+    'Unable to send a new code': 'No se pudo enviar un codigo nuevo',
+    'Invalid verification code': 'Codigo de verificacion no valido',
+    'The verification step expired. Sign in again.': 'El paso de verificacion caduco. Inicia sesion de nuevo.',
+    'Enter one of the recovery codes you saved when you turned on two-step verification.':
+      'Introduce uno de los codigos de recuperacion que guardaste al activar la verificacion en dos pasos.',
+    'Enter the code we sent to {destination}.': 'Introduce el codigo que enviamos a {destination}.',
+    'your email': 'tu correo',
+    'Enter the 6-digit code from your authenticator app.':
+      'Introduce el codigo de 6 digitos de tu app de autenticacion.',
+    'Recovery code': 'Codigo de recuperacion',
+    'Remember this device': 'Recordar este dispositivo',
+    Verify: 'Verificar',
+    'Resend in {seconds}s': 'Reenviar en {seconds}s',
+    'Resend code': 'Reenviar codigo',
+    'Use a verification code': 'Usar un codigo de verificacion',
+    'Use a recovery code': 'Usar un codigo de recuperacion',
+    'Ask for a code from an authenticator app or your email after the password.':
+      'Pide un codigo de la app de autenticacion o de tu correo despues de la contrasena.',
+    On: 'Activada',
+    Off: 'Desactivada',
+    'Loading...': 'Cargando...',
+    'This server does not support two-step verification yet.':
+      'Este servidor aun no admite la verificacion en dos pasos.',
+    'Recovery codes': 'Codigos de recuperacion',
+    'Save your recovery codes': 'Guarda tus codigos de recuperacion',
+    'Each code signs you in once if you lose access to your second factor. They will not be shown again.':
+      'Cada codigo permite iniciar sesion una vez si pierdes el acceso a tu segundo factor. No se volveran a mostrar.',
+    'Share codes': 'Compartir codigos',
+    'I saved them': 'Ya los guarde',
+    'Use an authenticator app': 'Usar app de autenticacion',
+    'Use email codes': 'Usar codigos por correo',
+    'Scan the QR code with your authenticator app, or type the key by hand, then enter the code it shows.':
+      'Escanea el codigo QR con tu app de autenticacion o escribe la clave a mano y luego introduce el codigo que muestra.',
+    'QR code': 'Codigo QR',
+    'Open authenticator app': 'Abrir app de autenticacion',
+    'We sent a code to your email. Enter it to turn on two-step verification.':
+      'Enviamos un codigo a tu correo. Introducelo para activar la verificacion en dos pasos.',
+    'Codes are sent to your email.': 'Los codigos se envian a tu correo.',
+    'Codes come from your authenticator app.': 'Los codigos vienen de tu app de autenticacion.',
+    '{count} recovery codes left.': 'Quedan {count} codigos de recuperacion.',
+    'Enter a current code to turn off two-step verification.':
+      'Introduce un codigo actual para desactivar la verificacion en dos pasos.',
+    'Enter a current code to replace your recovery codes.':
+      'Introduce un codigo actual para reemplazar tus codigos de recuperacion.',
+    'New recovery codes': 'Nuevos codigos de recuperacion',
+    'Turn off': 'Desactivar',
+    'Remembered devices': 'Dispositivos recordados',
+    'This device': 'Este dispositivo',
+    'Last used {date}': 'Ultimo uso {date}',
+    Forget: 'Olvidar',
+    'Forget this device': 'Olvidar este dispositivo',
+    'Unable to load two-step verification settings': 'No se pudo cargar la configuracion de verificacion en dos pasos',
+    'Unable to start two-step verification setup':
+      'No se pudo iniciar la configuracion de la verificacion en dos pasos',
+    'Unable to forget device': 'No se pudo olvidar el dispositivo',
+    'Request failed': 'La solicitud fallo',
+    'Unknown device': 'Dispositivo desconocido',
+    'Your session ends in {time}': 'Tu sesion termina en {time}',
+    'Stay signed in to keep working. Unsaved forms are kept as drafts either way.':
+      'Mantente conectado para seguir trabajando. Los formularios sin guardar se conservan como borrador de todos modos.',
+    'You will need to sign in again. Unsaved forms are kept as drafts and reopen afterwards.':
+      'Tendras que iniciar sesion de nuevo. Los formularios sin guardar se conservan como borrador y se reabren despues.',
+    'Stay signed in': 'Seguir conectado',
+    'Sign out': 'Cerrar sesion',
+    'Unable to extend the session': 'No se pudo extender la sesion',
+    'We restored the changes you had not saved before your session ended.':
+      'Restauramos los cambios que no habias guardado antes de que terminara la sesion.',
+    'Continue with {provider}': 'Continuar con {provider}',
+    'ORGANIZATION ACCOUNT': 'CUENTA DE LA ORGANIZACION',
+    Users: 'Usuarios',
+    Admin: 'Administrador',
+    Manager: 'Gerente',
+    Supervisor: 'Supervisor',
+    Employee: 'Empleado',
+    Invited: 'Invitado',
+    'All roles': 'Todos los roles',
+    Role: 'Rol',
+    Optional: 'Opcional',
+    You: 'Tu',
+    Invite: 'Invitar',
+    'Invite User': 'Invitar usuario',
+    'Send invite': 'Enviar invitacion',
+    'Sending...': 'Enviando...',
+    'Send link': 'Enviar enlace',
+    'Reset Password': 'Restablecer contrasena',
+    'Deactivate User': 'Desactivar usuario',
+    'USER MANAGEMENT': 'GESTION DE USUARIOS',
+    'Control who can access the ERP and what they can do': 'Controla quien accede al ERP y que puede hacer',
+    'Search by name or email...': 'Buscar por nombre o email...',
+    'No users found': 'No se encontraron usuarios',
+    'Invite people by email to give them access.': 'Invita personas por email para darles acceso.',
+    'LCL circulation nominal | Loading users...': 'Circulacion LCL nominal | Cargando usuarios...',
+    'They will receive an email with a link to set their password.':
+      'Recibira un email con un enlace para definir su contrasena.',
+    'Last sign-in {date}': 'Ultimo acceso {date}',
+    'Never signed in': 'Nunca accedio',
+    'Invitation sent to {email}.': 'Invitacion enviada a {email}.',
+    '{name} is now {role}.': '{name} ahora es {role}.',
+    '{name} can no longer sign in.': '{name} ya no puede iniciar sesion.',
+    'A password reset link was sent to {email}.': 'Se envio un enlace de restablecimiento a {email}.',
+    'Send {name} a link to choose a new password?': 'Enviar a {name} un enlace para elegir una nueva contrasena?',
+    'Deactivate {name}? They will no longer be able to sign in.': 'Desactivar a {name}? Ya no podra iniciar sesion.',
+    'Unable to load users': 'No se pudieron cargar los usuarios',
+    'Unable to invite user': 'No se pudo invitar al usuario',
+    'Unable to change role': 'No se pudo cambiar el rol',
+    'Unable to deactivate user': 'No se pudo desactivar al usuario',
+    'User id missing.': 'Falta el id del usuario.',
+    'Email is required': 'El email es obligatorio',
+    'Enter a valid email address': 'Ingresa un email valido',
+    'Name is too short': 'Nombre demasiado corto',
+    'Edit items': 'Editar articulos',
+    'Save items': 'Guardar articulos',
+    'Only {count} in stock': 'Solo {count} en stock',
+    '{name}: only {count} in stock.': '{name}: solo {count} en stock.',
+    'Unable to update order items': 'No se pudieron actualizar los articulos del pedido',
+    'Admin override': 'Anulacion de admin',
+    'Tracking code': 'Codigo de seguimiento',
+    'Override reason': 'Motivo de la anulacion',
+    'This status change is not allowed.': 'Este cambio de estado no esta permitido.',
+    'Describe why this status change is needed.': 'Describa por que se necesita este cambio de estado.',
+    'Payment date is required to mark an order as Paid.':
+      'La fecha de pago es obligatoria para marcar el pedido como Pagado.',
+    'Tracking code is required to mark an order as Shipped.':
+      'El codigo de seguimiento es obligatorio para marcar el pedido como Enviado.',
+    'Order is already in this status.': 'El pedido ya esta en este estado.',
+    Change: 'Cambiar',
+    'Pick date': 'Elegir fecha',
+    History: 'Historial',
+    'Recorded on this device': 'Registrado en este dispositivo',
+    'Loading history...': 'Cargando historial...',
+    'No history yet.': 'Aun no hay historial.',
+    'Line items updated': 'Articulos del pedido actualizados',
+    'Line items updated: {items} items, {total}': 'Articulos del pedido actualizados: {items} articulos, {total}',
+    'Payment recorded': 'Pago registrado',
+    'Payment recorded for {date}': 'Pago registrado el {date}',
+    'Status changed': 'Estado cambiado',
+    'Status changed to {to}': 'Estado cambiado a {to}',
+    'Status changed from {from} to {to}': 'Estado cambiado de {from} a {to}',
+    'Unknown user': 'Usuario desconocido',
+    Manual: 'Manual',
+    Automation: 'Automatizacion',
+    'Order history': 'Historial de pedidos',
+    'Change status': 'Cambiar estado',
+    'Generate boletos': 'Generar boletos',
+    'Delete orders': 'Eliminar pedidos',
+    'Clear selection': 'Limpiar seleccion',
+    'Select all on page': 'Seleccionar todos en la pagina',
+    'Select order #{id}': 'Seleccionar pedido #{id}',
+    'Retry failed': 'Reintentar fallidos',
+    'Unable to export orders': 'No se pudieron exportar los pedidos',
+    'Move {count} orders to the selected status.': 'Mover {count} pedidos al estado seleccionado.',
+    'Delete {count} orders? This action cannot be undone.':
+      'Eliminar {count} pedidos? Esta accion no se puede deshacer.',
+    'Generate a boleto for each of the {count} selected orders.':
+      'Generar un boleto para cada uno de los {count} pedidos seleccionados.',
+    'Payments are recorded with the current date and time.': 'Los pagos se registran con la fecha y hora actuales.',
+    'Orders without a tracking code will fail and can be shipped one by one.':
+      'Los pedidos sin codigo de seguimiento fallaran y pueden enviarse uno a uno.',
+    'No status change is allowed for every selected order.':
+      'Ningun cambio de estado esta permitido para todos los pedidos seleccionados.',
+    '{done} of {total} processed': '{done} de {total} procesados',
+    '{succeeded} succeeded · {failed} failed': '{succeeded} exitosos · {failed} fallidos',
+    List: 'Lista',
+    Board: 'Tablero',
+    'Move order': 'Mover pedido',
+    'Move to': 'Mover a',
+    'No orders': 'Sin pedidos',
+    '{count} orders loaded': '{count} pedidos cargados',
+    'Current password is incorrect.': 'La contrasena actual es incorrecta.',
+    'This record no longer exists. Reload and try again.': 'Este registro ya no existe. Recarga e intentalo de nuevo.',
+    'Not every record could be loaded, so these totals may be incomplete.':
+      'No se pudieron cargar todos los registros, asi que estos totales pueden estar incompletos.',
+    'Counts cover the first {count} customers only; the rest could not be loaded.':
+      'Los conteos solo cubren los primeros {count} clientes; el resto no se pudo cargar.',
+    'Not every order could be loaded, so order counts and totals may be incomplete.':
+      'No se pudieron cargar todos los pedidos, asi que los conteos y totales de pedidos pueden estar incompletos.',
+    'The board shows the first {count} orders only; the rest could not be loaded.':
+      'El tablero solo muestra los primeros {count} pedidos; el resto no se pudo cargar.',
+    'Only the first {count} customers were loaded; some may be missing from this list.':
+      'Solo se cargaron los primeros {count} clientes; puede que falten algunos en esta lista.',
   },
   ja: {
     'Active Customers': 'アクティブな顧客',
@@ -1182,6 +1905,342 @@ const dictionaryExtensions: Record<AppLanguage, TranslationDict> = {
     '{name} quantity: {message}.': '{name} 数量: {message}。',
     '{name} value: {message}.': '{name} 値: {message}。',
     '{value} days': '{value}日',
+    'Syncing...': '同期中...',
+    Conflict: '競合',
+    'Sync failed': '同期失敗',
+    'Pending sync': '同期待ち',
+    '{count} change(s) waiting to sync': '{count} 件の変更が同期待ちです',
+    'Sync now': '今すぐ同期',
+    Retry: '再試行',
+    Discard: '破棄',
+    'Create order': '注文を作成',
+    'Update order': '注文を更新',
+    'Delete order': '注文を削除',
+    'Create customer': '顧客を作成',
+    'Update customer': '顧客を更新',
+    'Deactivate customer': '顧客を無効化',
+    'Create payable bill': '支払請求書を作成',
+    'Update payable bill': '支払請求書を更新',
+    'API Diagnostics': 'API診断',
+    'Route variants detected for {baseUrl}': '{baseUrl} で検出されたルート',
+    'Detect again': '再検出',
+    'Load payable bills': '支払請求書を読み込む',
+    'Not detected yet': '未検出',
+    'Detected at {date}': '検出日時 {date}',
+    '{products} products | {orders} orders | {customers} customers loaded':
+      '商品 {products} 件 | 注文 {orders} 件 | 顧客 {customers} 件を読み込み済み',
+    'Counting customers... {count} loaded': '顧客を集計中... {count} 件読み込み済み',
+    'Loading customers and products... {count} customers loaded': '顧客と商品を読み込み中... 顧客 {count} 件読み込み済み',
+    'Unable to reach the server. Check your connection.': 'サーバーに接続できません。接続を確認してください。',
+    'The server took too long to respond.': 'サーバーの応答がタイムアウトしました。',
+    'The server rejected the data sent.': '送信したデータがサーバーに拒否されました。',
+    'Your session is no longer valid. Sign in again.': 'セッションが無効です。再度サインインしてください。',
+    'You do not have permission for this action.': 'この操作を行う権限がありません。',
+    'This record was changed elsewhere. Reload and try again.': 'このレコードは他で変更されました。再読み込みしてやり直してください。',
+    'The server failed to process the request (status {status}).': 'サーバーでリクエストの処理に失敗しました (ステータス {status})。',
+    'Invalid fields: {fields}': '無効な項目: {fields}',
+    '(request {id})': '(リクエスト {id})',
+    'Unable to load customers': '顧客を読み込めません',
+    'Unable to load reports': 'レポートを読み込めません',
+    Diagnostics: '診断',
+    'DEVELOPER DIAGNOSTICS': '開発者診断',
+    'Backend contract checks for this session': 'このセッションのバックエンド契約チェック',
+    'Schema drift': 'スキーマのずれ',
+    'Aliases, missing and unknown fields seen while normalizing API payloads': 'APIペイロードの正規化で検出されたエイリアス・欠落・未知のフィールド',
+    'Clear report': 'レポートをクリア',
+    '{count} payloads | last {date}': '{count} 件 | 最終 {date}',
+    'No payloads normalized yet': 'まだ正規化されたデータはありません',
+    'Missing fields': '欠落フィールド',
+    'Unknown fields': '未知のフィールド',
+    'Alias hits': '使用されたエイリアス',
+    'Order items': '注文明細',
+    None: 'なし',
+    Default: 'デフォルト',
+    Use: '使用',
+    Required: '必須',
+    'API environments': 'API環境',
+    'API environment': 'API環境',
+    'API: {name}': 'API: {name}',
+    'Switch API environment': 'API環境を切り替え',
+    'Each environment keeps its own session': '環境ごとに個別のセッションを保持します',
+    'Switching signs you into the session stored for that environment.': '切り替えると、その環境に保存されたセッションでサインインします。',
+    'Add environment': '環境を追加',
+    'New environment': '新しい環境',
+    'Edit environment': '環境を編集',
+    'Remove environment': '環境を削除',
+    'Unable to save environment': '環境を保存できません',
+    'Base URL': 'ベースURL',
+    'Login path': 'ログインパス',
+    'Refresh path': '更新パス',
+    'Orders hub URL': '注文ハブURL',
+    'Timeout (seconds)': 'タイムアウト（秒）',
+    'Enter a valid http(s) URL': '有効な http(s) URL を入力してください',
+    'Paths must start with /': 'パスは / で始める必要があります',
+    'Use between 1 and 300 seconds': '1〜300秒の範囲で指定してください',
+    'Network log': 'ネットワークログ',
+    'Records API calls and live update events on this device, with credentials redacted':
+      'この端末のAPI呼び出しとライブ更新イベントを記録します（認証情報は伏せられます）',
+    '{count} entries recorded': '{count} 件を記録済み',
+    'Recording is off': '記録はオフです',
+    'Open log': 'ログを開く',
+    '{shown} of {total} entries': '{total} 件中 {shown} 件',
+    'Filter by path, status or request id...': 'パス、ステータス、リクエストIDで絞り込み...',
+    Errors: 'エラー',
+    HTTP: 'HTTP',
+    SignalR: 'SignalR',
+    'Export JSON': 'JSONをエクスポート',
+    'Clear log': 'ログを消去',
+    'No requests recorded yet': 'まだ記録されたリクエストはありません',
+    ERR: 'ERR',
+    '{date} | {duration} ms | attempt {attempt}': '{date} | {duration} ms | 試行 {attempt}',
+    'Request id': 'リクエストID',
+    Error: 'エラー',
+    'Request headers': 'リクエストヘッダー',
+    'Request body': 'リクエスト本文',
+    'Response headers': 'レスポンスヘッダー',
+    'Response body': 'レスポンス本文',
+    Hub: 'ハブ',
+    'Switch enterprise': 'エンタープライズを切り替え',
+    'Select enterprise': 'エンタープライズを選択',
+    'Enterprise {id}': 'エンタープライズ {id}',
+    'Data on every screen reloads for the selected enterprise': 'すべての画面のデータが選択したエンタープライズで再読み込みされます',
+    'Unable to switch enterprise': 'エンタープライズを切り替えられませんでした',
+    'App locked': 'アプリはロックされています',
+    'Enter the PIN for {name}': '{name} のPINを入力してください',
+    'Enter your PIN to continue': '続行するにはPINを入力してください',
+    'Incorrect PIN. {count} attempts left.': 'PINが正しくありません。残り {count} 回です。',
+    'Sign out instead': '代わりにサインアウト',
+    'App lock': 'アプリロック',
+    'Ask for a PIN on this device after inactivity or when the app returns from background. {count} wrong PINs sign you out.':
+      '一定時間操作がないときやアプリがバックグラウンドから戻ったときにPINを要求します。{count} 回間違えるとサインアウトします。',
+    'Lock after': 'ロックまでの時間',
+    '{count} min': '{count} 分',
+    'Change PIN': 'PINを変更',
+    'Lock now': '今すぐロック',
+    'Turn off app lock': 'アプリロックをオフにする',
+    'Set up app lock': 'アプリロックを設定',
+    'Enter your current PIN': '現在のPINを入力してください',
+    'Choose a new PIN': '新しいPINを選択してください',
+    'Repeat the new PIN': '新しいPINをもう一度入力してください',
+    '{count} digits': '{count} 桁',
+    'Incorrect PIN.': 'PINが正しくありません。',
+    'PINs do not match. Try again.': 'PINが一致しません。もう一度お試しください。',
+    'PIN must have 4 to 6 digits.': 'PINは4〜6桁で入力してください。',
+    'Unable to save PIN.': 'PINを保存できませんでした。',
+    'Local data': 'ローカルデータ',
+    'Your session and queued offline edits are encrypted with a key that never leaves this browser.':
+      'セッションとオフライン編集キューは、このブラウザーから出ることのない鍵で暗号化されています。',
+    'Your session and queued offline edits are kept in the device\'s secure storage.':
+      'セッションとオフライン編集キューはデバイスのセキュアストレージに保存されています。',
+    'Secure storage is not available on this device; your session is stored without encryption.':
+      'このデバイスではセキュアストレージを利用できないため、セッションは暗号化されずに保存されます。',
+    'This signs you out of every environment and removes queued offline edits, saved environments and preferences from this device.':
+      'すべての環境からサインアウトし、このデバイスからオフライン編集キュー、保存済みの環境、設定を削除します。',
+    'Clear everything': 'すべて消去',
+    'Clear all local data': 'ローカルデータをすべて消去',
+    'Unable to clear local data.': 'ローカルデータを消去できませんでした。',
+    'Too weak': '弱すぎます',
+    Weak: '弱い',
+    Fair: '普通',
+    Good: '良い',
+    Strong: '強い',
+    Add: '追加:',
+    'at least {count} characters': '{count} 文字以上',
+    'an uppercase letter': '大文字',
+    'a number': '数字',
+    'a symbol': '記号',
+    'Choose a stronger password.': 'より強力なパスワードを選んでください。',
+    'Passwords do not match.': 'パスワードが一致しません。',
+    'The new password must be different from the current one.': '新しいパスワードは現在のものと異なる必要があります。',
+    'Current password': '現在のパスワード',
+    'New password': '新しいパスワード',
+    'Confirm new password': '新しいパスワード（確認）',
+    'Enter your current password.': '現在のパスワードを入力してください。',
+    'Password changed.': 'パスワードを変更しました。',
+    'Unable to change password': 'パスワードを変更できませんでした',
+    'Other devices stay signed in until their session expires.': '他のデバイスはセッションの有効期限までサインインしたままです。',
+    'Change password': 'パスワードを変更',
+    'Save password': 'パスワードを保存',
+    'Forgot password?': 'パスワードをお忘れですか？',
+    'Reset password': 'パスワードをリセット',
+    'Enter the email on your account and we will send you a reset code.': 'アカウントのメールアドレスを入力すると、リセットコードを送信します。',
+    'Enter the code sent to {email} and choose a new password.': '{email} に送信されたコードを入力し、新しいパスワードを設定してください。',
+    'Your password was reset. Sign in with the new password.': 'パスワードをリセットしました。新しいパスワードでサインインしてください。',
+    'Enter a valid email address.': '有効なメールアドレスを入力してください。',
+    'Enter the code sent to your email.': 'メールに送信されたコードを入力してください。',
+    'Unable to send the reset code': 'リセットコードを送信できませんでした',
+    'Unable to reset password': 'パスワードをリセットできませんでした',
+    'Send a new code': '新しいコードを送信',
+    'Send code': 'コードを送信',
+    'Back to sign in': 'サインインに戻る',
+    'Two-step verification': '2段階認証',
+    'Authenticator app': '認証アプリ',
+    'Email code': 'メールのコード',
+    'A new code was sent.': '新しいコードを送信しました。',
+    'Unable to send a new code': '新しいコードを送信できませんでした',
+    'Invalid verification code': '認証コードが正しくありません',
+    'The verification step expired. Sign in again.': '認証の有効期限が切れました。もう一度サインインしてください。',
+    'Enter one of the recovery codes you saved when you turned on two-step verification.':
+      '2段階認証を有効にしたときに保存した回復コードを入力してください。',
+    'Enter the code we sent to {destination}.': '{destination} に送信したコードを入力してください。',
+    'your email': 'あなたのメール',
+    'Enter the 6-digit code from your authenticator app.': '認証アプリに表示される6桁のコードを入力してください。',
+    'Recovery code': '回復コード',
+    'Remember this device': 'このデバイスを記憶する',
+    Verify: '確認',
+    'Resend in {seconds}s': '{seconds}秒後に再送信',
+    'Resend code': 'コードを再送信',
+    'Use a verification code': '認証コードを使う',
+    'Use a recovery code': '回復コードを使う',
+    'Ask for a code from an authenticator app or your email after the password.': 'パスワードの後に認証アプリまたはメールのコードを求めます。',
+    On: 'オン',
+    Off: 'オフ',
+    'Loading...': '読み込み中...',
+    'This server does not support two-step verification yet.': 'このサーバーはまだ2段階認証に対応していません。',
+    'Recovery codes': '回復コード',
+    'Save your recovery codes': '回復コードを保存してください',
+    'Each code signs you in once if you lose access to your second factor. They will not be shown again.':
+      '第2要素を失った場合、各コードで1回サインインできます。再表示されません。',
+    'Share codes': 'コードを共有',
+    'I saved them': '保存しました',
+    'Use an authenticator app': '認証アプリを使う',
+    'Use email codes': 'メールのコードを使う',
+    'Scan the QR code with your authenticator app, or type the key by hand, then enter the code it shows.':
+      '認証アプリでQRコードを読み取るか、キーを手入力して、表示されたコードを入力してください。',
+    'QR code': 'QRコード',
+    'Open authenticator app': '認証アプリを開く',
+    'We sent a code to your email. Enter it to turn on two-step verification.': 'メールにコードを送信しました。入力すると2段階認証が有効になります。',
+    'Codes are sent to your email.': 'コードはメールに送信されます。',
+    'Codes come from your authenticator app.': 'コードは認証アプリに表示されます。',
+    '{count} recovery codes left.': '回復コードは残り {count} 個です。',
+    'Enter a current code to turn off two-step verification.': '2段階認証を無効にするには現在のコードを入力してください。',
+    'Enter a current code to replace your recovery codes.': '回復コードを再発行するには現在のコードを入力してください。',
+    'New recovery codes': '回復コードを再発行',
+    'Turn off': '無効にする',
+    'Remembered devices': '記憶済みのデバイス',
+    'This device': 'このデバイス',
+    'Last used {date}': '最終使用 {date}',
+    Forget: '削除',
+    'Forget this device': 'このデバイスを削除',
+    'Unable to load two-step verification settings': '2段階認証の設定を読み込めませんでした',
+    'Unable to start two-step verification setup': '2段階認証の設定を開始できませんでした',
+    'Unable to forget device': 'デバイスを削除できませんでした',
+    'Request failed': 'リクエストに失敗しました',
+    'Unknown device': '不明なデバイス',
+    'Your session ends in {time}': 'セッションはあと {time} で終了します',
+    'Stay signed in to keep working. Unsaved forms are kept as drafts either way.':
+      '作業を続けるにはサインインを維持してください。未保存のフォームはいずれにしても下書きとして保持されます。',
+    'You will need to sign in again. Unsaved forms are kept as drafts and reopen afterwards.':
+      'もう一度サインインする必要があります。未保存のフォームは下書きとして保持され、後で再度開きます。',
+    'Stay signed in': 'サインインを維持',
+    'Sign out': 'サインアウト',
+    'Unable to extend the session': 'セッションを延長できませんでした',
+    'We restored the changes you had not saved before your session ended.': 'セッション終了前に保存されていなかった変更を復元しました。',
+    'Continue with {provider}': '{provider} で続行',
+    'ORGANIZATION ACCOUNT': '組織アカウント',
+    Users: 'ユーザー',
+    Admin: '管理者',
+    Manager: 'マネージャー',
+    Supervisor: 'スーパーバイザー',
+    Employee: '従業員',
+    Invited: '招待済み',
+    'All roles': 'すべてのロール',
+    Role: 'ロール',
+    Optional: '任意',
+    You: 'あなた',
+    Invite: '招待',
+    'Invite User': 'ユーザーを招待',
+    'Send invite': '招待を送信',
+    'Sending...': '送信中...',
+    'Send link': 'リンクを送信',
+    'Reset Password': 'パスワードをリセット',
+    'Deactivate User': 'ユーザーを無効化',
+    'USER MANAGEMENT': 'ユーザー管理',
+    'Control who can access the ERP and what they can do': 'ERPにアクセスできる人とその権限を管理',
+    'Search by name or email...': '名前またはメールで検索...',
+    'No users found': 'ユーザーが見つかりません',
+    'Invite people by email to give them access.': 'メールで招待してアクセスを付与します。',
+    'LCL circulation nominal | Loading users...': 'LCL循環正常 | ユーザーを読み込み中...',
+    'They will receive an email with a link to set their password.': 'パスワード設定用のリンクがメールで届きます。',
+    'Last sign-in {date}': '最終サインイン {date}',
+    'Never signed in': 'サインイン履歴なし',
+    'Invitation sent to {email}.': '{email} に招待を送信しました。',
+    '{name} is now {role}.': '{name} は {role} になりました。',
+    '{name} can no longer sign in.': '{name} はサインインできなくなりました。',
+    'A password reset link was sent to {email}.': '{email} にパスワードリセットのリンクを送信しました。',
+    'Send {name} a link to choose a new password?': '{name} に新しいパスワードを設定するリンクを送信しますか？',
+    'Deactivate {name}? They will no longer be able to sign in.': '{name} を無効化しますか？サインインできなくなります。',
+    'Unable to load users': 'ユーザーを読み込めません',
+    'Unable to invite user': 'ユーザーを招待できません',
+    'Unable to change role': 'ロールを変更できません',
+    'Unable to deactivate user': 'ユーザーを無効化できません',
+    'User id missing.': 'ユーザーIDがありません。',
+    'Email is required': 'メールは必須です',
+    'Enter a valid email address': '有効なメールアドレスを入力してください',
+    'Name is too short': '名前が短すぎます',
+    'Edit items': '明細を編集',
+    'Save items': '明細を保存',
+    'Only {count} in stock': '在庫は{count}のみ',
+    '{name}: only {count} in stock.': '{name}: 在庫は{count}のみです。',
+    'Unable to update order items': '注文明細を更新できません',
+    'Admin override': '管理者オーバーライド',
+    'Tracking code': '追跡番号',
+    'Override reason': 'オーバーライドの理由',
+    'This status change is not allowed.': 'このステータス変更は許可されていません。',
+    'Describe why this status change is needed.': 'このステータス変更が必要な理由を入力してください。',
+    'Payment date is required to mark an order as Paid.': '支払済みにするには支払日が必要です。',
+    'Tracking code is required to mark an order as Shipped.': '発送済みにするには追跡番号が必要です。',
+    'Order is already in this status.': '注文はすでにこのステータスです。',
+    Change: '変更',
+    'Pick date': '日付を選択',
+    History: '履歴',
+    'Recorded on this device': 'この端末で記録',
+    'Loading history...': '履歴を読み込み中...',
+    'No history yet.': '履歴はまだありません。',
+    'Line items updated': '注文明細を更新',
+    'Line items updated: {items} items, {total}': '注文明細を更新: {items}点, {total}',
+    'Payment recorded': '支払いを記録',
+    'Payment recorded for {date}': '{date}の支払いを記録',
+    'Status changed': 'ステータスを変更',
+    'Status changed to {to}': 'ステータスを{to}に変更',
+    'Status changed from {from} to {to}': 'ステータスを{from}から{to}に変更',
+    'Unknown user': '不明なユーザー',
+    Manual: '手動',
+    Automation: '自動処理',
+    'Order history': '注文履歴',
+    'Change status': 'ステータスを変更',
+    'Generate boletos': 'ボレートを発行',
+    'Delete orders': '注文を削除',
+    'Clear selection': '選択を解除',
+    'Select all on page': 'このページをすべて選択',
+    'Select order #{id}': '注文 #{id} を選択',
+    'Retry failed': '失敗分を再試行',
+    'Unable to export orders': '注文をエクスポートできません',
+    'Move {count} orders to the selected status.': '{count}件の注文を選択したステータスに移動します。',
+    'Delete {count} orders? This action cannot be undone.': '{count}件の注文を削除しますか？この操作は元に戻せません。',
+    'Generate a boleto for each of the {count} selected orders.': '選択した{count}件の注文ごとにボレートを発行します。',
+    'Payments are recorded with the current date and time.': '支払いは現在の日時で記録されます。',
+    'Orders without a tracking code will fail and can be shipped one by one.': '追跡番号のない注文は失敗します。個別に発送してください。',
+    'No status change is allowed for every selected order.': '選択したすべての注文に共通して許可されるステータス変更はありません。',
+    '{done} of {total} processed': '{total}件中{done}件処理済み',
+    '{succeeded} succeeded · {failed} failed': '成功 {succeeded} · 失敗 {failed}',
+    List: 'リスト',
+    Board: 'ボード',
+    'Move order': '注文を移動',
+    'Move to': '移動先',
+    'No orders': '注文なし',
+    '{count} orders loaded': '{count} 件の注文を読み込みました',
+    'Current password is incorrect.': '現在のパスワードが正しくありません。',
+    'This record no longer exists. Reload and try again.': 'このレコードは存在しません。再読み込みしてもう一度お試しください。',
+    'Not every record could be loaded, so these totals may be incomplete.': '一部のレコードを読み込めなかったため、集計が不完全な可能性があります。',
+    'Counts cover the first {count} customers only; the rest could not be loaded.':
+      '件数は最初の {count} 件の顧客のみを対象としています。残りは読み込めませんでした。',
+    'Not every order could be loaded, so order counts and totals may be incomplete.':
+      '一部の注文を読み込めなかったため、注文数と合計が不完全な可能性があります。',
+    'The board shows the first {count} orders only; the rest could not be loaded.':
+      'ボードには最初の {count} 件の注文のみ表示しています。残りは読み込めませんでした。',
+    'Only the first {count} customers were loaded; some may be missing from this list.':
+      '最初の {count} 件の顧客のみ読み込みました。一覧にない顧客がいる可能性があります。',
   },
 };
 
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from './AuthContext';
+import { crossTabBridge } from '../services/crossTab';
+import { secureStorage } from '../services/secureStorage';
 
 type Theme = 'light' | 'dark';
 
@@ -121,12 +122,12 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
       try {
         if (backendTheme) {
           setTheme(backendTheme);
-          await AsyncStorage.setItem(storedKey, backendTheme);
+          await secureStorage.setItem(storedKey, backendTheme);
           lastUserKeyRef.current = userKey;
           return;
         }
 
-        const savedTheme = await AsyncStorage.getItem(storedKey);
+        const savedTheme = await secureStorage.getItem(storedKey);
         const resolved = resolveTheme(savedTheme);
         if (resolved) {
           setTheme(resolved);
@@ -140,6 +141,21 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     loadTheme();
   }, [authLoading, isAuthenticated, user, theme]);
 
+  // Another tab of the same user switched theme; it already saved the choice.
+  useEffect(() => {
+    const userKey =
+      user?.id?.toString() ||
+      user?.email?.trim() ||
+      user?.name?.trim() ||
+      null;
+
+    return crossTabBridge.subscribe((message) => {
+      if (message.type === 'theme' && message.userKey === userKey) {
+        setTheme(message.theme);
+      }
+    });
+  }, [user]);
+
   const toggleTheme = async () => {
     const newTheme = theme === 'light' ? 'dark' : 'light';
     setTheme(newTheme);
@@ -150,9 +166,11 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
       user?.name?.trim() ||
       null;
 
+    crossTabBridge.publish({ type: 'theme', userKey, theme: newTheme });
+
     if (userKey) {
       try {
-        await AsyncStorage.setItem(`${THEME_STORAGE_PREFIX}:${userKey}`, newTheme);
+        await secureStorage.setItem(`${THEME_STORAGE_PREFIX}:${userKey}`, newTheme);
       } catch (error) {
         console.error('Error saving theme:', error);
       }
@@ -0,0 +1 @@
+export * from '../../../hooks/auth/useOAuthProvider';
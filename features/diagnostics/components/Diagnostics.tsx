@@ -0,0 +1 @@
+export { Diagnostics } from '../../../components/Diagnostics';
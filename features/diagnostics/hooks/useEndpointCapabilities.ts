@@ -0,0 +1 @@
+export * from '../../../hooks/diagnostics/useEndpointCapabilities';
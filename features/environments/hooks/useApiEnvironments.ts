@@ -0,0 +1 @@
+export * from '../../../hooks/environments/useApiEnvironments';
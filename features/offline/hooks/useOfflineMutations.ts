@@ -0,0 +1 @@
+export * from '../../../hooks/offline/useOfflineMutations';
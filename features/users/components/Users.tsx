@@ -0,0 +1 @@
+export { Users } from '../../../components/Users';
@@ -0,0 +1 @@
+export * from '../../../utils/users/presentation';
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { appLockStore } from '../../services/appLock';
+
+export function useAppLock() {
+  const [snapshot, setSnapshot] = useState(() => appLockStore.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = appLockStore.subscribe(setSnapshot);
+    appLockStore.load();
+    setSnapshot(appLockStore.getSnapshot());
+    return unsubscribe;
+  }, []);
+
+  const setPin = useCallback((pin: string) => appLockStore.setPin(pin), []);
+
+  const disable = useCallback(() => appLockStore.disable(), []);
+
+  const setIdleMinutes = useCallback((minutes: number) => appLockStore.setIdleMinutes(minutes), []);
+
+  const verify = useCallback((pin: string) => appLockStore.verify(pin), []);
+
+  const lock = useCallback(() => appLockStore.lock(), []);
+
+  const unlock = useCallback((pin: string) => appLockStore.unlock(pin), []);
+
+  return {
+    ...snapshot,
+    setPin,
+    disable,
+    setIdleMinutes,
+    verify,
+    lock,
+    unlock,
+  };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState, Platform } from 'react-native';
+import { appLockStore } from '../../services/appLock';
+
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+interface UseAppLockTriggersParams {
+  isAuthenticated: boolean;
+  loading: boolean;
+}
+
+export function useAppLockTriggers({ isAuthenticated, loading }: UseAppLockTriggersParams) {
+  const lastActivityRef = useRef(Date.now());
+  const signedOutRef = useRef(false);
+
+  const recordActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    if (loading) {
+      return;
+    }
+    if (!isAuthenticated) {
+      signedOutRef.current = true;
+      return;
+    }
+    // Restored sessions stay behind the lock; signing in from the login screen releases it.
+    if (signedOutRef.current) {
+      signedOutRef.current = false;
+      appLockStore.release();
+    }
+  }, [isAuthenticated, loading]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    appLockStore.load();
+    recordActivity();
+
+    const intervalId = setInterval(() => {
+      const { enabled, idleMinutes } = appLockStore.getSnapshot();
+      if (enabled && Date.now() - lastActivityRef.current >= idleMinutes * 60 * 1000) {
+        appLockStore.lock();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') {
+        appLockStore.lock();
+      } else if (state === 'active') {
+        recordActivity();
+      }
+    });
+
+    // Touches are reported by the root view; web also needs keyboard and pointer input.
+    const canListenInput = Platform.OS === 'web' && typeof window !== 'undefined' && !!window.addEventListener;
+    if (canListenInput) {
+      window.addEventListener('keydown', recordActivity);
+      window.addEventListener('pointerdown', recordActivity);
+    }
+
+    return () => {
+      clearInterval(intervalId);
+      appStateSubscription.remove();
+      if (canListenInput) {
+        window.removeEventListener('keydown', recordActivity);
+        window.removeEventListener('pointerdown', recordActivity);
+      }
+    };
+  }, [isAuthenticated, recordActivity]);
+
+  return { recordActivity };
+}
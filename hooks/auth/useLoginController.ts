@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Platform } from 'react-native';
 import * as Google from 'expo-auth-session/providers/google';
 import { ResponseType } from 'expo-auth-session';
+import { OAuthProvider } from '../../utils/security/oauthProviders';
 
 interface UseLoginControllerParams {
   login: (credentials: { username: string; password: string }) => Promise<unknown>;
@@ -11,18 +12,24 @@ interface UseLoginControllerParams {
     redirectUri: string;
     codeVerifier?: string;
   }) => Promise<unknown>;
+  loginWithOAuthCode: (
+    provider: OAuthProvider,
+    payload: { code: string; redirectUri: string; codeVerifier?: string },
+  ) => Promise<unknown>;
 }
 
 export function useLoginController({
   login,
   loginWithGoogle,
   loginWithGoogleCode,
+  loginWithOAuthCode,
 }: UseLoginControllerParams) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [submittingMode, setSubmittingMode] = useState<'password' | 'google' | null>(null);
+  const [submittingMode, setSubmittingMode] = useState<'password' | 'google' | 'oauth' | null>(null);
+  const [oauthProviderId, setOAuthProviderId] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
 
   const googleClientIds = useMemo(
@@ -167,6 +174,45 @@ export function useLoginController({
     }
   }, [googleResponse, googleRequest, handleGoogleCode, handleGoogleCredential]);
 
+  const beginOAuthLogin = useCallback(
+    (provider: OAuthProvider) => {
+      if (submitting) {
+        return false;
+      }
+      setError(null);
+      setSubmitting(true);
+      setSubmittingMode('oauth');
+      setOAuthProviderId(provider.id);
+      return true;
+    },
+    [submitting],
+  );
+
+  const finishOAuthLogin = useCallback((message?: string) => {
+    if (message) {
+      setError(message);
+    }
+    setSubmitting(false);
+    setSubmittingMode(null);
+    setOAuthProviderId(null);
+  }, []);
+
+  const handleOAuthCode = useCallback(
+    async (provider: OAuthProvider, payload: { code: string; redirectUri: string; codeVerifier?: string }) => {
+      setError(null);
+      setSubmitting(true);
+      setSubmittingMode('oauth');
+      setOAuthProviderId(provider.id);
+      try {
+        await loginWithOAuthCode(provider, payload);
+        finishOAuthLogin();
+      } catch (err: any) {
+        finishOAuthLogin(err?.message ?? `${provider.label} sign-in failed`);
+      }
+    },
+    [finishOAuthLogin, loginWithOAuthCode],
+  );
+
   const isLoginDisabled = submitting || !username || !password;
 
   return {
@@ -177,6 +223,7 @@ export function useLoginController({
     submitting,
     error,
     submittingMode,
+    oauthProviderId,
     showPassword,
     setShowPassword,
     missingWebClientId,
@@ -184,5 +231,8 @@ export function useLoginController({
     isLoginDisabled,
     handleLogin,
     startGoogleLogin,
+    beginOAuthLogin,
+    finishOAuthLogin,
+    handleOAuthCode,
   };
 }
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { makeRedirectUri, ResponseType, useAuthRequest, useAutoDiscovery } from 'expo-auth-session';
+import { OAUTH_REDIRECT_URI } from '../../constants/authProviders';
+import { OAuthProvider } from '../../utils/security/oauthProviders';
+
+interface UseOAuthProviderParams {
+  provider: OAuthProvider;
+  // Returns false when another sign-in is already running.
+  onBegin: (provider: OAuthProvider) => boolean;
+  onCode: (
+    provider: OAuthProvider,
+    payload: { code: string; redirectUri: string; codeVerifier?: string },
+  ) => void;
+  onFinish: (message?: string) => void;
+}
+
+export function useOAuthProvider({ provider, onBegin, onCode, onFinish }: UseOAuthProviderParams) {
+  const discovery = useAutoDiscovery(provider.issuer);
+  const redirectUri = useMemo(() => OAUTH_REDIRECT_URI ?? makeRedirectUri(), []);
+
+  // Authorization code + PKCE; the verifier travels with the code so the backend can redeem it.
+  const [request, response, promptAsync] = useAuthRequest(
+    {
+      clientId: provider.clientId,
+      scopes: provider.scopes,
+      redirectUri,
+      responseType: ResponseType.Code,
+      usePKCE: true,
+      extraParams: provider.extraParams,
+    },
+    discovery,
+  );
+
+  const start = useCallback(async () => {
+    if (!onBegin(provider)) {
+      return;
+    }
+    if (!request || !discovery) {
+      onFinish(`${provider.label} login is not available. Check the provider configuration.`);
+      return;
+    }
+    try {
+      await promptAsync();
+    } catch (err: any) {
+      onFinish(err?.message ?? `Unable to start ${provider.label} login`);
+    }
+  }, [discovery, onBegin, onFinish, promptAsync, provider, request]);
+
+  useEffect(() => {
+    if (!response) {
+      return;
+    }
+    if (response.type === 'success') {
+      const code = response.params?.code;
+      if (code && request?.redirectUri) {
+        onCode(provider, { code, redirectUri: request.redirectUri, codeVerifier: request.codeVerifier });
+        return;
+      }
+      onFinish(`${provider.label} authorization code missing.`);
+    } else if (response.type === 'error') {
+      onFinish(response.error?.message ?? `${provider.label} authentication failed.`);
+    } else {
+      onFinish();
+    }
+  }, [response, request, provider, onCode, onFinish]);
+
+  return {
+    ready: Boolean(request && discovery),
+    start,
+  };
+}
@@ -0,0 +1,98 @@
+import { useCallback, useState } from 'react';
+import { PASSWORD_RESET_CODE_LENGTH, validateNewPassword } from '../../utils/security/password';
+
+export type PasswordResetStep = 'request' | 'reset' | 'done';
+
+interface UsePasswordResetParams {
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (payload: { email: string; code: string; newPassword: string }) => Promise<void>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function usePasswordReset({ requestPasswordReset, resetPassword }: UsePasswordResetParams) {
+  const [step, setStep] = useState<PasswordResetStep>('request');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = useCallback(() => {
+    setStep('request');
+    setEmail('');
+    setCode('');
+    setNewPassword('');
+    setConfirmation('');
+    setSubmitting(false);
+    setError(null);
+  }, []);
+
+  const sendCode = async () => {
+    if (submitting) {
+      return;
+    }
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      setError('Enter a valid email address.');
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await requestPasswordReset(email);
+      setCode('');
+      setStep('reset');
+    } catch (err: any) {
+      setError(err?.message ?? 'Unable to send the reset code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const submitReset = async () => {
+    if (submitting) {
+      return;
+    }
+    if (code.length !== PASSWORD_RESET_CODE_LENGTH) {
+      setError('Enter the code sent to your email.');
+      return;
+    }
+    const problem = validateNewPassword(newPassword, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await resetPassword({ email, code, newPassword });
+      setStep('done');
+    } catch (err: any) {
+      setError(err?.message ?? 'Unable to reset password');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const clearError = () => setError(null);
+
+  return {
+    step,
+    setStep,
+    email,
+    setEmail,
+    code,
+    setCode,
+    newPassword,
+    setNewPassword,
+    confirmation,
+    setConfirmation,
+    submitting,
+    error,
+    clearError,
+    reset,
+    sendCode,
+    submitReset,
+  };
+}
@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  PermissionAction,
+  PermissionModule,
+  hasPermission,
+  resolveAccessRole,
+  resolvePermissions,
+} from '../../utils/access';
+
+export function usePermissions() {
+  const { user, permissionGrants } = useAuth();
+  const permissions = useMemo(
+    () => resolvePermissions(user?.role, permissionGrants),
+    [user?.role, permissionGrants],
+  );
+  const role = useMemo(() => resolveAccessRole(user?.role), [user?.role]);
+
+  const can = useCallback(
+    (module: PermissionModule, action: PermissionAction) => hasPermission(permissions, module, action),
+    [permissions],
+  );
+
+  return { permissions, can, role };
+}
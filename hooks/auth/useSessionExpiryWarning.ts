@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { SESSION_WARNING_LEAD_MS, isSessionExpiring } from '../../utils/security/session';
+
+interface UseSessionExpiryWarningParams {
+  expiresAt: number | null;
+}
+
+export function useSessionExpiryWarning({ expiresAt }: UseSessionExpiryWarningParams) {
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (expiresAt === null) {
+      return;
+    }
+    let ticker: ReturnType<typeof setInterval> | null = null;
+    const startTicking = () => {
+      setNow(Date.now());
+      ticker = setInterval(() => setNow(Date.now()), 1000);
+    };
+    // Only the last few minutes need a live countdown; until then a single timer waits for them.
+    const startIn = expiresAt - SESSION_WARNING_LEAD_MS - Date.now();
+    const starter = startIn > 0 ? setTimeout(startTicking, startIn) : null;
+    if (!starter) {
+      startTicking();
+    }
+    return () => {
+      if (starter) {
+        clearTimeout(starter);
+      }
+      if (ticker) {
+        clearInterval(ticker);
+      }
+    };
+  }, [expiresAt]);
+
+  return {
+    // A renewed session has a new expiry, so dismissing only silences the current one.
+    visible: isSessionExpiring(expiresAt, now) && dismissedFor !== expiresAt,
+    remainingMs: expiresAt === null ? 0 : Math.max(expiresAt - now, 0),
+    dismiss: () => setDismissedFor(expiresAt),
+  };
+}
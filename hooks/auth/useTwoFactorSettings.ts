@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AuthService } from '../../services/authService';
+import {
+  RememberedDevice,
+  TwoFactorMethod,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  readRecoveryCodes,
+  readTwoFactorSetup,
+  readTwoFactorStatus,
+} from '../../utils/security/twoFactor';
+
+interface UseTwoFactorSettingsParams {
+  authService: AuthService;
+  forgetThisDevice: () => Promise<void>;
+}
+
+export type TwoFactorPendingAction = 'disable' | 'regenerate';
+
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+export function useTwoFactorSettings({ authService, forgetThisDevice }: UseTwoFactorSettingsParams) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<TwoFactorPendingAction | null>(null);
+
+  const refresh = useCallback(async () => {
+    const response = await authService.fetchTwoFactorStatus();
+    if (response.ok) {
+      setStatus(readTwoFactorStatus(response.data));
+      setUnsupported(false);
+    } else if (UNSUPPORTED_STATUSES.includes(response.status)) {
+      setUnsupported(true);
+    } else {
+      setError(response.error ?? 'Unable to load two-step verification settings');
+    }
+    setLoading(false);
+  }, [authService]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err?.message ?? 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = (method: TwoFactorMethod) =>
+    run(async () => {
+      const response = await authService.setupTwoFactor(method);
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to start two-step verification setup');
+      }
+      setRecoveryCodes(null);
+      setSetup(readTwoFactorSetup(response.data, method));
+    });
+
+  const confirmSetup = (code: string) =>
+    run(async () => {
+      if (!setup) {
+        return;
+      }
+      const response = await authService.enableTwoFactor(setup.method, code);
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Invalid verification code');
+      }
+      setSetup(null);
+      setRecoveryCodes(readRecoveryCodes(response.data));
+      await refresh();
+    });
+
+  const confirmPendingAction = (code: string) =>
+    run(async () => {
+      if (pendingAction === 'disable') {
+        const response = await authService.disableTwoFactor(code);
+        if (!response.ok) {
+          throw new Error(response.error ?? 'Invalid verification code');
+        }
+        // Remembered devices only make sense while the second factor is on.
+        await forgetThisDevice();
+        setRecoveryCodes(null);
+      } else if (pendingAction === 'regenerate') {
+        const response = await authService.regenerateRecoveryCodes(code);
+        if (!response.ok) {
+          throw new Error(response.error ?? 'Invalid verification code');
+        }
+        setRecoveryCodes(readRecoveryCodes(response.data));
+      }
+      setPendingAction(null);
+      await refresh();
+    });
+
+  const forgetDevice = (device: RememberedDevice) =>
+    run(async () => {
+      const response = await authService.forgetRememberedDevice(device.id);
+      if (!response.ok) {
+        throw new Error(response.error ?? 'Unable to forget device');
+      }
+      if (device.current) {
+        await forgetThisDevice();
+      }
+      await refresh();
+    });
+
+  return {
+    status,
+    unsupported,
+    loading,
+    busy,
+    error,
+    clearError: () => setError(null),
+    setup,
+    cancelSetup: () => setSetup(null),
+    startSetup,
+    confirmSetup,
+    recoveryCodes,
+    dismissRecoveryCodes: () => setRecoveryCodes(null),
+    pendingAction,
+    setPendingAction,
+    confirmPendingAction,
+    forgetDevice,
+  };
+}
@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useState } from 'react';
-import { ErpService, Order as OrderModel } from '../../services/erpService';
+import { ErpService } from '../../services/erpService';
 import { filterOrdersBySearch } from '../../utils/bills/helpers';
+import { useCachedQuery } from '../query/useCachedQuery';
+import { ordersPageQuery } from '../query/erpQueries';
 
 interface UseBillsOrdersParams {
   erpService: ErpService;
@@ -18,49 +20,23 @@ export function useBillsOrders({
   pageSize = 25,
 }: UseBillsOrdersParams) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [orders, setOrders] = useState<OrderModel[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [pageNumber, setPageNumber] = useState(1);
-  const [hasMore, setHasMore] = useState(false);
-
-  useEffect(() => {
-    if (!isAuthenticated || authLoading) {
-      setOrders([]);
-      return;
-    }
-
-    let active = true;
-
-    const loadOrders = async () => {
-      setLoading(true);
-      setErrorMessage(null);
 
-      const response = await erpService.fetchOrders(pageNumber, pageSize, false, {
-        isActive: true,
-        enterpriseId: enterpriseId ?? undefined,
-      });
-
-      if (!active) {
-        return;
-      }
-
-      if (response.ok && response.data) {
-        setOrders(response.data);
-        setHasMore(response.data.length === pageSize);
-      } else {
-        setErrorMessage(response.error ?? 'Unable to load orders');
-      }
-
-      setLoading(false);
-    };
+  const { data, error, loading, refresh } = useCachedQuery({
+    ...ordersPageQuery(erpService, pageNumber, pageSize, {
+      isActive: true,
+      enterpriseId: enterpriseId ?? undefined,
+    }),
+    enabled: isAuthenticated && !authLoading,
+  });
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-    loadOrders();
+  useEffect(() => {
+    setErrorMessage(error);
+  }, [error]);
 
-    return () => {
-      active = false;
-    };
-  }, [erpService, isAuthenticated, authLoading, pageNumber, pageSize, enterpriseId]);
+  const orders = useMemo(() => data ?? [], [data]);
+  const hasMore = orders.length === pageSize;
 
   const filteredOrders = useMemo(() => filterOrdersBySearch(orders, searchTerm), [orders, searchTerm]);
 
@@ -78,13 +54,13 @@ export function useBillsOrders({
     searchTerm,
     setSearchTerm,
     orders,
-    setOrders,
     loading,
     errorMessage,
     setErrorMessage,
     pageNumber,
     setPageNumber,
     hasMore,
+    refresh,
     goPrevPage,
     goNextPage,
     filteredOrders,
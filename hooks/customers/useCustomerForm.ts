@@ -2,12 +2,13 @@ import { useCallback, useMemo, useReducer } from 'react';
 import { Customer as CustomerModel } from '../../services/erpService';
 import {
   CustomerFormValues,
+  CustomerServerErrors,
   emptyCustomerFormValues,
   getCustomerFormErrors,
   hasCustomerFormErrors,
 } from '../../utils/customers/validation';
 import { toCustomerFormValues } from '../../utils/customers/presentation';
-import { CustomerFormAction, CustomerFormState } from '../../components/customers/types';
+import { CustomerFormAction, CustomerFormDraft, CustomerFormState } from '../../components/customers/types';
 import { CepLookupResult } from './useCepLookup';
 
 const toInitialFormState = (): CustomerFormState => ({
@@ -17,6 +18,7 @@ const toInitialFormState = (): CustomerFormState => ({
   customer: null,
   attempted: false,
   submitting: false,
+  serverErrors: {},
 });
 
 const customerFormReducer = (state: CustomerFormState, action: CustomerFormAction): CustomerFormState => {
@@ -29,6 +31,7 @@ const customerFormReducer = (state: CustomerFormState, action: CustomerFormActio
         customer: null,
         attempted: false,
         submitting: false,
+        serverErrors: {},
       };
     case 'OPEN_EDIT':
       return {
@@ -38,6 +41,7 @@ const customerFormReducer = (state: CustomerFormState, action: CustomerFormActio
         customer: action.payload.customer,
         attempted: false,
         submitting: false,
+        serverErrors: {},
       };
     case 'CLOSE':
       return toInitialFormState();
@@ -46,9 +50,12 @@ const customerFormReducer = (state: CustomerFormState, action: CustomerFormActio
         ...state.values,
         [action.payload.field]: action.payload.value,
       } as CustomerFormValues;
+      // Editing a field the server rejected clears that rejection.
+      const { [action.payload.field]: _cleared, ...serverErrors } = state.serverErrors;
       return {
         ...state,
         values,
+        serverErrors,
       };
     }
     case 'SET_ATTEMPTED':
@@ -61,6 +68,11 @@ const customerFormReducer = (state: CustomerFormState, action: CustomerFormActio
         ...state,
         submitting: action.payload,
       };
+    case 'SET_SERVER_ERRORS':
+      return {
+        ...state,
+        serverErrors: action.payload,
+      };
     case 'PATCH_FIELDS':
       return {
         ...state,
@@ -97,6 +109,15 @@ export function useCustomerForm() {
     });
   }, []);
 
+  const restoreDraft = useCallback((draft: CustomerFormDraft) => {
+    const values = { ...emptyCustomerFormValues(), ...draft.values };
+    if (draft.mode === 'edit' && draft.customer) {
+      dispatchForm({ type: 'OPEN_EDIT', payload: { customer: draft.customer, values } });
+      return;
+    }
+    dispatchForm({ type: 'OPEN_CREATE', payload: values });
+  }, []);
+
   const closeForm = useCallback(() => {
     dispatchForm({ type: 'CLOSE' });
   }, []);
@@ -126,6 +147,10 @@ export function useCustomerForm() {
     dispatchForm({ type: 'SET_SUBMITTING', payload: submitting });
   }, []);
 
+  const setServerErrors = useCallback((serverErrors: CustomerServerErrors) => {
+    dispatchForm({ type: 'SET_SERVER_ERRORS', payload: serverErrors });
+  }, []);
+
   const applyCepResult = useCallback((data: CepLookupResult) => {
     const patch: Partial<CustomerFormValues> = {};
     if (data.street) {
@@ -151,11 +176,13 @@ export function useCustomerForm() {
     formSubmitDisabled,
     openCreate,
     openEdit,
+    restoreDraft,
     closeForm,
     setField,
     patchFields,
     setAttempted,
     setSubmitting,
+    setServerErrors,
     applyCepResult,
   };
 }
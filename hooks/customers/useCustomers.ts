@@ -1,5 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { Customer as CustomerModel, CustomerFilter, ErpService } from '../../services/erpService';
+import { useI18n } from '../../contexts/I18nContext';
+import { describeApiError } from '../../utils/apiErrors';
 
 interface UseCustomersParams {
   erpService: ErpService;
@@ -14,6 +16,7 @@ export function useCustomers({
   authLoading,
   pageSize = 25,
 }: UseCustomersParams) {
+  const { t } = useI18n();
   const [searchTerm, setSearchTerm] = useState('');
   const [customers, setCustomers] = useState<CustomerModel[]>([]);
   const [loading, setLoading] = useState(false);
@@ -70,7 +73,7 @@ export function useCustomers({
         setCustomers(response.data);
         setHasMore(response.data.length === pageSize);
       } else {
-        setErrorMessage(response.error ?? 'Unable to load customers');
+        setErrorMessage(describeApiError(t, response, t('Unable to load customers')));
       }
 
       setLoading(false);
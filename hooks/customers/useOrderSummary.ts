@@ -1,5 +1,7 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo } from 'react';
 import { ErpService } from '../../services/erpService';
+import { useCachedQuery } from '../query/useCachedQuery';
+import { allOrdersQuery } from '../query/erpQueries';
 
 interface UseOrderSummaryParams {
   erpService: ErpService;
@@ -24,76 +26,30 @@ export function useOrderSummary({
   authLoading,
   enterpriseId,
 }: UseOrderSummaryParams) {
-  const [orderSummary, setOrderSummary] = useState<OrderSummaryMap>({});
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [reloadKey, setReloadKey] = useState(0);
-
-  useEffect(() => {
-    if (!isAuthenticated || authLoading) {
-      setOrderSummary({});
-      setErrorMessage(null);
-      return;
-    }
-
-    let active = true;
-
-    const loadOrders = async () => {
-      const summary: OrderSummaryMap = {};
-      const perPage = 200;
-      let page = 1;
-      let hasMoreOrders = true;
-
-      setOrderSummary({});
-      setErrorMessage(null);
-
-      while (hasMoreOrders) {
-        const response = await erpService.fetchOrders(page, perPage, false, {
-          enterpriseId: enterpriseId ?? undefined,
-        });
-
-        if (!active) {
-          return;
-        }
-
-        if (!response.ok || !response.data) {
-          setErrorMessage(response.error ?? 'Unable to load orders');
-          break;
-        }
-
-        response.data.forEach((order) => {
-          const orderKey = normalizeKey(order.customerId) ?? normalizeKey(order.customer);
-          if (!orderKey) {
-            return;
-          }
-          const entry = summary[orderKey] ?? { count: 0, spent: 0 };
-          const amount = typeof order.totalValue === 'number' ? order.totalValue : order.total;
-          entry.count += 1;
-          entry.spent += Number.isFinite(amount) ? amount : 0;
-          summary[orderKey] = entry;
-        });
-
-        hasMoreOrders = response.data.length === perPage;
-        page += 1;
-        if (page > 20) {
-          hasMoreOrders = false;
-        }
-      }
-
-      if (active) {
-        setOrderSummary(summary);
+  const { data: orders, error, partial, refresh } = useCachedQuery({
+    ...allOrdersQuery(erpService, { enterpriseId: enterpriseId ?? undefined }),
+    enabled: isAuthenticated && !authLoading,
+  });
+
+  const orderSummary = useMemo(() => {
+    const summary: OrderSummaryMap = {};
+    (orders ?? []).forEach((order) => {
+      const orderKey = normalizeKey(order.customerId) ?? normalizeKey(order.customer);
+      if (!orderKey) {
+        return;
       }
-    };
-
-    loadOrders();
-
-    return () => {
-      active = false;
-    };
-  }, [erpService, isAuthenticated, authLoading, enterpriseId, reloadKey]);
+      const entry = summary[orderKey] ?? { count: 0, spent: 0 };
+      const amount = typeof order.totalValue === 'number' ? order.totalValue : order.total;
+      entry.count += 1;
+      entry.spent += Number.isFinite(amount) ? amount : 0;
+      summary[orderKey] = entry;
+    });
+    return summary;
+  }, [orders]);
 
   const reloadOrderSummary = useCallback(() => {
-    setReloadKey((prev) => prev + 1);
-  }, []);
+    refresh();
+  }, [refresh]);
 
-  return { orderSummary, orderSummaryError: errorMessage, reloadOrderSummary };
+  return { orderSummary, orderSummaryError: error, orderSummaryPartial: partial, reloadOrderSummary };
 }
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ApiClient } from '../../services/apiClient';
+import { endpointCapabilities } from '../../services/endpointCapabilities';
+
+interface UseEndpointCapabilitiesParams {
+  client: ApiClient;
+}
+
+export function useEndpointCapabilities({ client }: UseEndpointCapabilitiesParams) {
+  const baseUrl = client.getBaseUrl();
+  const [capabilities, setCapabilities] = useState(() => endpointCapabilities.get(baseUrl));
+
+  useEffect(() => {
+    const sync = () => setCapabilities(endpointCapabilities.get(baseUrl));
+    const unsubscribe = endpointCapabilities.subscribe(sync);
+    endpointCapabilities.load(baseUrl).then(sync);
+    return unsubscribe;
+  }, [baseUrl]);
+
+  const reset = useCallback(() => endpointCapabilities.reset(baseUrl), [baseUrl]);
+
+  return { baseUrl, capabilities, reset };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { networkLog } from '../../services/networkLog';
+import { buildExportFilename, exportJson } from '../../utils/diagnostics/export';
+import { NetworkLogFilter, filterNetworkLog } from '../../utils/diagnostics/networkLogFilters';
+
+interface UseNetworkLogParams {
+  filter?: NetworkLogFilter;
+  search?: string;
+}
+
+export function useNetworkLog({ filter = 'all', search = '' }: UseNetworkLogParams = {}) {
+  const [snapshot, setSnapshot] = useState(() => networkLog.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = networkLog.subscribe(setSnapshot);
+    networkLog.load();
+    setSnapshot(networkLog.getSnapshot());
+    return unsubscribe;
+  }, []);
+
+  const entries = useMemo(
+    () => filterNetworkLog(snapshot.entries, filter, search),
+    [snapshot.entries, filter, search],
+  );
+
+  const setEnabled = useCallback((enabled: boolean) => networkLog.setEnabled(enabled), []);
+
+  const clear = useCallback(() => networkLog.clear(), []);
+
+  // Exports what the viewer currently shows, so support can narrow the log down before attaching it.
+  const exportEntries = useCallback(
+    () => exportJson(buildExportFilename('network-log'), networkLog.exportJson(entries)),
+    [entries],
+  );
+
+  return {
+    enabled: snapshot.enabled,
+    totalCount: snapshot.entries.length,
+    entries,
+    setEnabled,
+    clear,
+    exportEntries,
+  };
+}
@@ -0,0 +1,16 @@
+import { useCallback, useEffect, useState } from 'react';
+import { schemaDriftReport } from '../../services/normalizerSchemas';
+
+export function useSchemaDrift() {
+  const [report, setReport] = useState(() => schemaDriftReport.getSnapshot());
+
+  useEffect(() => {
+    const sync = () => setReport(schemaDriftReport.getSnapshot());
+    sync();
+    return schemaDriftReport.subscribe(sync);
+  }, []);
+
+  const reset = useCallback(() => schemaDriftReport.reset(), []);
+
+  return { report, reset };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FormDraftScope, formDraftStore } from '../../services/formDrafts';
+
+interface UseFormDraftParams<T> {
+  scope: FormDraftScope;
+  environmentId: string;
+  // Whose draft this is; null while signed out, which pauses both saving and restoring.
+  owner: string | null;
+  enabled: boolean;
+  open: boolean;
+  values: T;
+  onRestore: (values: T) => void;
+}
+
+const SAVE_DELAY_MS = 400;
+
+export function useFormDraft<T>({ scope, environmentId, owner, enabled, open, values, onRestore }: UseFormDraftParams<T>) {
+  const [restored, setRestored] = useState(false);
+  const restoreRef = useRef(onRestore);
+  const pendingRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmountingRef = useRef(false);
+  restoreRef.current = onRestore;
+
+  useEffect(() => {
+    if (!enabled || !owner) {
+      return;
+    }
+    let active = true;
+    formDraftStore.load<T>(environmentId, scope, owner).then((draft) => {
+      if (active && draft) {
+        restoreRef.current(draft);
+        setRestored(true);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [enabled, environmentId, owner, scope]);
+
+  useEffect(() => {
+    unmountingRef.current = false;
+    return () => {
+      unmountingRef.current = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !owner || !open) {
+      return;
+    }
+    const save = () => {
+      pendingRef.current = null;
+      formDraftStore.save(environmentId, scope, owner, values);
+    };
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    pendingRef.current = timer;
+    return () => {
+      clearTimeout(timer);
+      if (pendingRef.current === timer) {
+        pendingRef.current = null;
+        // Unmounting with a save still queued (e.g. the session just ended) writes it out instead of dropping it.
+        if (unmountingRef.current) {
+          save();
+        }
+      }
+    };
+  }, [enabled, environmentId, open, owner, scope, values]);
+
+  const discardDraft = useCallback(() => {
+    if (pendingRef.current) {
+      clearTimeout(pendingRef.current);
+      pendingRef.current = null;
+    }
+    setRestored(false);
+    return formDraftStore.discard(environmentId, scope);
+  }, [environmentId, scope]);
+
+  return {
+    restored,
+    dismissRestored: () => setRestored(false),
+    discardDraft,
+  };
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ApiEnvironmentDraft, apiEnvironmentStore } from '../../services/apiEnvironments';
+
+export function useApiEnvironments() {
+  const { switchEnvironment } = useAuth();
+  const [snapshot, setSnapshot] = useState(() => apiEnvironmentStore.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = apiEnvironmentStore.subscribe(setSnapshot);
+    apiEnvironmentStore.load();
+    setSnapshot(apiEnvironmentStore.getSnapshot());
+    return unsubscribe;
+  }, []);
+
+  const save = useCallback((draft: ApiEnvironmentDraft) => apiEnvironmentStore.save(draft), []);
+
+  const remove = useCallback((id: string) => apiEnvironmentStore.remove(id), []);
+
+  return {
+    environments: snapshot.environments,
+    active: snapshot.active,
+    save,
+    remove,
+    activate: switchEnvironment,
+  };
+}
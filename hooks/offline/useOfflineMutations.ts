@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ErpService } from '../../services/erpService';
+import { OfflineMutationEntity, offlineMutationQueue } from '../../services/offlineQueue';
+
+interface UseOfflineMutationsParams {
+  entity: OfflineMutationEntity;
+  erpService: ErpService;
+}
+
+export function useOfflineMutations({ entity, erpService }: UseOfflineMutationsParams) {
+  const [snapshot, setSnapshot] = useState(() => offlineMutationQueue.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = offlineMutationQueue.subscribe(setSnapshot);
+    offlineMutationQueue.load();
+    setSnapshot(offlineMutationQueue.getSnapshot());
+    return unsubscribe;
+  }, []);
+
+  const entries = useMemo(
+    () => snapshot.entries.filter((entry) => entry.entity === entity),
+    [snapshot.entries, entity],
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      await offlineMutationQueue.retry(id);
+      await erpService.replayOfflineQueue();
+    },
+    [erpService],
+  );
+
+  const discard = useCallback((id: string) => offlineMutationQueue.discard(id), []);
+
+  const syncNow = useCallback(() => erpService.replayOfflineQueue(), [erpService]);
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.status === 'pending' || entry.status === 'syncing').length,
+    attentionCount: entries.filter((entry) => entry.status === 'conflict' || entry.status === 'failed').length,
+    replaying: snapshot.replaying,
+    syncedVersion: snapshot.syncedVersion[entity],
+    retry,
+    discard,
+    syncNow,
+  };
+}
@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import { ErpService } from '../../services/erpService';
+import { offlineMutationQueue } from '../../services/offlineQueue';
+
+const OFFLINE_REPLAY_INTERVAL_MS = 30 * 1000;
+
+interface UseOfflineSyncParams {
+  erpService: ErpService;
+  isAuthenticated: boolean;
+}
+
+export function useOfflineSync({ erpService, isAuthenticated }: UseOfflineSyncParams) {
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let active = true;
+
+    const replay = async () => {
+      await offlineMutationQueue.load();
+      if (!active || !offlineMutationQueue.hasPending()) {
+        return;
+      }
+      await erpService.replayOfflineQueue();
+    };
+
+    replay();
+
+    // The replay itself doubles as the connectivity probe: the first unreachable request stops it.
+    const intervalId = setInterval(replay, OFFLINE_REPLAY_INTERVAL_MS);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        replay();
+      }
+    });
+
+    const canListenOnline = Platform.OS === 'web' && typeof window !== 'undefined' && !!window.addEventListener;
+    if (canListenOnline) {
+      window.addEventListener('online', replay);
+    }
+
+    return () => {
+      active = false;
+      clearInterval(intervalId);
+      appStateSubscription.remove();
+      if (canListenOnline) {
+        window.removeEventListener('online', replay);
+      }
+    };
+  }, [erpService, isAuthenticated]);
+}
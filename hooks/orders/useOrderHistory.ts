@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { ErpService, OrderHistoryEntry } from '../../services/erpService';
+import { orderHistoryLog } from '../../services/orderHistory';
+
+interface UseOrderHistoryParams {
+  erpService: ErpService;
+  environmentId: string;
+  orderId: string | number | null;
+  enabled: boolean;
+  // Bumped by the caller after it records an event, so the panel picks it up.
+  version: number;
+}
+
+const byNewest = (left: OrderHistoryEntry, right: OrderHistoryEntry) => right.at.localeCompare(left.at);
+
+export function useOrderHistory({ erpService, environmentId, orderId, enabled, version }: UseOrderHistoryParams) {
+  const [entries, setEntries] = useState<OrderHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromLocalLog, setFromLocalLog] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || orderId === null) {
+      setEntries([]);
+      setFromLocalLog(false);
+      return;
+    }
+
+    let active = true;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      const response = await erpService.fetchOrderHistory(orderId);
+      if (!active) {
+        return;
+      }
+
+      if (response.ok && response.data) {
+        setEntries([...response.data].sort(byNewest));
+        setFromLocalLog(false);
+      } else {
+        // Without the endpoint, fall back to what this device recorded itself.
+        const localEntries = await orderHistoryLog.list(environmentId, orderId);
+        if (!active) {
+          return;
+        }
+        setEntries(localEntries);
+        setFromLocalLog(true);
+      }
+      setLoading(false);
+    };
+
+    loadHistory();
+
+    return () => {
+      active = false;
+      setLoading(false);
+    };
+  }, [enabled, erpService, environmentId, orderId, version]);
+
+  return { entries, loading, fromLocalLog };
+}
@@ -0,0 +1,42 @@
+import {
+  CustomerFilter,
+  ErpService,
+  FetchAllProgress,
+  OrderFilter,
+  ProductFilter,
+} from '../../services/erpService';
+import { QueryFetchContext, buildQueryKey } from '../../services/queryCache';
+
+type ProgressHandler = (progress: FetchAllProgress) => void;
+
+export const allProductsQuery = (erpService: ErpService, filter: ProductFilter, onProgress?: ProgressHandler) => ({
+  queryKey: buildQueryKey('products', 'all', filter),
+  fetcher: ({ signal }: QueryFetchContext) =>
+    erpService.fetchAllProducts(filter, { concurrency: 2, signal, onProgress }),
+});
+
+export const productsPageQuery = (
+  erpService: ErpService,
+  pageNumber: number,
+  pageSize: number,
+  filter: ProductFilter = { isActive: true, name: '' },
+) => ({
+  queryKey: buildQueryKey('products', 'page', { pageNumber, pageSize }, filter),
+  fetcher: () => erpService.fetchProducts(pageNumber, pageSize, false, filter),
+});
+
+export const allOrdersQuery = (erpService: ErpService, filter: OrderFilter, onProgress?: ProgressHandler) => ({
+  queryKey: buildQueryKey('orders', 'all', filter),
+  fetcher: ({ signal }: QueryFetchContext) => erpService.fetchAllOrders(filter, { concurrency: 2, signal, onProgress }),
+});
+
+export const ordersPageQuery = (erpService: ErpService, pageNumber: number, pageSize: number, filter: OrderFilter) => ({
+  queryKey: buildQueryKey('orders', 'page', { pageNumber, pageSize }, filter),
+  fetcher: () => erpService.fetchOrders(pageNumber, pageSize, false, filter),
+});
+
+export const allCustomersQuery = (erpService: ErpService, filter: CustomerFilter, onProgress?: ProgressHandler) => ({
+  queryKey: buildQueryKey('customers', 'all', filter),
+  fetcher: ({ signal }: QueryFetchContext) =>
+    erpService.fetchAllCustomers(filter, { concurrency: 2, signal, onProgress }),
+});
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { QueryFetcher, QueryState, queryCache, scopeQueryKey } from '../../services/queryCache';
+import { useI18n } from '../../contexts/I18nContext';
+import { useQueryScope } from './useQueryScope';
+import { describeApiError } from '../../utils/apiErrors';
+
+interface UseCachedQueryParams<T> {
+  queryKey: string;
+  fetcher: QueryFetcher<T>;
+  enabled?: boolean;
+  staleTimeMs?: number;
+}
+
+export function useCachedQuery<T>({ queryKey: baseKey, fetcher, enabled = true, staleTimeMs }: UseCachedQueryParams<T>) {
+  const { t } = useI18n();
+  const scope = useQueryScope();
+  const queryKey = useMemo(() => scopeQueryKey(baseKey, scope), [baseKey, scope]);
+  const [state, setState] = useState<QueryState<T> | null>(() => queryCache.getState<T>(queryKey));
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!enabled) {
+      setState(null);
+      return;
+    }
+
+    const revalidate = (force = false) =>
+      queryCache.fetch<T>(queryKey, (context) => fetcherRef.current(context), { staleTimeMs, force });
+
+    const unsubscribe = queryCache.subscribe(queryKey, () => {
+      const next = queryCache.getState<T>(queryKey);
+      setState(next);
+      // Mutations and live events only flag entries; whoever is watching refetches them. A cleared
+      // entry (logout, environment or enterprise switch) is not refetched with this render's fetcher.
+      if (next?.invalidated && !next.fetching) {
+        revalidate();
+      }
+    });
+
+    setState(queryCache.getState<T>(queryKey));
+    revalidate();
+
+    return unsubscribe;
+  }, [queryKey, enabled, staleTimeMs]);
+
+  const refresh = useCallback(
+    () => queryCache.fetch<T>(queryKey, (context) => fetcherRef.current(context), { staleTimeMs, force: true }),
+    [queryKey, staleTimeMs],
+  );
+
+  const hasData = Boolean(state && state.updatedAt !== null);
+
+  return {
+    data: enabled ? state?.data ?? null : null,
+    error: enabled && state?.error ? describeApiError(t, state, '') : null,
+    partial: enabled && Boolean(state?.partial),
+    loading: enabled && !hasData && (state?.fetching ?? true),
+    refreshing: enabled && hasData && Boolean(state?.fetching),
+    updatedAt: state?.updatedAt ?? null,
+    refresh,
+  };
+}
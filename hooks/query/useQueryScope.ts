@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { QueryKeyScope } from '../../services/queryCache';
+
+export function useQueryScope(): QueryKeyScope {
+  const { environment, user } = useAuth();
+  const userId = user?.id || user?.email || null;
+  return useMemo(
+    () => ({ environmentId: environment.id, userId: userId ? String(userId) : null }),
+    [environment.id, userId],
+  );
+}
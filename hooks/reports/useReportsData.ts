@@ -1,5 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { ErpService, Report as ReportModel } from '../../services/erpService';
+import { useI18n } from '../../contexts/I18nContext';
+import { describeApiError } from '../../utils/apiErrors';
 
 interface UseReportsDataParams {
   erpService: ErpService;
@@ -16,6 +18,7 @@ const isSameDay = (date: Date, now: Date) =>
   date.getDate() === now.getDate();
 
 export function useReportsData({ erpService, isAuthenticated, authLoading }: UseReportsDataParams) {
+  const { t } = useI18n();
   const [reports, setReports] = useState<ReportModel[]>([]);
   const [loading, setLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -40,7 +43,7 @@ export function useReportsData({ erpService, isAuthenticated, authLoading }: Use
       if (response.ok && response.data) {
         setReports(response.data);
       } else {
-        setErrorMessage(response.error ?? 'Unable to load reports');
+        setErrorMessage(describeApiError(t, response, t('Unable to load reports')));
       }
 
       setLoading(false);
@@ -0,0 +1,42 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { AuthEnterprise } from '../../utils/enterprises';
+
+export function useEnterpriseSwitcher() {
+  const { enterprises, enterpriseId, switchEnterprise } = useAuth();
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const list = useMemo<AuthEnterprise[]>(() => enterprises ?? [], [enterprises]);
+  const current = useMemo(() => list.find((entry) => entry.id === enterpriseId) ?? null, [list, enterpriseId]);
+
+  const select = useCallback(
+    async (nextId: string) => {
+      if (nextId === enterpriseId || switchingId) {
+        return true;
+      }
+      setSwitchingId(nextId);
+      setError(null);
+      try {
+        await switchEnterprise(nextId);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to switch enterprise');
+        return false;
+      } finally {
+        setSwitchingId(null);
+      }
+    },
+    [enterpriseId, switchingId, switchEnterprise],
+  );
+
+  return {
+    enterprises: list,
+    current,
+    enterpriseId,
+    canSwitch: list.length > 1,
+    switchingId,
+    error,
+    clearError: () => setError(null),
+    select,
+  };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { crossTabBridge } from '../../services/crossTab';
+import { QueryScope, queryCache } from '../../services/queryCache';
+
+// Mounted once at the app root: edits saved in another tab flag the same cached scopes here.
+export function useCrossTabQuerySync() {
+  useEffect(
+    () =>
+      crossTabBridge.subscribe((message) => {
+        if (message.type === 'mutation') {
+          queryCache.invalidate(message.scopes);
+        }
+      }),
+    [],
+  );
+}
+
+interface UseCrossTabMutationsParams {
+  scope: QueryScope;
+  onChange: () => void;
+}
+
+// For screens that load their lists directly instead of through the query cache.
+export function useCrossTabMutations({ scope, onChange }: UseCrossTabMutationsParams) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(
+    () =>
+      crossTabBridge.subscribe((message) => {
+        if (message.type === 'mutation' && message.scopes.includes(scope)) {
+          onChangeRef.current();
+        }
+      }),
+    [scope],
+  );
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ErpService, UserAccount } from '../../services/erpService';
+import { useI18n } from '../../contexts/I18nContext';
+import { describeApiError } from '../../utils/apiErrors';
+import { UserRoleFilter, buildUserFilter } from '../../utils/users/presentation';
+
+interface UseUsersParams {
+  erpService: ErpService;
+  isAuthenticated: boolean;
+  authLoading: boolean;
+  enterpriseId?: string | null;
+  enabled?: boolean;
+  pageSize?: number;
+}
+
+export function useUsers({
+  erpService,
+  isAuthenticated,
+  authLoading,
+  enterpriseId,
+  enabled = true,
+  pageSize = 25,
+}: UseUsersParams) {
+  const { t } = useI18n();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRoleFilter>('all');
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const userRequestRef = useRef({ id: 0, key: '' });
+
+  useEffect(() => {
+    setPageNumber(1);
+  }, [searchTerm, roleFilter]);
+
+  useEffect(() => {
+    if (!isAuthenticated || authLoading || !enabled) {
+      return;
+    }
+
+    let active = true;
+    const filter = buildUserFilter(searchTerm, roleFilter, enterpriseId);
+    const requestId = userRequestRef.current.id + 1;
+    const requestKey = `${JSON.stringify(filter)}|${pageNumber}|${pageSize}|${refreshKey}`;
+    userRequestRef.current = { id: requestId, key: requestKey };
+
+    const loadUsers = async () => {
+      setLoading(true);
+      setErrorMessage(null);
+
+      const response = await erpService.fetchUsers(pageNumber, pageSize, false, filter);
+      if (!active) {
+        return;
+      }
+
+      const current = userRequestRef.current;
+      if (current.id !== requestId || current.key !== requestKey) {
+        return;
+      }
+
+      if (response.ok && response.data) {
+        setUsers(response.data);
+        setHasMore(response.data.length === pageSize);
+      } else {
+        setErrorMessage(describeApiError(t, response, t('Unable to load users')));
+      }
+
+      setLoading(false);
+    };
+
+    loadUsers();
+
+    return () => {
+      active = false;
+    };
+  }, [
+    erpService,
+    isAuthenticated,
+    authLoading,
+    enabled,
+    enterpriseId,
+    pageNumber,
+    pageSize,
+    searchTerm,
+    roleFilter,
+    refreshKey,
+  ]);
+
+  const refresh = useCallback(() => setRefreshKey((prev) => prev + 1), []);
+
+  return {
+    searchTerm,
+    setSearchTerm,
+    roleFilter,
+    setRoleFilter,
+    users,
+    setUsers,
+    loading,
+    errorMessage,
+    setErrorMessage,
+    pageNumber,
+    setPageNumber,
+    pageSize,
+    hasMore,
+    refresh,
+  };
+}
@@ -1,4 +1,5 @@
 import { ApiClientConfig } from '../constants/api';
+import { ApiError, buildApiError } from './apiError';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
@@ -10,6 +11,7 @@ export interface ApiRequestOptions<TBody = unknown> {
   headers?: Record<string, string>;
   withAuth?: boolean;
   signal?: AbortSignal;
+  skipAuthRefresh?: boolean;
 }
 
 export interface ApiResponse<T> {
@@ -17,94 +19,170 @@ export interface ApiResponse<T> {
   status: number;
   ok: boolean;
   error?: string;
+  apiError?: ApiError;
   headers: Record<string, string>;
 }
 
+export type ApiResponseType = 'json' | 'binary';
+
+export interface ApiRequestContext {
+  options: ApiRequestOptions<unknown>;
+  responseType: ApiResponseType;
+  headers: Record<string, string>;
+  attempt: number;
+  startedAt: number;
+  // Free-form bag for interceptors that need to carry state from onRequest to onResponse.
+  meta: Record<string, unknown>;
+  replay: () => Promise<ApiResponse<unknown>>;
+}
+
+export interface ApiInterceptor {
+  name?: string;
+  onRequest?: (context: ApiRequestContext) => void | Promise<void>;
+  onResponse?: (
+    response: ApiResponse<unknown>,
+    context: ApiRequestContext,
+  ) => ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+  onError?: (
+    error: unknown,
+    response: ApiResponse<unknown>,
+    context: ApiRequestContext,
+  ) => ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+}
+
+export type TokenRefreshHandler = () => Promise<string | null>;
+
 export class ApiClient {
   private token: string | null = null;
+  private tokenRefreshHandler: TokenRefreshHandler | null = null;
+  private pendingRefresh: Promise<string | null> | null = null;
+  private interceptors: ApiInterceptor[] = [];
 
-  constructor(private readonly config: ApiClientConfig) {}
+  constructor(private readonly config: ApiClientConfig) {
+    this.use(this.createAuthInterceptor());
+  }
+
+  getBaseUrl() {
+    return this.config.baseUrl;
+  }
 
   setToken(token: string | null) {
     this.token = token;
   }
 
-  async request<TResponse, TBody = unknown>(options: ApiRequestOptions<TBody>): Promise<ApiResponse<TResponse>> {
-    const controller = options.signal ? undefined : new AbortController();
-    const signal = options.signal ?? controller?.signal;
-    const timeoutId =
-      controller && this.config.timeoutMs
-        ? setTimeout(() => controller.abort(), this.config.timeoutMs)
-        : undefined;
+  setTokenRefreshHandler(handler: TokenRefreshHandler | null) {
+    this.tokenRefreshHandler = handler;
+  }
 
-    try {
-      const url = this.buildUrl(options.path, options.query);
-      const headers = this.buildHeaders(options);
-      const init: RequestInit = {
-        method: options.method ?? 'GET',
-        headers,
-        signal,
-      };
+  // `first` runs ahead of the built-in auth interceptor, so it also sees responses that get replayed.
+  use(interceptor: ApiInterceptor, position: 'first' | 'last' = 'last') {
+    this.interceptors =
+      position === 'first' ? [interceptor, ...this.interceptors] : [...this.interceptors, interceptor];
+    return () => {
+      this.interceptors = this.interceptors.filter((entry) => entry !== interceptor);
+    };
+  }
 
-      if (options.body !== undefined) {
-        init.body =
-          typeof options.body === 'string' || options.body instanceof FormData
-            ? (options.body as BodyInit)
-            : JSON.stringify(options.body);
-      }
+  refreshAuthToken(): Promise<string | null> {
+    if (!this.tokenRefreshHandler) {
+      return Promise.resolve(null);
+    }
 
-      const response = await fetch(url, init);
-      const parsed = await this.parseResponse<TResponse>(response);
+    // Concurrent callers share the in-flight refresh instead of racing it.
+    if (!this.pendingRefresh) {
+      const handler = this.tokenRefreshHandler;
+      this.pendingRefresh = (async () => {
+        try {
+          return await handler();
+        } catch {
+          return null;
+        } finally {
+          this.pendingRefresh = null;
+        }
+      })();
+    }
 
-      const fallbackError = response.ok
-        ? undefined
-        : `Failed to sync (status ${response.status})`;
-      const stringError =
-        !response.ok && typeof parsed.data === 'string' && parsed.data
-          ? `${parsed.data} (status ${response.status})`
-          : undefined;
+    return this.pendingRefresh;
+  }
 
-      const apiResponse: ApiResponse<TResponse> = {
-        data: parsed.data,
-        ok: response.ok,
-        status: response.status,
-        error: parsed.error ?? stringError ?? fallbackError,
-        headers: this.headersToRecord(response.headers),
-      };
+  request<TResponse, TBody = unknown>(options: ApiRequestOptions<TBody>): Promise<ApiResponse<TResponse>> {
+    return this.execute(options as ApiRequestOptions<unknown>, 'json', 0) as Promise<ApiResponse<TResponse>>;
+  }
+
+  requestBinary<TBody = unknown>(options: ApiRequestOptions<TBody>): Promise<ApiResponse<ArrayBuffer>> {
+    return this.execute(options as ApiRequestOptions<unknown>, 'binary', 0) as Promise<ApiResponse<ArrayBuffer>>;
+  }
+
+  private async execute(
+    options: ApiRequestOptions<unknown>,
+    responseType: ApiResponseType,
+    attempt: number,
+  ): Promise<ApiResponse<unknown>> {
+    let replayed = false;
+    const context: ApiRequestContext = {
+      options: { ...options },
+      responseType,
+      headers: this.buildHeaders(options),
+      attempt,
+      startedAt: Date.now(),
+      meta: {},
+      replay: () => {
+        replayed = true;
+        return this.execute(options, responseType, attempt + 1);
+      },
+    };
 
-      return apiResponse;
+    for (const interceptor of this.interceptors) {
+      await interceptor.onRequest?.(context);
+    }
+
+    let response: ApiResponse<unknown>;
+    try {
+      response = await this.dispatch(context);
     } catch (error: any) {
-      const isAbort = error?.name === 'AbortError';
-      const baseMessage = isAbort ? 'Request timed out' : 'Failed to sync';
-      const message = `${baseMessage} (status 0)`;
-      return {
-        data: null,
-        ok: false,
-        status: 0,
-        error: message,
-        headers: {},
-      };
-    } finally {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
+      response = this.buildFailureResponse(error, Boolean(context.options.signal?.aborted));
+      for (const interceptor of this.interceptors) {
+        const recovered = await interceptor.onError?.(error, response, context);
+        if (recovered) {
+          response = recovered;
+        }
+        if (replayed) {
+          return response;
+        }
       }
     }
+
+    for (const interceptor of this.interceptors) {
+      const next = await interceptor.onResponse?.(response, context);
+      if (next) {
+        response = next;
+      }
+      // A replayed request already ran through the full chain; don't process its result twice.
+      if (replayed) {
+        return response;
+      }
+    }
+
+    return response;
   }
 
-  async requestBinary<TBody = unknown>(options: ApiRequestOptions<TBody>): Promise<ApiResponse<ArrayBuffer>> {
-    const controller = options.signal ? undefined : new AbortController();
-    const signal = options.signal ?? controller?.signal;
-    const timeoutId =
-      controller && this.config.timeoutMs
-        ? setTimeout(() => controller.abort(), this.config.timeoutMs)
-        : undefined;
+  private async dispatch(context: ApiRequestContext): Promise<ApiResponse<unknown>> {
+    const { options } = context;
+    // The caller's signal cancels the request without turning off the timeout.
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) {
+      cancel();
+    }
+    options.signal?.addEventListener('abort', cancel);
+    const signal = controller.signal;
+    const timeoutId = this.config.timeoutMs ? setTimeout(cancel, this.config.timeoutMs) : undefined;
 
     try {
       const url = this.buildUrl(options.path, options.query);
-      const headers = this.buildHeaders(options);
       const init: RequestInit = {
         method: options.method ?? 'GET',
-        headers,
+        headers: context.headers,
         signal,
       };
 
@@ -116,46 +194,93 @@ export class ApiClient {
       }
 
       const response = await fetch(url, init);
-      const responseClone = response.clone();
-      const data = response.ok ? await response.arrayBuffer() : null;
-      let errorMessage: string | undefined;
+      const parsed =
+        context.responseType === 'binary'
+          ? await this.parseBinaryResponse(response)
+          : await this.parseResponse<unknown>(response);
 
-      if (!response.ok) {
-        try {
-          const text = await responseClone.text();
-          errorMessage = text ? `${text} (status ${response.status})` : undefined;
-        } catch {
-          errorMessage = undefined;
-        }
-      }
-
-      const apiResponse: ApiResponse<ArrayBuffer> = {
-        data,
+      const headers = this.headersToRecord(response.headers);
+      return {
+        data: parsed.data,
         ok: response.ok,
         status: response.status,
-        error: errorMessage ?? (response.ok ? undefined : `Failed to sync (status ${response.status})`),
-        headers: this.headersToRecord(response.headers),
-      };
-
-      return apiResponse;
-    } catch (error: any) {
-      const isAbort = error?.name === 'AbortError';
-      const baseMessage = isAbort ? 'Request timed out' : 'Failed to sync';
-      const message = `${baseMessage} (status 0)`;
-      return {
-        data: null,
-        ok: false,
-        status: 0,
-        error: message,
-        headers: {},
+        error: parsed.error ?? this.formatStatusError(response, parsed.data),
+        apiError: response.ok ? undefined : buildApiError({ status: response.status, data: parsed.data, headers }),
+        headers,
       };
     } finally {
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
+      options.signal?.removeEventListener('abort', cancel);
     }
   }
 
+  private createAuthInterceptor(): ApiInterceptor {
+    const canRefresh = (context: ApiRequestContext) =>
+      context.options.withAuth !== false &&
+      !context.options.skipAuthRefresh &&
+      Boolean(this.tokenRefreshHandler);
+
+    return {
+      name: 'auth',
+      onRequest: async (context) => {
+        if (context.options.withAuth === false) {
+          return;
+        }
+
+        if (canRefresh(context) && this.pendingRefresh) {
+          // Hold the request until the running refresh settles so it goes out with the renewed token.
+          await this.pendingRefresh;
+        }
+
+        context.meta.authToken = this.token;
+        if (this.token) {
+          context.headers.Authorization = `Bearer ${this.token}`;
+        }
+      },
+      onResponse: async (response, context) => {
+        const tokenUsed = context.meta.authToken;
+        if (response.status !== 401 || !tokenUsed || context.attempt > 0 || !canRefresh(context)) {
+          return;
+        }
+
+        // Another request may already have renewed the token while this one was in flight.
+        const nextToken = this.token && this.token !== tokenUsed ? this.token : await this.refreshAuthToken();
+        if (!nextToken) {
+          return;
+        }
+
+        return context.replay();
+      },
+    };
+  }
+
+  private buildFailureResponse(error: any, cancelled = false): ApiResponse<unknown> {
+    const isAbort = error?.name === 'AbortError' && !cancelled;
+    const baseMessage = cancelled ? 'Request cancelled' : isAbort ? 'Request timed out' : 'Failed to sync';
+    return {
+      data: null,
+      ok: false,
+      status: 0,
+      error: `${baseMessage} (status 0)`,
+      apiError: buildApiError({ status: 0, timedOut: isAbort }),
+      headers: {},
+    };
+  }
+
+  private formatStatusError(response: Response, data: unknown) {
+    if (response.ok) {
+      return undefined;
+    }
+
+    if (typeof data === 'string' && data) {
+      return `${data} (status ${response.status})`;
+    }
+
+    return `Failed to sync (status ${response.status})`;
+  }
+
   private buildUrl(path: string, query?: Record<string, string | number | boolean | undefined | null>) {
     const sanitizedBase = this.config.baseUrl.replace(/\/$/, '');
     const sanitizedPath = path.startsWith('http')
@@ -173,17 +298,12 @@ export class ApiClient {
     return url.toString();
   }
 
-  private buildHeaders(options: ApiRequestOptions<unknown>): HeadersInit {
+  private buildHeaders(options: ApiRequestOptions<unknown>): Record<string, string> {
     const headers: Record<string, string> = {
       ...(this.config.defaultHeaders ?? {}),
       ...(options.headers ?? {}),
     };
 
-    const shouldAttachAuth = options.withAuth !== false && this.token;
-    if (shouldAttachAuth) {
-      headers.Authorization = `Bearer ${this.token}`;
-    }
-
     const hasContentType = Object.keys(headers)
       .map((h) => h.toLowerCase())
       .includes('content-type');
@@ -198,7 +318,8 @@ export class ApiClient {
   private async parseResponse<T>(response: Response): Promise<{ data: T | null; error?: string }> {
     const contentType = response.headers.get('content-type') ?? '';
 
-    if (contentType.includes('application/json')) {
+    // Covers `application/problem+json`, which ASP.NET uses for validation failures.
+    if (/application\/([\w.-]+\+)?json/.test(contentType)) {
       try {
         const data = (await response.json()) as T;
         return { data };
@@ -215,6 +336,20 @@ export class ApiClient {
     }
   }
 
+  private async parseBinaryResponse(response: Response): Promise<{ data: ArrayBuffer | null; error?: string }> {
+    if (response.ok) {
+      return { data: await response.arrayBuffer() };
+    }
+
+    // Error bodies come back as text; surface them the same way JSON requests do.
+    try {
+      const text = await response.text();
+      return { data: null, error: text ? `${text} (status ${response.status})` : undefined };
+    } catch {
+      return { data: null };
+    }
+  }
+
   private headersToRecord(headers: Headers): Record<string, string> {
     const result: Record<string, string> = {};
     headers.forEach((value: string, key: string) => {
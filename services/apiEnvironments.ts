@@ -0,0 +1,269 @@
+import { API_CONFIG, ApiClientConfig } from '../constants/api';
+import { ApiClient } from './apiClient';
+import { AuthService } from './authService';
+import { createNetworkLogInterceptor } from './networkLog';
+import { secureStorage } from './secureStorage';
+
+const ENVIRONMENTS_STORAGE_KEY = 'apiEnvironments';
+const ACTIVE_ENVIRONMENT_STORAGE_KEY = 'apiEnvironments:active';
+const SESSION_STORAGE_KEY = 'authToken';
+
+export const DEFAULT_API_ENVIRONMENT_ID = 'default';
+
+export interface ApiEnvironment {
+  id: string;
+  name: string;
+  baseUrl: string;
+  authPath: string;
+  refreshAuthPath?: string;
+  googleAuthPath?: string;
+  googleCodeAuthPath?: string;
+  enterprisesPath?: string;
+  switchEnterprisePath?: string;
+  permissionsPath?: string;
+  changePasswordPath?: string;
+  forgotPasswordPath?: string;
+  resetPasswordPath?: string;
+  twoFactorVerifyPath?: string;
+  twoFactorResendPath?: string;
+  twoFactorPath?: string;
+  ordersHubUrl?: string;
+  timeoutMs: number;
+}
+
+export type ApiEnvironmentDraft = Omit<ApiEnvironment, 'id'> & { id?: string };
+
+export interface ApiEnvironmentSnapshot {
+  environments: ApiEnvironment[];
+  active: ApiEnvironment;
+}
+
+// The build-time configuration is always available and cannot be edited or removed.
+export const DEFAULT_API_ENVIRONMENT: ApiEnvironment = {
+  id: DEFAULT_API_ENVIRONMENT_ID,
+  name: 'Default',
+  baseUrl: API_CONFIG.baseUrl,
+  authPath: API_CONFIG.authPath,
+  refreshAuthPath: API_CONFIG.refreshAuthPath,
+  googleAuthPath: API_CONFIG.googleAuthPath,
+  googleCodeAuthPath: API_CONFIG.googleCodeAuthPath,
+  enterprisesPath: API_CONFIG.enterprisesPath,
+  switchEnterprisePath: API_CONFIG.switchEnterprisePath,
+  permissionsPath: API_CONFIG.permissionsPath,
+  changePasswordPath: API_CONFIG.changePasswordPath,
+  forgotPasswordPath: API_CONFIG.forgotPasswordPath,
+  resetPasswordPath: API_CONFIG.resetPasswordPath,
+  twoFactorVerifyPath: API_CONFIG.twoFactorVerifyPath,
+  twoFactorResendPath: API_CONFIG.twoFactorResendPath,
+  twoFactorPath: API_CONFIG.twoFactorPath,
+  ordersHubUrl:
+    process.env.EXPO_PUBLIC_SIGNALR_ORDERS_HUB_URL ?? process.env.EXPO_PUBLIC_ORDERS_HUB_URL ?? undefined,
+  timeoutMs: API_CONFIG.timeoutMs ?? 15000,
+};
+
+export const toApiClientConfig = (environment: ApiEnvironment): ApiClientConfig => ({
+  ...API_CONFIG,
+  baseUrl: environment.baseUrl,
+  authPath: environment.authPath,
+  refreshAuthPath: environment.refreshAuthPath,
+  googleAuthPath: environment.googleAuthPath,
+  googleCodeAuthPath: environment.googleCodeAuthPath,
+  enterprisesPath: environment.enterprisesPath,
+  switchEnterprisePath: environment.switchEnterprisePath,
+  permissionsPath: environment.permissionsPath,
+  changePasswordPath: environment.changePasswordPath,
+  forgotPasswordPath: environment.forgotPasswordPath,
+  resetPasswordPath: environment.resetPasswordPath,
+  twoFactorVerifyPath: environment.twoFactorVerifyPath,
+  twoFactorResendPath: environment.twoFactorResendPath,
+  twoFactorPath: environment.twoFactorPath,
+  timeoutMs: environment.timeoutMs,
+});
+
+export const createApiServices = (environment: ApiEnvironment) => {
+  const config = toApiClientConfig(environment);
+  const client = new ApiClient(config);
+  const authService = new AuthService(client, config);
+  client.use(
+    createNetworkLogInterceptor(environment.baseUrl, undefined, authService.getCredentialPaths()),
+    'first',
+  );
+  return { client, authService };
+};
+
+export const resolveOrdersHubUrl = (environment: ApiEnvironment) => {
+  if (environment.ordersHubUrl) {
+    return environment.ordersHubUrl;
+  }
+  const base = environment.baseUrl.replace(/\/$/, '');
+  const trimmed = base.replace(/\/api\/v1\/?$/i, '');
+  return `${trimmed}/orderHub`;
+};
+
+// Each environment keeps its own stored session; the default one stays on the legacy key so existing
+// logins survive the upgrade.
+export const sessionStorageKey = (environmentId: string) =>
+  environmentId === DEFAULT_API_ENVIRONMENT_ID ? SESSION_STORAGE_KEY : `${SESSION_STORAGE_KEY}:${environmentId}`;
+
+// A pending second-factor challenge and the remembered-device token live next to the session they belong to.
+export const twoFactorChallengeStorageKey = (environmentId: string) =>
+  `${sessionStorageKey(environmentId)}:twoFactorChallenge`;
+
+export const rememberedDeviceStorageKey = (environmentId: string) =>
+  `${sessionStorageKey(environmentId)}:rememberedDevice`;
+
+const createEnvironmentId = () => `env-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const optionalText = (value?: string) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+};
+
+const sanitizeEnvironment = (draft: ApiEnvironmentDraft, id: string): ApiEnvironment => ({
+  id,
+  name: draft.name.trim(),
+  baseUrl: draft.baseUrl.trim().replace(/\/$/, ''),
+  authPath: draft.authPath.trim() || API_CONFIG.authPath,
+  refreshAuthPath: optionalText(draft.refreshAuthPath),
+  googleAuthPath: optionalText(draft.googleAuthPath),
+  googleCodeAuthPath: optionalText(draft.googleCodeAuthPath),
+  enterprisesPath: optionalText(draft.enterprisesPath),
+  switchEnterprisePath: optionalText(draft.switchEnterprisePath),
+  permissionsPath: optionalText(draft.permissionsPath),
+  changePasswordPath: optionalText(draft.changePasswordPath),
+  forgotPasswordPath: optionalText(draft.forgotPasswordPath),
+  resetPasswordPath: optionalText(draft.resetPasswordPath),
+  twoFactorVerifyPath: optionalText(draft.twoFactorVerifyPath),
+  twoFactorResendPath: optionalText(draft.twoFactorResendPath),
+  twoFactorPath: optionalText(draft.twoFactorPath),
+  ordersHubUrl: optionalText(draft.ordersHubUrl),
+  timeoutMs: Number.isFinite(draft.timeoutMs) && draft.timeoutMs > 0 ? draft.timeoutMs : DEFAULT_API_ENVIRONMENT.timeoutMs,
+});
+
+export class ApiEnvironmentStore {
+  private custom: ApiEnvironment[] = [];
+  private activeId = DEFAULT_API_ENVIRONMENT_ID;
+  private loaded: Promise<void> | null = null;
+  private snapshot: ApiEnvironmentSnapshot = this.buildSnapshot();
+  private listeners = new Set<(snapshot: ApiEnvironmentSnapshot) => void>();
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const [rawEnvironments, rawActive] = await Promise.all([
+            secureStorage.getItem(ENVIRONMENTS_STORAGE_KEY),
+            secureStorage.getItem(ACTIVE_ENVIRONMENT_STORAGE_KEY),
+          ]);
+          const parsed = rawEnvironments ? JSON.parse(rawEnvironments) : [];
+          if (Array.isArray(parsed)) {
+            this.custom = parsed.filter(
+              (entry: ApiEnvironment) => entry?.id && entry.id !== DEFAULT_API_ENVIRONMENT_ID && entry.baseUrl,
+            );
+          }
+          if (rawActive && this.custom.some((entry) => entry.id === rawActive)) {
+            this.activeId = rawActive;
+          }
+        } catch (error) {
+          console.warn('Failed to restore API environments', error);
+        }
+        this.emit();
+      })();
+    }
+    return this.loaded;
+  }
+
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  subscribe(listener: (snapshot: ApiEnvironmentSnapshot) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async save(draft: ApiEnvironmentDraft) {
+    await this.load();
+    if (draft.id === DEFAULT_API_ENVIRONMENT_ID) {
+      throw new Error('The default environment cannot be edited');
+    }
+
+    const environment = sanitizeEnvironment(draft, draft.id ?? createEnvironmentId());
+    const exists = this.custom.some((entry) => entry.id === environment.id);
+    this.custom = exists
+      ? this.custom.map((entry) => (entry.id === environment.id ? environment : entry))
+      : [...this.custom, environment];
+    await this.commit();
+    return environment;
+  }
+
+  async remove(id: string) {
+    await this.load();
+    if (id === DEFAULT_API_ENVIRONMENT_ID) {
+      return;
+    }
+    this.custom = this.custom.filter((entry) => entry.id !== id);
+    if (this.activeId === id) {
+      this.activeId = DEFAULT_API_ENVIRONMENT_ID;
+    }
+    await this.commit();
+    await this.clearStoredSession(id);
+  }
+
+  async reset() {
+    await this.load();
+    const removed = this.custom.map((entry) => entry.id);
+    this.custom = [];
+    this.activeId = DEFAULT_API_ENVIRONMENT_ID;
+    await this.commit();
+    await Promise.all(removed.map((id) => this.clearStoredSession(id)));
+  }
+
+  async setActive(id: string) {
+    await this.load();
+    const nextId = this.custom.some((entry) => entry.id === id) ? id : DEFAULT_API_ENVIRONMENT_ID;
+    if (nextId === this.activeId) {
+      return;
+    }
+    this.activeId = nextId;
+    await this.commit();
+  }
+
+  // A removed environment's session, pending challenge and remembered device must not outlive it.
+  private async clearStoredSession(id: string) {
+    await Promise.all(
+      [sessionStorageKey(id), twoFactorChallengeStorageKey(id), rememberedDeviceStorageKey(id)].map((key) =>
+        secureStorage.removeItem(key),
+      ),
+    );
+  }
+
+  private async commit() {
+    this.emit();
+    try {
+      await Promise.all([
+        secureStorage.setItem(ENVIRONMENTS_STORAGE_KEY, JSON.stringify(this.custom)),
+        secureStorage.setItem(ACTIVE_ENVIRONMENT_STORAGE_KEY, this.activeId),
+      ]);
+    } catch (error) {
+      console.warn('Failed to persist API environments', error);
+    }
+  }
+
+  private buildSnapshot(): ApiEnvironmentSnapshot {
+    const environments = [DEFAULT_API_ENVIRONMENT, ...this.custom];
+    return {
+      environments,
+      active: environments.find((entry) => entry.id === this.activeId) ?? DEFAULT_API_ENVIRONMENT,
+    };
+  }
+
+  private emit() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+}
+
+export const apiEnvironmentStore = new ApiEnvironmentStore();
@@ -0,0 +1,125 @@
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'auth'
+  | 'forbidden'
+  | 'notFound'
+  | 'conflict'
+  | 'server';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  status: number;
+  // Backend message as sent (ProblemDetails detail/title or plain text); not localized.
+  message?: string;
+  // Keyed by normalized field name, e.g. `Customer.PhoneNumber` -> `phonenumber`.
+  fieldErrors: Record<string, string[]>;
+  requestId?: string;
+}
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-correlation-id', 'request-id', 'traceparent'];
+
+export const apiErrorKindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 0) {
+    return 'network';
+  }
+  if (status === 401) {
+    return 'auth';
+  }
+  if (status === 403) {
+    return 'forbidden';
+  }
+  if (status === 404 || status === 410) {
+    return 'notFound';
+  }
+  if (status === 408) {
+    return 'timeout';
+  }
+  if (status === 409 || status === 412) {
+    return 'conflict';
+  }
+  if (status >= 400 && status < 500) {
+    return 'validation';
+  }
+  return 'server';
+};
+
+export const normalizeFieldKey = (field: string) => {
+  const segments = field
+    .replace(/\[\d+\]/g, '')
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .filter(Boolean);
+  return (segments[segments.length - 1] ?? field).toLowerCase();
+};
+
+const appendFieldError = (target: Record<string, string[]>, field: unknown, message: unknown) => {
+  if (typeof field !== 'string' || !field.trim()) {
+    return;
+  }
+  const messages = (Array.isArray(message) ? message : [message]).filter(
+    (entry): entry is string => typeof entry === 'string' && Boolean(entry.trim()),
+  );
+  if (messages.length === 0) {
+    return;
+  }
+  const key = normalizeFieldKey(field);
+  target[key] = [...(target[key] ?? []), ...messages];
+};
+
+// Understands ASP.NET ProblemDetails (`errors: { Field: [..] }`) and FluentValidation-style lists.
+const parseFieldErrors = (body: Record<string, unknown>) => {
+  const fieldErrors: Record<string, string[]> = {};
+  const errors = body.errors ?? body.Errors;
+
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => {
+      if (entry && typeof entry === 'object') {
+        const item = entry as Record<string, unknown>;
+        appendFieldError(
+          fieldErrors,
+          item.field ?? item.propertyName ?? item.PropertyName ?? item.name,
+          item.message ?? item.errorMessage ?? item.ErrorMessage,
+        );
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, messages]) => {
+      appendFieldError(fieldErrors, field, messages);
+    });
+  }
+
+  return fieldErrors;
+};
+
+const pickString = (...values: unknown[]) =>
+  values.find((value): value is string => typeof value === 'string' && Boolean(value.trim()));
+
+export const buildApiError = ({
+  status,
+  data,
+  headers = {},
+  timedOut = false,
+}: {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+  timedOut?: boolean;
+}): ApiError => {
+  const body = data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  const requestId =
+    REQUEST_ID_HEADERS.map((name) => headers[name]).find(Boolean) ??
+    (body ? pickString(body.traceId, body.requestId, body.correlationId) : undefined);
+
+  return {
+    kind: timedOut ? 'timeout' : apiErrorKindFromStatus(status),
+    status,
+    message: body ? pickString(body.detail, body.message, body.title) : pickString(data),
+    fieldErrors: body ? parseFieldErrors(body) : {},
+    requestId,
+  };
+};
+
+export const getFieldErrors = (error: ApiError | null | undefined, ...fields: string[]) =>
+  fields.flatMap((field) => error?.fieldErrors[normalizeFieldKey(field)] ?? []);
@@ -0,0 +1,197 @@
+import * as Crypto from 'expo-crypto';
+import { secureStorage } from './secureStorage';
+
+const APP_LOCK_STORAGE_KEY = 'appLock:config';
+const PIN_HASH_ROUNDS = 2000;
+
+export const APP_LOCK_MAX_ATTEMPTS = 5;
+export const APP_LOCK_IDLE_OPTIONS = [1, 5, 15, 30] as const;
+export const APP_LOCK_PIN_LENGTHS = [4, 6] as const;
+export const DEFAULT_APP_LOCK_IDLE_MINUTES = 5;
+
+export type AppLockUnlockResult = 'unlocked' | 'invalid' | 'lockedOut';
+
+interface AppLockConfig {
+  pinHash: string | null;
+  salt: string | null;
+  pinLength: number;
+  idleMinutes: number;
+  failedAttempts: number;
+}
+
+export interface AppLockSnapshot {
+  ready: boolean;
+  enabled: boolean;
+  locked: boolean;
+  pinLength: number;
+  idleMinutes: number;
+  remainingAttempts: number;
+}
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+const sha256Hex = (message: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, message, { encoding: Crypto.CryptoEncoding.HEX });
+
+const createSalt = () =>
+  Array.from(Crypto.getRandomBytes(16), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Salted and stretched so a copied storage dump does not give away a 4-6 digit PIN at a glance.
+export const hashPin = async (pin: string, salt: string) => {
+  let digest = await sha256Hex(`${salt}:${pin}`);
+  for (let round = 1; round < PIN_HASH_ROUNDS; round += 1) {
+    digest = await sha256Hex(`${digest}${salt}`);
+  }
+  return digest;
+};
+
+const DEFAULT_CONFIG: AppLockConfig = {
+  pinHash: null,
+  salt: null,
+  pinLength: 4,
+  idleMinutes: DEFAULT_APP_LOCK_IDLE_MINUTES,
+  failedAttempts: 0,
+};
+
+export class AppLockStore {
+  private config: AppLockConfig = { ...DEFAULT_CONFIG };
+  private locked = false;
+  private ready = false;
+  private loaded: Promise<void> | null = null;
+  private snapshot: AppLockSnapshot = this.buildSnapshot();
+  private listeners = new Set<(snapshot: AppLockSnapshot) => void>();
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await secureStorage.getItem(APP_LOCK_STORAGE_KEY);
+          const parsed = raw ? (JSON.parse(raw) as Partial<AppLockConfig>) : null;
+          if (parsed) {
+            this.config = { ...DEFAULT_CONFIG, ...parsed };
+          }
+        } catch (error) {
+          console.warn('Failed to restore app lock settings', error);
+        }
+        // A cold start counts as returning from background.
+        this.locked = this.isEnabled();
+        this.ready = true;
+        this.emit();
+      })();
+    }
+    return this.loaded;
+  }
+
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  subscribe(listener: (snapshot: AppLockSnapshot) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isEnabled() {
+    return Boolean(this.config.pinHash && this.config.salt);
+  }
+
+  async setPin(pin: string) {
+    await this.load();
+    if (!isValidPin(pin)) {
+      throw new Error('PIN must have 4 to 6 digits.');
+    }
+    const salt = createSalt();
+    const pinHash = await hashPin(pin, salt);
+    this.config = { ...this.config, salt, pinHash, pinLength: pin.length, failedAttempts: 0 };
+    this.locked = false;
+    await this.commit();
+  }
+
+  async disable() {
+    await this.load();
+    this.config = { ...this.config, pinHash: null, salt: null, failedAttempts: 0 };
+    this.locked = false;
+    await this.commit();
+  }
+
+  async setIdleMinutes(minutes: number) {
+    await this.load();
+    this.config = { ...this.config, idleMinutes: minutes > 0 ? minutes : DEFAULT_APP_LOCK_IDLE_MINUTES };
+    await this.commit();
+  }
+
+  async verify(pin: string) {
+    const { pinHash, salt } = this.config;
+    return Boolean(pinHash && salt && (await hashPin(pin, salt)) === pinHash);
+  }
+
+  lock() {
+    if (!this.isEnabled() || this.locked) {
+      return;
+    }
+    this.locked = true;
+    this.emit();
+  }
+
+  // A fresh sign-in with credentials is stronger than the PIN, so it clears the lock and the failure count.
+  async release() {
+    await this.load();
+    if (!this.locked && this.config.failedAttempts === 0) {
+      return;
+    }
+    this.locked = false;
+    this.config = { ...this.config, failedAttempts: 0 };
+    await this.commit();
+  }
+
+  async unlock(pin: string): Promise<AppLockUnlockResult> {
+    await this.load();
+    if (await this.verify(pin)) {
+      this.locked = false;
+      this.config = { ...this.config, failedAttempts: 0 };
+      await this.commit();
+      return 'unlocked';
+    }
+
+    const failedAttempts = this.config.failedAttempts + 1;
+    if (failedAttempts >= APP_LOCK_MAX_ATTEMPTS) {
+      // Stays locked; the caller signs out and only a credential sign-in releases it.
+      this.config = { ...this.config, failedAttempts: 0 };
+      await this.commit();
+      return 'lockedOut';
+    }
+
+    this.config = { ...this.config, failedAttempts };
+    await this.commit();
+    return 'invalid';
+  }
+
+  private async commit() {
+    this.emit();
+    try {
+      await secureStorage.setItem(APP_LOCK_STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.warn('Failed to persist app lock settings', error);
+    }
+  }
+
+  private buildSnapshot(): AppLockSnapshot {
+    return {
+      ready: this.ready,
+      enabled: this.isEnabled(),
+      locked: this.locked,
+      pinLength: this.config.pinLength,
+      idleMinutes: this.config.idleMinutes,
+      remainingAttempts: APP_LOCK_MAX_ATTEMPTS - this.config.failedAttempts,
+    };
+  }
+
+  private emit() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+}
+
+export const appLockStore = new AppLockStore();
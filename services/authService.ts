@@ -1,5 +1,6 @@
-import { API_CONFIG } from '../constants/api';
+import { API_CONFIG, ApiClientConfig } from '../constants/api';
 import { ApiClient, ApiResponse } from './apiClient';
+import { TwoFactorMethod } from '../utils/security/twoFactor';
 
 export interface AuthCredentials {
   username: string;
@@ -19,30 +20,118 @@ export interface GoogleCodeExchangePayload {
   codeVerifier?: string;
 }
 
+export interface OAuthCodeExchangePayload {
+  provider: string;
+  code: string;
+  redirectUri: string;
+  codeVerifier?: string;
+}
+
+export interface ChangePasswordPayload {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ResetPasswordPayload {
+  email: string;
+  code: string;
+  newPassword: string;
+}
+
+export interface TwoFactorVerifyPayload {
+  challengeToken: string;
+  code: string;
+  method: TwoFactorMethod;
+  rememberDevice: boolean;
+  isRecoveryCode: boolean;
+}
+
+export type AuthServicePaths = Pick<
+  ApiClientConfig,
+  | 'authPath'
+  | 'googleAuthPath'
+  | 'googleCodeAuthPath'
+  | 'refreshAuthPath'
+  | 'enterprisesPath'
+  | 'switchEnterprisePath'
+  | 'permissionsPath'
+  | 'changePasswordPath'
+  | 'forgotPasswordPath'
+  | 'resetPasswordPath'
+  | 'twoFactorVerifyPath'
+  | 'twoFactorResendPath'
+  | 'twoFactorPath'
+>;
+
 export class AuthService {
   private readonly authPath: string;
   private readonly googleAuthPath?: string;
   private readonly googleCodeAuthPath?: string;
+  private readonly refreshAuthPath?: string;
+  private readonly enterprisesPath: string;
+  private readonly switchEnterprisePath: string;
+  private readonly permissionsPath: string;
+  private readonly changePasswordPath: string;
+  private readonly forgotPasswordPath: string;
+  private readonly resetPasswordPath: string;
+  private readonly twoFactorVerifyPath: string;
+  private readonly twoFactorResendPath: string;
+  private readonly twoFactorPath: string;
+  private rememberedDeviceToken: string | null = null;
 
   constructor(
     private readonly client: ApiClient,
-    authPath = API_CONFIG.authPath,
-    googleAuthPath = API_CONFIG.googleAuthPath,
-    googleCodeAuthPath = API_CONFIG.googleCodeAuthPath,
+    paths: AuthServicePaths = API_CONFIG,
   ) {
-    this.authPath = authPath;
-    this.googleAuthPath = googleAuthPath;
-    this.googleCodeAuthPath = googleCodeAuthPath;
+    this.authPath = paths.authPath;
+    this.googleAuthPath = paths.googleAuthPath;
+    this.googleCodeAuthPath = paths.googleCodeAuthPath;
+    this.refreshAuthPath = paths.refreshAuthPath;
+    this.enterprisesPath = paths.enterprisesPath ?? '/User/GetEnterprises';
+    this.switchEnterprisePath = paths.switchEnterprisePath ?? '/User/SwitchEnterprise';
+    this.permissionsPath = paths.permissionsPath ?? '/User/GetPermissions';
+    this.changePasswordPath = paths.changePasswordPath ?? '/User/ChangePassword';
+    this.forgotPasswordPath = paths.forgotPasswordPath ?? '/User/ForgotPassword';
+    this.resetPasswordPath = paths.resetPasswordPath ?? '/User/ResetPassword';
+    this.twoFactorVerifyPath = paths.twoFactorVerifyPath ?? '/User/VerifyTwoFactor';
+    this.twoFactorResendPath = paths.twoFactorResendPath ?? '/User/ResendTwoFactorCode';
+    this.twoFactorPath = paths.twoFactorPath ?? '/User/TwoFactor';
+  }
+
+  // Routes whose requests or responses carry passwords, codes or tokens; sub-paths count too.
+  getCredentialPaths() {
+    return [
+      this.authPath,
+      this.googleAuthPath,
+      this.googleCodeAuthPath,
+      this.refreshAuthPath,
+      this.switchEnterprisePath,
+      this.changePasswordPath,
+      this.forgotPasswordPath,
+      this.resetPasswordPath,
+      this.twoFactorVerifyPath,
+      this.twoFactorResendPath,
+      this.twoFactorPath,
+    ].filter((path): path is string => Boolean(path));
+  }
+
+  // A device remembered after a second-factor check lets the backend skip the challenge on later sign-ins.
+  setRememberedDeviceToken(deviceToken: string | null) {
+    this.rememberedDeviceToken = deviceToken;
+  }
+
+  private withDeviceToken<T extends object>(body: T): T & { deviceToken?: string } {
+    return this.rememberedDeviceToken ? { ...body, deviceToken: this.rememberedDeviceToken } : body;
   }
 
   login(credentials: AuthCredentials): Promise<ApiResponse<AuthTokens>> {
-    return this.client.request<AuthTokens, { userName: string; password: string }>({
+    return this.client.request<AuthTokens, { userName: string; password: string; deviceToken?: string }>({
       path: this.authPath,
       method: 'POST',
-      body: {
+      body: this.withDeviceToken({
         userName: credentials.username,
         password: credentials.password,
-      },
+      }),
       withAuth: false,
     });
   }
@@ -53,7 +142,7 @@ export class AuthService {
     return this.client.request<AuthTokens>({
       path,
       method: 'POST',
-      body: { idToken },
+      body: this.withDeviceToken({ idToken }),
       withAuth: false,
     });
   }
@@ -61,11 +150,148 @@ export class AuthService {
   loginWithGoogleCode(payload: GoogleCodeExchangePayload): Promise<ApiResponse<AuthTokens>> {
     const path = this.googleCodeAuthPath ?? `${this.authPath}/LoginWithGoogleCode`;
 
-    return this.client.request<AuthTokens, GoogleCodeExchangePayload>({
+    return this.client.request<AuthTokens, GoogleCodeExchangePayload & { deviceToken?: string }>({
       path,
       method: 'POST',
+      body: this.withDeviceToken(payload),
+      withAuth: false,
+    });
+  }
+
+  // Same contract as the Google code flow; `provider` lets one backend route serve several identity providers.
+  loginWithOAuthCode(exchangePath: string, payload: OAuthCodeExchangePayload): Promise<ApiResponse<AuthTokens>> {
+    return this.client.request<AuthTokens, OAuthCodeExchangePayload & { deviceToken?: string }>({
+      path: exchangePath,
+      method: 'POST',
+      body: this.withDeviceToken(payload),
+      withAuth: false,
+    });
+  }
+
+  refresh(refreshToken: string): Promise<ApiResponse<AuthTokens>> {
+    const path = this.refreshAuthPath ?? `${this.authPath}/RefreshToken`;
+
+    return this.client.request<AuthTokens, { refreshToken: string }>({
+      path,
+      method: 'POST',
+      body: { refreshToken },
+      withAuth: false,
+    });
+  }
+
+  fetchEnterprises(): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown>({
+      path: this.enterprisesPath,
+      method: 'GET',
+    });
+  }
+
+  fetchPermissions(): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown>({
+      path: this.permissionsPath,
+      method: 'GET',
+    });
+  }
+
+  // Re-issues the session token scoped to another enterprise the user belongs to.
+  switchEnterprise(enterpriseId: string): Promise<ApiResponse<AuthTokens>> {
+    return this.client.request<AuthTokens, { enterpriseId: string }>({
+      path: this.switchEnterprisePath,
+      method: 'POST',
+      body: { enterpriseId },
+    });
+  }
+
+  // A 401 here means the current password was wrong, not that the session expired, so it must not refresh or sign out.
+  changePassword(payload: ChangePasswordPayload): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, ChangePasswordPayload>({
+      path: this.changePasswordPath,
+      method: 'POST',
+      body: payload,
+      skipAuthRefresh: true,
+    });
+  }
+
+  // Sends a reset code to the address; backends answer the same way whether or not the account exists.
+  requestPasswordReset(email: string): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { email: string }>({
+      path: this.forgotPasswordPath,
+      method: 'POST',
+      body: { email },
+      withAuth: false,
+    });
+  }
+
+  resetPassword(payload: ResetPasswordPayload): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, ResetPasswordPayload>({
+      path: this.resetPasswordPath,
+      method: 'POST',
       body: payload,
       withAuth: false,
     });
   }
+
+  verifyTwoFactor(payload: TwoFactorVerifyPayload): Promise<ApiResponse<AuthTokens>> {
+    return this.client.request<AuthTokens, TwoFactorVerifyPayload>({
+      path: this.twoFactorVerifyPath,
+      method: 'POST',
+      body: payload,
+      withAuth: false,
+    });
+  }
+
+  resendTwoFactorCode(challengeToken: string, method: TwoFactorMethod): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { challengeToken: string; method: TwoFactorMethod }>({
+      path: this.twoFactorResendPath,
+      method: 'POST',
+      body: { challengeToken, method },
+      withAuth: false,
+    });
+  }
+
+  fetchTwoFactorStatus(): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown>({
+      path: this.twoFactorPath,
+      method: 'GET',
+    });
+  }
+
+  setupTwoFactor(method: TwoFactorMethod): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { method: TwoFactorMethod }>({
+      path: `${this.twoFactorPath}/Setup`,
+      method: 'POST',
+      body: { method },
+    });
+  }
+
+  enableTwoFactor(method: TwoFactorMethod, code: string): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { method: TwoFactorMethod; code: string }>({
+      path: `${this.twoFactorPath}/Enable`,
+      method: 'POST',
+      body: { method, code },
+    });
+  }
+
+  disableTwoFactor(code: string): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { code: string }>({
+      path: `${this.twoFactorPath}/Disable`,
+      method: 'POST',
+      body: { code },
+    });
+  }
+
+  regenerateRecoveryCodes(code: string): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown, { code: string }>({
+      path: `${this.twoFactorPath}/RecoveryCodes`,
+      method: 'POST',
+      body: { code },
+    });
+  }
+
+  forgetRememberedDevice(deviceId: string): Promise<ApiResponse<unknown>> {
+    return this.client.request<unknown>({
+      path: `${this.twoFactorPath}/Devices/${encodeURIComponent(deviceId)}`,
+      method: 'DELETE',
+    });
+  }
 }
@@ -0,0 +1,142 @@
+import { Platform } from 'react-native';
+import { QueryScope } from './queryCache';
+import { AppLanguage } from '../utils/language';
+
+const CROSS_TAB_CHANNEL_NAME = 'nerv-erp';
+const CROSS_TAB_STORAGE_KEY = 'crossTab:message';
+
+export type CrossTabMessage =
+  | { type: 'session'; environmentId: string; signedIn: boolean }
+  | { type: 'language'; environmentId: string; language: AppLanguage | null }
+  | { type: 'theme'; userKey: string | null; theme: 'light' | 'dark' }
+  | { type: 'mutation'; scopes: QueryScope[] };
+
+interface CrossTabEnvelope {
+  sender: string;
+  message: CrossTabMessage;
+}
+
+export interface CrossTabTransport {
+  post: (envelope: CrossTabEnvelope) => void;
+  listen: (receive: (envelope: CrossTabEnvelope) => void) => () => void;
+}
+
+const isEnvelope = (value: unknown): value is CrossTabEnvelope =>
+  Boolean(
+    value &&
+      typeof value === 'object' &&
+      typeof (value as CrossTabEnvelope).sender === 'string' &&
+      (value as CrossTabEnvelope).message &&
+      typeof (value as CrossTabEnvelope).message.type === 'string',
+  );
+
+const createBroadcastChannelTransport = (): CrossTabTransport => {
+  const channel = new BroadcastChannel(CROSS_TAB_CHANNEL_NAME);
+  return {
+    post: (envelope) => channel.postMessage(envelope),
+    listen: (receive) => {
+      const handler = (event: MessageEvent) => {
+        if (isEnvelope(event.data)) {
+          receive(event.data);
+        }
+      };
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+  };
+};
+
+// Older browsers without BroadcastChannel still fire `storage` events in every other tab of the origin.
+const createStorageEventTransport = (target: Window): CrossTabTransport => ({
+  post: (envelope) => {
+    try {
+      target.localStorage.setItem(CROSS_TAB_STORAGE_KEY, JSON.stringify({ ...envelope, sentAt: Date.now() }));
+      target.localStorage.removeItem(CROSS_TAB_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Failed to notify other tabs', error);
+    }
+  },
+  listen: (receive) => {
+    const handler = (event: StorageEvent) => {
+      if (event.key !== CROSS_TAB_STORAGE_KEY || !event.newValue) {
+        return;
+      }
+      try {
+        const parsed = JSON.parse(event.newValue);
+        if (isEnvelope(parsed)) {
+          receive(parsed);
+        }
+      } catch {
+        // Not ours.
+      }
+    };
+    target.addEventListener('storage', handler);
+    return () => target.removeEventListener('storage', handler);
+  },
+});
+
+const resolveDefaultTransport = (): CrossTabTransport | null => {
+  if (Platform.OS !== 'web') {
+    return null;
+  }
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannelTransport();
+  }
+  const target = typeof window !== 'undefined' ? window : null;
+  if (target?.localStorage && typeof target.addEventListener === 'function') {
+    return createStorageEventTransport(target);
+  }
+  return null;
+};
+
+// Keeps every open tab of the web build in step: sign-in/out, theme, language and data edits.
+// Native builds have a single instance, so there is no transport and publishing is a no-op.
+export class CrossTabBridge {
+  private readonly sender = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private listeners = new Set<(message: CrossTabMessage) => void>();
+  private transport: CrossTabTransport | null | undefined;
+  private detach: (() => void) | null = null;
+
+  constructor(transport?: CrossTabTransport | null) {
+    this.transport = transport;
+  }
+
+  publish(message: CrossTabMessage) {
+    this.resolveTransport()?.post({ sender: this.sender, message });
+  }
+
+  subscribe(listener: (message: CrossTabMessage) => void) {
+    this.listeners.add(listener);
+    if (!this.detach) {
+      this.detach =
+        this.resolveTransport()?.listen((envelope) => {
+          // Some transports echo to the sender; a tab already applied its own change.
+          if (envelope.sender === this.sender) {
+            return;
+          }
+          this.listeners.forEach((entry) => entry(envelope.message));
+        }) ?? null;
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.detach) {
+        this.detach();
+        this.detach = null;
+      }
+    };
+  }
+
+  private resolveTransport() {
+    if (this.transport === undefined) {
+      try {
+        this.transport = resolveDefaultTransport();
+      } catch (error) {
+        console.warn('Failed to open cross-tab channel', error);
+        this.transport = null;
+      }
+    }
+    return this.transport;
+  }
+}
+
+export const crossTabBridge = new CrossTabBridge();
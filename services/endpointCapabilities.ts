@@ -0,0 +1,111 @@
+import { secureStorage } from './secureStorage';
+
+const CAPABILITIES_STORAGE_PREFIX = 'endpointCapabilities';
+
+export type EndpointOperation = 'deleteOrder' | 'updateOrder' | 'fetchPayableBills';
+
+export interface EndpointCapability {
+  variant: string;
+  resolvedAt: string;
+}
+
+export type EndpointCapabilityMap = Partial<Record<EndpointOperation, EndpointCapability>>;
+
+// Route shapes each operation may need, in the order they are probed.
+export const ENDPOINT_VARIANTS: Record<EndpointOperation, string[]> = {
+  deleteOrder: [
+    'DELETE /Order/DeleteOrder?id={id}',
+    'DELETE /Order/DeleteOrder/{id}',
+    'DELETE /Order/DeleteOrder { id }',
+    'DELETE /Order/DeleteOrder { orderId }',
+    'POST /Order/DeleteOrder { id }',
+    'POST /Order/DeleteOrder { orderId }',
+  ],
+  updateOrder: ['PUT /Order/UpdateOrder', 'POST /Order/UpdateOrder'],
+  fetchPayableBills: [
+    'GET /PayableBills/GetPayableBills/{page}/{size}',
+    'GET /PayableBills/GetPayableBills',
+  ],
+};
+
+export class EndpointCapabilityStore {
+  private capabilities = new Map<string, EndpointCapabilityMap>();
+  private loading = new Map<string, Promise<EndpointCapabilityMap>>();
+  private listeners = new Set<() => void>();
+
+  load(baseUrl: string): Promise<EndpointCapabilityMap> {
+    const cached = this.capabilities.get(baseUrl);
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    const running = this.loading.get(baseUrl);
+    if (running) {
+      return running;
+    }
+
+    const request = (async () => {
+      let restored: EndpointCapabilityMap = {};
+      try {
+        const raw = await secureStorage.getItem(this.storageKey(baseUrl));
+        restored = raw ? (JSON.parse(raw) as EndpointCapabilityMap) : {};
+      } catch (error) {
+        console.warn('Failed to restore endpoint capabilities', error);
+      }
+      this.capabilities.set(baseUrl, restored);
+      this.loading.delete(baseUrl);
+      this.emit();
+      return restored;
+    })();
+
+    this.loading.set(baseUrl, request);
+    return request;
+  }
+
+  get(baseUrl: string) {
+    return this.capabilities.get(baseUrl) ?? {};
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async remember(baseUrl: string, operation: EndpointOperation, variant: string) {
+    const current = await this.load(baseUrl);
+    if (current[operation]?.variant === variant) {
+      return;
+    }
+    await this.save(baseUrl, {
+      ...current,
+      [operation]: { variant, resolvedAt: new Date().toISOString() },
+    });
+  }
+
+  async reset(baseUrl: string) {
+    await this.load(baseUrl);
+    await this.save(baseUrl, {});
+  }
+
+  private async save(baseUrl: string, next: EndpointCapabilityMap) {
+    this.capabilities.set(baseUrl, next);
+    this.emit();
+    try {
+      await secureStorage.setItem(this.storageKey(baseUrl), JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to persist endpoint capabilities', error);
+    }
+  }
+
+  private storageKey(baseUrl: string) {
+    return `${CAPABILITIES_STORAGE_PREFIX}:${baseUrl.replace(/\/$/, '')}`;
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const endpointCapabilities = new EndpointCapabilityStore();
@@ -1,5 +1,38 @@
 import { Buffer } from 'buffer';
-import { ApiClient } from './apiClient';
+import { ApiClient, ApiResponse } from './apiClient';
+import { ApiError } from './apiError';
+import {
+  OFFLINE_MUTATION_ENTITY,
+  OfflineMutation,
+  OfflineMutationEntity,
+  OfflineMutationKind,
+  OfflineMutationQueue,
+  canQueueMutation,
+  offlineMutationQueue,
+} from './offlineQueue';
+import { QueryCache, QueryScope, queryCache } from './queryCache';
+import { CrossTabBridge, crossTabBridge } from './crossTab';
+import {
+  BILL_SCHEMA,
+  CUSTOMER_SCHEMA,
+  ORDER_HISTORY_SCHEMA,
+  ORDER_LINE_ITEM_SCHEMA,
+  ORDER_SCHEMA,
+  PRODUCT_SCHEMA,
+  SchemaDriftReport,
+  USER_SCHEMA,
+  normalizeBoolean,
+  normalizeNumber,
+  normalizeString,
+  schemaDriftReport,
+} from './normalizerSchemas';
+import {
+  ENDPOINT_VARIANTS,
+  EndpointCapabilityStore,
+  EndpointOperation,
+  endpointCapabilities,
+} from './endpointCapabilities';
+import { AccessRole, accessRoleIndex, resolveAccessRole } from '../utils/access';
 
 export interface Product {
   id: string | number;
@@ -31,6 +64,7 @@ export interface Order {
   payday?: string | null;
   paymentScheduledDate?: string | null;
   paymentDate?: string | null;
+  trackingCode?: string | null;
   createdAt?: string;
   updatedAt?: string;
   total: number;
@@ -58,6 +92,8 @@ export interface OrderUpdatePayload {
   PaymentScheduledDate?: string | null;
   paymentDate?: string | null;
   PaymentDate?: string | null;
+  trackingCode?: string | null;
+  statusChangeReason?: string;
   userId?: string | number;
   status: number;
   updatedAt: string;
@@ -161,6 +197,24 @@ export interface OrderCreatePayload {
   orderedProduct?: OrderLineItem[];
 }
 
+export type OrderHistoryKind = 'status' | 'items' | 'payment';
+export type OrderHistorySource = 'manual' | 'signalr' | 'automation';
+
+export interface OrderHistoryEntry {
+  id: string;
+  orderId: string;
+  kind: OrderHistoryKind;
+  source: OrderHistorySource;
+  at: string;
+  user?: string | null;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  paymentDate?: string | null;
+  items?: number;
+  total?: number;
+  note?: string | null;
+}
+
 export interface Customer {
   id?: string | number;
   name?: string;
@@ -206,6 +260,37 @@ export interface CustomerFilter {
   enterpriseId?: string;
 }
 
+export type UserAccountStatus = 'Active' | 'Invited' | 'Inactive';
+
+export interface UserAccount {
+  id?: string | number;
+  name?: string;
+  email?: string;
+  role?: AccessRole;
+  status?: UserAccountStatus;
+  isActive?: boolean;
+  lastLoginAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  enterpriseId?: string;
+}
+
+export interface UserFilter {
+  name?: string;
+  email?: string;
+  // Access level index, as in `ACCESS_LEVEL_BY_INDEX`.
+  role?: number;
+  isActive?: boolean;
+  enterpriseId?: string;
+}
+
+export interface UserInvitePayload {
+  email: string;
+  name?: string;
+  role: number;
+  enterpriseId?: string;
+}
+
 export interface Report {
   id: number;
   title: string;
@@ -215,14 +300,6 @@ export interface Report {
   icon: string;
 }
 
-const normalizeString = (value: unknown) => {
-  if (typeof value !== 'string') {
-    return null;
-  }
-  const trimmed = value.trim();
-  return trimmed ? trimmed : null;
-};
-
 const pickFirstString = (...values: unknown[]) => {
   for (const value of values) {
     const normalized = normalizeString(value);
@@ -233,21 +310,6 @@ const pickFirstString = (...values: unknown[]) => {
   return null;
 };
 
-const normalizeNumber = (value: unknown) => {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    if (!trimmed) {
-      return null;
-    }
-    const parsed = Number(trimmed.replace(',', '.'));
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
 const pickFirstNumber = (...values: unknown[]) => {
   for (const value of values) {
     const normalized = normalizeNumber(value);
@@ -258,7 +320,7 @@ const pickFirstNumber = (...values: unknown[]) => {
   return null;
 };
 
-const ORDER_STATUS_LABELS = ['Pending', 'Processing', 'Paid', 'Shipped', 'Delivered', 'Finished'] as const;
+export const ORDER_STATUS_LABELS = ['Pending', 'Processing', 'Paid', 'Shipped', 'Delivered', 'Finished'] as const;
 
 const resolveOrderStatusLabel = (...values: unknown[]) => {
   for (const value of values) {
@@ -281,30 +343,6 @@ const resolveOrderStatusLabel = (...values: unknown[]) => {
   return 'Pending';
 };
 
-const normalizeBoolean = (value: unknown) => {
-  if (typeof value === 'boolean') {
-    return value;
-  }
-  if (typeof value === 'number') {
-    if (value === 1) {
-      return true;
-    }
-    if (value === 0) {
-      return false;
-    }
-  }
-  if (typeof value === 'string') {
-    const normalized = value.trim().toLowerCase();
-    if (['true', '1', 'yes', 'y'].includes(normalized)) {
-      return true;
-    }
-    if (['false', '0', 'no', 'n'].includes(normalized)) {
-      return false;
-    }
-  }
-  return undefined;
-};
-
 const normalizeDate = (value: unknown) => {
   if (value instanceof Date) {
     return Number.isNaN(value.getTime()) ? null : value;
@@ -330,8 +368,91 @@ const looksLikeId = (value: string | null) => {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(trimmed);
 };
 
+export type MutationResponse<T> = ApiResponse<T> & {
+  // Set when the request never reached the server and was parked in the offline queue instead.
+  queued?: boolean;
+  queuedMutationId?: string;
+};
+
+export interface MutationOptions {
+  // Cached queries the caller already patched in place; the rest of the scope is still invalidated.
+  patchedQueryKeys?: string[];
+}
+
+export interface FetchAllProgress {
+  pagesLoaded: number;
+  rowsLoaded: number;
+  maxPages: number;
+}
+
+export interface FetchAllOptions {
+  pageSize?: number;
+  maxPages?: number;
+  // Pages requested in parallel; later pages of a batch are dropped once an earlier one comes back empty.
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchAllProgress) => void;
+}
+
+export interface FetchAllResult<T> {
+  ok: boolean;
+  data: T[];
+  error?: string;
+  apiError?: ApiError;
+  // True when a page failed, the run was aborted after some rows were already collected, or `maxPages` cut it short.
+  partial: boolean;
+  // `maxPages` was reached while the backend still had rows past it.
+  truncated: boolean;
+  aborted: boolean;
+  pagesLoaded: number;
+}
+
+export type PageFetcher<T> = (pageNumber: number, pageSize: number, signal?: AbortSignal) => Promise<ApiResponse<T[]>>;
+
+const FETCH_ALL_PAGE_SIZE = 100;
+const FETCH_ALL_MAX_PAGES = 50;
+
+const resolveRowKey = (row: { id?: string | number | null } | null | undefined, page: number, index: number) => {
+  const rawId = row?.id;
+  return rawId !== undefined && rawId !== null && String(rawId).trim() !== ''
+    ? String(rawId)
+    : `page:${page}:idx:${index}`;
+};
+
+// A ProblemDetails body on a 404 comes from a controller that exists, so the record is what is missing.
+const hasProblemDetails = (data: unknown) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+  const body = data as Record<string, unknown>;
+  return typeof body.title === 'string' || typeof body.detail === 'string' || typeof body.type === 'string';
+};
+
+const isRouteMismatch = (response: ApiResponse<unknown>) =>
+  response.status === 405 ||
+  response.status === 501 ||
+  (response.status === 404 && !hasProblemDetails(response.data));
+
+// Statuses that suggest the backend expects another route or body shape, so the next variant is worth a try.
+const isShapeMismatch = (response: ApiResponse<unknown>) =>
+  isRouteMismatch(response) || response.status === 400 || response.status === 415 || response.status === 422;
+
+// Orders feed the customer order summaries, so their mutations invalidate both.
+const MUTATION_INVALIDATES: Record<OfflineMutationEntity, QueryScope[]> = {
+  order: ['orders', 'customers'],
+  customer: ['customers'],
+  payableBill: ['payableBills'],
+};
+
 export class ErpService {
-  constructor(private readonly client: ApiClient) {}
+  constructor(
+    private readonly client: ApiClient,
+    private readonly outbox: OfflineMutationQueue | null = offlineMutationQueue,
+    private readonly cache: QueryCache = queryCache,
+    private readonly capabilities: EndpointCapabilityStore = endpointCapabilities,
+    private readonly drift: SchemaDriftReport = schemaDriftReport,
+    private readonly tabs: CrossTabBridge | null = crossTabBridge,
+  ) {}
 
   async fetchProducts(
     pageNumber = 1,
@@ -339,12 +460,14 @@ export class ErpService {
     descending = false,
     filter: ProductFilter = { isActive: true, name: '' },
     includePictures = false,
+    signal?: AbortSignal,
   ) {
     const response = await this.client.request<Product[], ProductFilter>({
       path: `/Product/GetProductsByFilter/${descending}/${pageNumber}/${pageSize}`,
       method: 'POST',
       query: { includePictures },
       body: filter,
+      signal,
     });
 
     if (response.ok) {
@@ -372,11 +495,13 @@ export class ErpService {
     pageSize = 25,
     descending = false,
     filter: OrderFilter = {},
+    signal?: AbortSignal,
   ) {
     const response = await this.client.request<Order[], OrderFilter>({
       path: `/Order/GetOrdersByFilter/${descending}/${pageNumber}/${pageSize}`,
       method: 'POST',
       body: filter,
+      signal,
     });
 
     if (response.ok) {
@@ -391,6 +516,10 @@ export class ErpService {
   }
 
   async createOrder(order: OrderCreatePayload) {
+    return this.finishMutation('createOrder', order, await this.sendCreateOrder(order));
+  }
+
+  private async sendCreateOrder(order: OrderCreatePayload) {
     return this.client.request<Order, OrderCreatePayload>({
       path: '/Order/AddOrder',
       method: 'POST',
@@ -398,108 +527,70 @@ export class ErpService {
     });
   }
 
-  async updateOrder(order: OrderUpdatePayload) {
-    const normalizeOrderResponse = (response: {
-      ok: boolean;
-      data: Order | null;
-      status: number;
-      error?: string;
-      headers: Record<string, string>;
-    }) => {
-      if (response.ok && response.data) {
-        return {
-          ...response,
-          data: this.normalizeOrder(response.data as Record<string, any>),
-        };
-      }
-
-      if (response.ok) {
-        return {
-          ...response,
-          data: null,
-        };
-      }
-
-      return response;
-    };
+  async updateOrder(order: OrderUpdatePayload, options: MutationOptions = {}) {
+    return this.finishMutation('updateOrder', order, await this.sendUpdateOrder(order), options);
+  }
 
-    const response = await this.client.request<Order, OrderUpdatePayload>({
-      path: '/Order/UpdateOrder',
-      method: 'PUT',
-      body: order,
+  private async sendUpdateOrder(order: OrderUpdatePayload) {
+    const response = await this.requestWithVariants<Order>('updateOrder', {
+      'PUT /Order/UpdateOrder': () =>
+        this.client.request<Order, OrderUpdatePayload>({ path: '/Order/UpdateOrder', method: 'PUT', body: order }),
+      'POST /Order/UpdateOrder': () =>
+        this.client.request<Order, OrderUpdatePayload>({ path: '/Order/UpdateOrder', method: 'POST', body: order }),
     });
 
-    if (response.ok) {
-      return normalizeOrderResponse(response);
+    if (response.ok && response.data) {
+      return {
+        ...response,
+        data: this.normalizeOrder(response.data as Record<string, any>),
+      };
     }
 
-    const fallbackPost = await this.client.request<Order, OrderUpdatePayload>({
-      path: '/Order/UpdateOrder',
-      method: 'POST',
-      body: order,
-    });
-
-    if (fallbackPost.ok) {
-      return normalizeOrderResponse(fallbackPost);
+    if (response.ok) {
+      return {
+        ...response,
+        data: null,
+      };
     }
-    return fallbackPost;
+
+    return response;
   }
 
   async deleteOrder(id: string | number) {
-    const response = await this.client.request<void>({
-      path: '/Order/DeleteOrder',
-      method: 'DELETE',
-      query: { id },
-    });
-
-    if (response.ok) {
-      return response;
-    }
+    return this.finishMutation('deleteOrder', id, await this.sendDeleteOrder(id));
+  }
 
+  private async sendDeleteOrder(id: string | number) {
     const encodedId = encodeURIComponent(String(id));
-    const byPath = await this.client.request<void>({
-      path: `/Order/DeleteOrder/${encodedId}`,
-      method: 'DELETE',
-    });
-
-    if (byPath.ok) {
-      return byPath;
-    }
-
-    const deleteWithBody = await this.client.request<void, { id: string | number }>({
-      path: '/Order/DeleteOrder',
-      method: 'DELETE',
-      body: { id },
-    });
-
-    if (deleteWithBody.ok) {
-      return deleteWithBody;
-    }
-
-    const deleteWithAltBody = await this.client.request<void, { orderId: string | number }>({
-      path: '/Order/DeleteOrder',
-      method: 'DELETE',
-      body: { orderId: id },
-    });
-
-    if (deleteWithAltBody.ok) {
-      return deleteWithAltBody;
-    }
-
-    const postFallback = await this.client.request<void, { id: string | number }>({
-      path: '/Order/DeleteOrder',
-      method: 'POST',
-      body: { id },
-    });
-
-    if (postFallback.ok) {
-      return postFallback;
-    }
-
-    return this.client.request<void, { orderId: string | number }>({
-      path: '/Order/DeleteOrder',
-      method: 'POST',
-      body: { orderId: id },
+    return this.requestWithVariants<void>('deleteOrder', {
+      'DELETE /Order/DeleteOrder?id={id}': () =>
+        this.client.request<void>({ path: '/Order/DeleteOrder', method: 'DELETE', query: { id } }),
+      'DELETE /Order/DeleteOrder/{id}': () =>
+        this.client.request<void>({ path: `/Order/DeleteOrder/${encodedId}`, method: 'DELETE' }),
+      'DELETE /Order/DeleteOrder { id }': () =>
+        this.client.request<void, { id: string | number }>({
+          path: '/Order/DeleteOrder',
+          method: 'DELETE',
+          body: { id },
+        }),
+      'DELETE /Order/DeleteOrder { orderId }': () =>
+        this.client.request<void, { orderId: string | number }>({
+          path: '/Order/DeleteOrder',
+          method: 'DELETE',
+          body: { orderId: id },
+        }),
+      'POST /Order/DeleteOrder { id }': () =>
+        this.client.request<void, { id: string | number }>({
+          path: '/Order/DeleteOrder',
+          method: 'POST',
+          body: { id },
+        }),
+      'POST /Order/DeleteOrder { orderId }': () =>
+        this.client.request<void, { orderId: string | number }>({
+          path: '/Order/DeleteOrder',
+          method: 'POST',
+          body: { orderId: id },
+        }),
     });
   }
 
@@ -508,11 +599,13 @@ export class ErpService {
     pageSize = 25,
     descending = false,
     filter: CustomerFilter = {},
+    signal?: AbortSignal,
   ) {
     const response = await this.client.request<Customer[], CustomerFilter>({
       path: `/Customer/GetCustomersByFilter/${descending}/${pageNumber}/${pageSize}`,
       method: 'POST',
       body: filter,
+      signal,
     });
 
     if (response.ok) {
@@ -598,6 +691,25 @@ export class ErpService {
     };
   }
 
+  async fetchOrderHistory(orderId: string | number) {
+    const encodedId = encodeURIComponent(String(orderId));
+    const response = await this.client.request<OrderHistoryEntry[]>({
+      path: `/Order/GetOrderHistory/${encodedId}`,
+      method: 'GET',
+    });
+
+    if (response.ok) {
+      const normalized = this.normalizeList<OrderHistoryEntry>(response.data);
+      return {
+        ...response,
+        data: normalized.map((item, index) =>
+          this.normalizeOrderHistoryEntry(item as Record<string, any>, String(orderId), index),
+        ),
+      };
+    }
+    return response;
+  }
+
   async getBillByOrder(orderId: string | number) {
     const encodedId = encodeURIComponent(String(orderId));
     const response = await this.client.request<Bill>({
@@ -660,41 +772,40 @@ export class ErpService {
     return response;
   }
 
-  async fetchPayableBills(pageNumber = 1, pageSize = 25) {
-    const pagedResponse = await this.client.request<PayableBill[]>({
-      path: `/PayableBills/GetPayableBills/${pageNumber}/${pageSize}`,
-      method: 'GET',
-    });
-
-    if (pagedResponse.ok) {
-      const normalized = this
-        .normalizeList<PayableBill>(pagedResponse.data)
-        .map((item) => this.normalizePayableBill(item as Record<string, any>));
-      return {
-        ...pagedResponse,
-        data: normalized,
-      };
-    }
-
-    const fallbackResponse = await this.client.request<PayableBill[]>({
-      path: '/PayableBills/GetPayableBills',
-      method: 'GET',
+  async fetchPayableBills(pageNumber = 1, pageSize = 25, signal?: AbortSignal) {
+    const response = await this.requestWithVariants<PayableBill[]>('fetchPayableBills', {
+      'GET /PayableBills/GetPayableBills/{page}/{size}': () =>
+        this.client.request<PayableBill[]>({
+          path: `/PayableBills/GetPayableBills/${pageNumber}/${pageSize}`,
+          method: 'GET',
+          signal,
+        }),
+      'GET /PayableBills/GetPayableBills': () =>
+        this.client.request<PayableBill[]>({
+          path: '/PayableBills/GetPayableBills',
+          method: 'GET',
+          signal,
+        }),
     });
 
-    if (fallbackResponse.ok) {
+    if (response.ok) {
       const normalized = this
-        .normalizeList<PayableBill>(fallbackResponse.data)
+        .normalizeList<PayableBill>(response.data)
         .map((item) => this.normalizePayableBill(item as Record<string, any>));
       return {
-        ...fallbackResponse,
+        ...response,
         data: normalized,
       };
     }
 
-    return fallbackResponse;
+    return response;
   }
 
   async createPayableBill(payload: PayableBillPayload) {
+    return this.finishMutation('createPayableBill', payload, await this.sendCreatePayableBill(payload));
+  }
+
+  private async sendCreatePayableBill(payload: PayableBillPayload) {
     const response = await this.client.request<PayableBill, PayableBillPayload>({
       path: '/PayableBills/AddPayableBill',
       method: 'POST',
@@ -712,6 +823,10 @@ export class ErpService {
   }
 
   async updatePayableBill(payload: PayableBillPayload) {
+    return this.finishMutation('updatePayableBill', payload, await this.sendUpdatePayableBill(payload));
+  }
+
+  private async sendUpdatePayableBill(payload: PayableBillPayload) {
     const response = await this.client.request<PayableBill, PayableBillPayload>({
       path: '/PayableBills/UpdatePayableBill',
       method: 'PUT',
@@ -729,6 +844,10 @@ export class ErpService {
   }
 
   async deletePayableBill(id: string) {
+    return this.finishMutation('deletePayableBill', id, await this.sendDeletePayableBill(id));
+  }
+
+  private async sendDeletePayableBill(id: string) {
     const encodedId = encodeURIComponent(id);
     return this.client.request<PayableBill>({
       path: `/PayableBills/DeletePayableBill/${encodedId}`,
@@ -774,6 +893,10 @@ export class ErpService {
   }
 
   async createCustomer(customer: Customer) {
+    return this.finishMutation('createCustomer', customer, await this.sendCreateCustomer(customer));
+  }
+
+  private async sendCreateCustomer(customer: Customer) {
     const response = await this.client.request<Customer, Customer>({
       path: '/Customer/AddCustomer',
       method: 'POST',
@@ -786,6 +909,10 @@ export class ErpService {
   }
 
   async updateCustomer(customer: Customer) {
+    return this.finishMutation('updateCustomer', customer, await this.sendUpdateCustomer(customer));
+  }
+
+  private async sendUpdateCustomer(customer: Customer) {
     const response = await this.client.request<Customer, Customer>({
       path: '/Customer/UpdateCustomer',
       method: 'PUT',
@@ -798,6 +925,10 @@ export class ErpService {
   }
 
   async deactivateCustomer(id: string | number) {
+    return this.finishMutation('deactivateCustomer', id, await this.sendDeactivateCustomer(id));
+  }
+
+  private async sendDeactivateCustomer(id: string | number) {
     const encodedId = encodeURIComponent(String(id));
     return this.client.request<void>({
       path: `/Customer/DeleteCustomer/${encodedId}`,
@@ -805,215 +936,363 @@ export class ErpService {
     });
   }
 
-  async updateProduct(product: Product) {
-    return this.client.request<Product, Product>({
-      path: '/Product/UpdateProduct',
-      method: 'PUT',
-      body: product,
+  async fetchUsers(pageNumber = 1, pageSize = 25, descending = false, filter: UserFilter = {}) {
+    const response = await this.client.request<UserAccount[], UserFilter>({
+      path: `/User/GetUsersByFilter/${descending}/${pageNumber}/${pageSize}`,
+      method: 'POST',
+      body: filter,
     });
+
+    if (response.ok) {
+      const normalized = this.normalizeList<UserAccount>(response.data);
+      return {
+        ...response,
+        data: normalized.map((item) => this.normalizeUser(item as Record<string, any>)),
+      };
+    }
+    return response;
   }
 
-  async createProduct(payload: { product: Product; file: string }) {
-    return this.client.request<Product, { product: Product; file: string }>({
-      path: '/Product/AddProduct',
-      method: 'POST',
-      body: payload,
-    });
+  async inviteUser(payload: UserInvitePayload) {
+    const response = this.invalidateOnSuccess(
+      'users',
+      await this.client.request<UserAccount, UserInvitePayload>({
+        path: '/User/InviteUser',
+        method: 'POST',
+        body: payload,
+      }),
+    );
+    if (response.ok && response.data) {
+      return { ...response, data: this.normalizeUser(response.data as Record<string, any>) };
+    }
+    return response;
   }
 
-  async deleteProduct(id: string | number) {
-    return this.client.request<void>({
-      path: '/Product/DeleteProduct',
-      method: 'DELETE',
-      query: { id },
-    });
+  async updateUserRole(id: string | number, role: AccessRole) {
+    return this.invalidateOnSuccess(
+      'users',
+      await this.client.request<void, { userId: string | number; role: number }>({
+        path: '/User/UpdateUserRole',
+        method: 'PUT',
+        body: { userId: id, role: accessRoleIndex(role) },
+      }),
+    );
   }
 
-  fetchReports() {
-    return this.client.request<Report[]>({
-      path: '/reports',
-      method: 'GET',
-    });
+  async deactivateUser(id: string | number) {
+    const encodedId = encodeURIComponent(String(id));
+    return this.invalidateOnSuccess(
+      'users',
+      await this.client.request<void>({
+        path: `/User/DeactivateUser/${encodedId}`,
+        method: 'DELETE',
+      }),
+    );
   }
 
-  private normalizeCustomer(item: Record<string, any>): Customer {
-    const idCandidate =
-      item.id ??
-      item.Id ??
-      item.customerId ??
-      item.CustomerId ??
-      item.CustomerID ??
-      item.customer_id ??
-      item.customerCode ??
-      item.CustomerCode ??
-      item.customer_code ??
-      item.code ??
-      item.custId ??
-      item.CustId ??
-      item.cust_id ??
-      item.userId ??
-      item.UserId ??
-      item.user_id ??
-      item.uuid ??
-      item.Uuid ??
-      item.externalId ??
-      item.ExternalId ??
-      item.external_id ??
-      item.document ??
-      item.Document ??
-      item.documentNumber ??
-      item.DocumentNumber ??
-      item.document_number ??
-      item.email ??
-      item.Email ??
-      item.name ??
-      item.Name ??
-      null;
-    const normalizedId =
-      typeof idCandidate === 'string' ? idCandidate.trim() : idCandidate;
-    const id = normalizedId === '' ? undefined : normalizedId;
+  // The backend emails the user a reset link; the admin never sees the new password.
+  resetUserPassword(id: string | number) {
+    return this.client.request<void, { userId: string | number }>({
+      path: '/User/SendPasswordReset',
+      method: 'POST',
+      body: { userId: id },
+    });
+  }
 
-    const firstName = pickFirstString(
-      item.firstName,
-      item.FirstName,
-      item.first_name,
-      item.givenName,
-      item.GivenName,
-      item.given_name,
-    );
-    const lastName = pickFirstString(
-      item.lastName,
-      item.LastName,
-      item.last_name,
-      item.surname,
-      item.familyName,
-      item.FamilyName,
-      item.family_name,
-    );
-    const combinedName = [firstName, lastName].filter(Boolean).join(' ').trim();
-    const name =
-      pickFirstString(
-        item.name,
-        item.Name,
-        item.fullName,
-        item.FullName,
-        item.full_name,
-        item.displayName,
-        item.DisplayName,
-        item.display_name,
-      ) ||
-      combinedName ||
-      null;
-
-    const email = pickFirstString(
-      item.email,
-      item.Email,
-      item.emailAddress,
-      item.EmailAddress,
-      item.email_address,
-      item.mail,
-      item.contactEmail,
-      item.ContactEmail,
-      item.contact_email,
-      item?.contact?.email,
+  async updateProduct(product: Product) {
+    return this.invalidateOnSuccess(
+      'products',
+      await this.client.request<Product, Product>({
+        path: '/Product/UpdateProduct',
+        method: 'PUT',
+        body: product,
+      }),
     );
+  }
 
-    const phoneNumber = pickFirstString(
-      item.phoneNumber,
-      item.PhoneNumber,
-      item.phone_number,
-      item.phone,
-      item.Phone,
-      item.mobile,
-      item.Mobile,
-      item.mobileNumber,
-      item.MobileNumber,
-      item.mobile_number,
-      item.contactPhone,
-      item.ContactPhone,
-      item.contact_phone,
+  async createProduct(payload: { product: Product; file: string }) {
+    return this.invalidateOnSuccess(
+      'products',
+      await this.client.request<Product, { product: Product; file: string }>({
+        path: '/Product/AddProduct',
+        method: 'POST',
+        body: payload,
+      }),
     );
+  }
 
-    const adress = pickFirstString(
-      item.adress,
-      item.Adress,
-      item.address,
-      item.Address,
-      item.addressLine,
-      item.AddressLine,
-      item.address_line,
-      item.street,
-      item.Street,
-      item.streetAddress,
-      item.StreetAddress,
-      item.street_address,
-      item?.address?.line1,
+  async deleteProduct(id: string | number) {
+    return this.invalidateOnSuccess(
+      'products',
+      await this.client.request<void>({
+        path: '/Product/DeleteProduct',
+        method: 'DELETE',
+        query: { id },
+      }),
     );
+  }
+
+  async *iteratePages<T>(
+    fetchPage: PageFetcher<T>,
+    { pageSize = FETCH_ALL_PAGE_SIZE, maxPages = FETCH_ALL_MAX_PAGES, concurrency = 1, signal }: FetchAllOptions = {},
+  ): AsyncGenerator<{ page: number; response: ApiResponse<T[]> }> {
+    const batchSize = Math.max(1, concurrency);
+    for (let firstPage = 1; firstPage <= maxPages; firstPage += batchSize) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      const pages = Array.from(
+        { length: Math.min(batchSize, maxPages - firstPage + 1) },
+        (_, index) => firstPage + index,
+      );
+      const responses = await Promise.all(pages.map((page) => fetchPage(page, pageSize, signal)));
+
+      for (let index = 0; index < pages.length; index += 1) {
+        if (signal?.aborted) {
+          return;
+        }
+        const response = responses[index];
+        yield { page: pages[index], response };
+        if (!response.ok || (response.data ?? []).length === 0) {
+          return;
+        }
+      }
+    }
+  }
 
-    const document = pickFirstString(
-      item.document,
-      item.Document,
-      item.documentNumber,
-      item.DocumentNumber,
-      item.document_number,
-      item.taxId,
-      item.TaxId,
-      item.tax_id,
-      item.cpf,
-      item.Cpf,
-      item.cnpj,
-      item.Cnpj,
+  async fetchAll<T extends { id?: string | number | null }>(
+    fetchPage: PageFetcher<T>,
+    options: FetchAllOptions = {},
+  ): Promise<FetchAllResult<T>> {
+    const maxPages = options.maxPages ?? FETCH_ALL_MAX_PAGES;
+    const pageSize = options.pageSize ?? FETCH_ALL_PAGE_SIZE;
+    const rows: T[] = [];
+    const seenKeys = new Set<string>();
+    let pagesLoaded = 0;
+    let reachedEnd = false;
+
+    for await (const { page, response } of this.iteratePages(fetchPage, options)) {
+      if (!response.ok) {
+        return {
+          ok: false,
+          data: rows,
+          error: response.error,
+          apiError: response.apiError,
+          partial: rows.length > 0,
+          truncated: false,
+          aborted: false,
+          pagesLoaded,
+        };
+      }
+
+      let addedRows = 0;
+      (response.data ?? []).forEach((row, index) => {
+        const key = resolveRowKey(row, page, index);
+        if (seenKeys.has(key)) {
+          return;
+        }
+        seenKeys.add(key);
+        rows.push(row);
+        addedRows += 1;
+      });
+
+      pagesLoaded += 1;
+      options.onProgress?.({ pagesLoaded, rowsLoaded: rows.length, maxPages });
+
+      // Some backends cap page size silently or ignore paging; stop once a page yields nothing new.
+      if (addedRows === 0) {
+        reachedEnd = true;
+        break;
+      }
+    }
+
+    // Backends may cap the page size below what was asked for, so the last page's length says nothing
+    // about the end; one page past the cap tells whether rows were left behind.
+    let truncated = false;
+    if (!options.signal?.aborted && !reachedEnd && pagesLoaded >= maxPages) {
+      const probe = await fetchPage(maxPages + 1, pageSize, options.signal);
+      truncated =
+        !probe.ok ||
+        (probe.data ?? []).some((row, index) => !seenKeys.has(resolveRowKey(row, maxPages + 1, index)));
+    }
+
+    const aborted = Boolean(options.signal?.aborted);
+    return {
+      ok: !aborted,
+      data: rows,
+      partial: (aborted && rows.length > 0) || truncated,
+      truncated: !aborted && truncated,
+      aborted,
+      pagesLoaded,
+    };
+  }
+
+  fetchAllProducts(filter: ProductFilter = { isActive: true, name: '' }, options?: FetchAllOptions) {
+    return this.fetchAll<Product>(
+      (pageNumber, pageSize, signal) => this.fetchProducts(pageNumber, pageSize, false, filter, false, signal),
+      options,
     );
+  }
 
-    const orders = pickFirstNumber(
-      item.orders,
-      item.Orders,
-      item.orderCount,
-      item.OrderCount,
-      item.ordersCount,
-      item.OrdersCount,
-      item.orders_count,
-      item.totalOrders,
-      item.TotalOrders,
-      item.total_orders,
-      item.totalPurchases,
-      item.TotalPurchases,
-      item.total_purchases,
-      item.purchaseCount,
-      item.PurchaseCount,
-      item.purchase_count,
+  fetchAllOrders(filter: OrderFilter = {}, options?: FetchAllOptions) {
+    return this.fetchAll<Order>(
+      (pageNumber, pageSize, signal) => this.fetchOrders(pageNumber, pageSize, false, filter, signal),
+      options,
     );
+  }
 
-    const spent = pickFirstNumber(
-      item.spent,
-      item.Spent,
-      item.totalSpent,
-      item.TotalSpent,
-      item.total_spent,
-      item.totalValue,
-      item.TotalValue,
-      item.total_value,
-      item.totalAmount,
-      item.TotalAmount,
-      item.total_amount,
-      item.total,
-      item.Total,
-      item.lifetimeValue,
-      item.LifetimeValue,
-      item.lifetime_value,
+  fetchAllCustomers(filter: CustomerFilter = {}, options?: FetchAllOptions) {
+    return this.fetchAll<Customer>(
+      (pageNumber, pageSize, signal) => this.fetchCustomers(pageNumber, pageSize, false, filter, signal),
+      options,
     );
+  }
 
-    const statusCandidate = pickFirstString(
-      item.status,
-      item.Status,
-      item.customerStatus,
-      item.CustomerStatus,
-      item.customer_status,
-      item.state,
-      item.State,
+  fetchAllPayableBills(options?: FetchAllOptions) {
+    return this.fetchAll<PayableBill>(
+      (pageNumber, pageSize, signal) => this.fetchPayableBills(pageNumber, pageSize, signal),
+      options,
     );
-    const statusNormalized = statusCandidate?.toLowerCase();
-    const isActive = normalizeBoolean(item.isActive ?? item.active ?? item.is_active);
+  }
+
+  replayOfflineMutation(entry: OfflineMutation): Promise<ApiResponse<unknown>> {
+    switch (entry.kind) {
+      case 'createOrder':
+        return this.sendCreateOrder(entry.payload as OrderCreatePayload);
+      case 'updateOrder':
+        return this.sendUpdateOrder(entry.payload as OrderUpdatePayload);
+      case 'deleteOrder':
+        return this.sendDeleteOrder(entry.payload as string | number);
+      case 'createCustomer':
+        return this.sendCreateCustomer(entry.payload as Customer);
+      case 'updateCustomer':
+        return this.sendUpdateCustomer(entry.payload as Customer);
+      case 'deactivateCustomer':
+        return this.sendDeactivateCustomer(entry.payload as string | number);
+      case 'createPayableBill':
+        return this.sendCreatePayableBill(entry.payload as PayableBillPayload);
+      case 'updatePayableBill':
+        return this.sendUpdatePayableBill(entry.payload as PayableBillPayload);
+      case 'deletePayableBill':
+        return this.sendDeletePayableBill(entry.payload as string);
+      default:
+        return Promise.resolve({
+          data: null,
+          ok: false,
+          status: 400,
+          error: `Unknown offline mutation ${String((entry as OfflineMutation).kind)}`,
+          headers: {},
+        });
+    }
+  }
+
+  replayOfflineQueue() {
+    if (!this.outbox) {
+      return Promise.resolve({ synced: 0, remaining: 0, stoppedOffline: false });
+    }
+    return this.outbox.replay(async (entry) => {
+      const response = await this.replayOfflineMutation(entry);
+      if (response.ok) {
+        this.invalidateScopes(MUTATION_INVALIDATES[entry.entity]);
+      }
+      return response;
+    });
+  }
+
+  private async requestWithVariants<T>(
+    operation: EndpointOperation,
+    senders: Record<string, () => Promise<ApiResponse<T>>>,
+  ): Promise<ApiResponse<T>> {
+    const baseUrl = this.client.getBaseUrl();
+    const known = (await this.capabilities.load(baseUrl))[operation]?.variant;
+    const variants = ENDPOINT_VARIANTS[operation].filter((variant) => senders[variant]);
+
+    let lastResponse: ApiResponse<T> | null = null;
+    if (known && senders[known]) {
+      lastResponse = await senders[known]();
+      // Only a missing route sends us back to probing; any other answer came from the right endpoint.
+      if (lastResponse.ok || !isRouteMismatch(lastResponse)) {
+        return lastResponse;
+      }
+    }
+
+    for (const variant of variants) {
+      if (variant === known) {
+        continue;
+      }
+
+      const response = await senders[variant]();
+      if (response.ok) {
+        await this.capabilities.remember(baseUrl, operation, variant);
+        return response;
+      }
+
+      lastResponse = response;
+      if (!isShapeMismatch(response)) {
+        break;
+      }
+    }
+
+    return lastResponse as ApiResponse<T>;
+  }
+
+  // Other open tabs drop the same cached scopes, so an edit made here shows up there too.
+  private invalidateScopes(scopes: QueryScope[], except: string[] = []) {
+    this.cache.invalidate(scopes, except);
+    this.tabs?.publish({ type: 'mutation', scopes });
+  }
+
+  private invalidateOnSuccess<T>(scope: QueryScope, response: ApiResponse<T>) {
+    if (response.ok) {
+      this.invalidateScopes([scope]);
+    }
+    return response;
+  }
+
+  private async finishMutation<T>(
+    kind: OfflineMutationKind,
+    payload: unknown,
+    response: ApiResponse<T>,
+    options: MutationOptions = {},
+  ): Promise<MutationResponse<T>> {
+    if (response.ok) {
+      this.invalidateScopes(MUTATION_INVALIDATES[OFFLINE_MUTATION_ENTITY[kind]], options.patchedQueryKeys);
+      return response;
+    }
+
+    // Anything the server rejected, or a create that may have reached it, is returned as-is.
+    if (!this.outbox || !canQueueMutation(kind, response as ApiResponse<unknown>)) {
+      return response;
+    }
+
+    const entry = await this.outbox.enqueue(kind, payload, response as ApiResponse<unknown>);
+    if (!entry) {
+      return response;
+    }
+    return {
+      ...response,
+      queued: true,
+      queuedMutationId: entry.id,
+    };
+  }
+
+  fetchReports() {
+    return this.client.request<Report[]>({
+      path: '/reports',
+      method: 'GET',
+    });
+  }
+
+  private normalizeCustomer(item: Record<string, any>): Customer {
+    const fields = this.drift.read(CUSTOMER_SCHEMA, item);
+    const normalizedId = typeof fields.id === 'string' ? fields.id.trim() : fields.id;
+    const id = normalizedId === '' ? undefined : normalizedId;
+    const combinedName = [fields.firstName, fields.lastName].filter(Boolean).join(' ').trim();
+    const name = fields.name || combinedName || null;
+
+    const statusNormalized = fields.status?.toLowerCase();
+    const isActive = fields.isActive;
     const inactiveCustomerStatuses = new Set([
       'inactive',
       'disabled',
@@ -1040,352 +1319,121 @@ export class ErpService {
       ...item,
       id,
       name: name ?? undefined,
-      email: email ?? undefined,
-      phoneNumber: phoneNumber ?? undefined,
-      adress: adress ?? undefined,
-      document: document ?? undefined,
-      status: status ?? undefined,
-      orders: orders ?? 0,
-      spent: spent ?? 0,
-      createdAt:
-        pickFirstString(
-          item.createdAt,
-          item.CreatedAt,
-          item.created_at,
-          item.createdOn,
-          item.CreatedOn,
-          item.created_on,
-        ) ?? undefined,
-      updatedAt:
-        pickFirstString(
-          item.updatedAt,
-          item.UpdatedAt,
-          item.updated_at,
-          item.updatedOn,
-          item.UpdatedOn,
-          item.updated_on,
-        ) ?? undefined,
-      isActive: normalizeBoolean(item.isActive ?? item.IsActive ?? item.active ?? item.Active ?? item.is_active),
-      isVip: normalizeBoolean(item.isVip ?? item.IsVip ?? item.isVIP ?? item.vip),
-      enterpriseId:
-        pickFirstString(
-          item.enterpriseId,
-          item.EnterpriseId,
-          item.enterprise_id,
-          item.tenantId,
-          item.TenantId,
-          item.tenant_id,
-        ) ??
-        undefined,
+      email: fields.email ?? undefined,
+      phoneNumber: fields.phoneNumber ?? undefined,
+      adress: fields.adress ?? undefined,
+      document: fields.document ?? undefined,
+      status,
+      orders: fields.orders ?? 0,
+      spent: fields.spent ?? 0,
+      createdAt: fields.createdAt ?? undefined,
+      updatedAt: fields.updatedAt ?? undefined,
+      isActive,
+      isVip: fields.isVip,
+      enterpriseId: fields.enterpriseId ?? undefined,
     };
   }
 
-  private normalizeProduct(item: Record<string, any>): Product {
-    const idCandidate =
-      item.id ??
-      item.Id ??
-      item.productId ??
-      item.ProductId ??
-      item.product_id ??
-      item.productCode ??
-      item.ProductCode ??
-      item.product_code ??
-      item.code ??
-      item.Code ??
-      item.uuid ??
-      item.Uuid ??
-      item.externalId ??
-      item.ExternalId ??
-      null;
-
-    const name = pickFirstString(
-      item.name,
-      item.Name,
-      item.productName,
-      item.ProductName,
-      item.descriptionName,
-    );
-
-    const description = pickFirstString(
-      item.description,
-      item.Description,
-      item.details,
-      item.Details,
-    );
+  private normalizeUser(item: Record<string, any>): UserAccount {
+    const fields = this.drift.read(USER_SCHEMA, item);
+    const normalizedId = typeof fields.id === 'string' ? fields.id.trim() : fields.id;
+    const statusNormalized = fields.status?.toLowerCase();
+    const isActive = fields.isActive ?? (statusNormalized ? statusNormalized !== 'inactive' : undefined);
+    const status: UserAccountStatus =
+      isActive === false
+        ? 'Inactive'
+        : fields.invitationPending || statusNormalized === 'invited' || statusNormalized === 'pending'
+          ? 'Invited'
+          : 'Active';
 
-    const defaultValue = pickFirstNumber(
-      item.defaultValue,
-      item.DefaultValue,
-      item.price,
-      item.Price,
-      item.unitPrice,
-      item.UnitPrice,
-    );
+    return {
+      ...item,
+      id: normalizedId === '' ? undefined : normalizedId,
+      name: fields.name ?? undefined,
+      email: fields.email ?? undefined,
+      role: resolveAccessRole(fields.role),
+      status,
+      isActive: isActive ?? true,
+      lastLoginAt: fields.lastLoginAt ?? undefined,
+      createdAt: fields.createdAt ?? undefined,
+      updatedAt: fields.updatedAt ?? undefined,
+      enterpriseId: fields.enterpriseId ?? undefined,
+    };
+  }
 
-    const storageQuantity = pickFirstNumber(
-      item.storageQuantity,
-      item.StorageQuantity,
-      item.stock,
-      item.Stock,
-      item.quantity,
-      item.Quantity,
-    );
+  private normalizeOrderHistoryEntry(item: Record<string, any>, orderId: string, index: number): OrderHistoryEntry {
+    const fields = this.drift.read(ORDER_HISTORY_SCHEMA, item);
+    const kindNormalized = fields.kind?.toLowerCase() ?? '';
+    const sourceNormalized = fields.source?.toLowerCase() ?? '';
+    const readStatus = (value: unknown) =>
+      value === undefined || value === null || value === '' ? null : resolveOrderStatusLabel(value);
+    const fromStatus = readStatus(fields.fromStatus);
+    const toStatus = readStatus(fields.toStatus);
+    const kind: OrderHistoryKind = kindNormalized.includes('item') || kindNormalized.includes('product')
+      ? 'items'
+      : kindNormalized.includes('pay')
+        ? 'payment'
+        : 'status';
+    const source: OrderHistorySource = sourceNormalized.includes('signal') || sourceNormalized.includes('hub')
+      ? 'signalr'
+      : ['auto', 'system', 'job', 'schedule'].some((token) => sourceNormalized.includes(token))
+        ? 'automation'
+        : 'manual';
+    const at = fields.at ?? '';
 
-    const unitOfMeasure = pickFirstString(
-      item.unitOfMeasure,
-      item.UnitOfMeasure,
-      item.uom,
-      item.Uom,
-      item.unit,
-      item.Unit,
-    );
+    return {
+      id: String(fields.id ?? `${orderId}-${at}-${index}`),
+      orderId: String(fields.orderId ?? orderId),
+      kind,
+      source,
+      at,
+      user: fields.user ?? null,
+      fromStatus,
+      toStatus,
+      paymentDate: fields.paymentDate ?? null,
+      items: fields.items ?? undefined,
+      total: fields.total ?? undefined,
+      note: fields.note ?? null,
+    };
+  }
 
-    const pictureAddress = pickFirstString(
-      item.pictureAddress,
-      item.PictureAddress,
-      item.pictureAdress,
-      item.PictureAdress,
-      item.picture_url,
-      item.pictureUrl,
-      item.PictureUrl,
-    );
+  private normalizeProduct(item: Record<string, any>): Product {
+    const fields = this.drift.read(PRODUCT_SCHEMA, item);
 
     return {
       ...item,
-      id: idCandidate ?? item.id,
-      name: name ?? '',
-      category: pickFirstString(item.category, item.Category) ?? '',
-      price: pickFirstNumber(item.price, item.Price, defaultValue) ?? undefined,
-      defaultValue: defaultValue ?? undefined,
-      storageQuantity: storageQuantity ?? undefined,
-      stock: pickFirstNumber(item.stock, item.Stock, storageQuantity) ?? undefined,
-      status: pickFirstString(item.status, item.Status) ?? '',
-      description: description ?? undefined,
-      pictureAddress: pictureAddress ?? undefined,
-      pictureAdress: pictureAddress ?? undefined,
-      unitOfMeasure: unitOfMeasure ?? undefined,
-      isExternal: normalizeBoolean(item.isExternal ?? item.IsExternal),
-      isService: normalizeBoolean(item.isService ?? item.IsService),
-      isActive: normalizeBoolean(item.isActive ?? item.IsActive ?? item.active ?? item.Active ?? item.is_active),
-      enterpriseId:
-        pickFirstString(
-          item.enterpriseId,
-          item.EnterpriseId,
-          item.enterprise_id,
-          item.tenantId,
-          item.TenantId,
-          item.tenant_id,
-        ) ?? undefined,
-      createdAt:
-        pickFirstString(
-          item.createdAt,
-          item.CreatedAt,
-          item.created_at,
-          item.createdOn,
-          item.CreatedOn,
-          item.created_on,
-        ) ?? undefined,
-      updatedAt:
-        pickFirstString(
-          item.updatedAt,
-          item.UpdatedAt,
-          item.updated_at,
-          item.updatedOn,
-          item.UpdatedOn,
-          item.updated_on,
-        ) ?? undefined,
-      orderedProduct: item.orderedProduct ?? item.OrderedProduct ?? undefined,
+      id: fields.id ?? item.id,
+      name: fields.name ?? '',
+      category: fields.category ?? '',
+      price: fields.price ?? fields.defaultValue ?? undefined,
+      defaultValue: fields.defaultValue ?? undefined,
+      storageQuantity: fields.storageQuantity ?? undefined,
+      stock: fields.stock ?? fields.storageQuantity ?? undefined,
+      status: fields.status ?? '',
+      description: fields.description ?? undefined,
+      pictureAddress: fields.pictureAddress ?? undefined,
+      pictureAdress: fields.pictureAddress ?? undefined,
+      unitOfMeasure: fields.unitOfMeasure ?? undefined,
+      isExternal: fields.isExternal,
+      isService: fields.isService,
+      isActive: fields.isActive,
+      enterpriseId: fields.enterpriseId ?? undefined,
+      createdAt: fields.createdAt ?? undefined,
+      updatedAt: fields.updatedAt ?? undefined,
+      orderedProduct: fields.orderedProduct,
     };
   }
 
   private normalizeOrder(item: Record<string, any>): Order {
-    const idNumber = pickFirstNumber(
-      item.id,
-      item.Id,
-      item.orderId,
-      item.OrderId,
-      item.order_id,
-      item.orderCode,
-      item.OrderCode,
-      item.order_code,
-    );
-    const idString = pickFirstString(
-      item.id,
-      item.Id,
-      item.orderId,
-      item.OrderId,
-      item.order_id,
-      item.orderCode,
-      item.OrderCode,
-      item.order_code,
-      item.uuid,
-      item.Uuid,
-      item.guid,
-      item.Guid,
-    );
-    const id = (idNumber ?? idString ?? item.id ?? '') as string | number;
-
-    let customer =
-      pickFirstString(
-        item.customer,
-        item.Customer,
-        item.customerName,
-        item.CustomerName,
-        item.customer_name,
-        item.client,
-        item.Client,
-        item.clientName,
-        item.ClientName,
-        item.client_name,
-        item.buyer,
-        item.Buyer,
-        item.buyerName,
-        item.BuyerName,
-        item.buyer_name,
-        item?.customer?.name,
-        item?.customer?.Name,
-        item?.customer?.fullName,
-        item?.customer?.FullName,
-        item?.customer?.full_name,
-        item?.customer?.displayName,
-        item?.customer?.DisplayName,
-        item?.customer?.display_name,
-        item?.customer?.email,
-      ) ?? 'Unknown customer';
-
-    let customerId =
-      item.customerId ??
-      item.CustomerId ??
-      item.customerID ??
-      item.CustomerID ??
-      item.customer_id ??
-      item.customerid ??
-      item.customerGuid ??
-      item.CustomerGuid ??
-      item.customer_guid ??
-      item.customerUuid ??
-      item.CustomerUuid ??
-      item.customer_uuid ??
-      item.customerCode ??
-      item.CustomerCode ??
-      item.customer_code ??
-      item.custId ??
-      item.CustId ??
-      item.cust_id ??
-      item.clientId ??
-      item.ClientId ??
-      item.client_id ??
-      item.buyerId ??
-      item.BuyerId ??
-      item.buyer_id ??
-      item?.customer?.id ??
-      item?.customer?.Id ??
-      item?.customer?.customerId ??
-      item?.customer?.CustomerId ??
-      undefined;
-
-    const createdAt =
-      pickFirstString(
-        item.createdAt,
-        item.CreatedAt,
-        item.created_at,
-        item.createdOn,
-        item.CreatedOn,
-        item.created_on,
-      ) ??
-      undefined;
-
-    const date =
-      pickFirstString(
-        item.date,
-        item.Date,
-        item.orderDate,
-        item.OrderDate,
-        item.order_date,
-        item.orderedAt,
-        item.OrderedAt,
-        item.ordered_at,
-        createdAt,
-      ) ?? '';
-
-    const payday =
-      pickFirstString(
-        item.payday,
-        item.Payday,
-        item.pay_day,
-      ) ?? null;
-
-    const paymentScheduledDate =
-      pickFirstString(
-        item.paymentScheduledDate,
-        item.PaymentScheduledDate,
-        item.payment_scheduled_date,
-      ) ?? null;
-
-    const paymentDate =
-      pickFirstString(
-        item.paymentDate,
-        item.PaymentDate,
-        item.paidAt,
-        item.PaidAt,
-        item.paid_at,
-      ) ?? null;
-
-    const totalValue = pickFirstNumber(
-      item.totalValue,
-      item.TotalValue,
-      item.total_value,
-      item.total,
-      item.Total,
-      item.orderTotal,
-      item.OrderTotal,
-      item.order_total,
-      item.amount,
-      item.Amount,
-      item.amountTotal,
-      item.AmountTotal,
-      item.amount_total,
-    );
-
-    const orderedProductCandidate =
-      item.orderedProduct ??
-      item.OrderedProduct ??
-      item.orderedProducts ??
-      item.OrderedProducts ??
-      item.ordered_product ??
-      item.orderdProduct ??
-      item.orderProducts ??
-      item.OrderProducts ??
-      item.orderProduct ??
-      item.OrderProduct ??
-      item.order_items ??
-      item.orderItems ??
-      item.OrderItems ??
-      item.productItems ??
-      item.ProductItems ??
-      item.products ??
-      item.Products ??
-      (Array.isArray(item.items) ? item.items : undefined) ??
-      (Array.isArray(item.Items) ? item.Items : undefined) ??
-      undefined;
-
-    const orderedProduct = Array.isArray(orderedProductCandidate)
-      ? orderedProductCandidate.map((entry) =>
-          this.normalizeOrderLineItem(entry as Record<string, any>),
-        )
-      : undefined;
-
-    const explicitItems = pickFirstNumber(
-      item.items,
-      item.Items,
-      item.itemCount,
-      item.ItemCount,
-      item.itemsCount,
-      item.ItemsCount,
-      item.items_count,
-      item.totalItems,
-      item.TotalItems,
-      item.total_items,
+    const fields = this.drift.read(ORDER_SCHEMA, item);
+    const id = (normalizeNumber(fields.id) ?? normalizeString(fields.id) ?? fields.id ?? '') as string | number;
+    let customer = fields.customer ?? 'Unknown customer';
+    let customerId = fields.customerId;
+    const createdAt = fields.createdAt ?? undefined;
+    const date = fields.date ?? createdAt ?? '';
+
+    const orderedProduct = fields.orderedProduct?.map((entry) =>
+      this.normalizeOrderLineItem(entry as Record<string, any>),
     );
 
     const derivedItems = (() => {
@@ -1399,34 +1447,7 @@ export class ErpService {
       return quantitySum > 0 ? quantitySum : orderedProduct.length;
     })();
 
-    const items = explicitItems ?? derivedItems ?? 0;
-
-    const status = resolveOrderStatusLabel(
-      item.status,
-      item.Status,
-      item.orderStatus,
-      item.OrderStatus,
-      item.order_status,
-      item.state,
-      item.State,
-    );
-
-    const updatedAt =
-      pickFirstString(
-        item.updatedAt,
-        item.UpdatedAt,
-        item.updated_at,
-        item.updatedOn,
-        item.UpdatedOn,
-        item.updated_on,
-      ) ??
-      undefined;
-
-    const isActive = normalizeBoolean(
-      item.isActive ?? item.IsActive ?? item.active ?? item.Active ?? item.is_active,
-    );
-
-    if (!customerId && typeof customer === 'string' && looksLikeId(customer)) {
+    if (!customerId && looksLikeId(customer)) {
       customerId = customer;
       customer = 'Unknown customer';
     }
@@ -1436,190 +1457,51 @@ export class ErpService {
       customer,
       customerId,
       date,
-      payday,
-      paymentScheduledDate,
-      paymentDate,
+      payday: fields.payday,
+      paymentScheduledDate: fields.paymentScheduledDate,
+      paymentDate: fields.paymentDate,
+      trackingCode: fields.trackingCode,
       createdAt,
-      updatedAt,
-      total: totalValue ?? 0,
-      totalValue: totalValue ?? undefined,
-      status,
-      items: items ?? 0,
+      updatedAt: fields.updatedAt ?? undefined,
+      total: fields.totalValue ?? 0,
+      totalValue: fields.totalValue ?? undefined,
+      status: resolveOrderStatusLabel(fields.status),
+      items: fields.items ?? derivedItems ?? 0,
       orderedProduct,
-      isActive,
+      isActive: fields.isActive,
     };
   }
 
   private normalizeOrderLineItem(item: Record<string, any>): OrderLineItem {
-    const productId =
-      item.productId ??
-      item.ProductId ??
-      item.product_id ??
-      item.productCode ??
-      item.ProductCode ??
-      item.product_code ??
-      item.itemId ??
-      item.ItemId ??
-      item.item_id ??
-      item.id ??
-      item.Id ??
-      item.product?.id ??
-      item.product?.Id ??
-      item.product?.productId ??
-      item.product?.ProductId ??
-      item?.product?.product_id ??
-      '';
-
-    const quantity =
-      pickFirstNumber(
-        item.quantity,
-        item.Quantity,
-        item.qty,
-        item.amount,
-        item.Amount,
-        item.amountQuantity,
-        item.AmountQuantity,
-        item.amount_quantity,
-        item.totalQuantity,
-        item.TotalQuantity,
-        item.total_quantity,
-      ) ?? 0;
-
-    const value =
-      pickFirstNumber(
-        item.value,
-        item.Value,
-        item.unitValue,
-        item.UnitValue,
-        item.unit_value,
-        item.unitPrice,
-        item.UnitPrice,
-        item.unit_price,
-        item.price,
-        item.Price,
-        item.defaultValue,
-        item.DefaultValue,
-        item.default_value,
-        item.product?.defaultValue,
-        item.product?.DefaultValue,
-        item.product?.price,
-        item.product?.Price,
-      ) ?? 0;
-
-    const total = pickFirstNumber(
-      item.total,
-      item.Total,
-      item.totalValue,
-      item.TotalValue,
-      item.total_value,
-      item.subtotal,
-      item.subTotal,
-      item.SubTotal,
-      item.lineTotal,
-      item.LineTotal,
-      item.line_total,
-    );
-
-    const totalValue =
-      pickFirstNumber(
-        item.totalValue,
-        item.TotalValue,
-        item.total_value,
-        item.total,
-        item.Total,
-        item.subtotal,
-        item.subTotal,
-        item.SubTotal,
-        item.lineTotal,
-        item.LineTotal,
-        item.line_total,
-      ) ?? total ?? undefined;
-
-    const product =
-      item.product ??
-      item.productDetails ??
-      item.product_detail ??
-      item.item ??
-      item.details ??
-      undefined;
+    const fields = this.drift.read(ORDER_LINE_ITEM_SCHEMA, item);
 
     return {
-      productId,
-      quantity,
-      value,
-      total: total ?? undefined,
-      totalValue,
-      product,
+      productId: fields.productId ?? '',
+      quantity: fields.quantity ?? 0,
+      value: fields.value ?? 0,
+      total: fields.total ?? undefined,
+      totalValue: fields.totalValue ?? undefined,
+      product: fields.product,
     };
   }
 
   private normalizeBill(item: Record<string, any>): Bill {
-    const id = item.id ?? item.Id ?? item.boletoId ?? item.BoletoId ?? item.boleto_id ?? undefined;
-    const orderId =
-      item.orderId ?? item.OrderId ?? item.order_id ?? item.orderID ?? item.OrderID ?? undefined;
-    const bankCode =
-      pickFirstNumber(item.bankCode, item.BankCode, item.bank_code, item.bank, item.bankId, item.BankId) ?? 0;
-    const ourNumber =
-      pickFirstString(item.ourNumber, item.OurNumber, item.nossoNumero, item.nosso_numero) ?? '';
-    const documentNumber =
-      pickFirstString(item.documentNumber, item.DocumentNumber, item.numeroDocumento, item.numero_documento) ?? '';
-    const issueDate =
-      pickFirstString(
-        item.issueDate,
-        item.IssueDate,
-        item.issue_date,
-        item.dataEmissao,
-        item.DataEmissao,
-        item.data_emissao,
-      ) ?? undefined;
-    const dueDate =
-      pickFirstString(
-        item.dueDate,
-        item.DueDate,
-        item.due_date,
-        item.dataVencimento,
-        item.DataVencimento,
-        item.data_vencimento,
-      ) ?? undefined;
-    const amount =
-      pickFirstNumber(
-        item.amount,
-        item.Amount,
-        item.valor,
-        item.valorTitulo,
-        item.valor_titulo,
-      ) ?? 0;
-    const digitableLine =
-      pickFirstString(
-        item.digitableLine,
-        item.DigitableLine,
-        item.linhaDigitavel,
-        item.linha_digitavel,
-      ) ?? '';
-    const barCode =
-      pickFirstString(
-        item.barCode,
-        item.BarCode,
-        item.barcode,
-        item.codigoBarras,
-        item.codigo_barras,
-      ) ?? '';
-    const htmlContent = pickFirstString(item.htmlContent, item.HtmlContent, item.html, item.html_content) ?? '';
+    const fields = this.drift.read(BILL_SCHEMA, item);
 
     return {
-      id,
-      orderId,
-      bankCode,
-      ourNumber,
-      documentNumber,
-      issueDate,
-      dueDate,
-      amount,
-      digitableLine,
-      barCode,
-      htmlContent,
-      createdAt: pickFirstString(item.createdAt, item.CreatedAt, item.created_at) ?? undefined,
-      updatedAt: pickFirstString(item.updatedAt, item.UpdatedAt, item.updated_at) ?? undefined,
+      id: fields.id,
+      orderId: fields.orderId,
+      bankCode: fields.bankCode ?? 0,
+      ourNumber: fields.ourNumber ?? '',
+      documentNumber: fields.documentNumber ?? '',
+      issueDate: fields.issueDate ?? undefined,
+      dueDate: fields.dueDate ?? undefined,
+      amount: fields.amount ?? 0,
+      digitableLine: fields.digitableLine ?? '',
+      barCode: fields.barCode ?? '',
+      htmlContent: fields.htmlContent ?? '',
+      createdAt: fields.createdAt ?? undefined,
+      updatedAt: fields.updatedAt ?? undefined,
     };
   }
 
@@ -0,0 +1,67 @@
+import { SecureStorage, secureStorage } from './secureStorage';
+
+export const FORM_DRAFT_SCOPES = ['order', 'customer', 'payableBill'] as const;
+export type FormDraftScope = (typeof FORM_DRAFT_SCOPES)[number];
+
+const FORM_DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface StoredFormDraft<T> {
+  owner: string;
+  savedAt: number;
+  values: T;
+}
+
+type DraftStorage = Pick<SecureStorage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const formDraftStorageKey = (environmentId: string, scope: FormDraftScope) =>
+  `formDraft:${environmentId}:${scope}`;
+
+export const formDraftStorageKeys = (environmentId: string) =>
+  FORM_DRAFT_SCOPES.map((scope) => formDraftStorageKey(environmentId, scope));
+
+export const resolveFormDraftOwner = (user: { id?: string | null; email?: string | null; name?: string } | null) =>
+  user ? user.id || user.email || user.name || null : null;
+
+// Unsaved forms outlive the session that opened them, so an expired token does not throw away typed work.
+// Drafts are kept per environment and only handed back to the user who wrote them.
+export class FormDraftStore {
+  constructor(private readonly storage: DraftStorage = secureStorage) {}
+
+  async load<T>(environmentId: string, scope: FormDraftScope, owner: string, now = Date.now()): Promise<T | null> {
+    const key = formDraftStorageKey(environmentId, scope);
+    try {
+      const raw = await this.storage.getItem(key);
+      const draft = raw ? (JSON.parse(raw) as StoredFormDraft<T>) : null;
+      if (!draft || typeof draft.savedAt !== 'number' || draft.values == null) {
+        return null;
+      }
+      if (now - draft.savedAt > FORM_DRAFT_TTL_MS) {
+        await this.storage.removeItem(key);
+        return null;
+      }
+      return draft.owner === owner ? draft.values : null;
+    } catch (error) {
+      console.warn('Failed to restore form draft', error);
+      return null;
+    }
+  }
+
+  async save<T>(environmentId: string, scope: FormDraftScope, owner: string, values: T, now = Date.now()) {
+    const draft: StoredFormDraft<T> = { owner, savedAt: now, values };
+    try {
+      await this.storage.setItem(formDraftStorageKey(environmentId, scope), JSON.stringify(draft));
+    } catch (error) {
+      console.warn('Failed to save form draft', error);
+    }
+  }
+
+  async discard(environmentId: string, scope: FormDraftScope) {
+    try {
+      await this.storage.removeItem(formDraftStorageKey(environmentId, scope));
+    } catch (error) {
+      console.warn('Failed to discard form draft', error);
+    }
+  }
+}
+
+export const formDraftStore = new FormDraftStore();
@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appLockStore } from './appLock';
+import {
+  apiEnvironmentStore,
+  rememberedDeviceStorageKey,
+  sessionStorageKey,
+  twoFactorChallengeStorageKey,
+} from './apiEnvironments';
+import { formDraftStorageKeys } from './formDrafts';
+import { networkLog } from './networkLog';
+import { orderHistoryStorageKey } from './orderHistory';
+import { offlineMutationQueue } from './offlineQueue';
+import { queryCache } from './queryCache';
+import { secureStorage } from './secureStorage';
+
+// Wipes everything this device keeps: sessions, form drafts and order history for every environment, queued offline
+// edits, cached data, diagnostics and preferences. The in-memory stores are reset first so nothing writes back afterwards.
+export const clearAllLocalData = async () => {
+  await apiEnvironmentStore.load();
+  const secureKeys = apiEnvironmentStore
+    .getSnapshot()
+    .environments.flatMap((entry) => [
+      sessionStorageKey(entry.id),
+      twoFactorChallengeStorageKey(entry.id),
+      rememberedDeviceStorageKey(entry.id),
+      ...formDraftStorageKeys(entry.id),
+      orderHistoryStorageKey(entry.id),
+    ]);
+
+  queryCache.clear();
+  await offlineMutationQueue.clear();
+  await networkLog.setEnabled(false);
+  await appLockStore.disable();
+  await apiEnvironmentStore.reset();
+  await secureStorage.clear(secureKeys);
+  await AsyncStorage.clear();
+};
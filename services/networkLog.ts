@@ -0,0 +1,287 @@
+import type { HubConnection } from '@microsoft/signalr';
+import { ApiInterceptor, ApiRequestContext, ApiResponse } from './apiClient';
+import { secureStorage } from './secureStorage';
+
+const NETWORK_LOG_ENABLED_STORAGE_KEY = 'networkLog:enabled';
+const MAX_ENTRIES = 200;
+const MAX_BODY_LENGTH = 4000;
+const REDACTED = '[redacted]';
+
+const SENSITIVE_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key)$/i;
+const SENSITIVE_FIELD_PATTERN = /password|token|secret|verifier|recovery|^code$|^otp$|^pin$/i;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+
+export type HubLogEvent = 'connecting' | 'connected' | 'reconnecting' | 'reconnected' | 'closed' | 'error' | 'message';
+
+export interface HttpLogEntry {
+  id: string;
+  kind: 'http';
+  at: string;
+  baseUrl: string;
+  method: string;
+  path: string;
+  status: number;
+  ok: boolean;
+  durationMs: number;
+  attempt: number;
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  responseHeaders: Record<string, string>;
+  responseBody?: unknown;
+  error?: string;
+  requestId?: string;
+}
+
+export interface HubLogEntry {
+  id: string;
+  kind: 'signalr';
+  at: string;
+  hub: string;
+  event: HubLogEvent;
+  name?: string;
+  detail?: unknown;
+}
+
+export type NetworkLogEntry = HttpLogEntry | HubLogEntry;
+
+export interface NetworkLogSnapshot {
+  enabled: boolean;
+  entries: NetworkLogEntry[];
+}
+
+const createEntryId = () => `net-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const redactHeaders = (headers: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [key, SENSITIVE_HEADER_PATTERN.test(key) ? REDACTED : value]),
+  );
+
+const redactValue = (value: unknown, depth: number): unknown => {
+  if (depth > 8) {
+    return '[depth limit]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactValue(entry, depth + 1));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : redactValue(entry, depth + 1),
+      ]),
+    );
+  }
+  // Bare tokens show up as raw string bodies or inside free-text fields.
+  return typeof value === 'string' ? value.replace(JWT_PATTERN, REDACTED) : value;
+};
+
+// Bodies are redacted field by field, then capped so one large list response can't swamp the log.
+export const redactBody = (body: unknown): unknown => {
+  if (body === undefined || body === null || body === '') {
+    return undefined;
+  }
+  if (body instanceof ArrayBuffer) {
+    return `[binary ${body.byteLength} bytes]`;
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return '[form data]';
+  }
+
+  let parsed = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = body;
+    }
+  }
+
+  const redacted = redactValue(parsed, 0);
+  const serialized = typeof redacted === 'string' ? redacted : JSON.stringify(redacted);
+  if (serialized.length <= MAX_BODY_LENGTH) {
+    return redacted;
+  }
+  return `${serialized.slice(0, MAX_BODY_LENGTH)}... (${serialized.length} chars)`;
+};
+
+const redactQuery = (query: ApiRequestContext['options']['query']) => {
+  const entries = Object.entries(query ?? {}).filter(([, value]) => value !== undefined && value !== null);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `?${entries
+    .map(([key, value]) => `${key}=${SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : String(value)}`)
+    .join('&')}`;
+};
+
+export class NetworkLog {
+  private enabled = false;
+  private entries: NetworkLogEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private snapshot: NetworkLogSnapshot = this.buildSnapshot();
+  private listeners = new Set<(snapshot: NetworkLogSnapshot) => void>();
+
+  load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          this.enabled = (await secureStorage.getItem(NETWORK_LOG_ENABLED_STORAGE_KEY)) === 'true';
+        } catch (error) {
+          console.warn('Failed to restore network log setting', error);
+        }
+        this.emit();
+      })();
+    }
+    return this.loaded;
+  }
+
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  subscribe(listener: (snapshot: NetworkLogSnapshot) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isEnabled() {
+    return this.enabled;
+  }
+
+  async setEnabled(enabled: boolean) {
+    await this.load();
+    this.enabled = enabled;
+    if (!enabled) {
+      this.entries = [];
+    }
+    this.emit();
+    try {
+      await secureStorage.setItem(NETWORK_LOG_ENABLED_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.warn('Failed to persist network log setting', error);
+    }
+  }
+
+  record(entry: Omit<HttpLogEntry, 'id'> | Omit<HubLogEntry, 'id'>) {
+    if (!this.enabled) {
+      return;
+    }
+    // Newest first; the oldest entries fall off once the cap is reached.
+    this.entries = [{ ...entry, id: createEntryId() } as NetworkLogEntry, ...this.entries].slice(0, MAX_ENTRIES);
+    this.emit();
+  }
+
+  recordHub(hub: string, event: HubLogEvent, name?: string, detail?: unknown) {
+    this.record({
+      kind: 'signalr',
+      at: new Date().toISOString(),
+      hub,
+      event,
+      name,
+      detail: redactBody(detail),
+    });
+  }
+
+  clear() {
+    this.entries = [];
+    this.emit();
+  }
+
+  exportJson(entries: NetworkLogEntry[] = this.entries) {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), count: entries.length, entries }, null, 2);
+  }
+
+  private buildSnapshot(): NetworkLogSnapshot {
+    return { enabled: this.enabled, entries: this.entries };
+  }
+
+  private emit() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+}
+
+export const networkLog = new NetworkLog();
+
+const matchesPath = (path: string, paths: string[]) => {
+  const normalized = path.toLowerCase();
+  return paths.some((entry) => {
+    const candidate = entry.toLowerCase();
+    return normalized === candidate || normalized.startsWith(`${candidate}/`);
+  });
+};
+
+// Sign-in, refresh, password and two-factor routes are logged without any body at all.
+const redactBodyFor = (path: string, credentialPaths: string[], body: unknown) =>
+  matchesPath(path, credentialPaths) && body !== undefined && body !== null && body !== ''
+    ? REDACTED
+    : redactBody(body);
+
+export const createNetworkLogInterceptor = (
+  baseUrl: string,
+  log: NetworkLog = networkLog,
+  credentialPaths: string[] = [],
+): ApiInterceptor => {
+  // Restores the opt-in flag early so requests sent right after startup are captured too.
+  log.load();
+  return {
+    name: 'networkLog',
+    onResponse: (response: ApiResponse<unknown>, context: ApiRequestContext) => {
+      if (!log.isEnabled()) {
+        return;
+      }
+      const { options } = context;
+      log.record({
+        kind: 'http',
+        at: new Date(context.startedAt).toISOString(),
+        baseUrl,
+        method: options.method ?? 'GET',
+        path: `${options.path}${redactQuery(options.query)}`,
+        status: response.status,
+        ok: response.ok,
+        durationMs: Date.now() - context.startedAt,
+        attempt: context.attempt,
+        requestHeaders: redactHeaders(context.headers),
+        requestBody: redactBodyFor(options.path, credentialPaths, options.body),
+        responseHeaders: redactHeaders(response.headers),
+        responseBody: redactBodyFor(options.path, credentialPaths, response.data),
+        error: response.ok ? undefined : response.error?.replace(JWT_PATTERN, REDACTED),
+        requestId: response.apiError?.requestId,
+      });
+    },
+  };
+};
+
+export const trackHubConnection = (
+  connection: HubConnection,
+  hub: string,
+  eventNames: string[],
+  log: NetworkLog = networkLog,
+) => {
+  const handlers = eventNames.map((eventName) => {
+    const handler = (...args: unknown[]) => log.recordHub(hub, 'message', eventName, args);
+    connection.on(eventName, handler);
+    return [eventName, handler] as const;
+  });
+  connection.onreconnecting((error) => log.recordHub(hub, 'reconnecting', undefined, error?.message));
+  connection.onreconnected((connectionId) => log.recordHub(hub, 'reconnected', undefined, connectionId));
+  connection.onclose((error) => log.recordHub(hub, 'closed', undefined, error?.message));
+
+  return {
+    start: () => {
+      log.recordHub(hub, 'connecting');
+      return connection.start().then(
+        () => log.recordHub(hub, 'connected'),
+        (error) => {
+          log.recordHub(hub, 'error', undefined, error?.message);
+          throw error;
+        },
+      );
+    },
+    dispose: () => {
+      handlers.forEach(([eventName, handler]) => connection.off(eventName, handler));
+    },
+  };
+};
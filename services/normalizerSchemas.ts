@@ -0,0 +1,495 @@
+export type SchemaEntity =
+  | 'customer'
+  | 'product'
+  | 'order'
+  | 'orderLineItem'
+  | 'orderHistory'
+  | 'bill'
+  | 'user';
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'value' | 'list';
+
+export interface SchemaField {
+  type: SchemaFieldType;
+  // Tried in order. Each alias also matches its PascalCase and snake_case spellings; dotted aliases read nested objects.
+  aliases: readonly string[];
+  // Reported as missing when none of the aliases is present on the payload.
+  required?: boolean;
+}
+
+export interface EntitySchema<F extends Record<string, SchemaField>> {
+  entity: SchemaEntity;
+  fields: F;
+}
+
+type FieldValue<T extends SchemaFieldType> = T extends 'string'
+  ? string | null
+  : T extends 'number'
+    ? number | null
+    : T extends 'boolean'
+      ? boolean | undefined
+      : T extends 'list'
+        ? unknown[] | undefined
+        : any;
+
+export type SchemaValues<F extends Record<string, SchemaField>> = { [K in keyof F]: FieldValue<F[K]['type']> };
+
+export interface SchemaDriftEntry {
+  entity: SchemaEntity;
+  samples: number;
+  lastSeenAt: string | null;
+  // field -> payload key that supplied it -> times seen.
+  aliasHits: Record<string, Record<string, number>>;
+  missing: Record<string, number>;
+  unknown: Record<string, number>;
+}
+
+export type SchemaDriftSnapshot = Partial<Record<SchemaEntity, SchemaDriftEntry>>;
+
+const toPascalCase = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const toSnakeCase = (value: string) => value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+const expandAlias = (alias: string) => {
+  const segments = alias.split('.');
+  const last = segments.pop() ?? alias;
+  const prefix = segments.length > 0 ? `${segments.join('.')}.` : '';
+  return Array.from(new Set([last, toPascalCase(last), toSnakeCase(last)])).map((variant) => `${prefix}${variant}`);
+};
+
+const readPath = (item: Record<string, any>, path: string) =>
+  path.split('.').reduce<any>((current, key) => (current && typeof current === 'object' ? current[key] : undefined), item);
+
+export const normalizeString = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+export const normalizeNumber = (value: unknown) => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+    const parsed = Number(trimmed.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const normalizeBoolean = (value: unknown) => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (value === 1) {
+      return true;
+    }
+    if (value === 0) {
+      return false;
+    }
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['true', '1', 'yes', 'y'].includes(normalized)) {
+      return true;
+    }
+    if (['false', '0', 'no', 'n'].includes(normalized)) {
+      return false;
+    }
+  }
+  return undefined;
+};
+
+// Returns the converted value, or undefined when this alias should not win.
+const convertField = (type: SchemaFieldType, raw: unknown) => {
+  switch (type) {
+    case 'string':
+      return normalizeString(raw) ?? undefined;
+    case 'number':
+      return normalizeNumber(raw) ?? undefined;
+    case 'list':
+      return Array.isArray(raw) ? raw : undefined;
+    case 'boolean':
+    case 'value':
+      return raw ?? undefined;
+    default:
+      return undefined;
+  }
+};
+
+const emptyFieldValue = (type: SchemaFieldType) => (type === 'string' || type === 'number' ? null : undefined);
+
+interface CompiledSchema {
+  candidates: Record<string, string[]>;
+  knownKeys: Set<string>;
+}
+
+export class SchemaDriftReport {
+  private entries: SchemaDriftSnapshot = {};
+  private snapshot: SchemaDriftSnapshot = {};
+  private listeners = new Set<() => void>();
+  private compiled = new Map<EntitySchema<any>, CompiledSchema>();
+  private emitScheduled = false;
+
+  read<F extends Record<string, SchemaField>>(schema: EntitySchema<F>, item: Record<string, any>): SchemaValues<F> {
+    const { candidates, knownKeys } = this.compile(schema);
+    const entry = this.entryFor(schema.entity);
+    const values = {} as Record<string, unknown>;
+
+    Object.entries(schema.fields).forEach(([field, definition]) => {
+      let present = false;
+      let value: unknown;
+      for (const alias of candidates[field]) {
+        const raw = readPath(item, alias);
+        present = present || raw !== undefined;
+        const converted = convertField(definition.type, raw);
+        if (converted !== undefined) {
+          value = definition.type === 'boolean' ? normalizeBoolean(converted) : converted;
+          const hits = entry.aliasHits[field] ?? {};
+          hits[alias] = (hits[alias] ?? 0) + 1;
+          entry.aliasHits[field] = hits;
+          break;
+        }
+      }
+      if (!present && definition.required) {
+        entry.missing[field] = (entry.missing[field] ?? 0) + 1;
+      }
+      values[field] = value === undefined ? emptyFieldValue(definition.type) : value;
+    });
+
+    Object.keys(item).forEach((key) => {
+      if (!knownKeys.has(key)) {
+        entry.unknown[key] = (entry.unknown[key] ?? 0) + 1;
+      }
+    });
+
+    entry.samples += 1;
+    entry.lastSeenAt = new Date().toISOString();
+    this.scheduleEmit();
+    return values as SchemaValues<F>;
+  }
+
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset() {
+    this.entries = {};
+    this.emit();
+  }
+
+  private compile(schema: EntitySchema<any>) {
+    const cached = this.compiled.get(schema);
+    if (cached) {
+      return cached;
+    }
+    const candidates: Record<string, string[]> = {};
+    const knownKeys = new Set<string>();
+    Object.entries(schema.fields as Record<string, SchemaField>).forEach(([field, definition]) => {
+      candidates[field] = Array.from(new Set(definition.aliases.flatMap(expandAlias)));
+      candidates[field].forEach((alias) => knownKeys.add(alias.split('.')[0]));
+    });
+    const compiled = { candidates, knownKeys };
+    this.compiled.set(schema, compiled);
+    return compiled;
+  }
+
+  private entryFor(entity: SchemaEntity) {
+    const existing = this.entries[entity];
+    if (existing) {
+      return existing;
+    }
+    const created: SchemaDriftEntry = {
+      entity,
+      samples: 0,
+      lastSeenAt: null,
+      aliasHits: {},
+      missing: {},
+      unknown: {},
+    };
+    this.entries[entity] = created;
+    return created;
+  }
+
+  // A page of 100 rows records 100 times; listeners hear about it once.
+  private scheduleEmit() {
+    if (this.emitScheduled) {
+      return;
+    }
+    this.emitScheduled = true;
+    setTimeout(() => {
+      this.emitScheduled = false;
+      this.emit();
+    }, 0);
+  }
+
+  private emit() {
+    this.snapshot = JSON.parse(JSON.stringify(this.entries)) as SchemaDriftSnapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const schemaDriftReport = new SchemaDriftReport();
+
+const defineSchema = <F extends Record<string, SchemaField>>(entity: SchemaEntity, fields: F): EntitySchema<F> => ({
+  entity,
+  fields,
+});
+
+const CREATED_AT = { type: 'string', aliases: ['createdAt', 'createdOn'] } as const;
+const UPDATED_AT = { type: 'string', aliases: ['updatedAt', 'updatedOn'] } as const;
+const IS_ACTIVE = { type: 'boolean', aliases: ['isActive', 'active'] } as const;
+const ENTERPRISE_ID = { type: 'string', aliases: ['enterpriseId', 'tenantId'] } as const;
+
+export const CUSTOMER_SCHEMA = defineSchema('customer', {
+  id: {
+    type: 'value',
+    required: true,
+    aliases: [
+      'id',
+      'customerId',
+      'CustomerID',
+      'customerCode',
+      'code',
+      'custId',
+      'userId',
+      'uuid',
+      'externalId',
+      'document',
+      'documentNumber',
+      'email',
+      'name',
+    ],
+  },
+  firstName: { type: 'string', aliases: ['firstName', 'givenName'] },
+  lastName: { type: 'string', aliases: ['lastName', 'surname', 'familyName'] },
+  name: { type: 'string', required: true, aliases: ['name', 'fullName', 'displayName'] },
+  email: {
+    type: 'string',
+    required: true,
+    aliases: ['email', 'emailAddress', 'mail', 'contactEmail', 'contact.email'],
+  },
+  phoneNumber: {
+    type: 'string',
+    aliases: ['phoneNumber', 'phone', 'mobile', 'mobileNumber', 'contactPhone'],
+  },
+  adress: {
+    type: 'string',
+    aliases: ['adress', 'address', 'addressLine', 'street', 'streetAddress', 'address.line1'],
+  },
+  document: { type: 'string', aliases: ['document', 'documentNumber', 'taxId', 'cpf', 'cnpj'] },
+  orders: {
+    type: 'number',
+    aliases: ['orders', 'orderCount', 'ordersCount', 'totalOrders', 'totalPurchases', 'purchaseCount'],
+  },
+  spent: {
+    type: 'number',
+    aliases: ['spent', 'totalSpent', 'totalValue', 'totalAmount', 'total', 'lifetimeValue'],
+  },
+  status: { type: 'string', aliases: ['status', 'customerStatus', 'state'] },
+  isActive: IS_ACTIVE,
+  isVip: { type: 'boolean', aliases: ['isVip', 'isVIP', 'vip'] },
+  enterpriseId: ENTERPRISE_ID,
+  createdAt: CREATED_AT,
+  updatedAt: UPDATED_AT,
+});
+
+export const PRODUCT_SCHEMA = defineSchema('product', {
+  id: {
+    type: 'value',
+    required: true,
+    aliases: ['id', 'productId', 'productCode', 'code', 'uuid', 'externalId'],
+  },
+  name: { type: 'string', required: true, aliases: ['name', 'productName', 'descriptionName'] },
+  description: { type: 'string', aliases: ['description', 'details'] },
+  category: { type: 'string', aliases: ['category'] },
+  price: { type: 'number', aliases: ['price'] },
+  defaultValue: {
+    type: 'number',
+    required: true,
+    aliases: ['defaultValue', 'price', 'unitPrice'],
+  },
+  stock: { type: 'number', aliases: ['stock'] },
+  storageQuantity: { type: 'number', aliases: ['storageQuantity', 'stock', 'quantity'] },
+  unitOfMeasure: { type: 'string', aliases: ['unitOfMeasure', 'uom', 'unit'] },
+  pictureAddress: {
+    type: 'string',
+    aliases: ['pictureAddress', 'pictureAdress', 'picture_url', 'pictureUrl'],
+  },
+  status: { type: 'string', aliases: ['status'] },
+  isExternal: { type: 'boolean', aliases: ['isExternal'] },
+  isService: { type: 'boolean', aliases: ['isService'] },
+  isActive: IS_ACTIVE,
+  enterpriseId: ENTERPRISE_ID,
+  createdAt: CREATED_AT,
+  updatedAt: UPDATED_AT,
+  orderedProduct: { type: 'value', aliases: ['orderedProduct'] },
+});
+
+export const ORDER_SCHEMA = defineSchema('order', {
+  id: {
+    type: 'value',
+    required: true,
+    aliases: ['id', 'orderId', 'orderCode', 'uuid', 'guid'],
+  },
+  customer: {
+    type: 'string',
+    required: true,
+    aliases: [
+      'customer',
+      'customerName',
+      'client',
+      'clientName',
+      'buyer',
+      'buyerName',
+      'customer.name',
+      'customer.fullName',
+      'customer.displayName',
+      'customer.email',
+    ],
+  },
+  customerId: {
+    type: 'value',
+    aliases: [
+      'customerId',
+      'customerID',
+      'CustomerID',
+      'customerid',
+      'customerGuid',
+      'customerUuid',
+      'customerCode',
+      'custId',
+      'clientId',
+      'buyerId',
+      'customer.id',
+      'customer.customerId',
+    ],
+  },
+  date: { type: 'string', aliases: ['date', 'orderDate', 'orderedAt'] },
+  payday: { type: 'string', aliases: ['payday', 'pay_day'] },
+  paymentScheduledDate: { type: 'string', aliases: ['paymentScheduledDate'] },
+  paymentDate: { type: 'string', aliases: ['paymentDate', 'paidAt'] },
+  trackingCode: { type: 'string', aliases: ['trackingCode', 'trackingNumber', 'tracking'] },
+  totalValue: {
+    type: 'number',
+    required: true,
+    aliases: ['totalValue', 'total', 'orderTotal', 'amount', 'amountTotal'],
+  },
+  orderedProduct: {
+    type: 'list',
+    aliases: [
+      'orderedProduct',
+      'orderedProducts',
+      'orderdProduct',
+      'orderProducts',
+      'orderProduct',
+      'orderItems',
+      'order_items',
+      'productItems',
+      'products',
+      'items',
+    ],
+  },
+  items: { type: 'number', aliases: ['items', 'itemCount', 'itemsCount', 'totalItems'] },
+  status: { type: 'value', required: true, aliases: ['status', 'orderStatus', 'state'] },
+  isActive: IS_ACTIVE,
+  createdAt: CREATED_AT,
+  updatedAt: UPDATED_AT,
+});
+
+export const ORDER_LINE_ITEM_SCHEMA = defineSchema('orderLineItem', {
+  productId: {
+    type: 'value',
+    required: true,
+    aliases: ['productId', 'productCode', 'itemId', 'id', 'product.id', 'product.productId'],
+  },
+  quantity: {
+    type: 'number',
+    required: true,
+    aliases: ['quantity', 'qty', 'amount', 'amountQuantity', 'totalQuantity'],
+  },
+  value: {
+    type: 'number',
+    aliases: [
+      'value',
+      'unitValue',
+      'unitPrice',
+      'price',
+      'defaultValue',
+      'product.defaultValue',
+      'product.price',
+    ],
+  },
+  total: { type: 'number', aliases: ['total', 'totalValue', 'subtotal', 'subTotal', 'lineTotal'] },
+  totalValue: { type: 'number', aliases: ['totalValue', 'total', 'subtotal', 'subTotal', 'lineTotal'] },
+  product: { type: 'value', aliases: ['product', 'productDetails', 'product_detail', 'item', 'details'] },
+});
+
+export const ORDER_HISTORY_SCHEMA = defineSchema('orderHistory', {
+  id: { type: 'value', aliases: ['id', 'historyId', 'eventId'] },
+  orderId: { type: 'value', aliases: ['orderId', 'orderID', 'order.id'] },
+  kind: { type: 'string', aliases: ['kind', 'type', 'eventType', 'action'] },
+  source: { type: 'string', aliases: ['source', 'origin', 'channel'] },
+  at: {
+    type: 'string',
+    required: true,
+    aliases: ['at', 'occurredAt', 'timestamp', 'changedAt', 'createdAt', 'date'],
+  },
+  user: {
+    type: 'string',
+    aliases: ['user', 'userName', 'changedBy', 'performedBy', 'user.name', 'user.email'],
+  },
+  fromStatus: { type: 'value', aliases: ['fromStatus', 'previousStatus', 'oldStatus'] },
+  toStatus: { type: 'value', aliases: ['toStatus', 'newStatus', 'status'] },
+  paymentDate: { type: 'string', aliases: ['paymentDate', 'paidAt', 'payday'] },
+  items: { type: 'number', aliases: ['items', 'itemCount', 'totalItems'] },
+  total: { type: 'number', aliases: ['total', 'totalValue', 'amount'] },
+  note: { type: 'string', aliases: ['note', 'reason', 'description', 'comment'] },
+});
+
+export const BILL_SCHEMA = defineSchema('bill', {
+  id: { type: 'value', required: true, aliases: ['id', 'boletoId'] },
+  orderId: { type: 'value', required: true, aliases: ['orderId', 'orderID'] },
+  bankCode: { type: 'number', aliases: ['bankCode', 'bank', 'bankId'] },
+  ourNumber: { type: 'string', aliases: ['ourNumber', 'nossoNumero'] },
+  documentNumber: { type: 'string', aliases: ['documentNumber', 'numeroDocumento'] },
+  issueDate: { type: 'string', aliases: ['issueDate', 'dataEmissao'] },
+  dueDate: { type: 'string', required: true, aliases: ['dueDate', 'dataVencimento'] },
+  amount: { type: 'number', required: true, aliases: ['amount', 'valor', 'valorTitulo'] },
+  digitableLine: { type: 'string', required: true, aliases: ['digitableLine', 'linhaDigitavel'] },
+  barCode: { type: 'string', aliases: ['barCode', 'barcode', 'codigoBarras'] },
+  htmlContent: { type: 'string', aliases: ['htmlContent', 'html'] },
+  createdAt: { type: 'string', aliases: ['createdAt'] },
+  updatedAt: { type: 'string', aliases: ['updatedAt'] },
+});
+
+export const USER_SCHEMA = defineSchema('user', {
+  id: { type: 'value', required: true, aliases: ['id', 'userId', 'uuid'] },
+  name: { type: 'string', aliases: ['name', 'fullName', 'displayName', 'userName', 'username'] },
+  email: { type: 'string', required: true, aliases: ['email', 'emailAddress', 'mail', 'login'] },
+  role: { type: 'value', aliases: ['role', 'accessLevel', 'roleName', 'userRole', 'profile'] },
+  status: { type: 'string', aliases: ['status', 'situation'] },
+  invitationPending: {
+    type: 'boolean',
+    aliases: ['invitationPending', 'isInvitePending', 'pendingInvite', 'invited'],
+  },
+  lastLoginAt: { type: 'string', aliases: ['lastLoginAt', 'lastLogin', 'lastAccessAt', 'lastSignInAt'] },
+  isActive: IS_ACTIVE,
+  enterpriseId: ENTERPRISE_ID,
+  createdAt: CREATED_AT,
+  updatedAt: UPDATED_AT,
+});
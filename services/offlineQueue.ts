@@ -0,0 +1,332 @@
+import { ApiResponse } from './apiClient';
+import { secureStorage } from './secureStorage';
+
+const OFFLINE_QUEUE_STORAGE_KEY = 'offlineMutations';
+
+export type OfflineMutationEntity = 'order' | 'customer' | 'payableBill';
+
+export type OfflineMutationKind =
+  | 'createOrder'
+  | 'updateOrder'
+  | 'deleteOrder'
+  | 'createCustomer'
+  | 'updateCustomer'
+  | 'deactivateCustomer'
+  | 'createPayableBill'
+  | 'updatePayableBill'
+  | 'deletePayableBill';
+
+export type OfflineMutationStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+export interface OfflineMutation {
+  id: string;
+  kind: OfflineMutationKind;
+  entity: OfflineMutationEntity;
+  payload: unknown;
+  createdAt: string;
+  attempts: number;
+  status: OfflineMutationStatus;
+  lastError?: string;
+  lastStatus?: number;
+}
+
+export interface OfflineQueueSnapshot {
+  entries: OfflineMutation[];
+  replaying: boolean;
+  // Bumped per entity whenever a queued mutation reaches the server, so lists know to reload.
+  syncedVersion: Record<OfflineMutationEntity, number>;
+}
+
+export type OfflineMutationExecutor = (entry: OfflineMutation) => Promise<ApiResponse<unknown>>;
+
+// Queued writes belong to one user on one backend, so nobody else ever replays them.
+export interface OfflineQueueScope {
+  environmentId: string;
+  userId: string;
+}
+
+export const offlineQueueStorageKey = (scope: OfflineQueueScope, prefix = OFFLINE_QUEUE_STORAGE_KEY) =>
+  `${prefix}:${scope.environmentId}:${scope.userId}`;
+
+export interface OfflineReplayResult {
+  synced: number;
+  remaining: number;
+  stoppedOffline: boolean;
+}
+
+export const OFFLINE_MUTATION_ENTITY: Record<OfflineMutationKind, OfflineMutationEntity> = {
+  createOrder: 'order',
+  updateOrder: 'order',
+  deleteOrder: 'order',
+  createCustomer: 'customer',
+  updateCustomer: 'customer',
+  deactivateCustomer: 'customer',
+  createPayableBill: 'payableBill',
+  updatePayableBill: 'payableBill',
+  deletePayableBill: 'payableBill',
+};
+
+// No connection (status 0), expired sessions, timeouts, throttling and 5xx are worth retrying later.
+const isTransientFailure = (status: number) =>
+  status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+
+const isConflictStatus = (status: number) => status === 409 || status === 412;
+
+const CREATE_MUTATIONS: ReadonlySet<OfflineMutationKind> = new Set(['createOrder', 'createCustomer', 'createPayableBill']);
+
+// A create that timed out may already have reached the server, so replaying it could duplicate the record.
+const isUnsafeToReplay = (kind: OfflineMutationKind, response: ApiResponse<unknown>) =>
+  CREATE_MUTATIONS.has(kind) && response.apiError?.kind === 'timeout';
+
+// Only requests that never got an answer are worth queueing.
+export const canQueueMutation = (kind: OfflineMutationKind, response: ApiResponse<unknown>) =>
+  response.status === 0 && !isUnsafeToReplay(kind, response);
+
+// Updates carry the record, deletes and deactivations only its id; creates have no id yet and never collide.
+export const offlineMutationRecordKey = (entry: Pick<OfflineMutation, 'kind' | 'entity' | 'payload'>) => {
+  if (CREATE_MUTATIONS.has(entry.kind)) {
+    return null;
+  }
+  const { payload } = entry;
+  const id = payload && typeof payload === 'object' ? (payload as { id?: unknown }).id : payload;
+  return typeof id === 'string' || typeof id === 'number' ? `${entry.entity}:${id}` : null;
+};
+
+const isBlockingStatus = (status: OfflineMutationStatus) => status === 'conflict' || status === 'failed';
+
+const createMutationId = () => `mut-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class OfflineMutationQueue {
+  private entries: OfflineMutation[] = [];
+  private scopeKey: string | null = null;
+  private loaded: Promise<void> | null = null;
+  private replaying: Promise<OfflineReplayResult> | null = null;
+  private syncedVersion: Record<OfflineMutationEntity, number> = { order: 0, customer: 0, payableBill: 0 };
+  private snapshot: OfflineQueueSnapshot = this.buildSnapshot();
+  private listeners = new Set<(snapshot: OfflineQueueSnapshot) => void>();
+
+  constructor(private readonly storagePrefix = OFFLINE_QUEUE_STORAGE_KEY) {}
+
+  // Without a scope (signed out) the queue is empty and nothing replays; entries stay stored for their owner.
+  setScope(scope: OfflineQueueScope | null) {
+    const nextKey = scope ? offlineQueueStorageKey(scope, this.storagePrefix) : null;
+    if (nextKey === this.scopeKey) {
+      return;
+    }
+    this.scopeKey = nextKey;
+    this.entries = [];
+    this.loaded = null;
+    this.emit();
+    if (nextKey) {
+      this.load();
+    }
+  }
+
+  load() {
+    if (!this.loaded) {
+      const storageKey = this.scopeKey;
+      this.loaded = (async () => {
+        if (!storageKey) {
+          return;
+        }
+        try {
+          const raw = await secureStorage.getItem(storageKey);
+          if (storageKey !== this.scopeKey) {
+            return;
+          }
+          const parsed = raw ? JSON.parse(raw) : [];
+          if (Array.isArray(parsed)) {
+            // Anything left mid-flight by a previous run goes back to pending.
+            this.entries = parsed.map((entry: OfflineMutation) =>
+              entry.status === 'syncing' ? { ...entry, status: 'pending' } : entry,
+            );
+          }
+        } catch (error) {
+          console.warn('Failed to restore offline mutations', error);
+        }
+        this.emit();
+      })();
+    }
+    return this.loaded;
+  }
+
+  getSnapshot() {
+    return this.snapshot;
+  }
+
+  subscribe(listener: (snapshot: OfflineQueueSnapshot) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(kind: OfflineMutationKind, payload: unknown, response?: ApiResponse<unknown>) {
+    await this.load();
+    if (!this.scopeKey) {
+      return null;
+    }
+    const entry: OfflineMutation = {
+      id: createMutationId(),
+      kind,
+      entity: OFFLINE_MUTATION_ENTITY[kind],
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+      lastError: response?.error,
+      lastStatus: response?.status,
+    };
+    this.entries = [...this.entries, entry];
+    await this.commit();
+    return entry;
+  }
+
+  async retry(id: string) {
+    await this.load();
+    this.entries = this.entries.map((entry) =>
+      entry.id === id ? { ...entry, status: 'pending', lastError: undefined } : entry,
+    );
+    await this.commit();
+  }
+
+  async discard(id: string) {
+    await this.load();
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    await this.commit();
+  }
+
+  async clear() {
+    await this.load();
+    this.entries = [];
+    await this.commit();
+  }
+
+  hasPending() {
+    return this.entries.some((entry) => entry.status === 'pending');
+  }
+
+  replay(executor: OfflineMutationExecutor): Promise<OfflineReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(executor).finally(() => {
+        this.replaying = null;
+        this.emit();
+      });
+      this.emit();
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(executor: OfflineMutationExecutor): Promise<OfflineReplayResult> {
+    await this.load();
+    const scopeKey = this.scopeKey;
+    let synced = 0;
+    let stoppedOffline = false;
+    // Records with an unresolved conflict or failure keep their later edits queued until the user
+    // retries or discards the one that got stuck, otherwise a stale update or delete would win.
+    const blockedRecords = new Set<string>();
+    const blockRecord = (entry: OfflineMutation) => {
+      const recordKey = offlineMutationRecordKey(entry);
+      if (recordKey) {
+        blockedRecords.add(recordKey);
+      }
+    };
+
+    // Mutations are replayed strictly in the order they were recorded; a transient failure halts the
+    // run so later edits never overtake earlier ones.
+    for (const queued of [...this.entries]) {
+      if (this.scopeKey !== scopeKey) {
+        break;
+      }
+      if (isBlockingStatus(queued.status)) {
+        blockRecord(queued);
+        continue;
+      }
+      if (queued.status !== 'pending') {
+        continue;
+      }
+      const recordKey = offlineMutationRecordKey(queued);
+      if (recordKey && blockedRecords.has(recordKey)) {
+        continue;
+      }
+
+      await this.patch(queued.id, { status: 'syncing', attempts: queued.attempts + 1 });
+
+      let response: ApiResponse<unknown>;
+      try {
+        response = await executor(queued);
+      } catch (error) {
+        const message = error instanceof Error && error.message ? error.message : 'Failed to sync (status 0)';
+        response = { data: null, ok: false, status: 0, error: message, headers: {} };
+      }
+
+      // Signed out or switched backends mid-run: the rest waits for its owner.
+      if (this.scopeKey !== scopeKey) {
+        stoppedOffline = true;
+        break;
+      }
+
+      if (response.ok) {
+        this.entries = this.entries.filter((entry) => entry.id !== queued.id);
+        this.syncedVersion = {
+          ...this.syncedVersion,
+          [queued.entity]: this.syncedVersion[queued.entity] + 1,
+        };
+        synced += 1;
+        await this.commit();
+        continue;
+      }
+
+      const failure = { lastError: response.error, lastStatus: response.status };
+      if (isTransientFailure(response.status) && !isUnsafeToReplay(queued.kind, response)) {
+        await this.patch(queued.id, { ...failure, status: 'pending' });
+        stoppedOffline = true;
+        break;
+      }
+
+      await this.patch(queued.id, {
+        ...failure,
+        status: isConflictStatus(response.status) ? 'conflict' : 'failed',
+      });
+      blockRecord(queued);
+    }
+
+    return {
+      synced,
+      remaining: this.entries.length,
+      stoppedOffline,
+    };
+  }
+
+  private async patch(id: string, changes: Partial<OfflineMutation>) {
+    this.entries = this.entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+    await this.commit();
+  }
+
+  private async commit() {
+    this.emit();
+    if (!this.scopeKey) {
+      return;
+    }
+    try {
+      await secureStorage.setItem(this.scopeKey, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('Failed to persist offline mutations', error);
+    }
+  }
+
+  private buildSnapshot(): OfflineQueueSnapshot {
+    return {
+      entries: this.entries,
+      replaying: Boolean(this.replaying),
+      syncedVersion: this.syncedVersion,
+    };
+  }
+
+  private emit() {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+}
+
+export const offlineMutationQueue = new OfflineMutationQueue();
@@ -0,0 +1,61 @@
+import type { OrderHistoryEntry } from './erpService';
+import { SecureStorage, secureStorage } from './secureStorage';
+
+// Oldest entries are dropped past this, across all orders of an environment.
+const ORDER_HISTORY_LOG_LIMIT = 300;
+
+type HistoryStorage = Pick<SecureStorage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export type OrderHistoryRecord = Omit<OrderHistoryEntry, 'id' | 'orderId' | 'at'>;
+
+export const orderHistoryStorageKey = (environmentId: string) => `orderHistory:${environmentId}`;
+
+const createHistoryId = () => `hist-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const byNewest = (left: OrderHistoryEntry, right: OrderHistoryEntry) => right.at.localeCompare(left.at);
+
+// What this device saw happen to orders, for backends that do not expose a history endpoint yet.
+export class OrderHistoryLog {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly storage: HistoryStorage = secureStorage) {}
+
+  async list(environmentId: string, orderId: string | number): Promise<OrderHistoryEntry[]> {
+    const key = String(orderId);
+    const entries = await this.read(environmentId);
+    return entries.filter((entry) => entry.orderId === key).sort(byNewest);
+  }
+
+  record(environmentId: string, orderId: string | number, record: OrderHistoryRecord, now = new Date()) {
+    const entry: OrderHistoryEntry = {
+      ...record,
+      id: createHistoryId(),
+      orderId: String(orderId),
+      at: now.toISOString(),
+    };
+    // Writes are chained so two events in a row do not overwrite each other.
+    this.writes = this.writes.then(async () => {
+      const entries = await this.read(environmentId);
+      const next = [...entries, entry].slice(-ORDER_HISTORY_LOG_LIMIT);
+      try {
+        await this.storage.setItem(orderHistoryStorageKey(environmentId), JSON.stringify(next));
+      } catch (error) {
+        console.warn('Failed to save order history', error);
+      }
+    });
+    return this.writes.then(() => entry);
+  }
+
+  private async read(environmentId: string): Promise<OrderHistoryEntry[]> {
+    try {
+      const raw = await this.storage.getItem(orderHistoryStorageKey(environmentId));
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? (parsed as OrderHistoryEntry[]) : [];
+    } catch (error) {
+      console.warn('Failed to read order history', error);
+      return [];
+    }
+  }
+}
+
+export const orderHistoryLog = new OrderHistoryLog();
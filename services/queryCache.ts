@@ -0,0 +1,216 @@
+import { ApiError } from './apiError';
+
+export type QueryScope = 'orders' | 'customers' | 'products' | 'payableBills' | 'users';
+
+export interface QueryResult<T> {
+  ok: boolean;
+  data: T | null;
+  error?: string;
+  apiError?: ApiError;
+  // Set by page walks that returned fewer rows than the backend holds.
+  partial?: boolean;
+}
+
+export interface QueryState<T> {
+  data: T | null;
+  error: string | null;
+  apiError: ApiError | null;
+  partial: boolean;
+  updatedAt: number | null;
+  fetching: boolean;
+  // Set by invalidate(); subscribers revalidate as soon as they see it.
+  invalidated: boolean;
+}
+
+export interface QueryFetchOptions {
+  staleTimeMs?: number;
+  force?: boolean;
+}
+
+export interface QueryFetchContext {
+  // Aborted when the cache is cleared, so long page walks stop early.
+  signal: AbortSignal;
+}
+
+export type QueryFetcher<T> = (context: QueryFetchContext) => Promise<QueryResult<T>>;
+
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+const serializeKeyPart = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeKeyPart).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    // Sorted keys and dropped undefined values so equivalent filters share one entry.
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${serializeKeyPart(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const buildQueryKey = (scope: QueryScope, ...parts: unknown[]) =>
+  `${scope}:${parts.map(serializeKeyPart).join('|')}`;
+
+export interface QueryKeyScope {
+  environmentId: string;
+  userId: string | null;
+}
+
+// Cached rows belong to one environment and signed-in user, so the same query never reads another's data.
+export const scopeQueryKey = (key: string, scope: QueryKeyScope) => `${key}|${serializeKeyPart(scope)}`;
+
+const scopeOfKey = (key: string) => key.slice(0, key.indexOf(':'));
+
+const createEmptyState = <T>(): QueryState<T> => ({
+  data: null,
+  error: null,
+  apiError: null,
+  partial: false,
+  updatedAt: null,
+  fetching: false,
+  invalidated: false,
+});
+
+export class QueryCache {
+  private entries = new Map<string, QueryState<unknown>>();
+  private inFlight = new Map<string, Promise<QueryState<unknown>>>();
+  private listeners = new Map<string, Set<() => void>>();
+  private generation = 0;
+  private controllers = new Set<AbortController>();
+
+  constructor(private readonly defaultStaleTimeMs = DEFAULT_STALE_TIME_MS) {}
+
+  getState<T>(key: string): QueryState<T> | null {
+    return (this.entries.get(key) as QueryState<T> | undefined) ?? null;
+  }
+
+  subscribe(key: string, listener: () => void) {
+    const listeners = this.listeners.get(key) ?? new Set<() => void>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  isFresh(key: string, staleTimeMs = this.defaultStaleTimeMs) {
+    const entry = this.entries.get(key);
+    return Boolean(
+      entry &&
+        entry.updatedAt !== null &&
+        !entry.invalidated &&
+        Date.now() - entry.updatedAt < staleTimeMs,
+    );
+  }
+
+  fetch<T>(key: string, fetcher: QueryFetcher<T>, options: QueryFetchOptions = {}): Promise<QueryState<T>> {
+    const running = this.inFlight.get(key);
+    if (running) {
+      return running as Promise<QueryState<T>>;
+    }
+
+    const current = this.getState<T>(key);
+    if (current && !options.force && this.isFresh(key, options.staleTimeMs)) {
+      return Promise.resolve(current);
+    }
+
+    // Cached data stays visible while the revalidation runs.
+    this.write<T>(key, { fetching: true });
+
+    const generation = this.generation;
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    const request: Promise<QueryState<T>> = (async () => {
+      let result: QueryResult<T>;
+      try {
+        result = await fetcher({ signal: controller.signal });
+      } catch (error) {
+        result = {
+          ok: false,
+          data: null,
+          error: error instanceof Error && error.message ? error.message : 'Failed to sync (status 0)',
+        };
+      }
+
+      // The cache was cleared (logout, enterprise switch) while this request ran; drop its result.
+      if (generation !== this.generation) {
+        return this.getState<T>(key) ?? createEmptyState<T>();
+      }
+
+      if (result.ok) {
+        return this.write<T>(key, {
+          data: result.data,
+          error: null,
+          apiError: null,
+          partial: Boolean(result.partial),
+          updatedAt: Date.now(),
+          fetching: false,
+          invalidated: false,
+        });
+      }
+
+      // Keep the last good rows; partial rows from a failed first load are better than nothing.
+      const current = this.getState<T>(key);
+      const lastGood = current && current.updatedAt !== null ? current : null;
+      return this.write<T>(key, {
+        data: lastGood ? lastGood.data : result.data,
+        partial: lastGood ? lastGood.partial : Boolean(result.partial),
+        error: result.error ?? 'Failed to sync',
+        apiError: result.apiError ?? null,
+        fetching: false,
+        invalidated: false,
+      });
+    })().finally(() => {
+      this.controllers.delete(controller);
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    });
+
+    this.inFlight.set(key, request as Promise<QueryState<unknown>>);
+    return request;
+  }
+
+  setData<T>(key: string, updater: (current: T | null) => T | null) {
+    const current = this.getState<T>(key);
+    this.write<T>(key, {
+      data: updater(current?.data ?? null),
+      updatedAt: current?.updatedAt ?? Date.now(),
+    });
+  }
+
+  // Keys in `except` were already patched in place with setData(), so they are not refetched.
+  invalidate(scopes: QueryScope | QueryScope[], except: string[] = []) {
+    const targets = new Set<string>(Array.isArray(scopes) ? scopes : [scopes]);
+    Array.from(this.entries.keys())
+      .filter((key) => targets.has(scopeOfKey(key)) && !except.includes(key))
+      .forEach((key) => {
+        this.write(key, { invalidated: true });
+      });
+  }
+
+  clear() {
+    this.generation += 1;
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.entries.clear();
+    this.inFlight.clear();
+    Array.from(this.listeners.values()).forEach((listeners) => listeners.forEach((listener) => listener()));
+  }
+
+  private write<T>(key: string, changes: Partial<QueryState<T>>): QueryState<T> {
+    const current = this.getState<T>(key) ?? createEmptyState<T>();
+    const next = { ...current, ...changes };
+    this.entries.set(key, next as QueryState<unknown>);
+    this.listeners.get(key)?.forEach((listener) => listener());
+    return next;
+  }
+}
+
+export const queryCache = new QueryCache();
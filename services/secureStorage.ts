@@ -0,0 +1,329 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { Buffer } from 'buffer';
+import { gcm } from '@noble/ciphers/aes';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_DATABASE_NAME = 'nerv-erp-keys';
+const KEY_STORE_NAME = 'keys';
+const STORAGE_KEY_ID = 'storage-key';
+const NATIVE_KEY_ID = 'nerv-erp.storage-key';
+// Names only, never values: lets clear() find entries a secure backend cannot list.
+const KEY_INDEX_STORAGE_KEY = 'secureStorage:keys';
+
+// Optional store that keeps values themselves out of AsyncStorage (tests, custom vaults).
+export interface SecureStorageBackend {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface StorageCipher {
+  encrypt: (plain: string) => Promise<string>;
+  decrypt: (payload: string) => Promise<string>;
+  destroy?: () => Promise<void>;
+}
+
+// Subset of expo-secure-store used to hold the native storage key.
+export interface NativeKeyStore {
+  getItemAsync: (key: string, options?: SecureStore.SecureStoreOptions) => Promise<string | null>;
+  setItemAsync: (key: string, value: string, options?: SecureStore.SecureStoreOptions) => Promise<void>;
+  deleteItemAsync: (key: string, options?: SecureStore.SecureStoreOptions) => Promise<void>;
+}
+
+export type SecureStorageMode = 'encrypted' | 'secure-backend' | 'plain';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const getSubtleCrypto = (): SubtleCrypto | null =>
+  typeof globalThis.crypto !== 'undefined' && globalThis.crypto.subtle ? globalThis.crypto.subtle : null;
+
+export const createAesGcmCipher = (resolveKey: () => Promise<CryptoKey>): StorageCipher => {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    throw new Error('WebCrypto is not available.');
+  }
+  return {
+    encrypt: async (plain) => {
+      const iv = new Uint8Array(Crypto.getRandomBytes(12));
+      const encrypted = await subtle.encrypt({ name: 'AES-GCM', iv }, await resolveKey(), new TextEncoder().encode(plain));
+      return `${toBase64(iv)}.${toBase64(new Uint8Array(encrypted))}`;
+    },
+    decrypt: async (payload) => {
+      const [iv, data] = payload.split('.');
+      const decrypted = await subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        await resolveKey(),
+        fromBase64(data),
+      );
+      return new TextDecoder().decode(decrypted);
+    },
+  };
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openKeyDatabase = () => {
+  const request = indexedDB.open(KEY_DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE_NAME);
+  };
+  return requestToPromise(request);
+};
+
+// The AES key is generated non-extractable and kept in IndexedDB, so script code can use it but
+// nothing (including a localStorage dump) can read the raw key bytes.
+const createWebCryptoCipher = (): StorageCipher => {
+  let keyPromise: Promise<CryptoKey> | null = null;
+
+  const resolveKey = () => {
+    if (!keyPromise) {
+      keyPromise = (async () => {
+        const database = await openKeyDatabase();
+        try {
+          const existing = await requestToPromise<CryptoKey | undefined>(
+            database.transaction(KEY_STORE_NAME, 'readonly').objectStore(KEY_STORE_NAME).get(STORAGE_KEY_ID),
+          );
+          if (existing) {
+            return existing;
+          }
+          const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+          await requestToPromise(
+            database.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME).put(key, STORAGE_KEY_ID),
+          );
+          return key;
+        } finally {
+          database.close();
+        }
+      })();
+      keyPromise.catch(() => {
+        keyPromise = null;
+      });
+    }
+    return keyPromise;
+  };
+
+  return {
+    ...createAesGcmCipher(resolveKey),
+    destroy: async () => {
+      keyPromise = null;
+      await requestToPromise(indexedDB.deleteDatabase(KEY_DATABASE_NAME));
+    },
+  };
+};
+
+// Hermes has no WebCrypto, so native encrypts in JS with a random key that only lives in the
+// Keychain/Keystore. Values stay in AsyncStorage, which avoids the keychain size limits.
+export const createNativeCipher = (keyStore: NativeKeyStore = SecureStore): StorageCipher => {
+  const keyOptions: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+  let keyPromise: Promise<Uint8Array> | null = null;
+
+  const resolveKey = () => {
+    if (!keyPromise) {
+      keyPromise = (async () => {
+        const existing = await keyStore.getItemAsync(NATIVE_KEY_ID, keyOptions);
+        if (existing) {
+          return fromBase64(existing);
+        }
+        const key = await Crypto.getRandomBytesAsync(32);
+        await keyStore.setItemAsync(NATIVE_KEY_ID, toBase64(key), keyOptions);
+        return key;
+      })();
+      keyPromise.catch(() => {
+        keyPromise = null;
+      });
+    }
+    return keyPromise;
+  };
+
+  return {
+    encrypt: async (plain) => {
+      const iv = Crypto.getRandomBytes(12);
+      const encrypted = gcm(await resolveKey(), iv).encrypt(new Uint8Array(Buffer.from(plain, 'utf8')));
+      return `${toBase64(iv)}.${toBase64(encrypted)}`;
+    },
+    decrypt: async (payload) => {
+      const [iv, data] = payload.split('.');
+      const decrypted = gcm(await resolveKey(), fromBase64(iv)).decrypt(fromBase64(data));
+      return Buffer.from(decrypted).toString('utf8');
+    },
+    destroy: async () => {
+      keyPromise = null;
+      await keyStore.deleteItemAsync(NATIVE_KEY_ID, keyOptions);
+    },
+  };
+};
+
+const canUseWebCrypto = () =>
+  Platform.OS === 'web' && Boolean(getSubtleCrypto()) && typeof indexedDB !== 'undefined';
+
+const createPlatformCipher = (): StorageCipher | null => {
+  if (Platform.OS === 'ios' || Platform.OS === 'android') {
+    return createNativeCipher();
+  }
+  return canUseWebCrypto() ? createWebCryptoCipher() : null;
+};
+
+interface SecureStorageOptions {
+  cipher?: StorageCipher | null;
+  backend?: SecureStorageBackend | null;
+}
+
+export class SecureStorage {
+  private cipher: StorageCipher | null;
+  private backend: SecureStorageBackend | null;
+  private readonly keys = new Set<string>();
+  private indexLoaded: Promise<void> | null = null;
+
+  constructor(options: SecureStorageOptions = {}) {
+    this.cipher = options.cipher !== undefined ? options.cipher : createPlatformCipher();
+    this.backend = options.backend ?? null;
+  }
+
+  setBackend(backend: SecureStorageBackend | null) {
+    this.backend = backend;
+  }
+
+  getMode(): SecureStorageMode {
+    if (this.backend) {
+      return 'secure-backend';
+    }
+    return this.cipher ? 'encrypted' : 'plain';
+  }
+
+  // Values written before encryption existed are read as-is and rewritten through the current mode.
+  async getItem(key: string) {
+    if (this.backend) {
+      const secured = await this.backend.getItem(key);
+      if (secured !== null) {
+        await this.track(key);
+        return secured;
+      }
+      const legacy = await AsyncStorage.getItem(key);
+      if (legacy !== null) {
+        await this.track(key);
+        await this.backend.setItem(key, legacy);
+        await AsyncStorage.removeItem(key);
+      }
+      return legacy;
+    }
+
+    const raw = await AsyncStorage.getItem(key);
+    if (raw === null) {
+      return null;
+    }
+
+    if (!raw.startsWith(ENCRYPTED_PREFIX)) {
+      if (this.cipher) {
+        await this.setItem(key, raw);
+      }
+      return raw;
+    }
+
+    if (!this.cipher) {
+      return null;
+    }
+
+    try {
+      return await this.cipher.decrypt(raw.slice(ENCRYPTED_PREFIX.length));
+    } catch (error) {
+      // The key is gone (site data cleared, other browser profile); the value can never be read again.
+      console.warn(`Discarding unreadable encrypted value for ${key}`, error);
+      await AsyncStorage.removeItem(key);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string) {
+    await this.track(key);
+
+    if (this.backend) {
+      await this.backend.setItem(key, value);
+      return;
+    }
+
+    const stored = this.cipher ? `${ENCRYPTED_PREFIX}${await this.cipher.encrypt(value)}` : value;
+    await AsyncStorage.setItem(key, stored);
+  }
+
+  async removeItem(key: string) {
+    if (this.backend) {
+      await this.backend.removeItem(key);
+    }
+    await AsyncStorage.removeItem(key);
+    await this.untrack(key);
+  }
+
+  // Wipes every key ever written through this storage (from the persisted index) plus any extra ones.
+  async clear(extraKeys: string[] = []) {
+    await this.loadIndex();
+    const keys = [...new Set([...this.keys, ...extraKeys])];
+    await Promise.all(
+      keys.map(async (key) => {
+        if (this.backend) {
+          await this.backend.removeItem(key);
+        }
+        await AsyncStorage.removeItem(key);
+      }),
+    );
+    this.keys.clear();
+    await AsyncStorage.removeItem(KEY_INDEX_STORAGE_KEY);
+    if (this.cipher?.destroy) {
+      await this.cipher.destroy();
+      this.cipher = canUseWebCrypto() ? createWebCryptoCipher() : this.cipher;
+    }
+  }
+
+  private loadIndex() {
+    if (!this.indexLoaded) {
+      this.indexLoaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(KEY_INDEX_STORAGE_KEY);
+          const parsed = raw ? JSON.parse(raw) : [];
+          if (Array.isArray(parsed)) {
+            parsed.forEach((key) => {
+              if (typeof key === 'string') {
+                this.keys.add(key);
+              }
+            });
+          }
+        } catch (error) {
+          console.warn('Failed to restore the secure storage key index', error);
+        }
+      })();
+    }
+    return this.indexLoaded;
+  }
+
+  private async track(key: string) {
+    await this.loadIndex();
+    if (this.keys.has(key)) {
+      return;
+    }
+    this.keys.add(key);
+    await AsyncStorage.setItem(KEY_INDEX_STORAGE_KEY, JSON.stringify([...this.keys]));
+  }
+
+  private async untrack(key: string) {
+    await this.loadIndex();
+    if (this.keys.delete(key)) {
+      await AsyncStorage.setItem(KEY_INDEX_STORAGE_KEY, JSON.stringify([...this.keys]));
+    }
+  }
+}
+
+export const secureStorage = new SecureStorage();
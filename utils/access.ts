@@ -1,5 +1,4 @@
-const MANAGERIAL_ACCESS_LEVELS = new Set(['admin', 'administrator', 'manager', 'supervisor']);
-const ACCESS_LEVEL_BY_INDEX = new Map<number, string>([
+export const ACCESS_LEVEL_BY_INDEX = new Map<number, AccessRole>([
   [0, 'admin'],
   [1, 'manager'],
   [2, 'supervisor'],
@@ -31,12 +30,184 @@ const normalizeRoleValue = (role?: string | number | null) => {
   return raw.toLowerCase();
 };
 
-export const hasManagementAccess = (role?: string | number | null) => {
-  const normalizedRole = normalizeRoleValue(role);
-  if (!normalizedRole) {
-    return false;
+export const PERMISSION_ACTIONS = ['view', 'create', 'edit', 'delete', 'approve', 'export'] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+export const PERMISSION_MODULES = [
+  'dashboard',
+  'products',
+  'customers',
+  'orders',
+  'bills',
+  'payables',
+  'forecast',
+  'employees',
+  'reports',
+  'profile',
+  'diagnostics',
+  'users',
+] as const;
+export type PermissionModule = (typeof PERMISSION_MODULES)[number];
+
+export type AccessRole = 'admin' | 'manager' | 'supervisor' | 'employee';
+
+// Grants are `module.action` keys; `*` stands for any module or any action.
+export type PermissionSet = ReadonlySet<string>;
+
+const BUSINESS_MODULES: PermissionModule[] = [
+  'products',
+  'customers',
+  'orders',
+  'bills',
+  'payables',
+  'forecast',
+  'employees',
+  'reports',
+];
+
+const grantActions = (modules: PermissionModule[], actions: readonly PermissionAction[]) =>
+  modules.flatMap((module) => actions.map((action) => `${module}.${action}`));
+
+// Defaults used when neither the token nor the permissions endpoint provides explicit grants.
+// Managing user accounts stays with admins unless a grant says otherwise.
+const ROLE_PERMISSIONS: Record<AccessRole, string[]> = {
+  admin: ['*.*'],
+  manager: PERMISSION_MODULES.filter((module) => module !== 'users').map((module) => `${module}.*`),
+  supervisor: [
+    ...grantActions(['dashboard', 'profile', 'diagnostics'], ['view']),
+    ...grantActions(BUSINESS_MODULES, ['view', 'create', 'edit', 'delete', 'export']),
+  ],
+  employee: [
+    ...grantActions(['dashboard', 'profile', 'diagnostics'], ['view']),
+    ...grantActions(BUSINESS_MODULES, ['view', 'create', 'export']),
+  ],
+};
+
+// Everyone can open their own profile, whatever the explicit grants say.
+const ALWAYS_GRANTED = ['profile.view'];
+
+export const ACCESS_ROLES: readonly AccessRole[] = ['admin', 'manager', 'supervisor', 'employee'];
+
+const ROLE_ALIASES: Record<string, AccessRole> = {
+  admin: 'admin',
+  administrator: 'admin',
+  manager: 'manager',
+  supervisor: 'supervisor',
+  employee: 'employee',
+};
+
+export const resolveAccessRole = (role?: string | number | null): AccessRole => {
+  const tokens = new Set(
+    splitRoleTokens(normalizeRoleValue(role))
+      .map((token) => ROLE_ALIASES[token])
+      .filter(Boolean),
+  );
+  return ACCESS_ROLES.find((candidate) => tokens.has(candidate)) ?? 'employee';
+};
+
+// The backend stores the access level as its index.
+export const accessRoleIndex = (role: AccessRole) =>
+  Array.from(ACCESS_LEVEL_BY_INDEX.entries()).find(([, value]) => value === role)?.[0] ?? 3;
+
+const ACTION_ALIASES: Record<string, PermissionAction | '*'> = {
+  read: 'view',
+  list: 'view',
+  add: 'create',
+  update: 'edit',
+  write: 'edit',
+  remove: 'delete',
+  deactivate: 'delete',
+  pay: 'approve',
+  download: 'export',
+  manage: '*',
+  all: '*',
+};
+
+const normalizeGrant = (value: string) => {
+  const [rawModule, rawAction = '*'] = value.trim().toLowerCase().split(/[.:/]/);
+  const module =
+    rawModule === '*'
+      ? '*'
+      : PERMISSION_MODULES.find((entry) => entry === rawModule || entry === `${rawModule}s`) ??
+        (rawModule === 'payablebills' ? 'payables' : null);
+  const action =
+    rawAction === '*'
+      ? '*'
+      : (PERMISSION_ACTIONS as readonly string[]).includes(rawAction)
+        ? rawAction
+        : ACTION_ALIASES[rawAction] ?? null;
+  return module && action ? `${module}.${action}` : null;
+};
+
+const readGrantValues = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => {
+      if (entry && typeof entry === 'object') {
+        const record = entry as Record<string, any>;
+        const module = record.module ?? record.Module ?? record.resource ?? record.Resource;
+        const actions = record.actions ?? record.Actions ?? record.action ?? record.Action;
+        return typeof module === 'string'
+          ? readGrantValues(actions).map((action) => `${module}.${action}`)
+          : [];
+      }
+      return typeof entry === 'string' ? [entry] : [];
+    });
+  }
+  if (typeof value === 'string') {
+    try {
+      return readGrantValues(JSON.parse(value));
+    } catch {
+      return value.split(/[\s,;]+/).filter(Boolean);
+    }
+  }
+  if (value && typeof value === 'object') {
+    // `{ orders: ['view', 'edit'] }` style maps.
+    return Object.entries(value as Record<string, unknown>).flatMap(([module, actions]) =>
+      readGrantValues(actions).map((action) => `${module}.${action}`),
+    );
   }
+  return [];
+};
+
+// Lists and strings are the permissions endpoint's own body; objects only grant through `permissions`,
+// so a profile or claim that merely looks like a module map never hands out access.
+const pickGrantSource = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return (value as { permissions?: unknown }).permissions ?? null;
+};
 
-  const tokens = splitRoleTokens(normalizedRole);
-  return tokens.some((token) => MANAGERIAL_ACCESS_LEVELS.has(token));
+// Explicit grants come from the auth payload, the JWT claims or the permissions endpoint; null means
+// none of them carried any, so the role defaults apply.
+export const readPermissionGrants = (...sources: unknown[]) => {
+  const grants = new Set<string>();
+  sources.forEach((source) =>
+    readGrantValues(pickGrantSource(source)).forEach((value) => {
+      const grant = normalizeGrant(value);
+      if (grant) {
+        grants.add(grant);
+      }
+    }),
+  );
+  return grants.size > 0 ? Array.from(grants).sort() : null;
 };
+
+export const resolvePermissions = (
+  role?: string | number | null,
+  grants?: string[] | null,
+): PermissionSet =>
+  new Set([...(grants && grants.length > 0 ? grants : ROLE_PERMISSIONS[resolveAccessRole(role)]), ...ALWAYS_GRANTED]);
+
+export const hasPermission = (permissions: PermissionSet, module: string, action: PermissionAction) =>
+  permissions.has(`${module}.${action}`) ||
+  permissions.has(`${module}.*`) ||
+  permissions.has(`*.${action}`) ||
+  permissions.has('*.*');
+
+// Keeps the requested module when it may be viewed, otherwise lands on the first one that may.
+export const resolveViewableModule = (permissions: PermissionSet, requested: string): PermissionModule =>
+  (PERMISSION_MODULES as readonly string[]).includes(requested) &&
+  hasPermission(permissions, requested, 'view')
+    ? (requested as PermissionModule)
+    : PERMISSION_MODULES.find((module) => hasPermission(permissions, module, 'view')) ?? 'profile';
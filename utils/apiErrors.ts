@@ -0,0 +1,37 @@
+import { ApiError, ApiErrorKind } from '../services/apiError';
+
+type Translate = (key: string, vars?: Record<string, string | number>) => string;
+
+type ErrorSource = { error?: string | null; apiError?: ApiError | null } | null | undefined;
+
+const KIND_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Check your connection.',
+  timeout: 'The server took too long to respond.',
+  validation: 'The server rejected the data sent.',
+  auth: 'Your session is no longer valid. Sign in again.',
+  forbidden: 'You do not have permission for this action.',
+  notFound: 'This record no longer exists. Reload and try again.',
+  conflict: 'This record was changed elsewhere. Reload and try again.',
+  server: 'The server failed to process the request (status {status}).',
+};
+
+export const describeApiError = (t: Translate, source: ErrorSource, fallback: string) => {
+  const apiError = source?.apiError;
+  if (!apiError) {
+    return source?.error ?? fallback;
+  }
+
+  let message = t(KIND_MESSAGES[apiError.kind], { status: apiError.status });
+  const fields = Object.keys(apiError.fieldErrors);
+  if (apiError.kind === 'validation') {
+    // Field names and backend text are not translatable, but they are what the user needs to fix the input.
+    if (fields.length > 0) {
+      message = t('Invalid fields: {fields}', { fields: fields.join(', ') });
+    } else if (apiError.message) {
+      message = `${message} ${apiError.message}`;
+    }
+  }
+
+  const described = fallback ? `${fallback}: ${message}` : message;
+  return apiError.requestId ? `${described} ${t('(request {id})', { id: apiError.requestId })}` : described;
+};
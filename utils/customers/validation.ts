@@ -1,3 +1,5 @@
+import { ApiError, getFieldErrors } from '../../services/apiError';
+
 export type CustomerStatusOption = 'Active' | 'Inactive';
 
 export type CustomerFormValues = {
@@ -26,6 +28,24 @@ export type CustomerFormErrors = {
   required: string | null;
 };
 
+export type CustomerServerErrors = Partial<Record<keyof CustomerFormValues, string>>;
+
+// Backend field names for each form input; the API stores the whole address in `adress`.
+const CUSTOMER_SERVER_FIELDS: Record<keyof CustomerFormValues, string[]> = {
+  name: ['name', 'fullName'],
+  email: ['email'],
+  phone: ['phone', 'phoneNumber'],
+  street: ['street', 'adress', 'address'],
+  number: ['number'],
+  neighborhood: ['neighborhood'],
+  city: ['city'],
+  state: ['state'],
+  postalCode: ['postalCode', 'zipCode', 'cep'],
+  complement: ['complement'],
+  document: ['document', 'cpf', 'cnpj'],
+  status: ['status', 'isActive'],
+};
+
 const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export const normalizeDigits = (value: string) => value.replace(/\D/g, '');
@@ -233,3 +253,14 @@ export const emptyCustomerFormValues = (): CustomerFormValues => ({
   document: '',
   status: 'Active',
 });
+
+export const mapCustomerServerErrors = (apiError?: ApiError | null): CustomerServerErrors => {
+  const mapped: CustomerServerErrors = {};
+  (Object.keys(CUSTOMER_SERVER_FIELDS) as Array<keyof CustomerFormValues>).forEach((field) => {
+    const messages = getFieldErrors(apiError, ...CUSTOMER_SERVER_FIELDS[field]);
+    if (messages.length > 0) {
+      mapped[field] = messages.join(' ');
+    }
+  });
+  return mapped;
+};
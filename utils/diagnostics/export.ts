@@ -0,0 +1,39 @@
+import { Platform, Share } from 'react-native';
+
+const downloadInBrowser = (filename: string, content: string, mimeType: string) => {
+  const blobCtor = (globalThis as any).Blob as typeof Blob | undefined;
+  const urlCtor = (globalThis as any).URL as typeof URL | undefined;
+  const documentRef = (globalThis as any).document as Document | undefined;
+
+  if (!blobCtor || !urlCtor || !documentRef) {
+    return false;
+  }
+
+  const blob = new blobCtor([content], { type: mimeType });
+  const url = urlCtor.createObjectURL(blob);
+  const anchor = documentRef.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  documentRef.body.appendChild(anchor);
+  anchor.click();
+  documentRef.body.removeChild(anchor);
+  setTimeout(() => urlCtor.revokeObjectURL(url), 60000);
+  return true;
+};
+
+// Web downloads a file; native hands the content to the share sheet so it can go straight into a ticket.
+export const exportFile = async (filename: string, content: string, mimeType: string) => {
+  if (Platform.OS === 'web') {
+    return downloadInBrowser(filename, content, mimeType);
+  }
+
+  const result = await Share.share({ title: filename, message: content });
+  return result.action === Share.sharedAction;
+};
+
+export const exportJson = (filename: string, content: string) => exportFile(filename, content, 'application/json');
+
+export const exportCsv = (filename: string, content: string) => exportFile(filename, content, 'text/csv');
+
+export const buildExportFilename = (prefix: string, date = new Date(), extension = 'json') =>
+  `${prefix}-${date.toISOString().replace(/[:.]/g, '-')}.${extension}`;
@@ -0,0 +1,45 @@
+import { NetworkLogEntry } from '../../services/networkLog';
+
+export type NetworkLogFilter = 'all' | 'errors' | 'http' | 'signalr';
+
+export const NETWORK_LOG_FILTERS: Array<{ key: NetworkLogFilter; label: string }> = [
+  { key: 'all', label: 'All' },
+  { key: 'errors', label: 'Errors' },
+  { key: 'http', label: 'HTTP' },
+  { key: 'signalr', label: 'SignalR' },
+];
+
+export const isErrorEntry = (entry: NetworkLogEntry) =>
+  entry.kind === 'http' ? !entry.ok : entry.event === 'error' || entry.event === 'closed';
+
+const matchesFilter = (entry: NetworkLogEntry, filter: NetworkLogFilter) => {
+  switch (filter) {
+    case 'errors':
+      return isErrorEntry(entry);
+    case 'http':
+      return entry.kind === 'http';
+    case 'signalr':
+      return entry.kind === 'signalr';
+    default:
+      return true;
+  }
+};
+
+const searchableText = (entry: NetworkLogEntry) =>
+  entry.kind === 'http'
+    ? `${entry.method} ${entry.path} ${entry.status} ${entry.error ?? ''} ${entry.requestId ?? ''}`
+    : `${entry.event} ${entry.name ?? ''} ${entry.hub}`;
+
+export const filterNetworkLog = (entries: NetworkLogEntry[], filter: NetworkLogFilter, search: string) => {
+  const normalizedSearch = search.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      matchesFilter(entry, filter) &&
+      (!normalizedSearch || searchableText(entry).toLowerCase().includes(normalizedSearch)),
+  );
+};
+
+export const describeNetworkLogEntry = (entry: NetworkLogEntry) =>
+  entry.kind === 'http'
+    ? `${entry.method} ${entry.path}`
+    : `${entry.event}${entry.name ? ` ${entry.name}` : ''}`;
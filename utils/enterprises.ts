@@ -0,0 +1,94 @@
+export interface AuthEnterprise {
+  id: string;
+  name: string | null;
+}
+
+const pickFirstString = (...values: unknown[]) => {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return null;
+};
+
+const normalizeEnterpriseEntry = (value: unknown): AuthEnterprise | null => {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const id = String(value).trim();
+    return id ? { id, name: null } : null;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, any>;
+    const id = record.id ?? record.Id ?? record.enterpriseId ?? record.EnterpriseId ?? record.enterprise_id;
+    if (id === undefined || id === null || String(id).trim() === '') {
+      return null;
+    }
+    return {
+      id: String(id).trim(),
+      name: pickFirstString(
+        record.name,
+        record.Name,
+        record.fantasyName,
+        record.FantasyName,
+        record.enterpriseName,
+        record.EnterpriseName,
+        record.corporateName,
+        record.CorporateName,
+      ),
+    };
+  }
+
+  return null;
+};
+
+const readEnterpriseList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return value.split(',');
+    }
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, any>;
+    return readEnterpriseList(
+      record.enterprises ??
+        record.Enterprises ??
+        record.userEnterprises ??
+        record.availableEnterprises ??
+        record.user?.enterprises ??
+        record.items ??
+        record.data ??
+        null,
+    );
+  }
+  return [];
+};
+
+// Multi-enterprise users get their enterprises from the auth payload, the JWT claims or the
+// enterprises endpoint; the current enterprise is always part of the list.
+export const mergeEnterprises = (currentId: string | null, ...sources: unknown[]) => {
+  const merged = new Map<string, AuthEnterprise>();
+  const add = (entry: AuthEnterprise | null) => {
+    if (!entry) {
+      return;
+    }
+    const existing = merged.get(entry.id);
+    merged.set(entry.id, { id: entry.id, name: existing?.name ?? entry.name });
+  };
+
+  sources.forEach((source) => readEnterpriseList(source).forEach((value) => add(normalizeEnterpriseEntry(value))));
+  if (currentId) {
+    add({ id: currentId, name: null });
+  }
+  return Array.from(merged.values());
+};
+
+export const areEnterprisesEqual = (left: AuthEnterprise[], right: AuthEnterprise[]) =>
+  left.length === right.length &&
+  left.every((entry, index) => entry.id === right[index].id && entry.name === right[index].name);
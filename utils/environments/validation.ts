@@ -0,0 +1,79 @@
+import { ApiEnvironment, ApiEnvironmentDraft } from '../../services/apiEnvironments';
+
+export type EnvironmentFormValues = {
+  name: string;
+  baseUrl: string;
+  authPath: string;
+  refreshAuthPath: string;
+  ordersHubUrl: string;
+  timeoutSeconds: string;
+};
+
+export type EnvironmentFormErrors = Partial<Record<keyof EnvironmentFormValues, string>>;
+
+const urlPattern = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+
+export const EMPTY_ENVIRONMENT_FORM: EnvironmentFormValues = {
+  name: '',
+  baseUrl: '',
+  authPath: '/User/LogInto',
+  refreshAuthPath: '/User/RefreshToken',
+  ordersHubUrl: '',
+  timeoutSeconds: '15',
+};
+
+export const toEnvironmentForm = (environment: ApiEnvironment): EnvironmentFormValues => ({
+  name: environment.name,
+  baseUrl: environment.baseUrl,
+  authPath: environment.authPath,
+  refreshAuthPath: environment.refreshAuthPath ?? '',
+  ordersHubUrl: environment.ordersHubUrl ?? '',
+  timeoutSeconds: String(Math.round(environment.timeoutMs / 1000)),
+});
+
+export const toEnvironmentDraft = (values: EnvironmentFormValues, id?: string): ApiEnvironmentDraft => ({
+  id,
+  name: values.name,
+  baseUrl: values.baseUrl,
+  authPath: values.authPath,
+  refreshAuthPath: values.refreshAuthPath,
+  ordersHubUrl: values.ordersHubUrl,
+  timeoutMs: Math.round(Number(values.timeoutSeconds.replace(',', '.')) * 1000),
+});
+
+const getUrlError = (value: string, required: boolean) => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return required ? 'Required' : null;
+  }
+  return urlPattern.test(trimmed) ? null : 'Enter a valid http(s) URL';
+};
+
+const getPathError = (value: string, required: boolean) => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return required ? 'Required' : null;
+  }
+  return trimmed.startsWith('/') ? null : 'Paths must start with /';
+};
+
+export const validateEnvironmentForm = (values: EnvironmentFormValues): EnvironmentFormErrors => {
+  const errors: EnvironmentFormErrors = {};
+  const timeout = Number(values.timeoutSeconds.replace(',', '.'));
+  const candidates: EnvironmentFormErrors = {
+    name: values.name.trim() ? undefined : 'Required',
+    baseUrl: getUrlError(values.baseUrl, true) ?? undefined,
+    authPath: getPathError(values.authPath, true) ?? undefined,
+    refreshAuthPath: getPathError(values.refreshAuthPath, false) ?? undefined,
+    ordersHubUrl: getUrlError(values.ordersHubUrl, false) ?? undefined,
+    timeoutSeconds:
+      Number.isFinite(timeout) && timeout >= 1 && timeout <= 300 ? undefined : 'Use between 1 and 300 seconds',
+  };
+
+  (Object.keys(candidates) as Array<keyof EnvironmentFormValues>).forEach((key) => {
+    if (candidates[key]) {
+      errors[key] = candidates[key];
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,25 @@
+import type { Order as OrderModel } from '../../services/erpService';
+import { OrderStatus } from './statusMachine';
+
+export type OrderBoardColumns = Record<OrderStatus, OrderModel[]>;
+
+export const groupOrdersByStatus = (
+  orders: OrderModel[],
+  statuses: readonly OrderStatus[],
+  resolveStatus: (order: OrderModel) => OrderStatus,
+): OrderBoardColumns => {
+  const columns = Object.fromEntries(statuses.map((status) => [status, [] as OrderModel[]])) as OrderBoardColumns;
+  orders.forEach((order) => {
+    columns[resolveStatus(order)]?.push(order);
+  });
+  return columns;
+};
+
+// Columns have a fixed width, so the horizontal drag distance alone tells which column a card was dropped on.
+export const resolveDropColumnIndex = (fromIndex: number, dx: number, columnStride: number, columnCount: number) => {
+  if (columnStride <= 0 || columnCount <= 0) {
+    return fromIndex;
+  }
+  const target = fromIndex + Math.round(dx / columnStride);
+  return Math.min(Math.max(target, 0), columnCount - 1);
+};
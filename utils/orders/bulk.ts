@@ -0,0 +1,74 @@
+import { ORDER_STATUSES, OrderStatus, getNextOrderStatuses } from './statusMachine';
+
+export type OrderBulkAction = 'status' | 'delete' | 'bills';
+
+export type OrderBulkItemState = 'pending' | 'running' | 'success' | 'failed';
+
+export interface OrderBulkItem {
+  id: string | number;
+  state: OrderBulkItemState;
+  error?: string | null;
+}
+
+// Resolves to an error message for the order, or null when it went through.
+export type OrderBulkTask = (id: string | number) => Promise<string | null>;
+
+type CsvValue = string | number | null | undefined;
+
+// Only statuses every selected order may move to, so a bulk change never needs an override.
+export const getCommonNextStatuses = (from: OrderStatus[]): OrderStatus[] => {
+  if (from.length === 0) {
+    return [];
+  }
+  return ORDER_STATUSES.filter((status) => from.every((current) => getNextOrderStatuses(current).includes(status)));
+};
+
+export const createOrderBulkItems = (ids: (string | number)[]): OrderBulkItem[] =>
+  ids.map((id) => ({ id, state: 'pending', error: null }));
+
+export const summarizeOrderBulkItems = (items: OrderBulkItem[]) => ({
+  total: items.length,
+  done: items.filter((item) => item.state === 'success' || item.state === 'failed').length,
+  succeeded: items.filter((item) => item.state === 'success').length,
+  failed: items.filter((item) => item.state === 'failed').length,
+});
+
+// Runs one order at a time so the backend sees the same load as manual edits. Orders that already
+// succeeded are skipped, which makes a second run a retry of the failures.
+export const runOrderBulkTasks = async (
+  items: OrderBulkItem[],
+  task: OrderBulkTask,
+  onUpdate: (items: OrderBulkItem[]) => void,
+) => {
+  let current = items.map((item) => (item.state === 'success' ? item : { ...item, state: 'pending' as const }));
+  onUpdate(current);
+
+  const update = (id: string | number, patch: Partial<OrderBulkItem>) => {
+    current = current.map((item) => (String(item.id) === String(id) ? { ...item, ...patch } : item));
+    onUpdate(current);
+  };
+
+  for (const item of items) {
+    if (item.state === 'success') {
+      continue;
+    }
+    update(item.id, { state: 'running', error: null });
+    let error: string | null;
+    try {
+      error = await task(item.id);
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+    update(item.id, error ? { state: 'failed', error } : { state: 'success', error: null });
+  }
+
+  return current;
+};
+
+const escapeCsvValue = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\n');
@@ -111,6 +111,9 @@ export const resolveOrderItems = (order: OrderModel) => {
   return order.items ?? 0;
 };
 
+export const resolveOrderTotal = (order: OrderModel) =>
+  typeof order.totalValue === 'number' ? order.totalValue : typeof order.total === 'number' ? order.total : 0;
+
 export const resolveCustomerLabel = (customer: CustomerModel | null) => {
   if (!customer) {
     return '';
@@ -0,0 +1,172 @@
+import { OrderLineItem, Product as ProductModel } from '../../services/erpService';
+import {
+  getQuantityError,
+  getValueError,
+  parseNumber,
+  resolveProductValue,
+  sanitizeNumericInput,
+  sanitizeQuantityInput,
+  toIdKey,
+  unitAllowsDecimal,
+} from './helpers';
+
+export type SelectedOrderItem = {
+  product: ProductModel;
+  quantity: string;
+  value: string;
+};
+
+// Highest quantity each product can take, keyed by `toIdKey(productId)`.
+export type OrderStockLimits = Record<string, number>;
+
+export type OrderLineItemsIssue =
+  | { kind: 'quantity' | 'value'; name: string | null; message: string }
+  | { kind: 'invalid'; name: string | null }
+  | { kind: 'stock'; name: string | null; available: number };
+
+export type OrderLineItemsResult =
+  | { ok: true; lines: OrderLineItem[]; totalItems: number; totalValue: number }
+  | { ok: false; issue: OrderLineItemsIssue };
+
+export const addProductToLineItems = (items: SelectedOrderItem[], product: ProductModel): SelectedOrderItem[] => {
+  const existing = items.find((item) => item.product.id === product.id);
+  if (!existing) {
+    return [...items, { product, quantity: '1', value: String(resolveProductValue(product)) }];
+  }
+  return items.map((item) => {
+    if (item.product.id !== product.id) {
+      return item;
+    }
+    const currentQuantity = parseNumber(item.quantity) ?? 0;
+    const allowDecimal = unitAllowsDecimal(item.product.unitOfMeasure);
+    const nextQuantity = allowDecimal ? currentQuantity + 1 : Math.round(currentQuantity + 1);
+    return { ...item, quantity: String(Math.max(allowDecimal ? 0 : 1, nextQuantity)) };
+  });
+};
+
+export const updateLineItemField = (
+  items: SelectedOrderItem[],
+  productId: string | number,
+  field: 'quantity' | 'value',
+  value: string,
+) =>
+  items.map((item) => {
+    if (item.product.id !== productId) {
+      return item;
+    }
+    const sanitized =
+      field === 'quantity' ? sanitizeQuantityInput(value, item.product.unitOfMeasure) : sanitizeNumericInput(value);
+    return { ...item, [field]: sanitized };
+  });
+
+export const removeLineItemFromList = (items: SelectedOrderItem[], productId: string | number) =>
+  items.filter((item) => item.product.id !== productId);
+
+export const summarizeLineItems = (items: SelectedOrderItem[]) => ({
+  items: items.reduce((sum, item) => sum + (parseNumber(item.quantity) ?? 0), 0),
+  total: items.reduce((sum, item) => sum + (parseNumber(item.quantity) ?? 0) * (parseNumber(item.value) ?? 0), 0),
+  hasDecimalItems: items.some((item) => unitAllowsDecimal(item.product.unitOfMeasure)),
+});
+
+export const resolveProductStock = (product?: ProductModel | null) => {
+  const stock = product?.stock ?? product?.storageQuantity;
+  return typeof stock === 'number' && Number.isFinite(stock) ? stock : null;
+};
+
+export const getStockLimit = (item: SelectedOrderItem, limits?: OrderStockLimits) => {
+  if (!limits) {
+    return null;
+  }
+  const limit = limits[toIdKey(item.product.id)];
+  return typeof limit === 'number' ? limit : null;
+};
+
+// What the order already holds was taken out of stock when it was placed, so it can be kept on top of
+// what is still on the shelf.
+export const buildOrderStockLimits = (
+  originalLines: OrderLineItem[],
+  items: SelectedOrderItem[],
+  catalog: ProductModel[],
+): OrderStockLimits => {
+  const reserved = new Map<string, number>();
+  originalLines.forEach((line) => {
+    const key = toIdKey(line.productId);
+    reserved.set(key, (reserved.get(key) ?? 0) + (typeof line.quantity === 'number' ? line.quantity : 0));
+  });
+
+  const limits: OrderStockLimits = {};
+  const register = (product: ProductModel) => {
+    const key = toIdKey(product.id);
+    const stock = resolveProductStock(product);
+    if (stock !== null && limits[key] === undefined) {
+      limits[key] = Math.max(0, stock) + (reserved.get(key) ?? 0);
+    }
+  };
+  catalog.forEach(register);
+  items.forEach((item) => register(item.product));
+  return limits;
+};
+
+export const hasLineItemErrors = (items: SelectedOrderItem[], limits?: OrderStockLimits) =>
+  items.some((item) => {
+    if (getQuantityError(item.quantity, item.product.unitOfMeasure) || getValueError(item.value)) {
+      return true;
+    }
+    const limit = getStockLimit(item, limits);
+    return limit !== null && (parseNumber(item.quantity) ?? 0) > limit;
+  });
+
+export const buildOrderLineItems = (
+  items: SelectedOrderItem[],
+  limits?: OrderStockLimits,
+): OrderLineItemsResult => {
+  const lines: OrderLineItem[] = [];
+  let totalItems = 0;
+  let totalValue = 0;
+  for (const item of items) {
+    const name = item.product.name ?? null;
+    const quantityError = getQuantityError(item.quantity, item.product.unitOfMeasure);
+    if (quantityError) {
+      return { ok: false, issue: { kind: 'quantity', name, message: quantityError } };
+    }
+    const valueError = getValueError(item.value);
+    if (valueError) {
+      return { ok: false, issue: { kind: 'value', name, message: valueError } };
+    }
+    const quantity = parseNumber(item.quantity);
+    const value = parseNumber(item.value);
+    if (quantity === null || value === null) {
+      return { ok: false, issue: { kind: 'invalid', name } };
+    }
+    const limit = getStockLimit(item, limits);
+    if (limit !== null && quantity > limit) {
+      return { ok: false, issue: { kind: 'stock', name, available: limit } };
+    }
+
+    const lineTotal = quantity * value;
+    lines.push({ productId: item.product.id, quantity, value, total: lineTotal, totalValue: lineTotal });
+    totalItems += quantity;
+    totalValue += lineTotal;
+  }
+  return { ok: true, lines, totalItems, totalValue };
+};
+
+// Lines of a saved order as editable rows; products missing from the loaded catalog keep a placeholder.
+export const toSelectedOrderItems = (lines: OrderLineItem[], catalog: ProductModel[]): SelectedOrderItem[] =>
+  lines
+    .filter((line) => line.productId !== undefined && line.productId !== null)
+    .map((line) => {
+      const key = toIdKey(line.productId);
+      const product: ProductModel = catalog.find((entry) => toIdKey(entry.id) === key) ??
+        line.product ?? {
+          id: line.productId,
+          name: `Product #${line.productId}`,
+          category: '',
+          status: '',
+        };
+      return {
+        product,
+        quantity: String(typeof line.quantity === 'number' ? line.quantity : 0),
+        value: String(typeof line.value === 'number' ? line.value : resolveProductValue(product)),
+      };
+    });
@@ -0,0 +1,107 @@
+import { parseDateValue } from '../datetime';
+
+export const ORDER_STATUSES = ['Pending', 'Processing', 'Paid', 'Shipped', 'Delivered', 'Finished'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type OrderStatusRequirement = 'paymentDate' | 'trackingCode';
+
+export interface OrderStatusContext {
+  paymentDate?: string | null;
+  trackingCode?: string | null;
+}
+
+interface OrderStatusRule {
+  next: OrderStatus[];
+  requires?: OrderStatusRequirement[];
+  // Statuses before payment drop any payment recorded on the order.
+  clearsPayment?: boolean;
+}
+
+export const ORDER_STATUS_RULES: Record<OrderStatus, OrderStatusRule> = {
+  Pending: { next: ['Processing', 'Paid'], clearsPayment: true },
+  Processing: { next: ['Pending', 'Paid'], clearsPayment: true },
+  Paid: { next: ['Shipped'], requires: ['paymentDate'] },
+  Shipped: { next: ['Delivered'], requires: ['trackingCode'] },
+  Delivered: { next: ['Finished'] },
+  Finished: { next: [] },
+};
+
+const REQUIREMENT_GUARDS: Record<
+  OrderStatusRequirement,
+  { message: string; test: (context: OrderStatusContext) => boolean }
+> = {
+  paymentDate: {
+    message: 'Payment date is required to mark an order as Paid.',
+    test: (context) => parseDateValue(context.paymentDate) !== null,
+  },
+  trackingCode: {
+    message: 'Tracking code is required to mark an order as Shipped.',
+    test: (context) => !!context.trackingCode?.trim(),
+  },
+};
+
+// New orders start before payment, so they never skip the guards of later statuses.
+export const ORDER_INITIAL_STATUSES: OrderStatus[] = ['Pending', 'Processing'];
+
+export const ORDER_STATUS_OVERRIDE_REASON_MIN_LENGTH = 5;
+
+export const getNextOrderStatuses = (from: OrderStatus) => ORDER_STATUS_RULES[from].next;
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_STATUS_RULES[from].next.includes(to);
+
+export const getOrderStatusRequirements = (to: OrderStatus) => ORDER_STATUS_RULES[to].requires ?? [];
+
+export type OrderStatusChangeCheck = { ok: true; override: boolean } | { ok: false; error: string };
+
+// Overrides lift the transition map only; the target status still needs its data.
+export const checkOrderStatusChange = (
+  from: OrderStatus,
+  to: OrderStatus,
+  context: OrderStatusContext,
+  overrideReason?: string | null,
+): OrderStatusChangeCheck => {
+  if (from === to) {
+    return { ok: false, error: 'Order is already in this status.' };
+  }
+
+  const override = !canTransitionOrderStatus(from, to);
+  if (override) {
+    if (overrideReason === undefined || overrideReason === null) {
+      return { ok: false, error: 'This status change is not allowed.' };
+    }
+    if (overrideReason.trim().length < ORDER_STATUS_OVERRIDE_REASON_MIN_LENGTH) {
+      return { ok: false, error: 'Describe why this status change is needed.' };
+    }
+  }
+
+  for (const requirement of getOrderStatusRequirements(to)) {
+    const guard = REQUIREMENT_GUARDS[requirement];
+    if (!guard.test(context)) {
+      return { ok: false, error: guard.message };
+    }
+  }
+
+  return { ok: true, override };
+};
+
+export interface OrderStatusEffects {
+  payday?: string | null;
+  paymentDate?: string | null;
+  PaymentDate?: string | null;
+  trackingCode?: string | null;
+}
+
+export const resolveOrderStatusEffects = (to: OrderStatus, context: OrderStatusContext): OrderStatusEffects => {
+  if (ORDER_STATUS_RULES[to].clearsPayment) {
+    return { payday: null, paymentDate: null, PaymentDate: null };
+  }
+  if (to === 'Paid') {
+    const paymentDate = parseDateValue(context.paymentDate)?.toISOString() ?? null;
+    return { payday: paymentDate, paymentDate, PaymentDate: paymentDate };
+  }
+  if (to === 'Shipped') {
+    return { trackingCode: context.trackingCode?.trim() || null };
+  }
+  return {};
+};
@@ -0,0 +1,72 @@
+export type OAuthProviderKind = 'microsoft' | 'oidc';
+
+export interface OAuthProvider {
+  id: string;
+  kind: OAuthProviderKind;
+  label: string;
+  clientId: string;
+  // OIDC issuer; endpoints come from its `/.well-known/openid-configuration`.
+  issuer: string;
+  scopes: string[];
+  // Backend route that trades the authorization code for the app's JWT.
+  exchangePath: string;
+  extraParams?: Record<string, string>;
+}
+
+export interface OAuthProviderEnv {
+  microsoftClientId?: string;
+  microsoftTenantId?: string;
+  microsoftScopes?: string;
+  microsoftCodeAuthPath?: string;
+  oidcIssuer?: string;
+  oidcClientId?: string;
+  oidcLabel?: string;
+  oidcScopes?: string;
+  oidcCodeAuthPath?: string;
+}
+
+const DEFAULT_OIDC_SCOPES = ['openid', 'profile', 'email'];
+const DEFAULT_MICROSOFT_SCOPES = [...DEFAULT_OIDC_SCOPES, 'offline_access'];
+
+const clean = (value?: string) => value?.trim() || null;
+
+export const parseOAuthScopes = (value: string | undefined, fallback: string[]) => {
+  const scopes = (value ?? '').split(/[\s,]+/).filter(Boolean);
+  return scopes.length ? Array.from(new Set(scopes)) : fallback;
+};
+
+// Only providers with a client id (and an issuer, for generic OIDC) are offered on the login screen.
+export const resolveOAuthProviders = (env: OAuthProviderEnv): OAuthProvider[] => {
+  const providers: OAuthProvider[] = [];
+
+  const microsoftClientId = clean(env.microsoftClientId);
+  if (microsoftClientId) {
+    const tenant = clean(env.microsoftTenantId) ?? 'common';
+    providers.push({
+      id: 'microsoft',
+      kind: 'microsoft',
+      label: 'Microsoft',
+      clientId: microsoftClientId,
+      issuer: `https://login.microsoftonline.com/${encodeURIComponent(tenant)}/v2.0`,
+      scopes: parseOAuthScopes(env.microsoftScopes, DEFAULT_MICROSOFT_SCOPES),
+      exchangePath: clean(env.microsoftCodeAuthPath) ?? '/User/LoginWithMicrosoftCode',
+      extraParams: { prompt: 'select_account' },
+    });
+  }
+
+  const oidcClientId = clean(env.oidcClientId);
+  const oidcIssuer = clean(env.oidcIssuer)?.replace(/\/+$/, '');
+  if (oidcClientId && oidcIssuer) {
+    providers.push({
+      id: 'oidc',
+      kind: 'oidc',
+      label: clean(env.oidcLabel) ?? 'SSO',
+      clientId: oidcClientId,
+      issuer: oidcIssuer,
+      scopes: parseOAuthScopes(env.oidcScopes, DEFAULT_OIDC_SCOPES),
+      exchangePath: clean(env.oidcCodeAuthPath) ?? '/User/LoginWithOidcCode',
+    });
+  }
+
+  return providers;
+};
@@ -0,0 +1,53 @@
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_RESET_CODE_LENGTH = 6;
+
+export const PASSWORD_STRENGTH_LABELS = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+export type PasswordStrengthLabel = (typeof PASSWORD_STRENGTH_LABELS)[number];
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: PasswordStrengthLabel;
+  checks: {
+    length: boolean;
+    lowercase: boolean;
+    uppercase: boolean;
+    number: boolean;
+    symbol: boolean;
+  };
+}
+
+const COMMON_PASSWORDS = new Set(['password', '12345678', '123456789', 'qwerty123', 'senha123', 'admin123', 'nerv1234']);
+
+export const evaluatePasswordStrength = (password: string): PasswordStrength => {
+  const checks = {
+    length: password.length >= PASSWORD_MIN_LENGTH,
+    lowercase: /[a-z]/.test(password),
+    uppercase: /[A-Z]/.test(password),
+    number: /\d/.test(password),
+    symbol: /[^A-Za-z0-9]/.test(password),
+  };
+
+  if (!checks.length || COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return { score: 0, label: PASSWORD_STRENGTH_LABELS[0], checks };
+  }
+
+  const variety = [checks.lowercase, checks.uppercase, checks.number, checks.symbol].filter(Boolean).length;
+  // Length makes up for a smaller character mix, so a long passphrase still scores well.
+  const lengthBonus = password.length >= 16 ? 2 : password.length >= 12 ? 1 : 0;
+  const score = Math.max(1, Math.min(4, variety - 1 + lengthBonus)) as PasswordStrength['score'];
+  return { score, label: PASSWORD_STRENGTH_LABELS[score], checks };
+};
+
+// Returns the first problem with a new password as an untranslated message, or null when it can be submitted.
+export const validateNewPassword = (password: string, confirmation: string, currentPassword?: string) => {
+  if (evaluatePasswordStrength(password).score < 2) {
+    return 'Choose a stronger password.';
+  }
+  if (password !== confirmation) {
+    return 'Passwords do not match.';
+  }
+  if (currentPassword !== undefined && password === currentPassword) {
+    return 'The new password must be different from the current one.';
+  }
+  return null;
+};
@@ -0,0 +1,12 @@
+export const SESSION_WARNING_LEAD_MS = 5 * 60 * 1000;
+
+// `4:05` style countdown, rounded up so it only reads `0:00` once the time is up.
+export const formatSessionCountdown = (remainingMs: number) => {
+  const totalSeconds = Math.max(Math.ceil(remainingMs / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const isSessionExpiring = (expiresAt: number | null, now = Date.now(), leadMs = SESSION_WARNING_LEAD_MS) =>
+  expiresAt !== null && expiresAt > now && expiresAt - now <= leadMs;
@@ -0,0 +1,182 @@
+export const TWO_FACTOR_METHODS = ['totp', 'email'] as const;
+export type TwoFactorMethod = (typeof TWO_FACTOR_METHODS)[number];
+
+export const TWO_FACTOR_CODE_LENGTH = 6;
+const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  method: TwoFactorMethod;
+  methods: TwoFactorMethod[];
+  // Masked address the email code went to, e.g. `m****@nerv.jp`.
+  destination: string | null;
+  expiresAt: number;
+  username?: string | null;
+}
+
+export interface TwoFactorSetup {
+  method: TwoFactorMethod;
+  secret: string | null;
+  otpauthUrl: string | null;
+  qrCodeImage: string | null;
+}
+
+export interface RememberedDevice {
+  id: string;
+  name: string;
+  lastUsedAt: string | null;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorMethod | null;
+  recoveryCodesLeft: number | null;
+  devices: RememberedDevice[];
+}
+
+const asRecord = (value: unknown): Record<string, any> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, any>) : null;
+
+const pickFirstString = (...values: unknown[]) => {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return null;
+};
+
+export const normalizeTwoFactorMethod = (value: unknown): TwoFactorMethod | null => {
+  const raw = String(value ?? '').trim().toLowerCase();
+  if (!raw) {
+    return null;
+  }
+  if (['totp', 'authenticator', 'app', 'authenticatorapp', '0'].includes(raw)) {
+    return 'totp';
+  }
+  if (['email', 'mail', 'emailcode', '1'].includes(raw)) {
+    return 'email';
+  }
+  return null;
+};
+
+const readMethods = (...values: unknown[]) => {
+  const methods = new Set<TwoFactorMethod>();
+  values.forEach((value) => {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,;|]+/) : [value];
+    list.forEach((entry) => {
+      const method = normalizeTwoFactorMethod(entry);
+      if (method) {
+        methods.add(method);
+      }
+    });
+  });
+  return TWO_FACTOR_METHODS.filter((method) => methods.has(method));
+};
+
+// Login endpoints answer a pending second factor with a challenge instead of a token, either with 200 or 401.
+export const readTwoFactorChallenge = (data: unknown, now = Date.now()): TwoFactorChallenge | null => {
+  const record = asRecord(data);
+  if (!record) {
+    return null;
+  }
+
+  const required = Boolean(
+    record.requiresTwoFactor ??
+      record.twoFactorRequired ??
+      record.requires2FA ??
+      record.mfaRequired ??
+      record.RequiresTwoFactor,
+  );
+  const challengeToken = pickFirstString(
+    record.challengeToken,
+    record.twoFactorToken,
+    record.mfaToken,
+    record.ChallengeToken,
+  );
+  if (!required || !challengeToken) {
+    return null;
+  }
+
+  const methods = readMethods(record.methods, record.providers, record.twoFactorMethods, record.method);
+  const method = normalizeTwoFactorMethod(record.method ?? record.preferredMethod) ?? methods[0] ?? 'totp';
+  const expiresIn = Number(record.expiresIn ?? record.challengeExpiresIn);
+
+  return {
+    challengeToken,
+    method,
+    methods: methods.length ? methods : [method],
+    destination: pickFirstString(record.destination, record.maskedEmail, record.email),
+    expiresAt: now + (Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 1000 : DEFAULT_CHALLENGE_TTL_MS),
+  };
+};
+
+export const isChallengeActive = (challenge: TwoFactorChallenge | null, now = Date.now()) =>
+  Boolean(challenge && challenge.challengeToken && challenge.expiresAt > now);
+
+export const readRememberedDeviceToken = (data: unknown) => {
+  const record = asRecord(data);
+  return record ? pickFirstString(record.deviceToken, record.rememberedDeviceToken, record.trustedDeviceToken) : null;
+};
+
+export const readRecoveryCodes = (data: unknown): string[] => {
+  const record = asRecord(data);
+  const list = Array.isArray(data) ? data : record?.recoveryCodes ?? record?.codes ?? [];
+  return Array.isArray(list) ? list.map((code) => String(code ?? '').trim()).filter(Boolean) : [];
+};
+
+export const readTwoFactorSetup = (data: unknown, method: TwoFactorMethod): TwoFactorSetup => {
+  const record = asRecord(data) ?? {};
+  const otpauthUrl = pickFirstString(record.otpauthUrl, record.otpAuthUrl, record.authenticatorUri, record.uri);
+  const secretFromUrl = otpauthUrl ? /[?&]secret=([^&]+)/i.exec(otpauthUrl)?.[1] ?? null : null;
+  const qrCodeImage = pickFirstString(record.qrCodeImage, record.qrCode, record.qrCodeDataUrl);
+
+  return {
+    method,
+    secret: pickFirstString(record.secret, record.sharedKey, record.manualEntryKey, secretFromUrl),
+    otpauthUrl,
+    // Only images the backend rendered are shown; raw otpauth URLs are offered as a link instead.
+    qrCodeImage: qrCodeImage && /^(data:image\/|https?:\/\/)/i.test(qrCodeImage) ? qrCodeImage : null,
+  };
+};
+
+const readDevice = (value: unknown): RememberedDevice | null => {
+  const record = asRecord(value);
+  const rawId = record?.id ?? record?.deviceId ?? record?.Id;
+  const id = rawId != null ? String(rawId).trim() : '';
+  if (!record || !id) {
+    return null;
+  }
+  return {
+    id,
+    name: pickFirstString(record.name, record.deviceName, record.userAgent) ?? 'Unknown device',
+    lastUsedAt: pickFirstString(record.lastUsedAt, record.lastSeenAt, record.createdAt),
+    current: Boolean(record.current ?? record.isCurrent),
+  };
+};
+
+export const readTwoFactorStatus = (data: unknown): TwoFactorStatus => {
+  const record = asRecord(data) ?? {};
+  const recoveryCodesLeft = Number(record.recoveryCodesLeft ?? record.remainingRecoveryCodes);
+  const rawDevices = record.devices ?? record.rememberedDevices;
+  const devices = Array.isArray(rawDevices)
+    ? rawDevices.map(readDevice).filter((device): device is RememberedDevice => Boolean(device))
+    : [];
+
+  return {
+    enabled: Boolean(record.enabled ?? record.isEnabled ?? record.twoFactorEnabled),
+    method: normalizeTwoFactorMethod(record.method ?? record.provider),
+    recoveryCodesLeft: Number.isFinite(recoveryCodesLeft) ? recoveryCodesLeft : null,
+    devices,
+  };
+};
+
+// Groups a base32 secret as `ABCD EFGH ...` so it can be typed into an authenticator by hand.
+export const formatTwoFactorSecret = (secret: string) =>
+  secret
+    .replace(/\s+/g, '')
+    .toUpperCase()
+    .replace(/(.{4})/g, '$1 ')
+    .trim();
+
@@ -8,5 +8,9 @@ export const sidebarModules = [
   { id: 'forecast', label: 'Forecast', icon: 'trending-up' },
   { id: 'employees', label: 'Employees', icon: 'briefcase' },
   { id: 'reports', label: 'Reports', icon: 'file-text' },
+  { id: 'users', label: 'Users', icon: 'user-check' },
   { id: 'profile', label: 'Profile', icon: 'user' },
 ] as const;
+
+// Only listed in development builds.
+export const developerModules = [{ id: 'diagnostics', label: 'Diagnostics', icon: 'activity' }] as const;
@@ -0,0 +1,57 @@
+import { UserAccount, UserFilter } from '../../services/erpService';
+import { AccessRole, accessRoleIndex } from '../access';
+import { getEmailError, getNameError } from '../customers/validation';
+
+export type UserStatusFilter = 'all' | 'active' | 'invited' | 'inactive';
+export type UserRoleFilter = AccessRole | 'all';
+
+export type UserInviteValues = {
+  email: string;
+  name: string;
+  role: AccessRole;
+};
+
+export type UserInviteErrors = {
+  email: string | null;
+  name: string | null;
+};
+
+export const ROLE_LABELS: Record<AccessRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  supervisor: 'Supervisor',
+  employee: 'Employee',
+};
+
+export const emptyUserInviteValues = (): UserInviteValues => ({
+  email: '',
+  name: '',
+  role: 'employee',
+});
+
+// An address goes to the email filter, anything else to the name filter.
+export const buildUserFilter = (
+  searchTerm: string,
+  role: UserRoleFilter,
+  enterpriseId?: string | null,
+): UserFilter => {
+  const trimmed = searchTerm.trim();
+  return {
+    ...(trimmed ? (trimmed.includes('@') ? { email: trimmed } : { name: trimmed }) : {}),
+    ...(role === 'all' ? {} : { role: accessRoleIndex(role) }),
+    ...(enterpriseId ? { enterpriseId } : {}),
+  };
+};
+
+export const filterUsersByStatus = (users: UserAccount[], status: UserStatusFilter) =>
+  status === 'all' ? users : users.filter((user) => (user.status ?? 'Active').toLowerCase() === status);
+
+export const getUserInviteErrors = (values: UserInviteValues): UserInviteErrors => ({
+  email: values.email.trim() ? getEmailError(values.email) : 'Email is required',
+  name: getNameError(values.name),
+});
+
+export const hasUserInviteErrors = (errors: UserInviteErrors) => Boolean(errors.email || errors.name);
+
+export const resolveUserDisplayName = (user: UserAccount) =>
+  user.name?.trim() || user.email?.split('@')[0] || 'Unnamed user';